@@ -8,71 +8,108 @@
  *   cd backend
  *   npx tsx scripts/backfill.ts --from-block 7800000 --to-block 7900000
  *
+ * Optional: --chunk-size <N> overrides LOG_CHUNK_SIZE (1 = block-by-block)
+ * Optional: --chain <id|name> — required when more than one chain is configured
+ *
+ * Parallel mode — segments fetched by a worker pool, applied in block order,
+ * checkpointed per segment in BackfillSegment (see src/indexer/parallel-backfill.ts).
+ * Re-running the same command after an interruption resumes from the checkpoints:
+ *   npx tsx scripts/backfill.ts --from-block 7800000 --to-block latest --parallel
+ *
+ *   --workers <N>       concurrent segment fetches (default 4)
+ *   --segment-size <N>  blocks per segment (default 10000)
+ *   --restart           drop the range's checkpoints and fetch everything again
+ *
  * With Railway env:
  *   railway run npx tsx scripts/backfill.ts --from-block 7800000 --to-block 7900000
  */
 
 import "dotenv/config"
 import { prisma } from "../src/lib/db"
-import { client, CONFIRMATIONS, DEPLOYMENT_BLOCK } from "../src/lib/rpc"
+import { CHAINS, getChain, isConfiguredChain, parseChainParam } from "../src/lib/chains"
 import { processBlockRange } from "../src/indexer/block-processor"
+import { parallelBackfill } from "../src/indexer/parallel-backfill"
 import { logger } from "../src/lib/logger"
-import type { MarketConfig } from "../src/indexer/listener"
+import { toMarketConfig } from "../src/indexer/listener"
 
 async function main() {
   // Parse CLI args
   const args = process.argv.slice(2)
   const fromArg = args.indexOf("--from-block")
   const toArg   = args.indexOf("--to-block")
+  const chunkArg = args.indexOf("--chunk-size")
+  const chainArg = args.indexOf("--chain")
+  const workersArg = args.indexOf("--workers")
+  const segmentArg = args.indexOf("--segment-size")
 
   if (fromArg === -1 || toArg === -1) {
-    console.error("Usage: npx tsx scripts/backfill.ts --from-block <N> --to-block <N>")
+    console.error("Usage: npx tsx scripts/backfill.ts --from-block <N> --to-block <N> [--chain <id|name>]")
     process.exit(1)
   }
 
+  const chainId = chainArg !== -1 ? parseChainParam(args[chainArg + 1]) : undefined
+  if (chainId === undefined && CHAINS.length > 1) {
+    console.error(`--chain is required with several chains configured (${CHAINS.map((c) => c.name).join(", ")})`)
+    process.exit(1)
+  }
+  if (chainId === null || (chainId !== undefined && !isConfiguredChain(chainId))) {
+    console.error(`Unknown or unconfigured chain: ${args[chainArg + 1]}`)
+    process.exit(1)
+  }
+  const chain = chainId !== undefined ? getChain(chainId) : CHAINS[0]
+
   const fromBlock = BigInt(args[fromArg + 1])
   const toArgVal  = args[toArg + 1]
 
   // Support "latest" as to-block
   let toBlock: bigint
   if (toArgVal === "latest") {
-    const currentBlock = await client.getBlockNumber()
-    toBlock = currentBlock - BigInt(CONFIRMATIONS)
+    const currentBlock = await chain.client.getBlockNumber()
+    toBlock = currentBlock - BigInt(chain.confirmations)
     logger.info({ toBlock: Number(toBlock) }, "[backfill] Resolved 'latest' to confirmed head")
   } else {
     toBlock = BigInt(toArgVal)
   }
 
-  if (fromBlock < DEPLOYMENT_BLOCK) {
+  if (fromBlock < chain.deploymentBlock) {
     logger.warn(
-      { fromBlock: Number(fromBlock), deploymentBlock: Number(DEPLOYMENT_BLOCK) },
+      { fromBlock: Number(fromBlock), deploymentBlock: Number(chain.deploymentBlock) },
       "[backfill] from-block is before deployment block — clamping"
     )
   }
 
-  // Load active markets
-  const markets = await prisma.market.findMany({ where: { isActive: true } })
+  // Load active markets on this chain
+  const markets = await prisma.market.findMany({ where: { isActive: true, chainId: chain.chainId } })
   if (markets.length === 0) {
     logger.error("[backfill] No active markets found. Run seed first.")
     process.exit(1)
   }
 
-  const marketConfigs: MarketConfig[] = markets.map((m) => ({
-    marketId:            m.id,
-    vaultAddress:        m.vaultAddress        as `0x${string}`,
-    marketAddress:       m.marketAddress       as `0x${string}`,
-    irmAddress:          m.irmAddress          as `0x${string}`,
-    oracleRouterAddress: m.oracleRouterAddress  as `0x${string}`,
-    loanAsset:           m.loanAsset           as `0x${string}`,
-    loanAssetDecimals:   m.loanAssetDecimals,
-  }))
+  const marketConfigs = markets.map(toMarketConfig)
 
   logger.info(
-    { from: Number(fromBlock), to: Number(toBlock), markets: marketConfigs.length },
+    { chainId: chain.chainId, from: Number(fromBlock), to: Number(toBlock), markets: marketConfigs.length },
     "[backfill] Starting"
   )
 
-  await processBlockRange(fromBlock, toBlock, marketConfigs)
+  if (args.includes("--parallel")) {
+    const workers     = workersArg !== -1 ? Number(args[workersArg + 1]) : 4
+    const segmentSize = segmentArg !== -1 ? Number(args[segmentArg + 1]) : 10_000
+    if (!Number.isInteger(workers) || workers < 1 || !Number.isInteger(segmentSize) || segmentSize < 1) {
+      console.error("--workers and --segment-size must be positive integers")
+      process.exit(1)
+    }
+
+    await parallelBackfill(chain, fromBlock, toBlock, marketConfigs, {
+      workers,
+      segmentSize,
+      restart: args.includes("--restart"),
+    })
+  } else {
+    await processBlockRange(chain, fromBlock, toBlock, marketConfigs, {
+      chunkSize: chunkArg !== -1 ? Number(args[chunkArg + 1]) : undefined,
+    })
+  }
 
   logger.info("[backfill] Done")
   await prisma.$disconnect()
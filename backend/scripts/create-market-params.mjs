@@ -1,7 +1,8 @@
 /**
  * create-market-params.mjs
  * -------------------------
- * Creates the MarketParams table in Postgres (if it doesn't exist).
+ * Creates the MarketParams table in Postgres (if it doesn't exist) and adds
+ * columns introduced since (governance state, updated_at_block).
  * Run once after adding the model to the Prisma schema:
  *   node scripts/create-market-params.mjs
  */
@@ -54,6 +55,15 @@ try {
   `)
   console.log('✓ "MarketParams" table created (or already existed)')
 
+  // Columns added for chain-event sync — idempotent
+  await client.query(`
+    ALTER TABLE "MarketParams"
+      ADD COLUMN IF NOT EXISTS borrowing_paused BOOLEAN     NOT NULL DEFAULT FALSE,
+      ADD COLUMN IF NOT EXISTS guardian         VARCHAR(42),
+      ADD COLUMN IF NOT EXISTS updated_at_block INTEGER
+  `)
+  console.log('✓ "MarketParams" governance columns present')
+
   // Verify
   const r = await client.query(`
     SELECT COUNT(*) FROM information_schema.tables
@@ -0,0 +1,372 @@
+/**
+ * import-deployments.ts
+ * ---------------------
+ * Derives the market manifest from Foundry deployment artifacts and syncs the
+ * Market table with it. Replaces the hand-copied address lists.
+ *
+ * Sources, per chain id directory:
+ *   broadcast/DeployAll.s.sol/<chainId>/run-latest.json      first market, oracle router, mock tokens
+ *   broadcast/DeployMarkets.s.sol/<chainId>/run-latest.json  further markets
+ *   deployments/*.json                                      hand-maintained address books
+ *
+ * A market is the MarketV1 proxy whose initialize() call names its vault,
+ * oracle router, IRM and loan asset. Broadcast runs are what forge actually
+ * sent, so they win: deployments/*.json is only imported for chains without
+ * broadcast runs, and every address it lists that the runs don't back up is
+ * reported.
+ *
+ * Output:
+ *   - frontend/src/lib/markets.manifest.json — read by the frontend vault registry
+ *   - the difference between the manifest and the Market table
+ *   - with --apply, Market rows upserted on (chainId, vaultAddress); label,
+ *     symbol and isActive of existing rows are left alone
+ *
+ * Usage:
+ *   cd backend
+ *   npx tsx scripts/import-deployments.ts            # write manifest, diff against DB
+ *   npx tsx scripts/import-deployments.ts --apply    # ... and upsert Market rows
+ *   npx tsx scripts/import-deployments.ts --check    # exit 1 if the manifest is stale (no DB)
+ */
+
+import "dotenv/config"
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "fs"
+import { resolve } from "path"
+import { decodeFunctionData, getAddress, isAddressEqual, type Address } from "viem"
+
+const ROOT          = resolve(__dirname, "../..")
+const MANIFEST_PATH = resolve(ROOT, "frontend/src/lib/markets.manifest.json")
+
+// Scripts whose runs create markets, in deployment order
+const DEPLOY_SCRIPTS = ["DeployAll.s.sol", "DeployMarkets.s.sol"]
+
+const MARKET_INITIALIZE_ABI = [
+  {
+    inputs: [
+      { name: "_badDebtAddress",    type: "address" },
+      { name: "_protocolTreasury",  type: "address" },
+      { name: "_vaultContract",     type: "address" },
+      { name: "_oracleRouter",      type: "address" },
+      { name: "_interestRateModel", type: "address" },
+      { name: "_loanAsset",         type: "address" },
+      { name: "_owner",             type: "address" },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const
+
+export interface ManifestMarket {
+  chainId: number
+  symbol: string
+  label: string
+  vaultAddress: Address
+  marketAddress: Address
+  irmAddress: Address
+  oracleRouterAddress: Address
+  loanAsset: Address
+  loanAssetDecimals: number
+  /** Block the market proxy was created in, when the run recorded receipts */
+  deploymentBlock: number | null
+  /** Artifact the market was derived from, relative to the repo root */
+  source: string
+}
+
+interface BroadcastTx {
+  transactionType: string
+  contractName: string | null
+  contractAddress: string | null
+  arguments: string[] | null
+}
+
+interface BroadcastRun {
+  transactions: BroadcastTx[]
+  receipts: Array<{ contractAddress: string | null; blockNumber: string }>
+}
+
+interface AddressBook {
+  chainId: number
+  contracts: Record<string, { address: string; type?: string }>
+}
+
+// ─── Broadcast runs ──────────────────────────────────────────────────────────
+
+function chainDirs(script: string): number[] {
+  const dir = resolve(ROOT, "broadcast", script)
+  if (!existsSync(dir)) return []
+  return readdirSync(dir)
+    .filter((d) => /^\d+$/.test(d) && existsSync(resolve(dir, d, "run-latest.json")))
+    .map(Number)
+}
+
+/**
+ * Markets created by one run. `tokens` collects MockERC20 metadata across runs
+ * — DeployMarkets reuses the tokens DeployAll created.
+ */
+function marketsFromRun(
+  chainId: number,
+  script: string,
+  tokens: Map<string, { symbol: string; decimals: number }>
+): ManifestMarket[] {
+  const source = `broadcast/${script}/${chainId}/run-latest.json`
+  const run    = JSON.parse(readFileSync(resolve(ROOT, source), "utf8")) as BroadcastRun
+  const creates = run.transactions.filter((t) => t.transactionType === "CREATE" && t.contractAddress)
+
+  for (const tx of creates) {
+    if (tx.contractName === "MockERC20" && tx.arguments) {
+      const [, symbol, decimals] = tx.arguments
+      tokens.set(tx.contractAddress!.toLowerCase(), { symbol, decimals: Number(decimals) })
+    }
+  }
+
+  const markets: ManifestMarket[] = []
+  for (const tx of creates) {
+    if (tx.contractName !== "ERC1967Proxy" || !tx.arguments?.[1]) continue
+
+    let init
+    try {
+      init = decodeFunctionData({ abi: MARKET_INITIALIZE_ABI, data: tx.arguments[1] as `0x${string}` })
+    } catch {
+      continue // A proxy for something other than MarketV1
+    }
+
+    const [, , vault, oracleRouter, irm, loanAsset] = init.args
+    const token   = tokens.get(loanAsset.toLowerCase())
+    const receipt = run.receipts.find((r) => r.contractAddress?.toLowerCase() === tx.contractAddress!.toLowerCase())
+
+    if (!token) {
+      console.warn(`[import] ${source}: loan asset ${loanAsset} was not created by a broadcast run — skipped`)
+      continue
+    }
+
+    markets.push({
+      chainId,
+      symbol:              token.symbol,
+      label:               `${token.symbol} Market`,
+      vaultAddress:        getAddress(vault),
+      marketAddress:       getAddress(tx.contractAddress!),
+      irmAddress:          getAddress(irm),
+      oracleRouterAddress: getAddress(oracleRouter),
+      loanAsset:           getAddress(loanAsset),
+      loanAssetDecimals:   token.decimals,
+      deploymentBlock:     receipt ? Number(BigInt(receipt.blockNumber)) : null,
+      source,
+    })
+  }
+
+  return markets
+}
+
+// ─── deployments/*.json ──────────────────────────────────────────────────────
+
+function readAddressBooks(): Array<{ file: string; book: AddressBook }> {
+  const dir = resolve(ROOT, "deployments")
+  if (!existsSync(dir)) return []
+  return readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .sort()
+    .map((f) => ({ file: `deployments/${f}`, book: JSON.parse(readFileSync(resolve(dir, f), "utf8")) as AddressBook }))
+}
+
+/** One market from an address book, or the reason it can't be built. */
+function marketFromBook(file: string, book: AddressBook): ManifestMarket | string {
+  const c = book.contracts
+  const market = c.MarketProxy ?? (c.MarketV1?.type !== "implementation" ? c.MarketV1 : undefined)
+  const missing = [
+    !market && "MarketProxy",
+    !c.Vault && "Vault",
+    !c.InterestRateModel && "InterestRateModel",
+    !c.OracleRouter && "OracleRouter",
+    !c.LoanAsset && "LoanAsset",
+  ].filter(Boolean)
+  if (missing.length > 0) return `missing ${missing.join(", ")}`
+
+  const decimals = Number((c.LoanAsset as { decimals?: number }).decimals)
+  const symbol   = (c.LoanAsset as { symbol?: string }).symbol
+  if (!Number.isInteger(decimals) || !symbol) return "LoanAsset needs symbol and decimals"
+
+  return {
+    chainId:             book.chainId,
+    symbol,
+    label:               `${symbol} Market`,
+    vaultAddress:        getAddress(c.Vault.address),
+    marketAddress:       getAddress(market!.address),
+    irmAddress:          getAddress(c.InterestRateModel.address),
+    oracleRouterAddress: getAddress(c.OracleRouter.address),
+    loanAsset:           getAddress(c.LoanAsset.address),
+    loanAssetDecimals:   decimals,
+    deploymentBlock:     null,
+    source:              file,
+  }
+}
+
+/** Roles the address book may name, and the manifest field each maps to. */
+const BOOK_ROLES: Record<string, keyof ManifestMarket> = {
+  MarketProxy:       "marketAddress",
+  Vault:             "vaultAddress",
+  InterestRateModel: "irmAddress",
+  OracleRouter:      "oracleRouterAddress",
+}
+
+// ─── Manifest ────────────────────────────────────────────────────────────────
+
+function buildManifest(): ManifestMarket[] {
+  const markets: ManifestMarket[] = []
+  const chainsWithRuns = new Set<number>()
+
+  const chainIds = [...new Set(DEPLOY_SCRIPTS.flatMap(chainDirs))].sort((a, b) => a - b)
+  for (const chainId of chainIds) {
+    const tokens = new Map<string, { symbol: string; decimals: number }>()
+    for (const script of DEPLOY_SCRIPTS) {
+      if (!chainDirs(script).includes(chainId)) continue
+      markets.push(...marketsFromRun(chainId, script, tokens))
+      chainsWithRuns.add(chainId)
+    }
+  }
+
+  for (const { file, book } of readAddressBooks()) {
+    if (chainsWithRuns.has(book.chainId)) {
+      // Report every address the broadcast runs don't back up
+      for (const [role, field] of Object.entries(BOOK_ROLES)) {
+        const entry = book.contracts[role]
+        if (!entry) continue
+        const known = markets.some(
+          (m) => m.chainId === book.chainId && isAddressEqual(m[field] as Address, entry.address as Address)
+        )
+        if (!known) {
+          console.warn(`[import] ${file}: ${role} ${entry.address} is not in any broadcast run for chain ${book.chainId}`)
+        }
+      }
+      continue
+    }
+
+    const market = marketFromBook(file, book)
+    if (typeof market === "string") {
+      console.warn(`[import] ${file}: ${market} — skipped`)
+    } else {
+      markets.push(market)
+    }
+  }
+
+  return markets
+}
+
+function serializeManifest(markets: ManifestMarket[]): string {
+  const manifest = {
+    $comment: "Generated by backend/scripts/import-deployments.ts from broadcast/ and deployments/ — do not edit",
+    markets,
+  }
+  return JSON.stringify(manifest, null, 2) + "\n"
+}
+
+// ─── DB diff ─────────────────────────────────────────────────────────────────
+
+const COMPARED_FIELDS = ["marketAddress", "irmAddress", "oracleRouterAddress", "loanAsset", "loanAssetDecimals"] as const
+
+async function syncDatabase(markets: ManifestMarket[], apply: boolean): Promise<void> {
+  // Loaded here so --check runs without DATABASE_URL
+  const { prisma } = await import("../src/lib/db")
+  try {
+    await diffMarkets(prisma, markets, apply)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+async function diffMarkets(
+  prisma: typeof import("../src/lib/db").prisma,
+  markets: ManifestMarket[],
+  apply: boolean
+): Promise<void> {
+  const rows = await prisma.market.findMany()
+  const seen = new Set<string>()
+
+  for (const m of markets) {
+    const row = rows.find((r) => r.chainId === m.chainId && isAddressEqual(r.vaultAddress as Address, m.vaultAddress))
+    const tag = `${m.symbol}@${m.chainId} vault ${m.vaultAddress}`
+
+    if (!row) {
+      console.log(`+ ${tag} — not in DB`)
+      if (apply) {
+        await prisma.market.create({
+          data: {
+            chainId:             m.chainId,
+            vaultAddress:        m.vaultAddress,
+            marketAddress:       m.marketAddress,
+            irmAddress:          m.irmAddress,
+            oracleRouterAddress: m.oracleRouterAddress,
+            loanAsset:           m.loanAsset,
+            loanAssetDecimals:   m.loanAssetDecimals,
+            label:               m.label,
+            symbol:              m.symbol,
+            isActive:            true,
+          },
+        })
+      }
+      continue
+    }
+
+    seen.add(row.id)
+    const changed = COMPARED_FIELDS.filter((f) =>
+      typeof m[f] === "string"
+        ? !isAddressEqual(row[f] as Address, m[f] as Address)
+        : row[f] !== m[f]
+    )
+
+    if (changed.length === 0) {
+      console.log(`= ${tag}`)
+      continue
+    }
+
+    for (const f of changed) console.log(`~ ${tag} — ${f}: ${row[f]} → ${m[f]}`)
+    if (apply) {
+      await prisma.market.update({
+        where: { id: row.id },
+        data:  Object.fromEntries(changed.map((f) => [f, m[f]])),
+      })
+    }
+  }
+
+  for (const row of rows) {
+    if (seen.has(row.id)) continue
+    console.log(`- ${row.symbol}@${row.chainId} vault ${row.vaultAddress} — in DB${row.isActive ? " (active)" : ""} but not in the manifest`)
+  }
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args  = process.argv.slice(2)
+  const apply = args.includes("--apply")
+  const check = args.includes("--check")
+
+  const markets  = buildManifest()
+  const manifest = serializeManifest(markets)
+  console.log(`[import] ${markets.length} market(s) in manifest`)
+
+  if (check) {
+    const current = existsSync(MANIFEST_PATH) ? readFileSync(MANIFEST_PATH, "utf8") : ""
+    if (current !== manifest) {
+      console.error("[import] frontend/src/lib/markets.manifest.json is stale — re-run without --check")
+      process.exit(1)
+    }
+    console.log("[import] Manifest is up to date")
+    return
+  }
+
+  writeFileSync(MANIFEST_PATH, manifest)
+  console.log("[import] Wrote frontend/src/lib/markets.manifest.json")
+
+  await syncDatabase(markets, apply)
+  console.log(
+    apply
+      ? "[import] Applied. A running backend picks new markets up on restart (POST /admin/markets hot-reloads)."
+      : "[import] Dry run — re-run with --apply to upsert"
+  )
+}
+
+main().catch((err) => {
+  console.error("[import] Error:", err)
+  process.exit(1)
+})
@@ -0,0 +1,60 @@
+/**
+ * migrate-multichain.mjs
+ * ----------------------
+ * Adds the chainId column to tables that predate the chain registry and
+ * backfills existing rows with CHAIN_ID (default Sepolia), so `prisma db push`
+ * can then apply the new NOT NULL columns, composite keys and unique indexes
+ * without dropping data. Idempotent. Run once before pushing the schema:
+ *   node scripts/migrate-multichain.mjs && npm run prisma:push
+ */
+
+import pg from "pg"
+import { readFileSync } from "fs"
+import { resolve, dirname } from "path"
+import { fileURLToPath } from "url"
+
+const __dir = dirname(fileURLToPath(import.meta.url))
+
+// Load DATABASE_URL / CHAIN_ID from ../.env if present
+const envPath = resolve(__dir, "../.env")
+try {
+  const raw = readFileSync(envPath, "utf8")
+  for (const line of raw.split("\n")) {
+    const m = line.match(/^([A-Z_]+)\s*=\s*"?([^"]*)"?$/)
+    if (m) process.env[m[1]] ??= m[2]
+  }
+} catch { /* .env not found — use env vars already in process */ }
+
+const url = process.env.DATABASE_URL
+if (!url) {
+  console.error("DATABASE_URL is not set")
+  process.exit(1)
+}
+
+const chainId = Number(process.env.CHAIN_ID ?? 11155111)
+
+const { Client } = pg
+const client = new Client({ connectionString: url })
+await client.connect()
+
+try {
+  for (const table of ["Market", "IndexedBlock", "OracleEvent"]) {
+    const exists = await client.query(
+      "SELECT 1 FROM information_schema.tables WHERE table_name = $1",
+      [table]
+    )
+    if (exists.rowCount === 0) {
+      console.log(`- "${table}" does not exist yet — prisma db push will create it`)
+      continue
+    }
+
+    await client.query(`ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "chainId" INTEGER`)
+    const r = await client.query(`UPDATE "${table}" SET "chainId" = $1 WHERE "chainId" IS NULL`, [chainId])
+    console.log(`✓ "${table}".chainId present — ${r.rowCount} row(s) backfilled with ${chainId}`)
+  }
+} catch (err) {
+  console.error("Error:", err.message)
+  process.exit(1)
+} finally {
+  await client.end()
+}
@@ -1,11 +1,15 @@
 /**
  * reindex.ts
  * ----------
- * Full reindex: drops all derived tables, resets SyncState, replays from DEPLOYMENT_BLOCK.
+ * Full reindex: drops all derived tables, resets SyncState, replays every
+ * configured chain from its deployment block, one chain after the other.
  * After this, DB state is a pure function of chain state.
  *
- * ⚠️  DESTRUCTIVE — deletes all MarketSnapshot, UserPositionSnapshot, LiquidationEvent,
- *     IndexedBlock records. Markets table is preserved.
+ * ⚠️  DESTRUCTIVE — deletes all MarketSnapshot, UserPositionSnapshot, UserPosition,
+ *     UserCollateralBalance, LiquidationEvent, BadDebtEvent, InterestEvent,
+ *     RevenueDaily, LenderFlow, OracleEvent, ProtocolEvent, FailedBlock,
+ *     IndexedBlock and BackfillSegment records on all chains. Markets table is
+ *     preserved.
  *
  * Usage:
  *   cd backend
@@ -13,15 +17,22 @@
  *
  * Pass --yes to skip the confirmation prompt (for CI use):
  *   railway run npx tsx scripts/reindex.ts --yes
+ *
+ * Partial reindex of one market over a block range — deletes and rebuilds only
+ * that market's liquidations, lender flows and event-sourced snapshots and
+ * positions, and leaves SyncState alone (see src/indexer/reindex.ts). Re-run
+ * the same command after a crash to resume from the last checkpoint:
+ *   railway run npx tsx scripts/reindex.ts --market <marketId> --from <block> --to <block>
  */
 
 import "dotenv/config"
 import * as readline from "readline"
 import { prisma } from "../src/lib/db"
-import { client, CONFIRMATIONS, DEPLOYMENT_BLOCK } from "../src/lib/rpc"
+import { CHAINS } from "../src/lib/chains"
 import { processBlockRange } from "../src/indexer/block-processor"
 import { logger } from "../src/lib/logger"
-import type { MarketConfig } from "../src/indexer/listener"
+import { toMarketConfig } from "../src/indexer/listener"
+import { prepareMarketReindex, runMarketReindex } from "../src/indexer/reindex"
 
 async function confirm(prompt: string): Promise<boolean> {
   if (process.argv.includes("--yes")) return true
@@ -35,10 +46,55 @@ async function confirm(prompt: string): Promise<boolean> {
   })
 }
 
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag)
+  return i === -1 ? undefined : process.argv[i + 1]
+}
+
+async function reindexMarket(marketId: string) {
+  const fromBlock = Number(argValue("--from"))
+  const toBlock   = Number(argValue("--to"))
+  if (!Number.isInteger(fromBlock) || !Number.isInteger(toBlock)) {
+    logger.error("[reindex] --market requires --from <block> and --to <block>")
+    process.exit(1)
+  }
+
+  const row = await prisma.market.findUnique({ where: { id: marketId } })
+  if (!row) {
+    logger.error({ marketId }, "[reindex] Market not found")
+    process.exit(1)
+  }
+
+  console.log("\n⚠️  MARKET REINDEX")
+  console.log(`This will DELETE ${row.label} (${row.id}) liquidations, lender flows and`)
+  console.log(`event-sourced snapshots in blocks ${fromBlock}-${toBlock}, then replay them.`)
+  console.log("An unfinished job for the same range is resumed instead.\n")
+
+  const ok = await confirm("Are you sure?")
+  if (!ok) {
+    console.log("Aborted.")
+    process.exit(0)
+  }
+
+  const market = toMarketConfig(row)
+  const job    = await prepareMarketReindex(market, fromBlock, toBlock)
+  await runMarketReindex(job, market)
+
+  logger.info({ jobId: job.id }, "[reindex] Done")
+  await prisma.$disconnect()
+}
+
 async function main() {
+  const marketId = argValue("--market")
+  if (marketId) return reindexMarket(marketId)
+
   console.log("\n⚠️  FULL REINDEX")
   console.log("This will DELETE all MarketSnapshot, UserPositionSnapshot, LiquidationEvent,")
-  console.log(`and IndexedBlock records, then replay from block ${DEPLOYMENT_BLOCK}.\n`)
+  console.log("LenderFlow, OracleEvent, ProtocolEvent, FailedBlock and IndexedBlock records, then replay:")
+  for (const chain of CHAINS) {
+    console.log(`  ${chain.name} (${chain.chainId}) from block ${chain.deploymentBlock}`)
+  }
+  console.log()
 
   const ok = await confirm("Are you sure?")
   if (!ok) {
@@ -53,38 +109,46 @@ async function main() {
     process.exit(1)
   }
 
-  const marketConfigs: MarketConfig[] = markets.map((m) => ({
-    marketId:            m.id,
-    vaultAddress:        m.vaultAddress        as `0x${string}`,
-    marketAddress:       m.marketAddress       as `0x${string}`,
-    irmAddress:          m.irmAddress          as `0x${string}`,
-    oracleRouterAddress: m.oracleRouterAddress  as `0x${string}`,
-    loanAsset:           m.loanAsset           as `0x${string}`,
-    loanAssetDecimals:   m.loanAssetDecimals,
-  }))
+  const marketConfigs = markets.map(toMarketConfig)
 
   // 2. Truncate derived tables
   logger.info("[reindex] Truncating derived tables...")
   await prisma.$transaction([
     prisma.marketSnapshot.deleteMany(),
     prisma.userPositionSnapshot.deleteMany(),
+    prisma.userCollateralBalance.deleteMany(),
+    prisma.userPosition.deleteMany(),
     prisma.liquidationEvent.deleteMany(),
+    prisma.badDebtEvent.deleteMany(),
+    prisma.interestEvent.deleteMany(),
+    prisma.revenueDaily.deleteMany(),
+    prisma.lenderFlow.deleteMany(),
+    prisma.oracleEvent.deleteMany(),
+    prisma.protocolEvent.deleteMany(),
+    prisma.failedBlock.deleteMany(),
     prisma.indexedBlock.deleteMany(),
     prisma.syncState.deleteMany(),
+    // Applied checkpoints would make a parallel backfill skip the wiped range
+    prisma.backfillSegment.deleteMany(),
   ])
   logger.info("[reindex] Tables cleared")
 
-  // 3. Determine safe head
-  const currentBlock = await client.getBlockNumber()
-  const safeHead     = currentBlock - BigInt(CONFIRMATIONS)
+  for (const chain of CHAINS) {
+    const chainMarkets = marketConfigs.filter((m) => m.chainId === chain.chainId)
+    if (chainMarkets.length === 0) continue
+
+    // 3. Determine safe head
+    const currentBlock = await chain.client.getBlockNumber()
+    const safeHead     = currentBlock - BigInt(chain.confirmations)
 
-  logger.info(
-    { from: Number(DEPLOYMENT_BLOCK), to: Number(safeHead) },
-    "[reindex] Replaying blocks"
-  )
+    logger.info(
+      { chainId: chain.chainId, from: Number(chain.deploymentBlock), to: Number(safeHead) },
+      "[reindex] Replaying blocks"
+    )
 
-  // 4. Full replay
-  await processBlockRange(DEPLOYMENT_BLOCK, safeHead, marketConfigs)
+    // 4. Full replay
+    await processBlockRange(chain, chain.deploymentBlock, safeHead, chainMarkets)
+  }
 
   logger.info("[reindex] Done — DB is now a pure function of chain state")
   await prisma.$disconnect()
@@ -0,0 +1,113 @@
+/**
+ * rpc-fixture.ts
+ * --------------
+ * Record an indexer run over a block range into a fixture file, and replay it
+ * offline (see src/indexer/replay.ts). For reproducing production indexing
+ * bugs without live RPC access.
+ *
+ * Both commands write to DATABASE_URL and refuse to run if it already holds
+ * indexer state for the chain — use a scratch database, e.g.
+ *   DATABASE_URL=<scratch> npx prisma db push
+ *   DATABASE_URL=<scratch> npx tsx scripts/import-deployments.ts --apply
+ *
+ * Usage:
+ *   cd backend
+ *   npx tsx scripts/rpc-fixture.ts record --from-block 7812000 --to-block 7812500 --out bug-123.json
+ *   npx tsx scripts/rpc-fixture.ts replay bug-123.json
+ *
+ * Record options:
+ *   --chain <id|name>   required when more than one chain is configured
+ *   --market <id>       record only this market (default: every active market on the chain)
+ *
+ * replay exits 1 if the replayed rows differ from the recorded ones or a
+ * request had no recorded response. Copy a fixture to test/fixtures/ to keep
+ * it as a regression test.
+ */
+
+import "dotenv/config"
+import { prisma } from "../src/lib/db"
+import { CHAINS, getChain, isConfiguredChain, parseChainParam } from "../src/lib/chains"
+import { logger } from "../src/lib/logger"
+import { toMarketConfig } from "../src/indexer/listener"
+import { loadFixture, recordFixture, replayFixture, saveFixture } from "../src/indexer/replay"
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag)
+  return i === -1 ? undefined : process.argv[i + 1]
+}
+
+function usage(): never {
+  console.error("Usage: npx tsx scripts/rpc-fixture.ts record --from-block <N> --to-block <N> --out <file> [--chain <id|name>] [--market <id>]")
+  console.error("       npx tsx scripts/rpc-fixture.ts replay <file>")
+  process.exit(1)
+}
+
+async function record() {
+  const fromBlock = argValue("--from-block")
+  const toBlock   = argValue("--to-block")
+  const out       = argValue("--out")
+  if (!fromBlock || !toBlock || !out || !/^\d+$/.test(fromBlock) || !/^\d+$/.test(toBlock)) usage()
+
+  const chainArg = argValue("--chain")
+  const chainId  = chainArg !== undefined ? parseChainParam(chainArg) : undefined
+  if (chainId === undefined && CHAINS.length > 1) {
+    console.error(`--chain is required with several chains configured (${CHAINS.map((c) => c.name).join(", ")})`)
+    process.exit(1)
+  }
+  if (chainId === null || (chainId !== undefined && !isConfiguredChain(chainId))) {
+    console.error(`Unknown or unconfigured chain: ${chainArg}`)
+    process.exit(1)
+  }
+  const chain = chainId !== undefined ? getChain(chainId) : CHAINS[0]
+
+  const marketId = argValue("--market")
+  const markets  = await prisma.market.findMany({
+    where: marketId ? { id: marketId, chainId: chain.chainId } : { isActive: true, chainId: chain.chainId },
+  })
+  if (markets.length === 0) {
+    logger.error({ chainId: chain.chainId, marketId }, "[rpc-fixture] No matching markets in this database")
+    process.exit(1)
+  }
+
+  const fixture = await recordFixture(chain, BigInt(fromBlock), BigInt(toBlock), markets.map(toMarketConfig))
+  saveFixture(out, fixture)
+
+  const rows = Object.values(fixture.rows).reduce((n, r) => n + r.length, 0)
+  logger.info({ out, calls: fixture.calls.length, rows }, "[rpc-fixture] Fixture written")
+}
+
+async function replay() {
+  const file = process.argv[3]
+  if (!file || file.startsWith("--")) usage()
+
+  const fixture = loadFixture(file)
+  if (!isConfiguredChain(fixture.chainId)) {
+    console.error(`Chain ${fixture.chainId} is not configured — add it to CHAINS (its RPC is never contacted)`)
+    process.exit(1)
+  }
+
+  const result = await replayFixture(fixture)
+  for (const line of result.diff) console.log(line)
+
+  if (result.diff.length > 0 || result.misses > 0) {
+    logger.error({ differences: result.diff.length, misses: result.misses }, "[rpc-fixture] Replay diverged from the recording")
+    await prisma.$disconnect()
+    process.exit(1)
+  }
+  logger.info({ file, blocks: `${fixture.fromBlock}-${fixture.toBlock}` }, "[rpc-fixture] Replay matches the recording")
+}
+
+async function main() {
+  const command = process.argv[2]
+  if (command === "record") await record()
+  else if (command === "replay") await replay()
+  else usage()
+
+  await prisma.$disconnect()
+}
+
+main().catch((err) => {
+  logger.error({ err }, "[rpc-fixture] Fatal error")
+  prisma.$disconnect()
+  process.exit(1)
+})
@@ -4,10 +4,11 @@
  * Standalone Express API + persistent deterministic indexer + cron jobs.
  *
  * Responsibilities:
- *   - Serve market data, metrics, history, positions, liquidations
+ *   - Serve market data, metrics, history, positions, liquidations, bad debt, lender flows, oracle events
  *   - Run the block-based deterministic indexer as a persistent process
  *   - Run cron jobs for periodic snapshots and health factor checks
  *   - Expose internal endpoints for operational recovery (secured)
+ *   - Expose Prometheus metrics for the indexer, cron, RPC and HTTP layers
  */
 
 import "dotenv/config"
@@ -19,15 +20,21 @@ import metricsRouter      from "./routes/metrics"
 import historyRouter      from "./routes/history"
 import positionsRouter    from "./routes/positions"
 import liquidationsRouter from "./routes/liquidations"
+import badDebtRouter      from "./routes/bad-debt"
+import revenueRouter      from "./routes/revenue"
+import vaultsRouter       from "./routes/vaults"
+import oracleRouter       from "./routes/oracle"
 import indexerRouter      from "./routes/indexer"
 import internalRouter     from "./routes/internal"
 import adminRouter        from "./routes/admin"
 
 import { startIndexer } from "./indexer/index"
 import { startCronJobs } from "./jobs/index"
+import { countFailedBlocks } from "./indexer/failed-blocks"
 import { prisma } from "./lib/db"
-import { client } from "./lib/rpc"
+import { CHAINS } from "./lib/chains"
 import { logger } from "./lib/logger"
+import { registry, httpDuration } from "./lib/metrics"
 
 const app  = express()
 const PORT = Number(process.env.PORT ?? 4000)
@@ -55,35 +62,87 @@ app.use(
 
 app.use(express.json())
 
+// --- Request metrics ---
+// Labelled by the matched route pattern (/positions/:user), never the raw path
+app.use((req, res, next) => {
+  const endTimer = httpDuration.startTimer({ method: req.method })
+  res.on("finish", () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched"
+    endTimer({ route, status: String(res.statusCode) })
+  })
+  next()
+})
+
 // --- Health check ---
 app.get("/health", async (_req, res) => {
-  const [dbResult, rpcResult, syncResult] = await Promise.allSettled([
+  const [dbResult, syncResult, failedResult, ...rpcResults] = await Promise.allSettled([
     prisma.$queryRaw`SELECT 1`,
-    client.getBlockNumber(),
-    prisma.syncState.findFirst(),
+    prisma.syncState.findMany(),
+    countFailedBlocks(),
+    ...CHAINS.map((c) => c.client.getBlockNumber()),
   ])
 
-  const ok = dbResult.status === "fulfilled" && rpcResult.status === "fulfilled"
+  const syncStates   = syncResult.status === "fulfilled" ? syncResult.value : []
+  const failedCounts = failedResult.status === "fulfilled" ? failedResult.value : null
+
+  const chains = CHAINS.map((c, i) => {
+    const rpc  = rpcResults[i]
+    const sync = syncStates.find((s) => s.chainId === c.chainId)
+    return {
+      chainId:          c.chainId,
+      name:             c.name,
+      rpc:              rpc.status === "fulfilled" ? String(rpc.value) : "error",
+      lastIndexedBlock: sync?.lastProcessedBlock ?? null,
+      failedBlocks:     failedCounts ? failedCounts[c.chainId] ?? 0 : null,
+      rpcQuorum:        c.rpcQuorum,
+      providers:        c.rpcStats(),
+    }
+  })
+
+  const ok = dbResult.status === "fulfilled" && chains.every((c) => c.rpc !== "error")
+  const queueEmpty = chains.every((c) => c.failedBlocks === 0)
 
+  // A non-empty dead-letter queue means data gaps, but the service itself is
+  // up — report degraded without failing the health check.
   res.status(ok ? 200 : 503).json({
-    status:           ok ? "ok" : "degraded",
-    db:               dbResult.status  === "fulfilled" ? "connected" : "error",
-    rpc:              rpcResult.status === "fulfilled"
-                        ? String((rpcResult as PromiseFulfilledResult<bigint>).value)
-                        : "error",
-    lastIndexedBlock: syncResult.status === "fulfilled"
-                        ? syncResult.value?.lastProcessedBlock ?? null
-                        : null,
-    timestamp: new Date().toISOString(),
+    status:           ok && queueEmpty ? "ok" : "degraded",
+    db:               dbResult.status === "fulfilled" ? "connected" : "error",
+    // First configured chain — kept for monitors written against one chain
+    rpc:              chains[0].rpc,
+    lastIndexedBlock: chains[0].lastIndexedBlock,
+    chains,
+    timestamp:        new Date().toISOString(),
   })
 })
 
+// --- Prometheus scrape ---
+// Open like /health unless METRICS_SECRET is set, then Bearer auth
+app.get("/metrics/prometheus", async (req, res) => {
+  const secret = process.env.METRICS_SECRET
+  if (secret && req.headers.authorization !== `Bearer ${secret}`) {
+    res.status(401).json({ error: "Unauthorized" })
+    return
+  }
+
+  try {
+    res.set("Content-Type", registry.contentType)
+    res.send(await registry.metrics())
+  } catch (error) {
+    console.error("[metrics/prometheus] Error:", error)
+    res.status(500).json({ error: "Failed to collect metrics" })
+  }
+})
+
 // --- Routes ---
 app.use("/markets",      marketsRouter)
 app.use("/metrics",      metricsRouter)
 app.use("/history",      historyRouter)
 app.use("/positions",    positionsRouter)
 app.use("/liquidations", liquidationsRouter)
+app.use("/bad-debt",     badDebtRouter)
+app.use("/revenue",      revenueRouter)
+app.use("/vaults",       vaultsRouter)
+app.use("/oracle",       oracleRouter)
 app.use("/indexer",      indexerRouter)
 app.use("/internal",     internalRouter)
 app.use("/admin",        adminRouter)
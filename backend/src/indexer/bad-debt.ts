@@ -0,0 +1,89 @@
+/**
+ * Bad Debt Recorder
+ * -----------------
+ * Stores a BadDebtEvent for each BadDebtRecorded and CollateralSeized event
+ * emitted by MarketV1 during a liquidation, and keeps the running bad-debt
+ * totals per market and per borrower on every row.
+ *
+ * Totals follow ledger order (block, log index), not insert order: a backfill
+ * behind the live loop or a partial reindex inserts rows before existing
+ * ones, so the market's totals are recomputed whenever a row is added or
+ * removed. Bad debt is rare enough for that to stay cheap.
+ */
+
+import { Prisma } from "../generated/prisma/client"
+import { normalize, WAD } from "../lib/rpc"
+import { prisma } from "../lib/db"
+
+export type BadDebtEventName = "BadDebtRecorded" | "CollateralSeized"
+
+interface BadDebtLog {
+  eventName: BadDebtEventName
+  borrower: `0x${string}`
+  liquidator?: `0x${string}`
+  token?: `0x${string}`
+  amount: bigint
+  txHash: `0x${string}`
+  blockNumber: bigint
+  blockTimestamp: bigint
+  logIndex: number
+}
+
+export async function storeBadDebtEvent(marketId: string, log: BadDebtLog) {
+  const key = { txHash_logIndex: { txHash: log.txHash, logIndex: log.logIndex } }
+
+  const existing = await prisma.badDebtEvent.findUnique({ where: key })
+  if (existing) return existing
+
+  await prisma.badDebtEvent.create({
+    data: {
+      marketId,
+      timestamp:       new Date(Number(log.blockTimestamp) * 1000),
+      txHash:          log.txHash,
+      blockNumber:     Number(log.blockNumber),
+      logIndex:        log.logIndex,
+      eventName:       log.eventName,
+      borrower:        log.borrower.toLowerCase(),
+      liquidator:      log.liquidator?.toLowerCase() ?? null,
+      token:           log.token?.toLowerCase() ?? null,
+      // Both amounts are 18-decimal on chain
+      amount:          normalize(log.amount, WAD).toFixed(6),
+      // Filled in below, in ledger order
+      marketBadDebt:   0,
+      borrowerBadDebt: 0,
+    },
+  })
+
+  await refreshBadDebtTotals(marketId)
+  return prisma.badDebtEvent.findUniqueOrThrow({ where: key })
+}
+
+/** Recompute a market's running totals in ledger order, writing only rows that changed. */
+export async function refreshBadDebtTotals(marketId: string): Promise<void> {
+  const rows = await prisma.badDebtEvent.findMany({
+    where:   { marketId },
+    orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+  })
+
+  let market = new Prisma.Decimal(0)
+  const borrowers = new Map<string, Prisma.Decimal>()
+  const updates: Prisma.PrismaPromise<unknown>[] = []
+
+  for (const row of rows) {
+    let borrower = borrowers.get(row.borrower) ?? new Prisma.Decimal(0)
+    if (row.eventName === "BadDebtRecorded") {
+      market   = market.plus(row.amount)
+      borrower = borrower.plus(row.amount)
+    }
+    borrowers.set(row.borrower, borrower)
+
+    if (!row.marketBadDebt.equals(market) || !row.borrowerBadDebt.equals(borrower)) {
+      updates.push(prisma.badDebtEvent.update({
+        where: { id: row.id },
+        data:  { marketBadDebt: market, borrowerBadDebt: borrower },
+      }))
+    }
+  }
+
+  if (updates.length > 0) await prisma.$transaction(updates)
+}
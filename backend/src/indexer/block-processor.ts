@@ -4,25 +4,61 @@
  * Deterministic, block-by-block log fetching and processing.
  *
  * Design:
+ *   - One independent run per chain: every function takes the chain's registry
+ *     entry, and all cursor/reorg/rollback state is scoped by chainId
  *   - Fetches logs via getLogs per block range (NOT raw watchContractEvent callbacks)
  *   - Checks for reorgs by comparing block parentHash to stored IndexedBlock hashes
  *   - On reorg: rolls back derived state and replays deterministically
  *   - Updates SyncState after each successful block
  *   - Safe to replay — all writes are idempotent or upsert-based
+ *
+ * Chunked mode (chain.logChunkSize > 1, LOG_CHUNK_SIZE[_<id>] in env):
+ *   - One getLogs call per window of N blocks; the window halves whenever the
+ *     provider rejects the range ("too many results") and regrows on success
+ *   - Headers are fetched only for blocks that carry logs, blocks inside the
+ *     reorg window (last REORG_BUFFER blocks of the range), the first block of
+ *     the range and the last block of each window (so SyncState always points
+ *     at a block whose hash we actually observed)
+ *   - Blocks without a header fetch carry no logs, so skipping them loses nothing
+ *
+ * Failed blocks:
+ *   - A block that still fails after the inline retry goes to the FailedBlock
+ *     dead-letter table before the cursor moves past it (see failed-blocks.ts)
+ *
+ * Backfill (backfillMarkets):
+ *   - Markets registered at runtime replay their history behind the cursor
+ *     without touching SyncState — see indexer/registry.ts
+ *   - Per-market partial reindex uses the same path — see indexer/reindex.ts
+ *   - fetchLogWindows is shared with the segmented historical sync — see
+ *     indexer/parallel-backfill.ts
  */
 
-import { decodeEventLog } from "viem"
-import { client, CONFIRMATIONS, REORG_BUFFER, CHAIN_ID, DEPLOYMENT_BLOCK } from "../lib/rpc"
-import { MARKET_EVENTS_ABI } from "./events"
+import { decodeEventLog, toEventSelector, type Abi, type Log } from "viem"
+import type { ChainConfig } from "../lib/chains"
+import { isRangeTooLarge } from "../lib/transport"
+import { MARKET_EVENTS_ABI, VAULT_EVENTS_ABI, IRM_EVENTS_ABI, ORACLE_EVENTS_ABI } from "./events"
 import { processEventLog } from "./listener"
+import { restoreParamsAt } from "./params"
+import { rebuildPositionsFrom } from "./position-state"
+import { refreshRevenueDays } from "./revenue"
+import { queueRollupHours } from "./snapshot-rollups"
+import { getOracleAddresses, storeOracleEvent } from "./oracle"
+import { recordProtocolEvent } from "./ledger"
+import { recordFailedBlock } from "./failed-blocks"
 import { prisma } from "../lib/db"
 import { logger } from "../lib/logger"
+import {
+  indexerBlocksProcessed,
+  indexerReorgs,
+  indexerRollbackDepth,
+  indexerDecodeFailures,
+} from "../lib/metrics"
 import type { MarketConfig } from "./listener"
 
 // ─── Sync State ──────────────────────────────────────────────────────────────
 
-export async function getSyncState() {
-  return prisma.syncState.findFirst({ where: { chainId: CHAIN_ID } })
+export async function getSyncState(chainId: number) {
+  return prisma.syncState.findFirst({ where: { chainId } })
 }
 
 // ─── Reorg Detection ─────────────────────────────────────────────────────────
@@ -32,25 +68,29 @@ export async function getSyncState() {
  * Returns the reorg start block number if a reorg is detected, null if clean.
  */
 async function checkReorg(
+  chain: ChainConfig,
   blockNumber: bigint,
   parentHash: string
 ): Promise<bigint | null> {
   const prevBlockNumber = Number(blockNumber) - 1
-  if (prevBlockNumber < Number(DEPLOYMENT_BLOCK)) return null
+  if (prevBlockNumber < Number(chain.deploymentBlock)) return null
 
   const stored = await prisma.indexedBlock.findUnique({
-    where: { blockNumber: prevBlockNumber },
+    where: { chainId_blockNumber: { chainId: chain.chainId, blockNumber: prevBlockNumber } },
   })
 
   if (!stored) return null // No stored hash means we haven't processed that block yet
 
   if (stored.blockHash !== parentHash) {
     logger.warn(
-      { blockNumber: Number(blockNumber), stored: stored.blockHash, observed: parentHash },
+      { chainId: chain.chainId, blockNumber: Number(blockNumber), stored: stored.blockHash, observed: parentHash },
       "[block-processor] Reorg detected"
     )
     // Roll back to REORG_BUFFER blocks before the reorg
-    return BigInt(Math.max(prevBlockNumber - REORG_BUFFER, Number(DEPLOYMENT_BLOCK)))
+    const reorgStart = Math.max(prevBlockNumber - chain.reorgBuffer, Number(chain.deploymentBlock))
+    indexerReorgs.inc({ chain: chain.name })
+    indexerRollbackDepth.observe({ chain: chain.name }, Number(blockNumber) - reorgStart)
+    return BigInt(reorgStart)
   }
 
   return null
@@ -62,138 +102,421 @@ async function checkReorg(
  * Delete all derived state at or after reorgStart, reset SyncState.
  * After rollback, the caller should re-process from reorgStart.
  */
-export async function rollbackFrom(reorgStart: bigint): Promise<void> {
+export async function rollbackFrom(chain: ChainConfig, reorgStart: bigint): Promise<void> {
+  const { chainId } = chain
   const from = Number(reorgStart)
-  logger.warn({ from }, "[block-processor] Rolling back state from block")
+  logger.warn({ chainId, from }, "[block-processor] Rolling back state from block")
+
+  // Tables without a chainId column are scoped through their market
+  const onChain = { market: { chainId } }
+
+  // Rollups of the hours losing snapshots are recomputed on the next run
+  await queueRollupHours({ ...onChain, blockNumber: { gte: from } })
 
   await prisma.$transaction([
-    prisma.indexedBlock.deleteMany({ where: { blockNumber: { gte: from } } }),
-    prisma.liquidationEvent.deleteMany({ where: { blockNumber: { gte: from } } }),
-    // MarketSnapshot and UserPositionSnapshot don't store blockNumber — they're
-    // time-series snapshots driven by events. Rolling back IndexedBlock is sufficient
-    // to prevent re-processing since we track which blocks we've processed.
+    prisma.indexedBlock.deleteMany({ where: { chainId, blockNumber: { gte: from } } }),
+    prisma.protocolEvent.deleteMany({ where: { chainId, blockNumber: { gte: from } } }),
+    prisma.liquidationEvent.deleteMany({ where: { ...onChain, blockNumber: { gte: from } } }),
+    // Running totals of the rows that stay only cover earlier rows
+    prisma.badDebtEvent.deleteMany({ where: { ...onChain, blockNumber: { gte: from } } }),
+    prisma.lenderFlow.deleteMany({ where: { ...onChain, blockNumber: { gte: from } } }),
+    prisma.interestEvent.deleteMany({ where: { ...onChain, blockNumber: { gte: from } } }),
+    prisma.oracleEvent.deleteMany({ where: { chainId, blockNumber: { gte: from } } }),
+    // Replay covers these blocks again
+    prisma.failedBlock.deleteMany({ where: { chainId, blockNumber: { gte: from } } }),
+    // Snapshots are anchored to the block they were read at — including cron
+    // snapshots at the tip, which may sit on the orphaned branch too.
+    prisma.marketSnapshot.deleteMany({ where: { ...onChain, blockNumber: { gte: from } } }),
+    prisma.userPositionSnapshot.deleteMany({ where: { ...onChain, blockNumber: { gte: from } } }),
     prisma.syncState.updateMany({
-      where: { chainId: CHAIN_ID },
+      where: { chainId },
       data: {
-        lastProcessedBlock: Math.max(from - 1, Number(DEPLOYMENT_BLOCK) - 1),
+        lastProcessedBlock: Math.max(from - 1, Number(chain.deploymentBlock) - 1),
         lastProcessedHash: "0x0000000000000000000000000000000000000000000000000000000000000000",
       },
     }),
   ])
 
-  logger.info({ from }, "[block-processor] Rollback complete")
+  // Parameter rows carry their own block anchor — re-read them at the last
+  // surviving block so the replay re-applies changes from a clean base.
+  await restoreParamsAt(chainId, BigInt(Math.max(from - 1, Number(chain.deploymentBlock))))
+
+  // Event-sourced positions are cumulative — refold the ones the orphaned
+  // blocks touched from the ledger that survived.
+  await rebuildPositionsFrom(chainId, from)
+
+  // Daily revenue sums covered the deleted repayments
+  await refreshRevenueDays({ market: { chainId }, lastBlock: { gte: from } })
+
+  logger.info({ chainId, from }, "[block-processor] Rollback complete")
 }
 
-// ─── Single Block Processing ──────────────────────────────────────────────────
+// ─── Shared Block Steps ───────────────────────────────────────────────────────
 
-async function processBlock(blockNumber: bigint, markets: MarketConfig[]): Promise<void> {
-  // 1. Fetch block for hash/parentHash
-  const block = await client.getBlock({ blockNumber })
+type MarketEventAbi = typeof MARKET_EVENTS_ABI | typeof VAULT_EVENTS_ABI | typeof IRM_EVENTS_ABI
 
-  // 2. Check for reorg
-  const reorgStart = await checkReorg(blockNumber, block.parentHash)
-  if (reorgStart !== null) {
-    await rollbackFrom(reorgStart)
-    // Re-process from reorgStart after rollback — caller (processBlockRange) will handle
-    throw new ReorgError(reorgStart)
+type LogSource =
+  | { kind: "market"; market: MarketConfig; abi: MarketEventAbi }
+  | { kind: "oracle"; oracleAddress: `0x${string}` }
+
+/** Watched contracts on one chain for one processBlockRange call. */
+export interface LogSources {
+  chain: ChainConfig
+  addresses: `0x${string}`[]
+  resolve(address: string): LogSource[]
+}
+
+/**
+ * Build the address → source map: market, vault and IRM contracts per market,
+ * plus the shared oracle router(s) and their PriceOracle. An IRM or router may
+ * in principle serve several markets, so one address can map to many sources.
+ */
+export async function buildLogSources(chain: ChainConfig, markets: MarketConfig[]): Promise<LogSources> {
+  const byAddress = new Map<string, LogSource[]>()
+  const addresses = new Map<string, `0x${string}`>()
+
+  const add = (address: `0x${string}`, source: LogSource) => {
+    const key = address.toLowerCase()
+    addresses.set(key, address)
+    byAddress.set(key, [...(byAddress.get(key) ?? []), source])
   }
 
-  // 3. Fetch all logs for all market addresses in this block
-  const marketAddresses = markets.map((m) => m.marketAddress) as `0x${string}`[]
-  const rawLogs = await client.getLogs({
-    address: marketAddresses,
-    fromBlock: blockNumber,
-    toBlock: blockNumber,
-  })
+  for (const market of markets) {
+    if (market.chainId !== chain.chainId) {
+      throw new Error(`Market ${market.marketId} is on chain ${market.chainId}, not ${chain.chainId}`)
+    }
+    add(market.marketAddress, { kind: "market", market, abi: MARKET_EVENTS_ABI })
+    add(market.vaultAddress,  { kind: "market", market, abi: VAULT_EVENTS_ABI })
+    add(market.irmAddress,    { kind: "market", market, abi: IRM_EVENTS_ABI })
+  }
+
+  // Oracle events are per asset, not per market — one source per contract
+  for (const oracleAddress of await getOracleAddresses(chain.chainId, markets)) {
+    if (!byAddress.has(oracleAddress.toLowerCase())) {
+      add(oracleAddress, { kind: "oracle", oracleAddress })
+    }
+  }
 
-  // 4. Sort deterministically by logIndex
+  return {
+    chain,
+    addresses: [...addresses.values()],
+    resolve: (address) => byAddress.get(address.toLowerCase()) ?? [],
+  }
+}
+
+// topic0 of every event each ABI declares — a log that carries one but doesn't
+// decode is malformed, unlike the ERC20 and ownership events a vault also emits
+const EVENT_TOPICS = new Map<Abi, Set<string>>(
+  [MARKET_EVENTS_ABI, VAULT_EVENTS_ABI, IRM_EVENTS_ABI, ORACLE_EVENTS_ABI].map((abi) => [
+    abi,
+    new Set(abi.filter((item) => item.type === "event").map((event) => toEventSelector(event))),
+  ])
+)
+
+/**
+ * Decode and process the logs of a single block in logIndex order.
+ * Each decoded log is written to the ProtocolEvent ledger before any derived
+ * processing. Logs from addresses that aren't watched are ignored.
+ */
+async function processLogs(
+  blockNumber: bigint,
+  blockHash: string,
+  blockTimestamp: bigint,
+  rawLogs: Log[],
+  sources: LogSources
+): Promise<void> {
+  // Sort deterministically by logIndex
   const sorted = [...rawLogs].sort((a, b) => Number(a.logIndex) - Number(b.logIndex))
 
-  // 5. Decode and process each log
   for (const rawLog of sorted) {
-    // Match log to its market
-    const market = markets.find(
-      (m) => m.marketAddress.toLowerCase() === (rawLog.address as string).toLowerCase()
-    )
-    if (!market) continue
+    let recorded  = false
+    let malformed = false
+
+    // Match log to its market (market, vault or IRM contract) or oracle
+    for (const source of sources.resolve(rawLog.address)) {
+      const abi = source.kind === "oracle" ? ORACLE_EVENTS_ABI : source.abi
+      let decoded
+      try {
+        decoded = decodeEventLog({
+          abi,
+          data: rawLog.data,
+          topics: rawLog.topics as [`0x${string}`, ...`0x${string}`[]],
+          strict: false,
+        })
+      } catch (err) {
+        // Events outside the ABI (e.g. ERC20 Transfer from the vault) are
+        // skipped silently; a known signature that fails to decode is counted
+        // below unless another source decodes it
+        if (rawLog.topics[0] && EVENT_TOPICS.get(abi)?.has(rawLog.topics[0])) malformed = true
+        logger.debug(
+          { block: Number(blockNumber), txHash: rawLog.transactionHash },
+          "[block-processor] Could not decode log — skipping"
+        )
+        continue
+      }
 
-    try {
-      const decoded = decodeEventLog({
-        abi: MARKET_EVENTS_ABI,
-        data: rawLog.data,
-        topics: rawLog.topics as [`0x${string}`, ...`0x${string}`[]],
-        strict: false,
-      })
-
-      await processEventLog(
-        {
-          eventName: decoded.eventName as string,
-          args: decoded.args as Record<string, unknown>,
-          transactionHash: rawLog.transactionHash as `0x${string}`,
-          blockNumber: rawLog.blockNumber ?? blockNumber,
-          logIndex: Number(rawLog.logIndex),
-        },
-        market
-      )
-    } catch (err) {
-      // Unknown event signatures (e.g. Transfer events from ERC20) — skip silently
-      logger.debug(
-        { block: Number(blockNumber), txHash: rawLog.transactionHash },
-        "[block-processor] Could not decode log — skipping"
-      )
+      const log = {
+        chainId: sources.chain.chainId,
+        eventName: decoded.eventName as string,
+        args: decoded.args as Record<string, unknown>,
+        transactionHash: rawLog.transactionHash as `0x${string}`,
+        blockNumber: rawLog.blockNumber ?? blockNumber,
+        blockHash: (rawLog.blockHash ?? blockHash) as `0x${string}`,
+        blockTimestamp,
+        logIndex: Number(rawLog.logIndex),
+      }
+
+      // Ledger first — a failed write fails the block so nothing is lost.
+      // A shared IRM decodes once per market; record it once.
+      if (!recorded) {
+        await recordProtocolEvent({
+          chainId:         log.chainId,
+          contractAddress: rawLog.address,
+          eventName:       log.eventName,
+          args:            log.args,
+          blockNumber:     log.blockNumber,
+          blockHash:       log.blockHash,
+          txHash:          log.transactionHash,
+          logIndex:        log.logIndex,
+        })
+        recorded = true
+      }
+
+      try {
+        if (source.kind === "oracle") {
+          await storeOracleEvent(log, source.oracleAddress)
+        } else {
+          await processEventLog(log, source.market)
+        }
+      } catch (err) {
+        // Fail the block so it is retried (and dead-lettered if it keeps
+        // failing) — every handler is idempotent, and so is the ledger write
+        logger.error(
+          { block: Number(blockNumber), txHash: rawLog.transactionHash, event: log.eventName, err },
+          "[block-processor] Event processing failed"
+        )
+        throw err
+      }
+    }
+
+    if (malformed && !recorded) {
+      indexerDecodeFailures.inc({ chain: sources.chain.name, contract: rawLog.address.toLowerCase() })
     }
   }
+}
+
+/**
+ * Advance the SyncState cursor to blockNumber and record its hash for reorg
+ * detection, pruning IndexedBlock rows older than REORG_BUFFER.
+ */
+async function recordBlock(chain: ChainConfig, blockNumber: bigint, blockHash: string): Promise<void> {
+  const { chainId } = chain
 
-  // 6. Upsert SyncState
+  // Upsert SyncState
   await prisma.syncState.upsert({
-    where: { chainId: CHAIN_ID },
+    where: { chainId },
     update: {
       lastProcessedBlock: Number(blockNumber),
-      lastProcessedHash: block.hash ?? "",
+      lastProcessedHash: blockHash,
     },
     create: {
-      chainId: CHAIN_ID,
+      chainId,
       lastProcessedBlock: Number(blockNumber),
-      lastProcessedHash: block.hash ?? "",
+      lastProcessedHash: blockHash,
     },
   })
 
-  // 7. Upsert IndexedBlock for reorg detection
+  // Upsert IndexedBlock for reorg detection
   await prisma.indexedBlock.upsert({
-    where: { blockNumber: Number(blockNumber) },
-    update: { blockHash: block.hash ?? "" },
-    create: { blockNumber: Number(blockNumber), blockHash: block.hash ?? "" },
+    where: { chainId_blockNumber: { chainId, blockNumber: Number(blockNumber) } },
+    update: { blockHash },
+    create: { chainId, blockNumber: Number(blockNumber), blockHash },
   })
 
-  // 8. Prune old indexed blocks — keep only REORG_BUFFER
+  // Prune old indexed blocks — keep only REORG_BUFFER
   await prisma.indexedBlock.deleteMany({
-    where: { blockNumber: { lt: Number(blockNumber) - REORG_BUFFER } },
+    where: { chainId, blockNumber: { lt: Number(blockNumber) - chain.reorgBuffer } },
+  })
+}
+
+// ─── Single Block Processing ──────────────────────────────────────────────────
+
+async function processBlock(blockNumber: bigint, sources: LogSources): Promise<void> {
+  const { chain } = sources
+
+  // 1. Fetch block for hash/parentHash
+  const block = await chain.client.getBlock({ blockNumber })
+
+  // 2. Check for reorg
+  const reorgStart = await checkReorg(chain, blockNumber, block.parentHash)
+  if (reorgStart !== null) {
+    await rollbackFrom(chain, reorgStart)
+    // Re-process from reorgStart after rollback — caller (processBlockRange) will handle
+    throw new ReorgError(reorgStart)
+  }
+
+  // 3. Fetch all logs for all watched addresses in this block
+  const rawLogs = await chain.client.getLogs({
+    address: sources.addresses,
+    fromBlock: blockNumber,
+    toBlock: blockNumber,
+  })
+
+  // 4. Decode and process each log
+  await processLogs(blockNumber, block.hash ?? "", block.timestamp, rawLogs, sources)
+
+  // 5. Advance cursor + reorg window
+  await recordBlock(chain, blockNumber, block.hash ?? "")
+  indexerBlocksProcessed.inc({ chain: chain.name })
+}
+
+/**
+ * Re-process a block the cursor has already moved past (dead-letter retry).
+ * Same log handling as processBlock, but leaves SyncState and IndexedBlock
+ * alone — the block is behind the cursor, so there is nothing to advance.
+ */
+export async function reprocessBlock(
+  chain: ChainConfig,
+  blockNumber: bigint,
+  markets: MarketConfig[]
+): Promise<void> {
+  const sources = await buildLogSources(chain, markets)
+  const block = await chain.client.getBlock({ blockNumber })
+  const rawLogs = await chain.client.getLogs({
+    address: sources.addresses,
+    fromBlock: blockNumber,
+    toBlock: blockNumber,
   })
+
+  if (rawLogs.some((l) => l.blockHash !== null && l.blockHash !== block.hash)) {
+    throw new Error(`Log blockHash mismatch at block ${blockNumber} — chain moved during fetch`)
+  }
+
+  await processLogs(blockNumber, block.hash ?? "", block.timestamp, rawLogs, sources)
+}
+
+// ─── Chunked Window Processing ────────────────────────────────────────────────
+
+/**
+ * Process [fromBlock, toBlock] with a single getLogs call.
+ * Headers are only fetched for the blocks listed in the module doc comment.
+ * Throws RangeTooLargeError when the provider rejects the window size.
+ */
+async function processWindow(
+  fromBlock: bigint,
+  toBlock: bigint,
+  rangeStart: bigint,
+  reorgWindowStart: bigint,
+  sources: LogSources
+): Promise<void> {
+  const { chain } = sources
+
+  let rawLogs: Log[]
+  try {
+    rawLogs = await chain.client.getLogs({ address: sources.addresses, fromBlock, toBlock })
+  } catch (err) {
+    if (isRangeTooLarge(err)) throw new RangeTooLargeError(fromBlock, toBlock)
+    throw err
+  }
+
+  const logsByBlock = groupByBlock(rawLogs)
+
+  // Blocks that need a header: logs, reorg window, range start, window end
+  const headerBlocks = new Set<bigint>(logsByBlock.keys())
+  if (fromBlock === rangeStart) headerBlocks.add(fromBlock)
+  for (let n = fromBlock > reorgWindowStart ? fromBlock : reorgWindowStart; n <= toBlock; n++) {
+    headerBlocks.add(n)
+  }
+  headerBlocks.add(toBlock)
+
+  const ordered = [...headerBlocks].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+
+  for (const blockNumber of ordered) {
+    const block = await chain.client.getBlock({ blockNumber })
+
+    const reorgStart = await checkReorg(chain, blockNumber, block.parentHash)
+    if (reorgStart !== null) {
+      await rollbackFrom(chain, reorgStart)
+      throw new ReorgError(reorgStart)
+    }
+
+    const blockLogs = logsByBlock.get(blockNumber) ?? []
+
+    // Logs and header must describe the same block — if not, the chain moved
+    // between the two calls and the window has to be fetched again.
+    if (blockLogs.some((l) => l.blockHash !== null && l.blockHash !== block.hash)) {
+      throw new Error(`Log blockHash mismatch at block ${blockNumber} — chain moved during fetch`)
+    }
+
+    await processLogs(blockNumber, block.hash ?? "", block.timestamp, blockLogs, sources)
+    await recordBlock(chain, blockNumber, block.hash ?? "")
+  }
+
+  // Blocks without a header fetch were covered by the window's getLogs
+  indexerBlocksProcessed.inc({ chain: chain.name }, Number(toBlock - fromBlock) + 1)
 }
 
 // ─── Block Range Processing ───────────────────────────────────────────────────
 
+export interface BlockRangeOptions {
+  /** Max blocks per getLogs window (default: chain.logChunkSize). 1 disables chunked mode. */
+  chunkSize?: number
+}
+
 /**
- * Process a range of blocks deterministically.
+ * Process a range of blocks on one chain deterministically.
+ * `markets` must all belong to that chain.
  * Used by: startup replay, backfill script, reindex script, /internal/resync.
  */
 export async function processBlockRange(
+  chain: ChainConfig,
   fromBlock: bigint,
   toBlock: bigint,
-  markets: MarketConfig[]
+  markets: MarketConfig[],
+  options: BlockRangeOptions = {}
 ): Promise<void> {
   if (fromBlock > toBlock) return
 
+  const sources = await buildLogSources(chain, markets)
+
+  const maxChunk = Math.max(1, Math.floor(options.chunkSize ?? chain.logChunkSize))
+  if (maxChunk > 1) {
+    await processBlockRangeChunked(fromBlock, toBlock, sources, maxChunk)
+    return
+  }
+
   const total = Number(toBlock - fromBlock) + 1
-  logger.info({ from: Number(fromBlock), to: Number(toBlock), total }, "[block-processor] Processing block range")
+  logger.info(
+    { chainId: chain.chainId, from: Number(fromBlock), to: Number(toBlock), total },
+    "[block-processor] Processing block range"
+  )
 
+  await processBlocksSequential(fromBlock, toBlock, fromBlock, total, sources)
+
+  logger.info(
+    { from: Number(fromBlock), to: Number(toBlock) },
+    "[block-processor] Block range complete"
+  )
+}
+
+/**
+ * Block-by-block loop: one getBlock + one getLogs per block.
+ * Also used as the fallback for windows that keep failing in chunked mode.
+ */
+async function processBlocksSequential(
+  fromBlock: bigint,
+  toBlock: bigint,
+  progressBase: bigint,
+  progressTotal: number,
+  sources: LogSources
+): Promise<void> {
   let current = fromBlock
   while (current <= toBlock) {
     try {
-      await processBlock(current, markets)
+      await processBlock(current, sources)
 
       if (Number(current) % 100 === 0) {
-        const pct = Math.round(((Number(current - fromBlock) + 1) / total) * 100)
+        const pct = Math.round(((Number(current - progressBase) + 1) / progressTotal) * 100)
         logger.info(
           { block: Number(current), pct },
           "[block-processor] Progress"
@@ -217,18 +540,106 @@ export async function processBlockRange(
         // Single retry after a brief wait for transient RPC errors
         await new Promise((r) => setTimeout(r, 2000))
         try {
-          await processBlock(current, markets)
+          await processBlock(current, sources)
           current++
         } catch (retryErr) {
+          if (retryErr instanceof ReorgError) {
+            current = retryErr.reorgStart
+            continue
+          }
           logger.error(
             { block: Number(current), err: retryErr },
-            "[block-processor] Block failed after retry — skipping"
+            "[block-processor] Block failed after retry — moving to dead-letter queue"
           )
+          // Must land before the cursor moves on, or the block is lost
+          await recordFailedBlock(sources.chain.chainId, current, retryErr, 2)
           current++
         }
       }
     }
   }
+}
+
+/**
+ * Adaptive chunked loop: walks the range in getLogs windows of up to maxChunk
+ * blocks. Reorgs restart from the rollback point exactly as in per-block mode.
+ */
+async function processBlockRangeChunked(
+  fromBlock: bigint,
+  toBlock: bigint,
+  sources: LogSources,
+  maxChunk: number
+): Promise<void> {
+  const total = Number(toBlock - fromBlock) + 1
+  logger.info(
+    { chainId: sources.chain.chainId, from: Number(fromBlock), to: Number(toBlock), total, chunkSize: maxChunk },
+    "[block-processor] Processing block range (chunked)"
+  )
+
+  // Headers inside this window are always fetched so IndexedBlock ends up with
+  // a contiguous REORG_BUFFER-deep history, same as per-block mode.
+  const reorgWindowStart = toBlock - BigInt(sources.chain.reorgBuffer) + 1n
+
+  let chunkSize  = maxChunk
+  let rangeStart = fromBlock
+  let current    = fromBlock
+
+  while (current <= toBlock) {
+    const windowEnd = minBigInt(current + BigInt(chunkSize) - 1n, toBlock)
+
+    try {
+      await processWindow(current, windowEnd, rangeStart, reorgWindowStart, sources)
+
+      const pct = Math.round((Number(windowEnd - fromBlock + 1n) / total) * 100)
+      logger.info(
+        { from: Number(current), to: Number(windowEnd), chunkSize, pct },
+        "[block-processor] Progress"
+      )
+
+      current = windowEnd + 1n
+      // Grow back towards the configured size after a successful window
+      chunkSize = Math.min(maxChunk, Math.ceil(chunkSize * 1.25))
+    } catch (err) {
+      if (err instanceof RangeTooLargeError && chunkSize > 1) {
+        chunkSize = Math.max(1, Math.floor(chunkSize / 2))
+        logger.warn(
+          { from: Number(err.fromBlock), to: Number(err.toBlock), chunkSize },
+          "[block-processor] Provider rejected log range — shrinking window"
+        )
+      } else if (err instanceof ReorgError) {
+        logger.info(
+          { restartFrom: Number(err.reorgStart) },
+          "[block-processor] Restarting range after reorg rollback"
+        )
+        // The restart block's predecessor may still be stored, so it must be
+        // header-checked against it like a fresh range start.
+        rangeStart = err.reorgStart
+        current    = err.reorgStart
+      } else {
+        logger.error(
+          { from: Number(current), to: Number(windowEnd), err },
+          "[block-processor] Error processing window — retrying once"
+        )
+        await new Promise((r) => setTimeout(r, 2000))
+        try {
+          await processWindow(current, windowEnd, rangeStart, reorgWindowStart, sources)
+          current = windowEnd + 1n
+        } catch (retryErr) {
+          if (retryErr instanceof ReorgError) {
+            rangeStart = retryErr.reorgStart
+            current    = retryErr.reorgStart
+            continue
+          }
+          logger.error(
+            { from: Number(current), to: Number(windowEnd), err: retryErr },
+            "[block-processor] Window failed after retry — falling back to per-block"
+          )
+          await processBlocksSequential(current, windowEnd, fromBlock, total, sources)
+          current = windowEnd + 1n
+        }
+      }
+    }
+  }
 
   logger.info(
     { from: Number(fromBlock), to: Number(toBlock) },
@@ -236,6 +647,96 @@ export async function processBlockRange(
   )
 }
 
+// ─── Backfill Behind the Cursor ───────────────────────────────────────────────
+
+/** A block that carries watched logs, with the header fields processing needs. */
+export interface FetchedBlock {
+  number: bigint
+  hash: string
+  timestamp: bigint
+  logs: Log[]
+}
+
+/**
+ * Walk [fromBlock, toBlock] in adaptive getLogs windows (halving on "range
+ * too large", regrowing on success) and yield each window's blocks that carry
+ * logs, with their headers. No reorg checks — callers only read confirmed
+ * blocks behind the cursor.
+ */
+export async function* fetchLogWindows(
+  sources: LogSources,
+  fromBlock: bigint,
+  toBlock: bigint
+): AsyncGenerator<{ windowEnd: bigint; blocks: FetchedBlock[] }> {
+  const { chain } = sources
+  const maxChunk  = Math.max(1, chain.logChunkSize)
+
+  let chunkSize = maxChunk
+  let current   = fromBlock
+
+  while (current <= toBlock) {
+    const windowEnd = minBigInt(current + BigInt(chunkSize) - 1n, toBlock)
+
+    let rawLogs: Log[]
+    try {
+      rawLogs = await chain.client.getLogs({ address: sources.addresses, fromBlock: current, toBlock: windowEnd })
+    } catch (err) {
+      if (isRangeTooLarge(err) && chunkSize > 1) {
+        chunkSize = Math.max(1, Math.floor(chunkSize / 2))
+        continue
+      }
+      throw err
+    }
+
+    const logsByBlock = groupByBlock(rawLogs)
+    const ordered = [...logsByBlock.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+
+    const blocks: FetchedBlock[] = []
+    for (const blockNumber of ordered) {
+      const block     = await chain.client.getBlock({ blockNumber })
+      const blockLogs = logsByBlock.get(blockNumber) ?? []
+      if (blockLogs.some((l) => l.blockHash !== null && l.blockHash !== block.hash)) {
+        throw new Error(`Log blockHash mismatch at block ${blockNumber} — chain moved during fetch`)
+      }
+      blocks.push({ number: blockNumber, hash: block.hash ?? "", timestamp: block.timestamp, logs: blockLogs })
+    }
+
+    yield { windowEnd, blocks }
+    current   = windowEnd + 1n
+    chunkSize = Math.min(maxChunk, Math.ceil(chunkSize * 1.25))
+  }
+}
+
+/** Decode and process one fetched block's logs — ledger first, then derived state. */
+export async function applyFetchedBlock(block: FetchedBlock, sources: LogSources): Promise<void> {
+  await processLogs(block.number, block.hash, block.timestamp, block.logs, sources)
+}
+
+/**
+ * Process the logs of `markets` over a range the chain's cursor has already
+ * passed — a market registered after the indexer went by its deployment.
+ * Same windowed getLogs as chunked catch-up, but SyncState, IndexedBlock and
+ * reorg checks are left to the live loop: every block here is confirmed, and
+ * a later rollback deletes these rows by block number like any others.
+ * Overlap with the live loop is harmless — every write is idempotent.
+ */
+export async function backfillMarkets(
+  chain: ChainConfig,
+  fromBlock: bigint,
+  toBlock: bigint,
+  markets: MarketConfig[],
+  onProgress?: (lastBlock: bigint) => void | Promise<void>
+): Promise<void> {
+  if (fromBlock > toBlock) return
+
+  const sources = await buildLogSources(chain, markets)
+
+  for await (const { windowEnd, blocks } of fetchLogWindows(sources, fromBlock, toBlock)) {
+    for (const block of blocks) await applyFetchedBlock(block, sources)
+    await onProgress?.(windowEnd)
+  }
+}
+
 // ─── Internal ─────────────────────────────────────────────────────────────────
 
 class ReorgError extends Error {
@@ -244,4 +745,23 @@ class ReorgError extends Error {
   }
 }
 
-export { CONFIRMATIONS, REORG_BUFFER, DEPLOYMENT_BLOCK }
+class RangeTooLargeError extends Error {
+  constructor(public readonly fromBlock: bigint, public readonly toBlock: bigint) {
+    super(`Provider rejected getLogs range ${fromBlock}-${toBlock}`)
+  }
+}
+
+function groupByBlock(rawLogs: Log[]): Map<bigint, Log[]> {
+  const logsByBlock = new Map<bigint, Log[]>()
+  for (const rawLog of rawLogs) {
+    if (rawLog.blockNumber === null) continue
+    const list = logsByBlock.get(rawLog.blockNumber) ?? []
+    list.push(rawLog)
+    logsByBlock.set(rawLog.blockNumber, list)
+  }
+  return logsByBlock
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b
+}
@@ -54,6 +54,24 @@ export const MARKET_EVENTS_ABI = [
       { name: "badDebt", type: "uint256", indexed: false },
     ],
   },
+  {
+    type: "event",
+    name: "CollateralSeized",
+    inputs: [
+      { name: "borrower", type: "address", indexed: true },
+      { name: "liquidator", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "BadDebtRecorded",
+    inputs: [
+      { name: "borrower", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
   {
     type: "event",
     name: "GlobalBorrowIndexUpdated",
@@ -63,4 +81,203 @@ export const MARKET_EVENTS_ABI = [
       { name: "timestamp", type: "uint256", indexed: false },
     ],
   },
+  // ─── Governance / parameter changes ───
+  {
+    type: "event",
+    name: "MarketParametersUpdated",
+    inputs: [
+      { name: "lltv", type: "uint256", indexed: false },
+      { name: "liquidationPenalty", type: "uint256", indexed: false },
+      { name: "protocolFeeRate", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "BorrowingPausedChanged",
+    inputs: [{ name: "paused", type: "bool", indexed: false }],
+  },
+  {
+    type: "event",
+    name: "GuardianChanged",
+    inputs: [
+      { name: "oldGuardian", type: "address", indexed: true },
+      { name: "newGuardian", type: "address", indexed: true },
+    ],
+  },
+  {
+    type: "event",
+    name: "CollateralTokenAdded",
+    inputs: [
+      { name: "token", type: "address", indexed: true },
+      { name: "priceFeed", type: "address", indexed: true },
+      { name: "decimals", type: "uint8", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "CollateralTokenRemoved",
+    inputs: [{ name: "token", type: "address", indexed: true }],
+  },
+  {
+    type: "event",
+    name: "CollateralDepositsPaused",
+    inputs: [{ name: "token", type: "address", indexed: true }],
+  },
+  {
+    type: "event",
+    name: "CollateralDepositsResumed",
+    inputs: [{ name: "token", type: "address", indexed: true }],
+  },
+] as const
+
+/**
+ * Vault Event ABIs
+ * ----------------
+ * ERC-4626 lender flows (OpenZeppelin Deposit/Withdraw) plus the market
+ * borrow/repay transfers from Events.sol.
+ */
+
+export const VAULT_EVENTS_ABI = [
+  {
+    type: "event",
+    name: "Deposit",
+    inputs: [
+      { name: "sender", type: "address", indexed: true },
+      { name: "owner", type: "address", indexed: true },
+      { name: "assets", type: "uint256", indexed: false },
+      { name: "shares", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Withdraw",
+    inputs: [
+      { name: "sender", type: "address", indexed: true },
+      { name: "receiver", type: "address", indexed: true },
+      { name: "owner", type: "address", indexed: true },
+      { name: "assets", type: "uint256", indexed: false },
+      { name: "shares", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "BorrowedByMarket",
+    inputs: [
+      { name: "market", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "RepaidToVault",
+    inputs: [
+      { name: "market", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+] as const
+
+/**
+ * InterestRateModel Event ABIs
+ * ----------------------------
+ * Rate parameter setters from Events.sol — keep MarketParams in sync.
+ */
+
+export const IRM_EVENTS_ABI = [
+  {
+    type: "event",
+    name: "BaseRateUpdated",
+    inputs: [
+      { name: "oldRate", type: "uint256", indexed: false },
+      { name: "newRate", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "OptimalUtilizationUpdated",
+    inputs: [
+      { name: "oldUtilization", type: "uint256", indexed: false },
+      { name: "newUtilization", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Slope1Updated",
+    inputs: [
+      { name: "oldSlope", type: "uint256", indexed: false },
+      { name: "newSlope", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Slope2Updated",
+    inputs: [
+      { name: "oldSlope", type: "uint256", indexed: false },
+      { name: "newSlope", type: "uint256", indexed: false },
+    ],
+  },
+] as const
+
+/**
+ * Oracle Event ABIs
+ * -----------------
+ * OracleRouter (LKG, TWAP) and its underlying PriceOracle (Chainlink feed
+ * management, max price age). Events.OracleFallbackUsed is declared but never
+ * emitted — evaluate() is a view — so it isn't watched.
+ */
+
+export const ORACLE_EVENTS_ABI = [
+  {
+    type: "event",
+    name: "LKGPriceUpdated",
+    inputs: [
+      { name: "asset", type: "address", indexed: true },
+      { name: "price", type: "uint256", indexed: false },
+      { name: "timestamp", type: "uint64", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "TWAPOracleRegistered",
+    inputs: [
+      { name: "asset", type: "address", indexed: true },
+      { name: "twapOracle", type: "address", indexed: true },
+    ],
+  },
+  {
+    type: "event",
+    name: "TWAPOracleRemoved",
+    inputs: [{ name: "asset", type: "address", indexed: true }],
+  },
+  {
+    type: "event",
+    name: "PriceFeedAdded",
+    inputs: [
+      { name: "asset", type: "address", indexed: true },
+      { name: "feed", type: "address", indexed: true },
+      { name: "decimals", type: "uint8", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "PriceFeedUpdated",
+    inputs: [
+      { name: "asset", type: "address", indexed: true },
+      { name: "oldFeed", type: "address", indexed: true },
+      { name: "newFeed", type: "address", indexed: true },
+    ],
+  },
+  {
+    type: "event",
+    name: "PriceFeedRemoved",
+    inputs: [{ name: "asset", type: "address", indexed: true }],
+  },
+  {
+    type: "event",
+    name: "MaxPriceAgeUpdated",
+    inputs: [
+      { name: "oldMaxAge", type: "uint256", indexed: false },
+      { name: "newMaxAge", type: "uint256", indexed: false },
+    ],
+  },
 ] as const
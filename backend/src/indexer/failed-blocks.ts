@@ -0,0 +1,133 @@
+/**
+ * Failed Block Queue
+ * ------------------
+ * Dead-letter table for blocks that still fail after the block processor's
+ * inline retry. The cursor moves on; rows here are re-processed in the
+ * background with exponential backoff and deleted once they succeed.
+ *
+ * Retries go through reprocessBlock, which runs the normal log pipeline
+ * without touching SyncState — every write in it is idempotent.
+ */
+
+import { FAILED_BLOCK_RETRY_BASE_MS, FAILED_BLOCK_RETRY_MAX_MS } from "../lib/rpc"
+import { getChain, isConfiguredChain } from "../lib/chains"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { reprocessBlock } from "./block-processor"
+import type { MarketConfig } from "./listener"
+
+export interface RetryResult {
+  chainId: number
+  blockNumber: number
+  ok: boolean
+  attempts: number
+  error?: string
+}
+
+/** Delay before the next attempt, given how many attempts have been made. */
+function backoffMs(attempts: number): number {
+  const exp = Math.max(0, attempts - 2)
+  return Math.min(FAILED_BLOCK_RETRY_BASE_MS * 2 ** exp, FAILED_BLOCK_RETRY_MAX_MS)
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+/**
+ * Add a block to the queue, or bump its attempt count if already queued.
+ * `attempts` is the number of attempts made by the caller.
+ */
+export async function recordFailedBlock(chainId: number, blockNumber: bigint, err: unknown, attempts: number) {
+  const now = new Date()
+  const where = { chainId_blockNumber: { chainId, blockNumber: Number(blockNumber) } }
+  const existing = await prisma.failedBlock.findUnique({ where })
+  const total = (existing?.attempts ?? 0) + attempts
+
+  return prisma.failedBlock.upsert({
+    where,
+    update: {
+      error:         errorMessage(err),
+      attempts:      total,
+      lastAttemptAt: now,
+      nextRetryAt:   new Date(now.getTime() + backoffMs(total)),
+    },
+    create: {
+      chainId,
+      blockNumber:   Number(blockNumber),
+      error:         errorMessage(err),
+      attempts:      total,
+      nextRetryAt:   new Date(now.getTime() + backoffMs(total)),
+    },
+  })
+}
+
+/** Queued blocks, optionally for one chain only. */
+export async function listFailedBlocks(chainId?: number) {
+  return prisma.failedBlock.findMany({
+    where: chainId !== undefined ? { chainId } : {},
+    orderBy: [{ chainId: "asc" }, { blockNumber: "asc" }],
+  })
+}
+
+/** Queue size per chain — chains with an empty queue are omitted. */
+export async function countFailedBlocks(): Promise<Record<number, number>> {
+  const groups = await prisma.failedBlock.groupBy({ by: ["chainId"], _count: { _all: true } })
+  return Object.fromEntries(groups.map((g) => [g.chainId, g._count._all]))
+}
+
+/**
+ * Re-process one queued block now, ignoring its backoff schedule.
+ * Returns null when the block is not in the queue.
+ */
+export async function retryFailedBlock(
+  chainId: number,
+  blockNumber: number,
+  markets: MarketConfig[]
+): Promise<RetryResult | null> {
+  const where = { chainId_blockNumber: { chainId, blockNumber } }
+  const row = await prisma.failedBlock.findUnique({ where })
+  if (!row) return null
+
+  try {
+    const chainMarkets = markets.filter((m) => m.chainId === chainId)
+    await reprocessBlock(getChain(chainId), BigInt(blockNumber), chainMarkets)
+    await prisma.failedBlock.delete({ where })
+    logger.info({ chainId, block: blockNumber, attempts: row.attempts + 1 }, "[failed-blocks] Block recovered")
+    return { chainId, blockNumber, ok: true, attempts: row.attempts + 1 }
+  } catch (err) {
+    const updated = await recordFailedBlock(chainId, BigInt(blockNumber), err, 1)
+    logger.warn(
+      { chainId, block: blockNumber, attempts: updated.attempts, nextRetryAt: updated.nextRetryAt, err },
+      "[failed-blocks] Retry failed"
+    )
+    return { chainId, blockNumber, ok: false, attempts: updated.attempts, error: updated.error }
+  }
+}
+
+/**
+ * Retry queued blocks in block order. By default only rows whose backoff
+ * has elapsed; `force` retries everything (used by the internal endpoint).
+ * Rows for chains this process doesn't index are left alone.
+ */
+export async function retryFailedBlocks(
+  markets: MarketConfig[],
+  options: { force?: boolean; chainId?: number } = {}
+): Promise<RetryResult[]> {
+  const due = await prisma.failedBlock.findMany({
+    where: {
+      ...(options.chainId !== undefined ? { chainId: options.chainId } : {}),
+      ...(options.force ? {} : { nextRetryAt: { lte: new Date() } }),
+    },
+    orderBy: [{ chainId: "asc" }, { blockNumber: "asc" }],
+  })
+
+  const results: RetryResult[] = []
+  for (const row of due) {
+    if (!isConfiguredChain(row.chainId)) continue
+    const result = await retryFailedBlock(row.chainId, row.blockNumber, markets)
+    // null if a rollback removed the row while we were working through the list
+    if (result) results.push(result)
+  }
+  return results
+}
@@ -0,0 +1,229 @@
+/**
+ * Open-Borrower Health Sweep
+ * --------------------------
+ * Re-reads MarketV1.getUserPosition for every open borrower — every
+ * UserPosition with non-zero principal, which the event-sourced positions
+ * (position-state.ts) keep current — so a borrower who stays idle while their
+ * collateral price falls is still rechecked.
+ *
+ * Reads are pinned to the chain head and batched HEALTH_SWEEP_BATCH_SIZE
+ * calls per multicall. Each reading is stored on the UserPosition row and
+ * appended as a UserPositionSnapshot. Health factors are bucketed into bands:
+ *
+ *   liquidatable  < 1
+ *   critical      < HEALTH_BAND_CRITICAL (default 1.05)
+ *   warning       < HEALTH_BAND_WARNING  (default 1.25)
+ *   healthy       otherwise
+ *
+ * A borrower moving into a worse band is flagged (logged, and healthBandSince
+ * reset). Cron asks sweepDue() every minute: a chain is swept every
+ * HEALTH_SWEEP_INTERVAL_MINUTES (default 10), or as soon as a loan or
+ * collateral price has moved HEALTH_SWEEP_PRICE_MOVE (relative, default 0.03)
+ * since its last sweep.
+ */
+
+import { getChain } from "../lib/chains"
+import { MARKET_ABI, ORACLE_ROUTER_ABI } from "../lib/contracts"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { borrowersByHealthBand } from "../lib/metrics"
+import { normalize, WAD } from "../lib/rpc"
+import { MAX_HEALTH_FACTOR, positionSnapshotRow } from "./position"
+import { latestAnchor } from "./snapshot"
+import type { MarketConfig } from "./listener"
+
+const BATCH_SIZE     = Number(process.env.HEALTH_SWEEP_BATCH_SIZE ?? 100)
+const INTERVAL_MS    = Number(process.env.HEALTH_SWEEP_INTERVAL_MINUTES ?? 10) * 60_000
+const PRICE_MOVE     = Number(process.env.HEALTH_SWEEP_PRICE_MOVE ?? 0.03)
+const CRITICAL_BELOW = Number(process.env.HEALTH_BAND_CRITICAL ?? 1.05)
+const WARNING_BELOW  = Number(process.env.HEALTH_BAND_WARNING ?? 1.25)
+
+// Worst last, so a higher index is a worse band
+export const HEALTH_BANDS = ["healthy", "warning", "critical", "liquidatable"] as const
+export type HealthBand = (typeof HEALTH_BANDS)[number]
+
+export function bandOf(healthFactor: number): HealthBand {
+  if (healthFactor < 1) return "liquidatable"
+  if (healthFactor < CRITICAL_BELOW) return "critical"
+  if (healthFactor < WARNING_BELOW) return "warning"
+  return "healthy"
+}
+
+const rank = (band: string | null) => (band ? HEALTH_BANDS.indexOf(band as HealthBand) : 0)
+
+interface OnChainPosition {
+  collateralValue: bigint
+  totalDebt: bigint
+  healthFactor: bigint
+  borrowingPower: bigint
+}
+
+// ─── Scheduling ──────────────────────────────────────────────────────────────
+
+/** Per chain: when it was last swept and the prices it was swept at. */
+const lastSweeps = new Map<number, { at: number; prices: Map<string, bigint> }>()
+
+/** Latest router price of every loan asset and supported collateral token, keyed router:asset. */
+async function readPrices(chainId: number, markets: MarketConfig[]): Promise<Map<string, bigint>> {
+  const onChain    = markets.filter((m) => m.chainId === chainId)
+  const collateral = await prisma.marketCollateral.findMany({
+    where:  { marketId: { in: onChain.map((m) => m.marketId) }, isSupported: true },
+    select: { marketId: true, token: true },
+  })
+
+  const pairs = new Map<string, { router: `0x${string}`; asset: `0x${string}` }>()
+  const add = (router: `0x${string}`, asset: string) =>
+    pairs.set(`${router}:${asset}`.toLowerCase(), { router, asset: asset as `0x${string}` })
+  for (const market of onChain) {
+    add(market.oracleRouterAddress, market.loanAsset)
+    for (const c of collateral.filter((c) => c.marketId === market.marketId)) add(market.oracleRouterAddress, c.token)
+  }
+
+  const keys    = [...pairs.keys()]
+  const results = await getChain(chainId).client.multicall({
+    contracts: keys.map((key) => ({
+      address:      pairs.get(key)!.router,
+      abi:          ORACLE_ROUTER_ABI,
+      functionName: "getLatestPrice" as const,
+      args:         [pairs.get(key)!.asset] as const,
+    })),
+  })
+
+  const prices = new Map<string, bigint>()
+  for (const [i, key] of keys.entries()) {
+    const result = results[i]
+    // Assets without a feed have no price to watch
+    if (result.status === "success" && (result.result as bigint) > 0n) prices.set(key, result.result as bigint)
+  }
+  return prices
+}
+
+/** Largest relative move of any price present on both sides. */
+function largestMove(before: Map<string, bigint>, after: Map<string, bigint>): number {
+  let largest = 0
+  for (const [key, price] of after) {
+    const previous = before.get(key)
+    if (!previous) continue
+    const move = Math.abs(Number(price - previous)) / Number(previous)
+    if (move > largest) largest = move
+  }
+  return largest
+}
+
+/**
+ * Why a chain should be swept now — never swept by this process, the interval
+ * elapsed, or a price moved sharply since the last sweep — or null.
+ */
+export async function sweepDue(
+  chainId: number,
+  markets: MarketConfig[]
+): Promise<"first sweep" | "interval" | "price move" | null> {
+  const last = lastSweeps.get(chainId)
+  if (!last) return "first sweep"
+  if (Date.now() - last.at >= INTERVAL_MS) return "interval"
+
+  const move = largestMove(last.prices, await readPrices(chainId, markets))
+  return move >= PRICE_MOVE ? "price move" : null
+}
+
+// ─── Sweep ───────────────────────────────────────────────────────────────────
+
+/**
+ * Sweep every open borrower of the given markets on one chain at its head.
+ * Returns how many borrowers were checked and how many moved into a worse band.
+ */
+export async function sweepBorrowers(
+  chainId: number,
+  markets: MarketConfig[]
+): Promise<{ checked: number; flagged: number }> {
+  const chain  = getChain(chainId)
+  const prices = await readPrices(chainId, markets)
+  const anchor = await latestAnchor(chainId)
+  const sweptAt = new Date()
+  let checked = 0
+  let flagged = 0
+
+  for (const market of markets.filter((m) => m.chainId === chainId)) {
+    const bands = new Map<HealthBand, number>(HEALTH_BANDS.map((b) => [b, 0]))
+    let cursor: number | undefined
+
+    for (;;) {
+      const batch = await prisma.userPosition.findMany({
+        where:   { marketId: market.marketId, principal: { gt: 0 } },
+        orderBy: { id: "asc" },
+        take:    BATCH_SIZE,
+        ...(cursor !== undefined && { skip: 1, cursor: { id: cursor } }),
+      })
+      if (batch.length === 0) break
+      cursor = batch[batch.length - 1].id
+
+      const results = await chain.client.multicall({
+        blockNumber: anchor.blockNumber,
+        contracts:   batch.map((p) => ({
+          address:      market.marketAddress,
+          abi:          MARKET_ABI,
+          functionName: "getUserPosition" as const,
+          args:         [p.userAddress as `0x${string}`] as const,
+        })),
+      })
+
+      const snapshots = []
+      for (const [i, row] of batch.entries()) {
+        const result = results[i]
+        if (result.status !== "success") {
+          logger.warn({ user: row.userAddress.slice(0, 10), err: result.error }, "[health-sweep] getUserPosition failed")
+          continue
+        }
+
+        const pos     = result.result as OnChainPosition
+        const figures = {
+          collateralValue: normalize(pos.collateralValue, WAD),
+          totalDebt:       normalize(pos.totalDebt, WAD),
+          healthFactor:    normalize(pos.healthFactor, WAD),
+          borrowingPower:  normalize(pos.borrowingPower, WAD),
+        }
+        const band    = bandOf(figures.healthFactor)
+        const changed = band !== row.healthBand
+
+        if (rank(band) > rank(row.healthBand)) {
+          flagged++
+          logger.warn(
+            { user: row.userAddress, marketId: market.marketId, healthFactor: figures.healthFactor, band, previous: row.healthBand },
+            "[health-sweep] Borrower entered a worse health band"
+          )
+        }
+
+        // updateMany: a rollback may have removed the row meanwhile
+        await prisma.userPosition.updateMany({
+          where: { id: row.id },
+          data:  {
+            healthCheckedAt:     sweptAt,
+            healthBlock:         Number(anchor.blockNumber),
+            onChainHealthFactor: Math.min(figures.healthFactor, MAX_HEALTH_FACTOR).toFixed(6),
+            healthBand:          band,
+            ...(changed && { healthBandSince: sweptAt }),
+          },
+        })
+        snapshots.push(positionSnapshotRow(row.userAddress, market.marketId, anchor, figures))
+        bands.set(band, bands.get(band)! + 1)
+        checked++
+      }
+
+      if (snapshots.length > 0) await prisma.userPositionSnapshot.createMany({ data: snapshots })
+      if (batch.length < BATCH_SIZE) break
+    }
+
+    // Repaid since the last sweep — no longer a borrower to band
+    await prisma.userPosition.updateMany({
+      where: { marketId: market.marketId, principal: 0, healthBand: { not: null } },
+      data:  { healthBand: null, healthBandSince: null },
+    })
+
+    for (const [band, count] of bands) {
+      borrowersByHealthBand.set({ chain: chain.name, market: market.marketAddress.toLowerCase(), band }, count)
+    }
+  }
+
+  lastSweeps.set(chainId, { at: Date.now(), prices })
+  return { checked, flagged }
+}
@@ -1,42 +1,53 @@
 /**
  * Indexer Orchestrator
  * --------------------
- * Starts the deterministic block-based indexer for all active markets.
+ * Starts one deterministic block-based indexer loop per configured chain
+ * (src/lib/chains.ts). Each loop has its own SyncState cursor and block
+ * watcher, so a slow or failing chain never holds up the others.
  *
  * On startup:
- *   1. Load active markets from DB
- *   2. Read SyncState — find last processed block
- *   3. Catch up all missed blocks up to (tip - CONFIRMATIONS)
- *   4. Subscribe to new block headers via watchBlockNumber
+ *   1. Load active markets from DB, grouped by chainId
+ *   2. Per chain: read SyncState — find last processed block
+ *   3. Per chain: catch up all missed blocks up to (tip - confirmations)
+ *   4. Per chain: subscribe to new block headers via watchBlockNumber
  *   5. For each new confirmed block, process via processBlockRange
  *
- * The system survives restarts — SyncState persists the cursor.
+ * The system survives restarts — SyncState persists each chain's cursor.
+ * Markets registered or deactivated via /admin/markets are picked up by
+ * reloadMarkets() without a restart.
  * Periodic snapshots are handled by node-cron jobs (src/jobs/index.ts).
  */
 
 import "dotenv/config"
 import { prisma } from "../lib/db"
-import { client, CONFIRMATIONS, DEPLOYMENT_BLOCK } from "../lib/rpc"
+import { CHAINS, isConfiguredChain, type ChainConfig } from "../lib/chains"
 import { processBlockRange, getSyncState } from "./block-processor"
 import { seedMarketParams } from "../lib/seedMarketParams"
 import { logger } from "../lib/logger"
-import type { MarketConfig } from "./listener"
+import { observeChainHead } from "../lib/metrics"
+import { toMarketConfig, type MarketConfig } from "./listener"
 import type { WatchBlockNumberReturnType } from "viem"
 
 let running    = false
 let startedAt: Date | null = null
 let unwatchers: WatchBlockNumberReturnType[] = []
+let runningChains: number[] = []
 
-/** Loaded markets — shared with cron jobs */
+/** Loaded markets on all configured chains — shared with cron jobs */
 export let activeMarkets: MarketConfig[] = []
 
+/** Active markets on one chain. */
+export function marketsOnChain(chainId: number): MarketConfig[] {
+  return activeMarkets.filter((m) => m.chainId === chainId)
+}
+
 export async function startIndexer() {
   if (running) {
     logger.info("[indexer] Already running")
     return { alreadyRunning: true }
   }
 
-  logger.info("[indexer] Starting...")
+  logger.info({ chains: CHAINS.map((c) => c.name) }, "[indexer] Starting...")
 
   // 1. Load markets from DB
   const markets = await prisma.market.findMany({ where: { isActive: true } })
@@ -45,73 +56,138 @@ export async function startIndexer() {
     return { error: "No active markets" }
   }
 
-  logger.info({ count: markets.length }, "[indexer] Loaded active markets")
+  const unconfigured = markets.filter((m) => !isConfiguredChain(m.chainId))
+  if (unconfigured.length > 0) {
+    logger.warn(
+      { markets: unconfigured.map((m) => `${m.symbol}@${m.chainId}`) },
+      "[indexer] Skipping markets on chains missing from CHAINS"
+    )
+  }
 
-  activeMarkets = markets.map((m) => ({
-    marketId:            m.id,
-    vaultAddress:        m.vaultAddress        as `0x${string}`,
-    marketAddress:       m.marketAddress       as `0x${string}`,
-    irmAddress:          m.irmAddress          as `0x${string}`,
-    oracleRouterAddress: m.oracleRouterAddress  as `0x${string}`,
-    loanAsset:           m.loanAsset           as `0x${string}`,
-    loanAssetDecimals:   m.loanAssetDecimals,
-  }))
+  activeMarkets = markets.filter((m) => isConfiguredChain(m.chainId)).map(toMarketConfig)
+  logger.info({ count: activeMarkets.length }, "[indexer] Loaded active markets")
 
   // Seed IRM + risk params from chain (non-blocking — failures are logged)
   seedMarketParams(activeMarkets).catch((err) =>
     logger.error({ err }, "[indexer] seedMarketParams failed")
   )
 
+  running   = true
+  startedAt = new Date()
+
+  // 2–5. One independent loop per chain — a chain that fails to start is
+  // logged and left out; the others keep running.
+  const chains  = CHAINS.filter((c) => marketsOnChain(c.chainId).length > 0)
+  const results = await Promise.allSettled(chains.map(startChainLoop))
+
+  runningChains = []
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      runningChains.push(chains[i].chainId)
+    } else {
+      logger.error({ chainId: chains[i].chainId, err: result.reason }, "[indexer] Chain failed to start")
+    }
+  })
+
+  if (runningChains.length === 0) {
+    stopIndexer()
+    return { error: "No chain could be started" }
+  }
+
+  logger.info({ chains: runningChains }, "[indexer] Running")
+  return {
+    started: true,
+    chains:  runningChains,
+    markets: markets
+      .filter((m) => isConfiguredChain(m.chainId))
+      .map((m) => ({ id: m.id, chainId: m.chainId, label: m.label, symbol: m.symbol })),
+  }
+}
+
+/** Catch one chain up to its safe head, then follow new confirmed blocks. */
+async function startChainLoop(chain: ChainConfig): Promise<void> {
+  const { chainId } = chain
+
   // 2. Determine start block from SyncState
-  const syncState    = await getSyncState()
-  const currentBlock = await client.getBlockNumber()
-  const safeHead     = currentBlock - BigInt(CONFIRMATIONS)
+  const syncState    = await getSyncState(chainId)
+  const currentBlock = await chain.client.getBlockNumber()
+  observeChainHead(chain, currentBlock)
+  const safeHead     = currentBlock - BigInt(chain.confirmations)
   const startBlock   = syncState
     ? BigInt(syncState.lastProcessedBlock) + 1n
-    : DEPLOYMENT_BLOCK
+    : chain.deploymentBlock
 
   // 3. Catch up missed blocks
   if (startBlock <= safeHead) {
     logger.info(
-      { from: Number(startBlock), to: Number(safeHead) },
+      { chainId, from: Number(startBlock), to: Number(safeHead) },
       "[indexer] Catching up missed blocks"
     )
-    await processBlockRange(startBlock, safeHead, activeMarkets)
+    await processBlockRange(chain, startBlock, safeHead, marketsOnChain(chainId))
   } else {
-    logger.info({ block: Number(safeHead) }, "[indexer] Already at safe head — no catch-up needed")
+    logger.info({ chainId, block: Number(safeHead) }, "[indexer] Already at safe head — no catch-up needed")
   }
 
+  // The indexer may have been stopped while this chain was catching up
+  if (!running) return
+
   // 4. Track confirmed block cursor
   let lastProcessed = safeHead
 
   // 5. Watch for new confirmed blocks
-  const unwatch = client.watchBlockNumber({
+  const unwatch = chain.client.watchBlockNumber({
     onBlockNumber: async (tip) => {
-      const confirmed = tip - BigInt(CONFIRMATIONS)
+      observeChainHead(chain, tip)
+      const confirmed = tip - BigInt(chain.confirmations)
       if (confirmed <= lastProcessed) return
 
+      // Every market on this chain was deactivated — hold the cursor so a
+      // reactivated market resumes from here without a gap
+      const markets = marketsOnChain(chainId)
+      if (markets.length === 0) return
+
       const from = lastProcessed + 1n
       try {
-        await processBlockRange(from, confirmed, activeMarkets)
+        await processBlockRange(chain, from, confirmed, markets)
         lastProcessed = confirmed
       } catch (err) {
-        logger.error({ from: Number(from), to: Number(confirmed), err }, "[indexer] Block range error")
+        logger.error({ chainId, from: Number(from), to: Number(confirmed), err }, "[indexer] Block range error")
       }
     },
     onError: (err) => {
-      logger.error({ err }, "[indexer] watchBlockNumber error")
+      logger.error({ chainId, err }, "[indexer] watchBlockNumber error")
     },
   })
 
   unwatchers.push(unwatch)
-  running   = true
-  startedAt = new Date()
+}
 
-  logger.info("[indexer] Running")
-  return {
-    started: true,
-    markets: markets.map((m) => ({ id: m.id, label: m.label, symbol: m.symbol })),
+/**
+ * Re-read active markets after the registry changed (see routes/admin.ts).
+ * Running loops use the new list from their next block range and cron jobs
+ * from their next tick; a chain that gains its first market gets a loop.
+ * No-op while the indexer is stopped — startIndexer loads markets itself.
+ */
+export async function reloadMarkets(): Promise<MarketConfig[]> {
+  if (!running) return []
+
+  const markets = await prisma.market.findMany({ where: { isActive: true } })
+  activeMarkets = markets.filter((m) => isConfiguredChain(m.chainId)).map(toMarketConfig)
+  logger.info({ count: activeMarkets.length }, "[indexer] Reloaded active markets")
+
+  for (const chain of CHAINS) {
+    const { chainId } = chain
+    if (runningChains.includes(chainId) || marketsOnChain(chainId).length === 0) continue
+
+    // Catch-up can take a while — don't hold the caller
+    runningChains.push(chainId)
+    startChainLoop(chain).catch((err) => {
+      runningChains = runningChains.filter((id) => id !== chainId)
+      logger.error({ chainId, err }, "[indexer] Chain failed to start")
+    })
   }
+
+  return activeMarkets
 }
 
 export function stopIndexer() {
@@ -122,6 +198,7 @@ export function stopIndexer() {
   }
   unwatchers    = []
   activeMarkets = []
+  runningChains = []
 
   running = false
   const uptime = startedAt ? Date.now() - startedAt.getTime() : 0
@@ -137,5 +214,11 @@ export function getIndexerStatus() {
     startedAt:     startedAt?.toISOString() ?? null,
     watcherCount:  unwatchers.length,
     activeMarkets: activeMarkets.length,
+    chains: CHAINS.map((c) => ({
+      chainId: c.chainId,
+      name:    c.name,
+      running: runningChains.includes(c.chainId),
+      markets: marketsOnChain(c.chainId).length,
+    })),
   }
 }
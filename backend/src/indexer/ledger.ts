@@ -0,0 +1,51 @@
+/**
+ * Protocol Event Ledger
+ * ---------------------
+ * Append-only record of every decoded log, written by the block processor
+ * BEFORE any derived processing runs. Derived tables can be rebuilt from it
+ * without touching the RPC; rollbackFrom deletes from it by block number.
+ */
+
+import { prisma } from "../lib/db"
+
+export interface LedgerEntry {
+  chainId: number
+  contractAddress: `0x${string}`
+  eventName: string
+  args: Record<string, unknown>
+  blockNumber: bigint
+  blockHash: string
+  txHash: `0x${string}`
+  logIndex: number
+}
+
+/** JSON-safe copy of decoded event args — bigints become decimal strings. */
+export function toJsonArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(
+    JSON.stringify(args, (_key, value) => (typeof value === "bigint" ? value.toString() : value))
+  )
+}
+
+export async function recordProtocolEvent(entry: LedgerEntry) {
+  // Idempotent on (chainId, txHash, logIndex) — replays never duplicate rows
+  return prisma.protocolEvent.upsert({
+    where: {
+      chainId_txHash_logIndex: {
+        chainId:  entry.chainId,
+        txHash:   entry.txHash,
+        logIndex: entry.logIndex,
+      },
+    },
+    update: {},
+    create: {
+      chainId:         entry.chainId,
+      contractAddress: entry.contractAddress.toLowerCase(),
+      eventName:       entry.eventName,
+      args:            toJsonArgs(entry.args) as object,
+      blockNumber:     Number(entry.blockNumber),
+      blockHash:       entry.blockHash,
+      txHash:          entry.txHash,
+      logIndex:        entry.logIndex,
+    },
+  })
+}
@@ -0,0 +1,53 @@
+/**
+ * Lender Flow Recorder
+ * --------------------
+ * Stores a LenderFlow row for each ERC-4626 Deposit/Withdraw and each
+ * BorrowedByMarket/RepaidToVault event emitted by a market's Vault.
+ */
+
+import { normalize } from "../lib/rpc"
+import { prisma } from "../lib/db"
+
+export type LenderFlowEvent = "Deposit" | "Withdraw" | "BorrowedByMarket" | "RepaidToVault"
+
+interface LenderFlowLog {
+  eventName: LenderFlowEvent
+  sender?: `0x${string}`
+  owner?: `0x${string}`
+  receiver?: `0x${string}`
+  assets: bigint
+  shares?: bigint
+  txHash: `0x${string}`
+  blockNumber: bigint
+  blockTimestamp: bigint
+  logIndex: number
+  loanAssetDecimals: number
+}
+
+export async function storeLenderFlow(marketId: string, log: LenderFlowLog) {
+  // Vault has no decimals offset — shares use the loan asset's decimals
+  const d = log.loanAssetDecimals
+
+  return prisma.lenderFlow.upsert({
+    where: {
+      txHash_logIndex: {
+        txHash: log.txHash,
+        logIndex: log.logIndex,
+      },
+    },
+    update: {},
+    create: {
+      marketId,
+      timestamp: new Date(Number(log.blockTimestamp) * 1000),
+      txHash: log.txHash,
+      blockNumber: Number(log.blockNumber),
+      logIndex: log.logIndex,
+      eventName: log.eventName,
+      sender: log.sender?.toLowerCase() ?? null,
+      owner: log.owner?.toLowerCase() ?? null,
+      receiver: log.receiver?.toLowerCase() ?? null,
+      assets: normalize(log.assets, d).toFixed(6),
+      shares: log.shares !== undefined ? normalize(log.shares, d).toFixed(6) : null,
+    },
+  })
+}
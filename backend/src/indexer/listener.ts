@@ -1,20 +1,25 @@
 /**
  * Event Log Processor
  * -------------------
- * Processes a single decoded MarketV1 event log.
+ * Processes a single decoded MarketV1 or Vault event log.
  * Called by block-processor.ts after deterministic getLogs fetching.
  *
  * This replaces the previous watchContractEvent callback approach.
  * No polling, no raw WebSocket callbacks — purely driven by block-processor.
  */
 
-import { computeAndSaveMarketSnapshot } from "./snapshot"
-import { updateUserPosition } from "./position"
+import { computeAndSaveMarketSnapshot, type SnapshotAnchor } from "./snapshot"
+import { applyPositionEvent } from "./position-state"
 import { storeLiquidation } from "./liquidation"
+import { storeBadDebtEvent, type BadDebtEventName } from "./bad-debt"
+import { storeInterestEvent } from "./revenue"
+import { storeLenderFlow } from "./lender-flow"
+import { applyParamsEvent } from "./params"
 import { logger } from "../lib/logger"
 
 export interface MarketConfig {
   marketId: string
+  chainId: number
   vaultAddress: `0x${string}`
   marketAddress: `0x${string}`
   irmAddress: `0x${string}`
@@ -23,20 +28,60 @@ export interface MarketConfig {
   loanAssetDecimals: number
 }
 
+/** Map a Market row to the indexer's MarketConfig shape. */
+export function toMarketConfig(m: {
+  id: string
+  chainId: number
+  vaultAddress: string
+  marketAddress: string
+  irmAddress: string
+  oracleRouterAddress: string
+  loanAsset: string
+  loanAssetDecimals: number
+}): MarketConfig {
+  return {
+    marketId:            m.id,
+    chainId:             m.chainId,
+    vaultAddress:        m.vaultAddress        as `0x${string}`,
+    marketAddress:       m.marketAddress       as `0x${string}`,
+    irmAddress:          m.irmAddress          as `0x${string}`,
+    oracleRouterAddress: m.oracleRouterAddress  as `0x${string}`,
+    loanAsset:           m.loanAsset           as `0x${string}`,
+    loanAssetDecimals:   m.loanAssetDecimals,
+  }
+}
+
 export interface DecodedLog {
+  chainId: number
   eventName: string
   args: Record<string, unknown>
   transactionHash: `0x${string}`
   blockNumber: bigint
+  blockHash: `0x${string}`
+  blockTimestamp: bigint
   logIndex: number
 }
 
+/** Pin snapshots triggered by this log to its block and key them on it. */
+function anchorOf(log: DecodedLog): SnapshotAnchor {
+  return {
+    blockNumber:    log.blockNumber,
+    blockHash:      log.blockHash,
+    blockTimestamp: log.blockTimestamp,
+    txHash:         log.transactionHash,
+    logIndex:       log.logIndex,
+  }
+}
+
 /**
  * Process a single decoded event log for a given market.
  * All operations are idempotent — safe to call multiple times for the same log.
+ * User events snapshot the market first, so the position is priced with the
+ * router prices of its own block.
  */
 export async function processEventLog(log: DecodedLog, market: MarketConfig): Promise<void> {
   const { eventName, args } = log
+  const anchor = anchorOf(log)
 
   switch (eventName) {
     case "CollateralDeposited":
@@ -46,8 +91,8 @@ export async function processEventLog(log: DecodedLog, market: MarketConfig): Pr
         { event: eventName, user: user.slice(0, 10), block: Number(log.blockNumber) },
         "[listener] User collateral event"
       )
-      await updateUserPosition(user, market.marketId, market.marketAddress)
-      await computeAndSaveMarketSnapshot(market)
+      await computeAndSaveMarketSnapshot(market, anchor)
+      await applyPositionEvent(log, market, true)
       break
     }
 
@@ -58,8 +103,20 @@ export async function processEventLog(log: DecodedLog, market: MarketConfig): Pr
         { event: eventName, user: user.slice(0, 10), block: Number(log.blockNumber) },
         "[listener] User borrow/repay event"
       )
-      await updateUserPosition(user, market.marketId, market.marketAddress)
-      await computeAndSaveMarketSnapshot(market)
+      if (eventName === "Repaid") {
+        await storeInterestEvent(market, {
+          user,
+          amount:         args.amount        as bigint,
+          interestPaid:   args.interestPaid  as bigint,
+          principalPaid:  args.principalPaid as bigint,
+          txHash:         log.transactionHash,
+          blockNumber:    log.blockNumber,
+          blockTimestamp: log.blockTimestamp,
+          logIndex:       log.logIndex,
+        })
+      }
+      await computeAndSaveMarketSnapshot(market, anchor)
+      await applyPositionEvent(log, market, true)
       break
     }
 
@@ -81,8 +138,31 @@ export async function processEventLog(log: DecodedLog, market: MarketConfig): Pr
         logIndex:          log.logIndex,
         loanAssetDecimals: market.loanAssetDecimals,
       })
-      await updateUserPosition(borrower, market.marketId, market.marketAddress)
-      await computeAndSaveMarketSnapshot(market)
+      await computeAndSaveMarketSnapshot(market, anchor)
+      await applyPositionEvent(log, market, true)
+      break
+    }
+
+    // Emitted inside liquidate() ahead of Liquidated, which snapshots the result
+    case "BadDebtRecorded":
+    case "CollateralSeized": {
+      const borrower = args.borrower as `0x${string}`
+      logger.info(
+        { event: eventName, borrower: borrower.slice(0, 10), block: Number(log.blockNumber) },
+        "[listener] Liquidation loss event"
+      )
+      await storeBadDebtEvent(market.marketId, {
+        eventName:      eventName as BadDebtEventName,
+        borrower,
+        liquidator:     args.liquidator as `0x${string}` | undefined,
+        token:          args.token      as `0x${string}` | undefined,
+        amount:         args.amount     as bigint,
+        txHash:         log.transactionHash,
+        blockNumber:    log.blockNumber,
+        blockTimestamp: log.blockTimestamp,
+        logIndex:       log.logIndex,
+      })
+      await applyPositionEvent(log, market, false)
       break
     }
 
@@ -91,7 +171,61 @@ export async function processEventLog(log: DecodedLog, market: MarketConfig): Pr
         { block: Number(log.blockNumber) },
         "[listener] GlobalBorrowIndexUpdated — snapshotting market"
       )
-      await computeAndSaveMarketSnapshot(market)
+      await computeAndSaveMarketSnapshot(market, anchor)
+      break
+    }
+
+    case "Deposit":
+    case "Withdraw": {
+      const owner = args.owner as `0x${string}`
+      logger.info(
+        { event: eventName, owner: owner.slice(0, 10), block: Number(log.blockNumber) },
+        "[listener] Vault lender flow event"
+      )
+      await storeLenderFlow(market.marketId, {
+        eventName,
+        sender:            args.sender   as `0x${string}`,
+        owner,
+        receiver:          args.receiver as `0x${string}` | undefined,
+        assets:            args.assets   as bigint,
+        shares:            args.shares   as bigint,
+        txHash:            log.transactionHash,
+        blockNumber:       log.blockNumber,
+        blockTimestamp:    log.blockTimestamp,
+        logIndex:          log.logIndex,
+        loanAssetDecimals: market.loanAssetDecimals,
+      })
+      await computeAndSaveMarketSnapshot(market, anchor)
+      break
+    }
+
+    case "BorrowedByMarket":
+    case "RepaidToVault": {
+      // Paired with a Borrowed/Repaid market event that already snapshots
+      await storeLenderFlow(market.marketId, {
+        eventName,
+        assets:            args.amount as bigint,
+        txHash:            log.transactionHash,
+        blockNumber:       log.blockNumber,
+        blockTimestamp:    log.blockTimestamp,
+        logIndex:          log.logIndex,
+        loanAssetDecimals: market.loanAssetDecimals,
+      })
+      break
+    }
+
+    case "MarketParametersUpdated":
+    case "BaseRateUpdated":
+    case "OptimalUtilizationUpdated":
+    case "Slope1Updated":
+    case "Slope2Updated":
+    case "BorrowingPausedChanged":
+    case "GuardianChanged":
+    case "CollateralTokenAdded":
+    case "CollateralTokenRemoved":
+    case "CollateralDepositsPaused":
+    case "CollateralDepositsResumed": {
+      await applyParamsEvent(log, market)
       break
     }
 
@@ -0,0 +1,97 @@
+/**
+ * Oracle Event Recorder
+ * ---------------------
+ * Persists OracleRouter and PriceOracle events per asset: LKG price updates,
+ * Chainlink feed and TWAP changes, max price age updates.
+ *
+ * PriceOracle emits the feed-management events, so its address is resolved
+ * from each router's priceOracle() getter and watched alongside the router.
+ */
+
+import { normalize, WAD } from "../lib/rpc"
+import { getChain } from "../lib/chains"
+import { ORACLE_ROUTER_ABI } from "../lib/contracts"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import type { DecodedLog, MarketConfig } from "./listener"
+
+// "chainId:router" (lowercased) → PriceOracle address. Immutable on-chain, safe to cache.
+const priceOracleByRouter = new Map<string, `0x${string}`>()
+
+/**
+ * Distinct oracle routers of the given markets plus their PriceOracles.
+ * All markets must be on the same chain.
+ */
+export async function getOracleAddresses(chainId: number, markets: MarketConfig[]): Promise<`0x${string}`[]> {
+  const routers = [...new Map(
+    markets.map((m) => [m.oracleRouterAddress.toLowerCase(), m.oracleRouterAddress])
+  ).values()]
+
+  const addresses: `0x${string}`[] = [...routers]
+  for (const router of routers) {
+    const key = `${chainId}:${router.toLowerCase()}`
+    let priceOracle = priceOracleByRouter.get(key)
+    if (!priceOracle) {
+      try {
+        priceOracle = await getChain(chainId).client.readContract({
+          address: router,
+          abi: ORACLE_ROUTER_ABI,
+          functionName: "priceOracle",
+        })
+        priceOracleByRouter.set(key, priceOracle)
+      } catch (err) {
+        logger.warn({ router: router.slice(0, 10), err }, "[oracle] priceOracle() lookup failed — feed events not watched")
+        continue
+      }
+    }
+    addresses.push(priceOracle)
+  }
+
+  return addresses
+}
+
+export async function storeOracleEvent(log: DecodedLog, oracleAddress: `0x${string}`) {
+  const { eventName, args } = log
+
+  const asset = typeof args.asset === "string" ? args.asset.toLowerCase() : null
+
+  let price: number | null = null
+  if (eventName === "LKGPriceUpdated") price = normalize(args.price as bigint, WAD)
+
+  const details: Record<string, string | number | boolean> = {}
+  for (const [key, value] of Object.entries(args)) {
+    if (key === "asset") continue
+    details[key] =
+      typeof value === "bigint" ? value.toString()
+      : typeof value === "string" ? value.toLowerCase()
+      : (value as number | boolean)
+  }
+
+  logger.info(
+    { event: eventName, asset: asset?.slice(0, 10) ?? null, block: Number(log.blockNumber) },
+    "[oracle] Oracle event"
+  )
+
+  return prisma.oracleEvent.upsert({
+    where: {
+      chainId_txHash_logIndex: {
+        chainId: log.chainId,
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+      },
+    },
+    update: {},
+    create: {
+      timestamp: new Date(Number(log.blockTimestamp) * 1000),
+      chainId: log.chainId,
+      txHash: log.transactionHash,
+      blockNumber: Number(log.blockNumber),
+      logIndex: log.logIndex,
+      oracleAddress: oracleAddress.toLowerCase(),
+      asset,
+      eventName,
+      price: price !== null ? price.toFixed(6) : null,
+      details,
+    },
+  })
+}
@@ -0,0 +1,306 @@
+/**
+ * Parallel Backfill
+ * -----------------
+ * Historical sync split into fixed-size segments (scripts/backfill.ts
+ * --parallel):
+ *
+ *   - Fetch: a bounded pool of workers runs the windowed getLogs + header
+ *     fetch for several segments at once and stages each segment's logs in
+ *     its BackfillSegment row. Fetching writes nothing else, so the order
+ *     workers finish in doesn't matter.
+ *   - Merge: a single loop applies staged segments strictly in block order,
+ *     and each block's logs in logIndex order, through the same ledger +
+ *     derived processing as the live loop. It starts as soon as the first
+ *     segment is staged and follows the workers.
+ *
+ * BackfillSegment rows are the checkpoints. Re-running the same range skips
+ * applied segments, re-applies staged ones without fetching and only fetches
+ * the rest. Applying is idempotent, so a crash mid-segment costs at most that
+ * segment.
+ *
+ * The last REORG_BUFFER blocks of the range go through processBlockRange
+ * instead. They get reorg checks, and SyncState and IndexedBlock end at
+ * toBlock the same as after a sequential backfill.
+ */
+
+import { createHash } from "crypto"
+import type { Log } from "viem"
+import { Prisma, type BackfillSegment } from "../generated/prisma/client"
+import type { ChainConfig } from "../lib/chains"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { indexerBlocksProcessed } from "../lib/metrics"
+import {
+  applyFetchedBlock,
+  buildLogSources,
+  fetchLogWindows,
+  processBlockRange,
+  type FetchedBlock,
+  type LogSources,
+} from "./block-processor"
+import type { MarketConfig } from "./listener"
+
+export interface ParallelBackfillOptions {
+  /** Segments fetched concurrently */
+  workers: number
+  /** Blocks per segment */
+  segmentSize: number
+  /** Drop existing checkpoints for the range and start over */
+  restart?: boolean
+}
+
+const RETRY_DELAY_MS = 2000
+
+// ─── Staged log encoding ──────────────────────────────────────────────────────
+
+interface StagedLog {
+  address: string
+  topics: string[]
+  data: string
+  blockHash: string | null
+  transactionHash: string | null
+  logIndex: number | null
+}
+
+interface StagedBlock {
+  number: string
+  hash: string
+  timestamp: string
+  logs: StagedLog[]
+}
+
+function stageBlocks(blocks: FetchedBlock[]): StagedBlock[] {
+  return blocks.map((b) => ({
+    number:    b.number.toString(),
+    hash:      b.hash,
+    timestamp: b.timestamp.toString(),
+    logs: b.logs.map((l) => ({
+      address:         l.address,
+      topics:          l.topics,
+      data:            l.data,
+      blockHash:       l.blockHash,
+      transactionHash: l.transactionHash,
+      logIndex:        l.logIndex,
+    })),
+  }))
+}
+
+function unstageBlocks(staged: StagedBlock[]): FetchedBlock[] {
+  return staged.map((b) => ({
+    number:    BigInt(b.number),
+    hash:      b.hash,
+    timestamp: BigInt(b.timestamp),
+    // processLogs only reads the fields kept above
+    logs: b.logs.map((l) => ({ ...l, blockNumber: BigInt(b.number) }) as unknown as Log),
+  }))
+}
+
+/** Staged logs are only valid for the contract set they were fetched for. */
+function sourcesKeyOf(sources: LogSources): string {
+  const addresses = sources.addresses.map((a) => a.toLowerCase()).sort()
+  return createHash("sha256").update(addresses.join(",")).digest("hex")
+}
+
+// ─── Checkpoints ──────────────────────────────────────────────────────────────
+
+/** Create or load the segment rows for [fromBlock, toBlock], in block order. */
+async function loadSegments(
+  chain: ChainConfig,
+  fromBlock: number,
+  toBlock: number,
+  segmentSize: number,
+  sourcesKey: string,
+  restart: boolean
+): Promise<BackfillSegment[]> {
+  const { chainId } = chain
+
+  if (restart) {
+    const { count } = await prisma.backfillSegment.deleteMany({
+      where: { chainId, fromBlock: { lte: toBlock }, toBlock: { gte: fromBlock } },
+    })
+    logger.info({ chainId, deleted: count }, "[parallel-backfill] Dropped existing checkpoints")
+  }
+
+  const segments: BackfillSegment[] = []
+  for (let start = fromBlock; start <= toBlock; start += segmentSize) {
+    const end = Math.min(start + segmentSize - 1, toBlock)
+    const key = { chainId_fromBlock_toBlock: { chainId, fromBlock: start, toBlock: end } }
+
+    let segment = await prisma.backfillSegment.upsert({
+      where:  key,
+      update: {},
+      create: { chainId, fromBlock: start, toBlock: end, sourcesKey },
+    })
+
+    // Fetched for a different set of markets — fetch (and apply) again
+    if (segment.sourcesKey !== sourcesKey) {
+      segment = await prisma.backfillSegment.update({
+        where: key,
+        data:  { sourcesKey, status: "pending", logs: Prisma.DbNull, logCount: null, error: null },
+      })
+    }
+    segments.push(segment)
+  }
+  return segments
+}
+
+// ─── Fetch ────────────────────────────────────────────────────────────────────
+
+async function fetchSegment(segment: BackfillSegment, sources: LogSources): Promise<void> {
+  const blocks: FetchedBlock[] = []
+  for await (const window of fetchLogWindows(sources, BigInt(segment.fromBlock), BigInt(segment.toBlock))) {
+    blocks.push(...window.blocks)
+  }
+
+  await prisma.backfillSegment.update({
+    where: { id: segment.id },
+    data: {
+      status:   "fetched",
+      logs:     stageBlocks(blocks) as object,
+      logCount: blocks.reduce((n, b) => n + b.logs.length, 0),
+      error:    null,
+    },
+  })
+}
+
+/** Fetch with a single retry for transient RPC errors, like the live loop. */
+async function fetchWithRetry(segment: BackfillSegment, sources: LogSources): Promise<boolean> {
+  try {
+    await fetchSegment(segment, sources)
+    return true
+  } catch (err) {
+    logger.warn(
+      { from: segment.fromBlock, to: segment.toBlock, err },
+      "[parallel-backfill] Segment fetch failed — retrying once"
+    )
+  }
+
+  await new Promise((r) => setTimeout(r, RETRY_DELAY_MS))
+  try {
+    await fetchSegment(segment, sources)
+    return true
+  } catch (err) {
+    logger.error({ from: segment.fromBlock, to: segment.toBlock, err }, "[parallel-backfill] Segment fetch failed")
+    await prisma.backfillSegment.update({
+      where: { id: segment.id },
+      data:  { error: err instanceof Error ? err.message : String(err) },
+    })
+    return false
+  }
+}
+
+// ─── Run ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Backfill [fromBlock, toBlock] on one chain with `options.workers` concurrent
+ * segment fetches. Throws once the merge reaches a segment that could not be
+ * fetched; everything before it is applied and checkpointed.
+ */
+export async function parallelBackfill(
+  chain: ChainConfig,
+  fromBlock: bigint,
+  toBlock: bigint,
+  markets: MarketConfig[],
+  options: ParallelBackfillOptions
+): Promise<void> {
+  if (fromBlock > toBlock) return
+
+  // Tail with reorg checks and cursor updates
+  const tailStart = maxBigInt(fromBlock, toBlock - BigInt(chain.reorgBuffer) + 1n)
+
+  if (tailStart > fromBlock) {
+    await backfillSegments(chain, Number(fromBlock), Number(tailStart) - 1, markets, options)
+  }
+  await processBlockRange(chain, tailStart, toBlock, markets)
+}
+
+async function backfillSegments(
+  chain: ChainConfig,
+  fromBlock: number,
+  toBlock: number,
+  markets: MarketConfig[],
+  options: ParallelBackfillOptions
+): Promise<void> {
+  const sources     = await buildLogSources(chain, markets)
+  const segmentSize = Math.max(1, Math.floor(options.segmentSize))
+  const workers     = Math.max(1, Math.floor(options.workers))
+  const segments    = await loadSegments(chain, fromBlock, toBlock, segmentSize, sourcesKeyOf(sources), options.restart ?? false)
+
+  const pending = segments.filter((s) => s.status === "pending").length
+  logger.info(
+    { chainId: chain.chainId, from: fromBlock, to: toBlock, segments: segments.length, pending, workers, segmentSize },
+    "[parallel-backfill] Starting"
+  )
+
+  // Resolves per segment: true once its logs are staged, false if they can't be
+  const ready = segments.map((segment) => {
+    let settle!: (ok: boolean) => void
+    const staged = new Promise<boolean>((resolve) => (settle = resolve))
+    if (segment.status !== "pending") settle(true)
+    return { staged, settle }
+  })
+
+  let next    = 0
+  let aborted = false
+
+  const worker = async () => {
+    while (!aborted && next < segments.length) {
+      const i = next++
+      if (segments[i].status !== "pending") continue
+      // Never reject — the merge would wait on this segment forever
+      const ok = await fetchWithRetry(segments[i], sources).catch((err) => {
+        logger.error({ from: segments[i].fromBlock, err }, "[parallel-backfill] Could not record segment failure")
+        return false
+      })
+      if (ok) {
+        logger.debug({ from: segments[i].fromBlock, to: segments[i].toBlock }, "[parallel-backfill] Segment fetched")
+      }
+      ready[i].settle(ok)
+    }
+  }
+
+  const pool = Promise.all(Array.from({ length: workers }, worker))
+
+  try {
+    for (let i = 0; i < segments.length; i++) {
+      if (!(await ready[i].staged)) {
+        throw new Error(`Segment ${segments[i].fromBlock}-${segments[i].toBlock} could not be fetched`)
+      }
+      if (segments[i].status === "applied") continue
+      await applySegment(segments[i].id, sources)
+
+      const pct = Math.round(((segments[i].toBlock - fromBlock + 1) / (toBlock - fromBlock + 1)) * 100)
+      logger.info(
+        { from: segments[i].fromBlock, to: segments[i].toBlock, pct },
+        "[parallel-backfill] Progress"
+      )
+    }
+  } finally {
+    // Stop handing out segments; in-flight fetches still land as checkpoints
+    aborted = true
+    for (let i = next; i < segments.length; i++) ready[i].settle(false)
+    await pool
+  }
+
+  logger.info({ chainId: chain.chainId, from: fromBlock, to: toBlock }, "[parallel-backfill] Segments complete")
+}
+
+/** Apply one staged segment in block/log order, then drop its staged logs. */
+async function applySegment(id: number, sources: LogSources): Promise<void> {
+  const segment = await prisma.backfillSegment.findUniqueOrThrow({ where: { id } })
+  const blocks  = unstageBlocks((segment.logs ?? []) as unknown as StagedBlock[])
+
+  // Staged in window order already — sorted again so the merge never depends on it
+  blocks.sort((a, b) => (a.number < b.number ? -1 : a.number > b.number ? 1 : 0))
+  for (const block of blocks) await applyFetchedBlock(block, sources)
+
+  await prisma.backfillSegment.update({
+    where: { id },
+    data:  { status: "applied", logs: Prisma.DbNull },
+  })
+  indexerBlocksProcessed.inc({ chain: sources.chain.name }, segment.toBlock - segment.fromBlock + 1)
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b
+}
@@ -0,0 +1,196 @@
+/**
+ * Parameter Change Applier
+ * ------------------------
+ * Applies MarketV1 / InterestRateModel parameter-change events to
+ * MarketParams and MarketCollateral, tagged updatedBy = "chain" and anchored
+ * to the block that emitted them.
+ *
+ * Every write is guarded by updated_at_block <= event block, so replaying an
+ * older range never clobbers newer state (e.g. the startup seed read at head).
+ * restoreParamsAt() re-reads chain state after a reorg rollback.
+ *
+ * MarketParams uses raw SQL like seedMarketParams/admin routes — the live
+ * table has snake_case columns.
+ */
+
+import { Prisma } from "../generated/prisma/client"
+import { normalize, WAD } from "../lib/rpc"
+import { getChain } from "../lib/chains"
+import { MARKET_ABI } from "../lib/contracts"
+import { prisma } from "../lib/db"
+import { seedMarketParams } from "../lib/seedMarketParams"
+import { logger } from "../lib/logger"
+import { toMarketConfig, type DecodedLog, type MarketConfig } from "./listener"
+
+const wad = (v: unknown) => normalize(v as bigint, WAD).toFixed(6)
+
+/** Apply one decoded parameter-change event for a market. */
+export async function applyParamsEvent(log: DecodedLog, market: MarketConfig): Promise<void> {
+  const { eventName, args } = log
+  const block = Number(log.blockNumber)
+
+  switch (eventName) {
+    case "MarketParametersUpdated":
+      await updateParams(market.marketId, block, [
+        Prisma.sql`lltv = ${wad(args.lltv)}`,
+        Prisma.sql`liquidation_penalty = ${wad(args.liquidationPenalty)}`,
+        Prisma.sql`protocol_fee = ${wad(args.protocolFeeRate)}`,
+      ])
+      break
+
+    case "BaseRateUpdated":
+      await updateParams(market.marketId, block, [Prisma.sql`base_rate = ${wad(args.newRate)}`])
+      break
+
+    case "OptimalUtilizationUpdated":
+      await updateParams(market.marketId, block, [
+        Prisma.sql`optimal_utilization = ${wad(args.newUtilization)}`,
+      ])
+      break
+
+    case "Slope1Updated":
+      await updateParams(market.marketId, block, [Prisma.sql`slope1 = ${wad(args.newSlope)}`])
+      break
+
+    case "Slope2Updated":
+      await updateParams(market.marketId, block, [Prisma.sql`slope2 = ${wad(args.newSlope)}`])
+      break
+
+    case "BorrowingPausedChanged":
+      await updateParams(market.marketId, block, [
+        Prisma.sql`borrowing_paused = ${args.paused as boolean}`,
+      ])
+      break
+
+    case "GuardianChanged":
+      await updateParams(market.marketId, block, [
+        Prisma.sql`guardian = ${(args.newGuardian as string).toLowerCase()}`,
+      ])
+      break
+
+    case "CollateralTokenAdded":
+      await updateCollateral(market.marketId, args.token as string, block, {
+        priceFeed:   (args.priceFeed as string).toLowerCase(),
+        decimals:    Number(args.decimals),
+        isSupported: true,
+      })
+      break
+
+    case "CollateralTokenRemoved":
+      await updateCollateral(market.marketId, args.token as string, block, { isSupported: false })
+      break
+
+    case "CollateralDepositsPaused":
+      await updateCollateral(market.marketId, args.token as string, block, { depositsPaused: true })
+      break
+
+    case "CollateralDepositsResumed":
+      await updateCollateral(market.marketId, args.token as string, block, { depositsPaused: false })
+      break
+
+    default:
+      return
+  }
+
+  logger.info(
+    { event: eventName, market: market.marketAddress.slice(0, 10), block },
+    "[params] Applied parameter change"
+  )
+}
+
+async function updateParams(marketId: string, block: number, assignments: Prisma.Sql[]) {
+  const updated = await prisma.$executeRaw`
+    UPDATE "MarketParams" SET
+      ${Prisma.join(assignments, ", ")},
+      updated_at       = NOW(),
+      updated_by       = 'chain',
+      updated_at_block = ${block}
+    WHERE market_id = ${marketId}
+      AND (updated_at_block IS NULL OR updated_at_block <= ${block})
+  `
+
+  if (updated === 0) {
+    // No row yet (seed pending) or the row already reflects a later block
+    logger.debug({ marketId, block }, "[params] MarketParams not updated — missing or newer")
+  }
+}
+
+async function updateCollateral(
+  marketId: string,
+  token: string,
+  block: number,
+  data: { priceFeed?: string; decimals?: number; isSupported?: boolean; depositsPaused?: boolean }
+) {
+  const key = { marketId_token: { marketId, token: token.toLowerCase() } }
+
+  const existing = await prisma.marketCollateral.findUnique({ where: key })
+  if (existing && existing.updatedAtBlock > block) return
+
+  await prisma.marketCollateral.upsert({
+    where:  key,
+    update: { ...data, updatedAtBlock: block },
+    create: { marketId, token: token.toLowerCase(), ...data, updatedAtBlock: block },
+  })
+}
+
+// ─── Reorg Restore ───────────────────────────────────────────────────────────
+
+/**
+ * Re-read parameter state at blockNumber for every market whose MarketParams
+ * or MarketCollateral rows were written after it. Called by rollbackFrom so the
+ * replay starts from the state of the last surviving block.
+ */
+export async function restoreParamsAt(chainId: number, blockNumber: bigint): Promise<void> {
+  const block = Number(blockNumber)
+
+  const [paramRows, collateralRows] = await Promise.all([
+    prisma.$queryRaw<Array<{ market_id: string }>>`
+      SELECT mp.market_id
+      FROM "MarketParams" mp
+      JOIN "Market" m ON m.id = mp.market_id
+      WHERE m."chainId" = ${chainId} AND mp.updated_at_block > ${block}
+    `,
+    prisma.marketCollateral.findMany({
+      where: { updatedAtBlock: { gt: block }, market: { chainId } },
+    }),
+  ])
+
+  if (paramRows.length === 0 && collateralRows.length === 0) return
+
+  const marketIds = [...new Set([
+    ...paramRows.map((r) => r.market_id),
+    ...collateralRows.map((r) => r.marketId),
+  ])]
+  const markets = (await prisma.market.findMany({ where: { id: { in: marketIds } } })).map(toMarketConfig)
+
+  logger.warn(
+    { chainId, block, markets: markets.length, collaterals: collateralRows.length },
+    "[params] Restoring parameter state after rollback"
+  )
+
+  const paramMarketIds = new Set(paramRows.map((r) => r.market_id))
+  await seedMarketParams(
+    markets.filter((m) => paramMarketIds.has(m.marketId)),
+    { blockNumber, force: true }
+  )
+
+  for (const row of collateralRows) {
+    const market = markets.find((m) => m.marketId === row.marketId)
+    if (!market) continue
+
+    const token = row.token as `0x${string}`
+    const [supported, paused] = await getChain(chainId).client.multicall({
+      blockNumber,
+      allowFailure: false,
+      contracts: [
+        { address: market.marketAddress, abi: MARKET_ABI, functionName: "supportedCollateralTokens", args: [token] },
+        { address: market.marketAddress, abi: MARKET_ABI, functionName: "depositsPaused", args: [token] },
+      ],
+    })
+
+    await prisma.marketCollateral.update({
+      where: { id: row.id },
+      data:  { isSupported: supported, depositsPaused: paused, updatedAtBlock: block },
+    })
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Position Reconciler
+ * -------------------
+ * Compares event-sourced positions (position-state.ts) with
+ * MarketV1.getUserPosition, both at the chain's last indexed block, and
+ * records the outcome on UserPosition: driftCheckedAt, driftBlock and drift
+ * (null when in sync, otherwise the disagreeing fields).
+ *
+ * totalDebt must match exactly — principal, borrow index and global index all
+ * come from events. Collateral value, borrowing power and health factor are
+ * priced from stored oracle prices instead of the router's live answer, so
+ * they only count as drift beyond POSITION_DRIFT_TOLERANCE (relative, default
+ * 0.01). Run from cron every 30 minutes.
+ */
+
+import { Prisma } from "../generated/prisma/client"
+import { getChain } from "../lib/chains"
+import { MARKET_ABI } from "../lib/contracts"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { positionsWithDrift } from "../lib/metrics"
+import { normalize, WAD } from "../lib/rpc"
+import { deriveFigures, globalIndexAt, loadPositionState, totalDebtOf } from "./position-state"
+import type { MarketConfig } from "./listener"
+
+const TOLERANCE = Number(process.env.POSITION_DRIFT_TOLERANCE ?? 0.01)
+
+// getUserPosition calls per multicall
+const BATCH_SIZE = 100
+
+/** field → both sides, as decimal strings (totalDebt raw, the rest USD) */
+export type PositionDrift = Record<string, { derived: string | null; onChain: string }>
+
+interface OnChainPosition {
+  collateralValue: bigint
+  totalDebt: bigint
+  healthFactor: bigint
+  borrowingPower: bigint
+}
+
+function outside(derived: number | null, onChain: number): boolean {
+  if (derived === null) return true
+  const scale = Math.max(Math.abs(derived), Math.abs(onChain))
+  return scale > 0 && Math.abs(derived - onChain) / scale > TOLERANCE
+}
+
+async function driftOf(
+  market: MarketConfig,
+  row: Parameters<typeof loadPositionState>[0],
+  onChain: OnChainPosition,
+  globalIndex: bigint,
+  blockNumber: number
+): Promise<PositionDrift | null> {
+  const state   = await loadPositionState(row)
+  const figures = await deriveFigures(market, state, globalIndex, blockNumber)
+  const drift: PositionDrift = {}
+
+  const debt = totalDebtOf(state, globalIndex)
+  if (debt !== onChain.totalDebt) {
+    drift.totalDebt = { derived: debt.toString(), onChain: onChain.totalDebt.toString() }
+  }
+
+  const compare = (field: string, derived: number | null, raw: bigint) => {
+    const value = normalize(raw, WAD)
+    if (outside(derived, value)) drift[field] = { derived: derived?.toFixed(6) ?? null, onChain: value.toFixed(6) }
+  }
+  compare("collateralValue", figures.collateralValue, onChain.collateralValue)
+  compare("borrowingPower", figures.borrowingPower, onChain.borrowingPower)
+  // Debt-free positions report uint256 max — nothing to compare
+  if (onChain.totalDebt > 0n) compare("healthFactor", figures.healthFactor, onChain.healthFactor)
+
+  return Object.keys(drift).length > 0 ? drift : null
+}
+
+/**
+ * Reconcile every stored position of the given markets on one chain. Returns
+ * how many positions were checked and how many drifted.
+ */
+export async function reconcilePositions(
+  chainId: number,
+  markets: MarketConfig[]
+): Promise<{ checked: number; drifted: number }> {
+  const sync = await prisma.syncState.findUnique({ where: { chainId } })
+  if (!sync) return { checked: 0, drifted: 0 }
+
+  const chain       = getChain(chainId)
+  const blockNumber = sync.lastProcessedBlock
+  let checked = 0
+  let drifted = 0
+
+  for (const market of markets.filter((m) => m.chainId === chainId)) {
+    // Positions a backfill moved past the cursor are checked next time
+    const positions = await prisma.userPosition.findMany({
+      where:   { marketId: market.marketId, blockNumber: { lte: blockNumber } },
+      orderBy: { id: "asc" },
+    })
+    const globalIndex = await globalIndexAt(market, { blockNumber, logIndex: Number.MAX_SAFE_INTEGER })
+    let marketDrifted = 0
+
+    for (let i = 0; i < positions.length; i += BATCH_SIZE) {
+      const batch   = positions.slice(i, i + BATCH_SIZE)
+      const results = await chain.client.multicall({
+        blockNumber: BigInt(blockNumber),
+        contracts:   batch.map((p) => ({
+          address:      market.marketAddress,
+          abi:          MARKET_ABI,
+          functionName: "getUserPosition" as const,
+          args:         [p.userAddress as `0x${string}`] as const,
+        })),
+      })
+
+      for (const [j, row] of batch.entries()) {
+        const result = results[j]
+        if (result.status !== "success") {
+          logger.warn({ user: row.userAddress.slice(0, 10), err: result.error }, "[position-reconciler] getUserPosition failed")
+          continue
+        }
+
+        const drift = await driftOf(market, row, result.result as OnChainPosition, globalIndex, blockNumber)
+        // updateMany: a rollback may have removed the row meanwhile
+        await prisma.userPosition.updateMany({
+          where: { id: row.id },
+          data:  { driftCheckedAt: new Date(), driftBlock: blockNumber, drift: drift ?? Prisma.DbNull },
+        })
+        checked++
+        if (drift) {
+          marketDrifted++
+          logger.warn({ user: row.userAddress.slice(0, 10), marketId: market.marketId, drift }, "[position-reconciler] Position drift")
+        }
+      }
+    }
+
+    positionsWithDrift.set({ chain: chain.name, market: market.marketAddress.toLowerCase() }, marketDrifted)
+    drifted += marketDrifted
+  }
+
+  return { checked, drifted }
+}
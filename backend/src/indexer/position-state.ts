@@ -0,0 +1,601 @@
+/**
+ * Event-Sourced Positions
+ * -----------------------
+ * Borrower positions built from MarketV1 events alone, mirroring the
+ * contract's own accounting:
+ *
+ *   - Collateral: per-token balances (normalized to 18 decimals) from
+ *     CollateralDeposited / CollateralWithdrawn / CollateralSeized
+ *   - Debt: principal (userTotalDebt) and the user's borrow index snapshot
+ *     (lastUpdatedIndex). Borrowed carries the new principal, Repaid the
+ *     principal paid, BadDebtRecorded moves principal off the borrower and
+ *     Liquidated repays debtCovered minus the interest accrued. Collateral
+ *     moves reset the index snapshot while the user has debt, as on chain.
+ *   - Accrual: the market's global borrow index is the newIndex of the last
+ *     GlobalBorrowIndexUpdated in the ledger before the event (1e18 before the
+ *     first). Every user action updates the index first, so that log always
+ *     precedes the action in its transaction.
+ *
+ * Collateral value, borrowing power and health factor are priced with stored
+ * prices — the newer of the latest LKGPriceUpdated price and the router price
+ * recorded by the latest market snapshot at or before the block — and the
+ * LLTV and liquidation penalty of the latest MarketParametersUpdated in the
+ * ledger (MarketParams before the first). Collateral tokens with deposits
+ * paused are left out, as on chain. A user event whose figures can't be
+ * priced yet still gets its UserPositionSnapshot, read from getUserPosition.
+ *
+ * Events are applied incrementally. An event at or behind a position's last
+ * applied event (replays, reindexes, a backfill behind the live loop) rebuilds
+ * that user from the ledger instead — the block processor writes the ledger
+ * before any derived state, so it is always complete. position-reconciler.ts
+ * checks the result against getUserPosition.
+ */
+
+import { getAddress } from "viem"
+import type { Prisma, UserPosition } from "../generated/prisma/client"
+import { normalize, WAD } from "../lib/rpc"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { MAX_HEALTH_FACTOR, savePositionSnapshot, updateUserPosition } from "./position"
+import { toMarketConfig, type DecodedLog, type MarketConfig } from "./listener"
+
+const PRECISION = 10n ** 18n
+
+/** Events that change a position, and the arg naming whose position it is. */
+const POSITION_EVENTS: Record<string, "user" | "borrower"> = {
+  CollateralDeposited: "user",
+  CollateralWithdrawn: "user",
+  Borrowed:            "user",
+  Repaid:              "user",
+  CollateralSeized:    "borrower",
+  BadDebtRecorded:     "borrower",
+  Liquidated:          "borrower",
+}
+
+export interface PositionState {
+  principal: bigint
+  borrowIndex: bigint
+  /** token (lowercase) → balance normalized to 18 decimals */
+  balances: Map<string, bigint>
+  /** token → block of the last event that changed its balance */
+  balanceBlocks: Map<string, number>
+}
+
+export interface DerivedFigures {
+  /** USD; null while a collateral price is unknown */
+  collateralValue: number | null
+  /** Loan asset units, interest included */
+  totalDebt: number
+  /** null without debt, or while a price or the LLTV is unknown */
+  healthFactor: number | null
+  borrowingPower: number | null
+}
+
+interface EventPoint {
+  blockNumber: number
+  logIndex: number
+  txHash: string
+}
+
+interface PositionEvent extends EventPoint {
+  eventName: string
+  /** Decoded args — bigints, or decimal strings when read from the ledger */
+  args: Record<string, unknown>
+}
+
+interface Replayed {
+  state: PositionState
+  globalIndex: bigint
+  last: EventPoint | null
+  /** State right after the target event, if it was found */
+  at: { state: PositionState; globalIndex: bigint } | null
+}
+
+const big = (value: unknown) => BigInt(value as bigint | string)
+
+function isBefore(a: { blockNumber: number; logIndex: number }, b: { blockNumber: number; logIndex: number }): boolean {
+  return a.blockNumber < b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex < b.logIndex)
+}
+
+export function isPositionEvent(eventName: string): boolean {
+  return eventName in POSITION_EVENTS
+}
+
+// ─── Accounting ───────────────────────────────────────────────────────────────
+
+export function emptyPosition(): PositionState {
+  return { principal: 0n, borrowIndex: 0n, balances: new Map(), balanceBlocks: new Map() }
+}
+
+function accruedInterest(state: PositionState, globalIndex: bigint): bigint {
+  if (state.principal === 0n || state.borrowIndex === 0n) return 0n
+  return (state.principal * (globalIndex - state.borrowIndex)) / PRECISION
+}
+
+/** getUserPosition().totalDebt — principal plus accrued interest, raw. */
+export function totalDebtOf(state: PositionState, globalIndex: bigint): bigint {
+  return state.principal === 0n ? 0n : state.principal + accruedInterest(state, globalIndex)
+}
+
+/**
+ * Apply one event the way MarketV1 changes its storage. `globalIndex` is the
+ * index the contract holds when the event is emitted.
+ */
+export function applyEvent(state: PositionState, event: PositionEvent, globalIndex: bigint): PositionState {
+  const next: PositionState = {
+    principal:     state.principal,
+    borrowIndex:   state.borrowIndex,
+    balances:      new Map(state.balances),
+    balanceBlocks: new Map(state.balanceBlocks),
+  }
+  const { args } = event
+  const sub = (a: bigint, b: bigint) => (a > b ? a - b : 0n)
+
+  const moveCollateral = (delta: (balance: bigint) => bigint) => {
+    const token = (args.token as string).toLowerCase()
+    next.balances.set(token, delta(next.balances.get(token) ?? 0n))
+    next.balanceBlocks.set(token, event.blockNumber)
+  }
+
+  switch (event.eventName) {
+    case "CollateralDeposited":
+      moveCollateral((b) => b + big(args.amount))
+      if (next.principal > 0n) next.borrowIndex = globalIndex
+      break
+
+    case "CollateralWithdrawn":
+      moveCollateral((b) => sub(b, big(args.amount)))
+      if (next.principal > 0n) next.borrowIndex = globalIndex
+      break
+
+    case "CollateralSeized":
+      moveCollateral((b) => sub(b, big(args.amount)))
+      break
+
+    case "Borrowed":
+      next.principal   = big(args.newTotalDebt)
+      next.borrowIndex = globalIndex
+      break
+
+    case "Repaid":
+      next.principal   = sub(next.principal, big(args.principalPaid))
+      next.borrowIndex = globalIndex
+      break
+
+    case "BadDebtRecorded":
+      next.principal = sub(next.principal, big(args.amount))
+      break
+
+    case "Liquidated": {
+      // Bad debt (logged first) is already off the principal when the
+      // liquidator's repayment is split into interest and principal
+      const covered   = big(args.debtCovered)
+      const interest  = accruedInterest(next, globalIndex)
+      next.principal   = sub(next.principal, covered > interest ? covered - interest : 0n)
+      next.borrowIndex = globalIndex
+      break
+    }
+  }
+  return next
+}
+
+// ─── Ledger reads ─────────────────────────────────────────────────────────────
+
+/** The market's global borrow index just before `point`. */
+export async function globalIndexAt(
+  market: MarketConfig,
+  point: { blockNumber: number; logIndex: number }
+): Promise<bigint> {
+  const row = await prisma.protocolEvent.findFirst({
+    where: {
+      chainId:         market.chainId,
+      contractAddress: market.marketAddress.toLowerCase(),
+      eventName:       "GlobalBorrowIndexUpdated",
+      OR: [
+        { blockNumber: { lt: point.blockNumber } },
+        { blockNumber: point.blockNumber, logIndex: { lt: point.logIndex } },
+      ],
+    },
+    orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }],
+    select:  { args: true },
+  })
+  return row ? big((row.args as Record<string, unknown>).newIndex) : PRECISION
+}
+
+/** Fold every ledger event of one user, noting the state right after `target`. */
+async function replayUser(market: MarketConfig, user: string, target?: EventPoint): Promise<Replayed> {
+  const owner  = getAddress(user)
+  const events = await prisma.protocolEvent.findMany({
+    where: {
+      chainId:         market.chainId,
+      contractAddress: market.marketAddress.toLowerCase(),
+      eventName:       { in: Object.keys(POSITION_EVENTS) },
+      OR: [
+        { args: { path: ["user"], equals: owner } },
+        { args: { path: ["borrower"], equals: owner } },
+      ],
+    },
+    orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+  })
+
+  // Index updates over the replayed blocks, read once and walked alongside
+  // the events from the index in force before the first
+  const first   = events[0]
+  const updates = first
+    ? await prisma.protocolEvent.findMany({
+        where: {
+          chainId:         market.chainId,
+          contractAddress: market.marketAddress.toLowerCase(),
+          eventName:       "GlobalBorrowIndexUpdated",
+          blockNumber:     { gte: first.blockNumber, lte: events[events.length - 1].blockNumber },
+        },
+        orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+        select:  { blockNumber: true, logIndex: true, args: true },
+      })
+    : []
+  let next = 0
+
+  let state = emptyPosition()
+  let globalIndex = first ? await globalIndexAt(market, first) : PRECISION
+  let last: EventPoint | null = null
+  let at: Replayed["at"] = null
+
+  for (const row of events) {
+    // Liquidated also names a liquidator — only the borrower's side counts
+    const args = row.args as Record<string, unknown>
+    if (args[POSITION_EVENTS[row.eventName]] !== owner) continue
+
+    const event = { eventName: row.eventName, args, blockNumber: row.blockNumber, logIndex: row.logIndex, txHash: row.txHash }
+    for (; next < updates.length && isBefore(updates[next], event); next++) {
+      globalIndex = big((updates[next].args as Record<string, unknown>).newIndex)
+    }
+    state       = applyEvent(state, event, globalIndex)
+    last        = event
+    if (target && row.blockNumber === target.blockNumber && row.logIndex === target.logIndex) {
+      at = { state, globalIndex }
+    }
+  }
+
+  return { state, globalIndex, last, at }
+}
+
+/** Current state of a stored position. */
+export async function loadPositionState(row: UserPosition): Promise<PositionState> {
+  const balances = await prisma.userCollateralBalance.findMany({
+    where: { userAddress: row.userAddress, marketId: row.marketId },
+  })
+  return {
+    principal:     BigInt(row.principal.toFixed(0)),
+    borrowIndex:   BigInt(row.borrowIndex.toFixed(0)),
+    balances:      new Map(balances.map((b) => [b.token, BigInt(b.balance.toFixed(0))])),
+    balanceBlocks: new Map(balances.map((b) => [b.token, b.blockNumber])),
+  }
+}
+
+// ─── Pricing ──────────────────────────────────────────────────────────────────
+
+/** A token's price in a snapshot's routerPrices, if it was recorded. */
+function routerPrice(prices: Prisma.JsonValue | null, token: string): number | null {
+  const price = (prices as Record<string, string> | null)?.[token]
+  return price !== undefined ? Number(price) : null
+}
+
+/** Prices of the last hourly rollup ending at or before `blockNumber`. */
+async function lastRolledUpPrices(marketId: string, blockNumber: number) {
+  const hour = await prisma.marketSnapshotHourly.findFirst({
+    where:   { marketId, blockNumberLast: { lte: blockNumber } },
+    orderBy: { blockNumberLast: "desc" },
+    select:  { blockNumberLast: true, routerPricesLast: true, oraclePriceLast: true },
+  })
+  return hour && { blockNumber: hour.blockNumberLast, routerPrices: hour.routerPricesLast, oraclePrice: hour.oraclePriceLast }
+}
+
+/**
+ * Latest stored USD price of `asset` at or before `blockNumber`: its last
+ * LKGPriceUpdated or the router price of the last market snapshot, whichever
+ * is newer. Snapshots from before router prices were recorded still carry
+ * the loan asset's evaluated price. Once the minute snapshots before the
+ * block are pruned, the last hourly rollup stands in for them. Collateral
+ * listings (GET /positions/:user/collateral) price with it too.
+ */
+export async function storedPrice(market: MarketConfig, asset: string, blockNumber: number): Promise<number | null> {
+  const token = asset.toLowerCase()
+  const [event, minute] = await Promise.all([
+    prisma.oracleEvent.findFirst({
+      where: {
+        chainId:     market.chainId,
+        asset:       token,
+        price:       { not: null },
+        blockNumber: { lte: blockNumber },
+      },
+      orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }],
+      select:  { price: true, blockNumber: true },
+    }),
+    prisma.marketSnapshot.findFirst({
+      where:   { marketId: market.marketId, blockNumber: { lte: blockNumber } },
+      orderBy: [{ blockNumber: "desc" }, { id: "desc" }],
+      select:  { blockNumber: true, routerPrices: true, oraclePrice: true },
+    }),
+  ])
+  const snapshot = minute ?? (await lastRolledUpPrices(market.marketId, blockNumber))
+
+  let fromSnapshot: number | null = null
+  if (snapshot) {
+    fromSnapshot = routerPrice(snapshot.routerPrices, token)
+    if (fromSnapshot === null && token === market.loanAsset.toLowerCase() && Number(snapshot.oraclePrice) > 0) {
+      fromSnapshot = Number(snapshot.oraclePrice)
+    }
+  }
+
+  if (event?.price && (fromSnapshot === null || event.blockNumber >= (snapshot?.blockNumber ?? 0))) {
+    return Number(event.price)
+  }
+  return fromSnapshot
+}
+
+/**
+ * LLTV and liquidation penalty in force at `blockNumber`: the latest
+ * MarketParametersUpdated in the ledger, else MarketParams (snake_case
+ * columns created outside Prisma — read raw).
+ */
+async function riskParamsAt(
+  market: MarketConfig,
+  blockNumber: number
+): Promise<{ lltv: number; liquidationPenalty: number } | null> {
+  const row = await prisma.protocolEvent.findFirst({
+    where: {
+      chainId:         market.chainId,
+      contractAddress: market.marketAddress.toLowerCase(),
+      eventName:       "MarketParametersUpdated",
+      blockNumber:     { lte: blockNumber },
+    },
+    orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }],
+    select:  { args: true },
+  })
+  if (row) {
+    const args = row.args as Record<string, unknown>
+    return { lltv: normalize(big(args.lltv), WAD), liquidationPenalty: normalize(big(args.liquidationPenalty), WAD) }
+  }
+
+  try {
+    const rows = await prisma.$queryRaw<Array<{ lltv: string; liquidation_penalty: string }>>`
+      SELECT lltv, liquidation_penalty FROM "MarketParams" WHERE market_id = ${market.marketId} LIMIT 1
+    `
+    return rows[0] ? { lltv: Number(rows[0].lltv), liquidationPenalty: Number(rows[0].liquidation_penalty) } : null
+  } catch {
+    return null
+  }
+}
+
+/** USD figures of a position as getUserPosition would compute them at `blockNumber`. */
+export async function deriveFigures(
+  market: MarketConfig,
+  state: PositionState,
+  globalIndex: bigint,
+  blockNumber: number
+): Promise<DerivedFigures> {
+  const debt      = totalDebtOf(state, globalIndex)
+  const totalDebt = normalize(debt, WAD)
+
+  const [params, paused] = await Promise.all([
+    riskParamsAt(market, blockNumber),
+    prisma.marketCollateral.findMany({ where: { marketId: market.marketId, depositsPaused: true }, select: { token: true } }),
+  ])
+  const pausedTokens = new Set(paused.map((c) => c.token.toLowerCase()))
+
+  let collateralValue: number | null = 0
+  for (const [token, balance] of state.balances) {
+    if (balance === 0n || pausedTokens.has(token)) continue
+    const price = await storedPrice(market, token, blockNumber)
+    if (price === null) {
+      collateralValue = null
+      break
+    }
+    collateralValue += normalize(balance, WAD) * price
+  }
+
+  const borrowingPower = collateralValue !== null && params ? collateralValue * params.lltv : null
+
+  let healthFactor: number | null = null
+  if (debt > 0n && borrowingPower !== null && params) {
+    const loanPrice = await storedPrice(market, market.loanAsset, blockNumber)
+    if (loanPrice !== null && loanPrice > 0) {
+      healthFactor = borrowingPower / (totalDebt * loanPrice * (1 + params.liquidationPenalty))
+    }
+  }
+
+  return { collateralValue, totalDebt, healthFactor, borrowingPower }
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+
+async function savePosition(
+  market: MarketConfig,
+  userAddress: string,
+  state: PositionState,
+  figures: DerivedFigures,
+  last: EventPoint
+): Promise<void> {
+  const { marketId } = market
+  const data = {
+    principal:       state.principal.toString(),
+    borrowIndex:     state.borrowIndex.toString(),
+    collateralValue: figures.collateralValue?.toFixed(6) ?? null,
+    totalDebt:       figures.totalDebt.toFixed(6),
+    healthFactor:    figures.healthFactor !== null ? Math.min(figures.healthFactor, MAX_HEALTH_FACTOR).toFixed(6) : null,
+    borrowingPower:  figures.borrowingPower?.toFixed(6) ?? null,
+    blockNumber:     last.blockNumber,
+    txHash:          last.txHash,
+    logIndex:        last.logIndex,
+  }
+  const tokens = [...state.balances.keys()]
+
+  await prisma.$transaction([
+    prisma.userPosition.upsert({
+      where:  { userAddress_marketId: { userAddress, marketId } },
+      create: { userAddress, marketId, ...data },
+      update: data,
+    }),
+    prisma.userCollateralBalance.deleteMany({ where: { userAddress, marketId, token: { notIn: tokens } } }),
+    ...tokens.map((token) => {
+      const balance     = state.balances.get(token)!.toString()
+      const blockNumber = state.balanceBlocks.get(token) ?? last.blockNumber
+      return prisma.userCollateralBalance.upsert({
+        where:  { userAddress_marketId_token: { userAddress, marketId, token } },
+        create: { userAddress, marketId, token, balance, blockNumber },
+        update: { balance, blockNumber },
+      })
+    }),
+  ])
+}
+
+async function deletePosition(userAddress: string, marketId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.userCollateralBalance.deleteMany({ where: { userAddress, marketId } }),
+    prisma.userPosition.deleteMany({ where: { userAddress, marketId } }),
+  ])
+}
+
+// ─── Event entry point ────────────────────────────────────────────────────────
+
+/**
+ * Apply one position event to its user's position. With `snapshot`, also
+ * write the log-anchored UserPositionSnapshot from the figures right after
+ * the event — read from getUserPosition at the event's block while they
+ * can't be priced.
+ */
+export async function applyPositionEvent(log: DecodedLog, market: MarketConfig, snapshot: boolean): Promise<void> {
+  const user  = (log.args[POSITION_EVENTS[log.eventName]] as string).toLowerCase()
+  const point = { blockNumber: Number(log.blockNumber), logIndex: log.logIndex, txHash: log.transactionHash }
+
+  const row = await prisma.userPosition.findUnique({
+    where: { userAddress_marketId: { userAddress: user, marketId: market.marketId } },
+  })
+
+  // Figures right after the event
+  let figures: DerivedFigures
+
+  if (row && !isBefore(row, point)) {
+    // Already applied, or older than what is — the ledger has the full order
+    const replayed = await replayUser(market, user, point)
+    if (!replayed.at || !replayed.last) {
+      logger.warn({ user: user.slice(0, 10), block: point.blockNumber }, "[position-state] Event missing from ledger — skipped")
+      return
+    }
+    const latest = await deriveFigures(market, replayed.state, replayed.globalIndex, replayed.last.blockNumber)
+    await savePosition(market, user, replayed.state, latest, replayed.last)
+    if (!snapshot) return
+
+    const isLast = replayed.last.blockNumber === point.blockNumber && replayed.last.logIndex === point.logIndex
+    figures = isLast ? latest : await deriveFigures(market, replayed.at.state, replayed.at.globalIndex, point.blockNumber)
+  } else {
+    const state       = row ? await loadPositionState(row) : emptyPosition()
+    const globalIndex = await globalIndexAt(market, point)
+    const next        = applyEvent(state, { eventName: log.eventName, args: log.args, ...point }, globalIndex)
+    figures = await deriveFigures(market, next, globalIndex, point.blockNumber)
+    await savePosition(market, user, next, figures, point)
+  }
+
+  if (!snapshot) return
+
+  const anchor = {
+    blockNumber:    log.blockNumber,
+    blockHash:      log.blockHash,
+    blockTimestamp: log.blockTimestamp,
+    txHash:         log.transactionHash,
+    logIndex:       log.logIndex,
+  }
+
+  if (figures.collateralValue === null || figures.borrowingPower === null ||
+      (figures.healthFactor === null && figures.totalDebt > 0)) {
+    logger.debug({ user: user.slice(0, 10), block: point.blockNumber }, "[position-state] No stored price — snapshot read from chain")
+    await updateUserPosition(getAddress(user), market, anchor)
+    return
+  }
+
+  await savePositionSnapshot(user, market.marketId, anchor, {
+    collateralValue: figures.collateralValue,
+    totalDebt:       figures.totalDebt,
+    healthFactor:    figures.healthFactor ?? MAX_HEALTH_FACTOR,
+    borrowingPower:  figures.borrowingPower,
+  })
+}
+
+// ─── Rebuilds ─────────────────────────────────────────────────────────────────
+
+/**
+ * Rebuild every position touched at or after `fromBlock` on a chain, from
+ * what the ledger still holds. Called by rollbackFrom after it deleted the
+ * ledger rows of the orphaned blocks.
+ */
+export async function rebuildPositionsFrom(chainId: number, fromBlock: number): Promise<void> {
+  const stale = await prisma.userPosition.findMany({
+    where:   { market: { chainId }, blockNumber: { gte: fromBlock } },
+    include: { market: true },
+  })
+
+  for (const row of stale) {
+    const market   = toMarketConfig(row.market)
+    const replayed = await replayUser(market, row.userAddress)
+    if (!replayed.last) {
+      await deletePosition(row.userAddress, row.marketId)
+      continue
+    }
+    const figures = await deriveFigures(market, replayed.state, replayed.globalIndex, replayed.last.blockNumber)
+    await savePosition(market, row.userAddress, replayed.state, figures, replayed.last)
+  }
+
+  if (stale.length > 0) {
+    logger.info({ chainId, fromBlock, positions: stale.length }, "[position-state] Rebuilt positions after rollback")
+  }
+}
+
+/**
+ * Drop and rebuild all of one market's positions and collateral balances
+ * from the ledger in a single pass. Returns the number of positions.
+ */
+export async function rebuildMarketPositions(market: MarketConfig): Promise<number> {
+  const users = new Map<string, { state: PositionState; globalIndex: bigint; last: EventPoint }>()
+  let globalIndex = PRECISION
+
+  const PAGE = 5000
+  let cursor: number | undefined
+  for (;;) {
+    const page = await prisma.protocolEvent.findMany({
+      where: {
+        chainId:         market.chainId,
+        contractAddress: market.marketAddress.toLowerCase(),
+        eventName:       { in: [...Object.keys(POSITION_EVENTS), "GlobalBorrowIndexUpdated"] },
+      },
+      orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+      take:    PAGE,
+      ...(cursor !== undefined && { skip: 1, cursor: { id: cursor } }),
+    })
+
+    for (const row of page) {
+      const args = row.args as Record<string, unknown>
+      if (row.eventName === "GlobalBorrowIndexUpdated") {
+        globalIndex = big(args.newIndex)
+        continue
+      }
+      const user  = (args[POSITION_EVENTS[row.eventName]] as string).toLowerCase()
+      const event = { eventName: row.eventName, args, blockNumber: row.blockNumber, logIndex: row.logIndex, txHash: row.txHash }
+      const state = applyEvent(users.get(user)?.state ?? emptyPosition(), event, globalIndex)
+      users.set(user, { state, globalIndex, last: event })
+    }
+
+    if (page.length < PAGE) break
+    cursor = page[page.length - 1].id
+  }
+
+  await prisma.$transaction([
+    prisma.userCollateralBalance.deleteMany({ where: { marketId: market.marketId } }),
+    prisma.userPosition.deleteMany({ where: { marketId: market.marketId } }),
+  ])
+  for (const [user, { state, globalIndex: index, last }] of users) {
+    await savePosition(market, user, state, await deriveFigures(market, state, index, last.blockNumber), last)
+  }
+
+  logger.info({ marketId: market.marketId, positions: users.size }, "[position-state] Rebuilt market positions from ledger")
+  return users.size
+}
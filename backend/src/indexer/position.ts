@@ -2,19 +2,45 @@
  * User Position Tracker
  * ---------------------
  * Reads getUserPosition() from MarketV1 and persists a UserPositionSnapshot.
+ * Reads are pinned to the snapshot anchor — see snapshot.ts.
+ *
+ * Event-driven snapshots are derived from the event ledger instead
+ * (position-state.ts) and written through savePositionSnapshot — they only
+ * read the chain here while no stored price covers the position.
  */
 
-import { client, normalize, WAD } from "../lib/rpc"
+import { normalize, WAD } from "../lib/rpc"
+import { getChain } from "../lib/chains"
 import { MARKET_ABI } from "../lib/contracts"
 import { prisma } from "../lib/db"
+import { anchorColumns, latestAnchor, type SnapshotAnchor } from "./snapshot"
+import type { MarketConfig } from "./listener"
+
+/**
+ * getUserPosition returns uint256 max for a debt-free position, which doesn't
+ * fit the column — store it as this instead.
+ */
+export const MAX_HEALTH_FACTOR = 1_000_000
+
+/** Figures a snapshot stores — USD except totalDebt (loan asset units). */
+export interface PositionFigures {
+  collateralValue: number
+  totalDebt: number
+  healthFactor: number
+  borrowingPower: number
+}
 
 export async function updateUserPosition(
   userAddress: `0x${string}`,
-  marketId: string,
-  marketAddress: `0x${string}`
+  market: Pick<MarketConfig, "marketId" | "marketAddress" | "chainId">,
+  anchor?: SnapshotAnchor
 ) {
-  const result = await client.readContract({
-    address: marketAddress,
+  const { marketId } = market
+  const at = anchor ?? (await latestAnchor(market.chainId))
+
+  const result = await getChain(market.chainId).client.readContract({
+    blockNumber: at.blockNumber,
+    address: market.marketAddress,
     abi: MARKET_ABI,
     functionName: "getUserPosition",
     args: [userAddress],
@@ -27,14 +53,55 @@ export async function updateUserPosition(
     borrowingPower: bigint
   }
 
-  return prisma.userPositionSnapshot.create({
-    data: {
-      userAddress,
-      marketId,
-      collateralValue: normalize(pos.collateralValue, WAD).toFixed(6),
-      totalDebt: normalize(pos.totalDebt, WAD).toFixed(6),
-      healthFactor: normalize(pos.healthFactor, WAD).toFixed(6),
-      borrowingPower: normalize(pos.borrowingPower, WAD).toFixed(6),
+  return savePositionSnapshot(userAddress, marketId, at, {
+    collateralValue: normalize(pos.collateralValue, WAD),
+    totalDebt:       normalize(pos.totalDebt, WAD),
+    healthFactor:    normalize(pos.healthFactor, WAD),
+    borrowingPower:  normalize(pos.borrowingPower, WAD),
+  })
+}
+
+/** UserPositionSnapshot columns for one position at an anchor. */
+export function positionSnapshotRow(
+  userAddress: string,
+  marketId: string,
+  at: SnapshotAnchor,
+  figures: PositionFigures
+) {
+  return {
+    ...anchorColumns(at),
+    userAddress,
+    marketId,
+    collateralValue: figures.collateralValue.toFixed(6),
+    totalDebt:       figures.totalDebt.toFixed(6),
+    healthFactor:    Math.min(figures.healthFactor, MAX_HEALTH_FACTOR).toFixed(6),
+    borrowingPower:  figures.borrowingPower.toFixed(6),
+  }
+}
+
+/** Persist one snapshot; upserted on the source log when the anchor has one. */
+export async function savePositionSnapshot(
+  userAddress: string,
+  marketId: string,
+  at: SnapshotAnchor,
+  figures: PositionFigures
+) {
+  const data = positionSnapshotRow(userAddress, marketId, at, figures)
+
+  if (at.txHash === undefined || at.logIndex === undefined) {
+    return prisma.userPositionSnapshot.create({ data })
+  }
+
+  return prisma.userPositionSnapshot.upsert({
+    where: {
+      userAddress_marketId_sourceTxHash_sourceLogIndex: {
+        userAddress,
+        marketId,
+        sourceTxHash: at.txHash,
+        sourceLogIndex: at.logIndex,
+      },
     },
+    create: data,
+    update: data,
   })
 }
@@ -0,0 +1,196 @@
+/**
+ * Market Registry
+ * ---------------
+ * Runtime market registration, used by /admin/markets:
+ *
+ *   - inspectMarket: reads the wiring between vault, market, IRM and oracle
+ *     router on chain and reports every link that doesn't match, plus the
+ *     loan asset and its decimals so they never have to be typed in
+ *   - startMarketBackfill: replays one market's logs from a start block up to
+ *     the chain's safe head in the background (block-processor
+ *     backfillMarkets), leaving SyncState to the live loop
+ *
+ * Backfill progress is kept in memory and lost on restart; re-issuing the
+ * request is safe because every indexer write is idempotent.
+ */
+
+import { isAddressEqual, type Address } from "viem"
+import { getChain } from "../lib/chains"
+import { ERC20_ABI, IRM_ABI, MARKET_ABI, VAULT_ABI } from "../lib/contracts"
+import { logger } from "../lib/logger"
+import { backfillMarkets } from "./block-processor"
+import type { MarketConfig } from "./listener"
+
+export interface MarketAddresses {
+  vaultAddress: Address
+  marketAddress: Address
+  irmAddress: Address
+  oracleRouterAddress: Address
+}
+
+export interface MarketInspection {
+  loanAsset: Address | null
+  loanAssetDecimals: number | null
+  /** ERC20 symbol of the loan asset, when it exposes one */
+  symbol: string | null
+  /** Failed wiring checks — empty when the four contracts belong together */
+  mismatches: string[]
+}
+
+export interface BackfillStatus {
+  marketId: string
+  chainId: number
+  fromBlock: number
+  toBlock: number
+  lastBlock: number | null
+  state: "running" | "done" | "failed"
+  error: string | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+export class BackfillRunningError extends Error {
+  constructor(marketId: string) {
+    super(`Backfill already running for market ${marketId}`)
+    this.name = "BackfillRunningError"
+  }
+}
+
+const backfills = new Map<string, BackfillStatus>()
+
+// ─── Inspection ──────────────────────────────────────────────────────────────
+
+/**
+ * Check that market → vault/IRM/oracle router, vault → market and
+ * IRM → market/vault all point at the given addresses, and that the vault's
+ * asset is the market's loan asset. Reverted reads count as mismatches — the
+ * address is most likely not the contract it claims to be.
+ */
+export async function inspectMarket(chainId: number, addresses: MarketAddresses): Promise<MarketInspection> {
+  const { client } = getChain(chainId)
+  const { vaultAddress, marketAddress, irmAddress, oracleRouterAddress } = addresses
+
+  const results = await client.multicall({
+    allowFailure: true,
+    contracts: [
+      { address: marketAddress, abi: MARKET_ABI, functionName: "vaultContract" },
+      { address: marketAddress, abi: MARKET_ABI, functionName: "interestRateModel" },
+      { address: marketAddress, abi: MARKET_ABI, functionName: "oracleRouter" },
+      { address: marketAddress, abi: MARKET_ABI, functionName: "loanAsset" },
+      { address: marketAddress, abi: MARKET_ABI, functionName: "getLoanAssetDecimals" },
+      { address: vaultAddress,  abi: VAULT_ABI,  functionName: "market" },
+      { address: vaultAddress,  abi: VAULT_ABI,  functionName: "asset" },
+      { address: irmAddress,    abi: IRM_ABI,    functionName: "marketContract" },
+      { address: irmAddress,    abi: IRM_ABI,    functionName: "vaultContract" },
+    ],
+  })
+
+  const checks: Array<[label: string, result: (typeof results)[number], expected: Address]> = [
+    ["market.vaultContract()",     results[0], vaultAddress],
+    ["market.interestRateModel()", results[1], irmAddress],
+    ["market.oracleRouter()",      results[2], oracleRouterAddress],
+    ["vault.market()",             results[5], marketAddress],
+    ["irm.marketContract()",       results[7], marketAddress],
+    ["irm.vaultContract()",        results[8], vaultAddress],
+  ]
+
+  const mismatches: string[] = []
+  for (const [label, result, expected] of checks) {
+    if (result.status === "failure") {
+      mismatches.push(`${label} reverted`)
+    } else if (!isAddressEqual(result.result as Address, expected)) {
+      mismatches.push(`${label} is ${result.result}, expected ${expected}`)
+    }
+  }
+
+  const loanAsset = results[3].status === "success" ? (results[3].result as Address) : null
+  if (!loanAsset) mismatches.push("market.loanAsset() reverted")
+
+  const vaultAsset = results[6]
+  if (vaultAsset.status === "failure") {
+    mismatches.push("vault.asset() reverted")
+  } else if (loanAsset && !isAddressEqual(vaultAsset.result as Address, loanAsset)) {
+    mismatches.push(`vault.asset() is ${vaultAsset.result}, market loan asset is ${loanAsset}`)
+  }
+
+  let loanAssetDecimals = results[4].status === "success" ? Number(results[4].result) : null
+  let symbol: string | null = null
+
+  if (loanAsset) {
+    const [decimals, sym] = await client.multicall({
+      allowFailure: true,
+      contracts: [
+        { address: loanAsset, abi: ERC20_ABI, functionName: "decimals" },
+        { address: loanAsset, abi: ERC20_ABI, functionName: "symbol" },
+      ],
+    })
+    loanAssetDecimals ??= decimals.status === "success" ? Number(decimals.result) : null
+    symbol = sym.status === "success" ? String(sym.result) : null
+  }
+
+  if (loanAssetDecimals === null) mismatches.push("loan asset decimals could not be read")
+
+  return { loanAsset, loanAssetDecimals, symbol, mismatches }
+}
+
+// ─── Backfill ────────────────────────────────────────────────────────────────
+
+export function getBackfillStatus(marketId: string): BackfillStatus | null {
+  return backfills.get(marketId) ?? null
+}
+
+/**
+ * Replay `market` from fromBlock to the chain's current safe head. Returns
+ * immediately with the job status; progress is visible via getBackfillStatus.
+ * Returns null when fromBlock is already past the safe head.
+ *
+ * Call after reloadMarkets(): blocks past the safe head read here are then
+ * processed by the live loop with the market included, so nothing falls in
+ * between.
+ */
+export async function startMarketBackfill(market: MarketConfig, fromBlock: bigint): Promise<BackfillStatus | null> {
+  const chain    = getChain(market.chainId)
+  const safeHead = (await chain.client.getBlockNumber()) - BigInt(chain.confirmations)
+  if (fromBlock > safeHead) return null
+
+  // Checked after the await so two concurrent requests can't both pass
+  if (backfills.get(market.marketId)?.state === "running") {
+    throw new BackfillRunningError(market.marketId)
+  }
+
+  const status: BackfillStatus = {
+    marketId:   market.marketId,
+    chainId:    market.chainId,
+    fromBlock:  Number(fromBlock),
+    toBlock:    Number(safeHead),
+    lastBlock:  null,
+    state:      "running",
+    error:      null,
+    startedAt:  new Date().toISOString(),
+    finishedAt: null,
+  }
+  backfills.set(market.marketId, status)
+
+  logger.info(
+    { marketId: market.marketId, chainId: market.chainId, from: status.fromBlock, to: status.toBlock },
+    "[registry] Market backfill started"
+  )
+
+  backfillMarkets(chain, fromBlock, safeHead, [market], (lastBlock) => {
+    status.lastBlock = Number(lastBlock)
+  })
+    .then(() => {
+      status.state = "done"
+      logger.info({ marketId: market.marketId, to: status.toBlock }, "[registry] Market backfill complete")
+    })
+    .catch((err) => {
+      status.state = "failed"
+      status.error = err instanceof Error ? err.message : String(err)
+      logger.error({ marketId: market.marketId, lastBlock: status.lastBlock, err }, "[registry] Market backfill failed")
+    })
+    .finally(() => {
+      status.finishedAt = new Date().toISOString()
+    })
+
+  return status
+}
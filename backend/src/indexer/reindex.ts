@@ -0,0 +1,212 @@
+/**
+ * Market Reindex
+ * --------------
+ * Rebuilds one market's derived rows over a block range, for when a single
+ * market's data is wrong and a full reindex would be overkill:
+ *
+ *   1. Delete the market's LiquidationEvent, BadDebtEvent, InterestEvent,
+ *      LenderFlow and event-sourced MarketSnapshot / UserPositionSnapshot rows
+ *      in [fromBlock, toBlock], recompute the bad-debt totals and daily
+ *      revenue they fed, and queue their snapshot hours for a rollup recompute
+ *   2. Replay the market's logs over the range (block-processor
+ *      backfillMarkets), checkpointing ReindexJob.lastBlock after each window
+ *
+ * SyncState, IndexedBlock and other markets are never touched. Cron and admin
+ * snapshots (no source log) are kept — a replay cannot recreate them. Oracle
+ * events are re-upserted as part of the replay, which is idempotent.
+ *
+ * Resuming: requesting the same market and range again while its job is
+ * unfinished (failed, or running with no checkpoint for STALE_AFTER_MS —
+ * i.e. the process died) continues from lastBlock + 1 without deleting again.
+ */
+
+import type { ReindexJob } from "../generated/prisma/client"
+import { getChain } from "../lib/chains"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { backfillMarkets } from "./block-processor"
+import { refreshBadDebtTotals } from "./bad-debt"
+import { refreshRevenueDays } from "./revenue"
+import { queueRollupHours } from "./snapshot-rollups"
+import type { MarketConfig } from "./listener"
+
+// A running job without a checkpoint for this long belongs to a dead process
+const STALE_AFTER_MS = 10 * 60_000
+
+/** The request can't be served as given (bad range, past the safe head). */
+export class ReindexRangeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ReindexRangeError"
+  }
+}
+
+export class ReindexRunningError extends Error {
+  constructor(public readonly job: ReindexJob) {
+    super(`Reindex job ${job.id} is already running for market ${job.marketId} (${job.fromBlock}-${job.toBlock})`)
+    this.name = "ReindexRunningError"
+  }
+}
+
+// Jobs this process is executing — a DB status alone can't tell a live job
+// in another process from a crashed one until it goes stale
+const running = new Set<number>()
+
+function isLive(job: ReindexJob): boolean {
+  return running.has(job.id) || Date.now() - job.updatedAt.getTime() < STALE_AFTER_MS
+}
+
+// ─── Jobs ─────────────────────────────────────────────────────────────────────
+
+export async function getReindexJob(id: number): Promise<ReindexJob | null> {
+  return prisma.reindexJob.findUnique({ where: { id } })
+}
+
+export async function listReindexJobs(marketId?: string): Promise<ReindexJob[]> {
+  return prisma.reindexJob.findMany({
+    where:   marketId ? { marketId } : undefined,
+    orderBy: { startedAt: "desc" },
+    take:    50,
+  })
+}
+
+/** Share of the range rebuilt so far, 0–100. */
+export function reindexProgress(job: ReindexJob): number {
+  if (job.status === "done") return 100
+  if (job.lastBlock === null) return 0
+  return Math.floor(((job.lastBlock - job.fromBlock + 1) / (job.toBlock - job.fromBlock + 1)) * 100)
+}
+
+/**
+ * Create the job for `market` over [fromBlock, toBlock] and clear the range,
+ * or pick up the unfinished job for exactly that range. Run it with
+ * runMarketReindex().
+ */
+export async function prepareMarketReindex(
+  market: MarketConfig,
+  fromBlock: number,
+  toBlock: number
+): Promise<ReindexJob> {
+  if (fromBlock > toBlock) {
+    throw new ReindexRangeError(`fromBlock ${fromBlock} is after toBlock ${toBlock}`)
+  }
+
+  const chain    = getChain(market.chainId)
+  const safeHead = Number(await chain.client.getBlockNumber()) - chain.confirmations
+  if (toBlock > safeHead) {
+    throw new ReindexRangeError(`toBlock ${toBlock} is past the safe head ${safeHead}`)
+  }
+
+  const unfinished = await prisma.reindexJob.findMany({
+    where: { marketId: market.marketId, status: { in: ["running", "failed"] } },
+  })
+
+  const live = unfinished.find((j) => j.status === "running" && isLive(j))
+  if (live) throw new ReindexRunningError(live)
+
+  const resumable = unfinished.find((j) => j.fromBlock === fromBlock && j.toBlock === toBlock)
+  if (resumable) {
+    logger.info(
+      { jobId: resumable.id, marketId: market.marketId, lastBlock: resumable.lastBlock },
+      "[reindex] Resuming market reindex"
+    )
+    return prisma.reindexJob.update({
+      where: { id: resumable.id },
+      data:  { status: "running", error: null, finishedAt: null },
+    })
+  }
+
+  // Abandoned jobs for other ranges are superseded by this one
+  const superseded = unfinished.map((j) => j.id)
+  const inRange    = { marketId: market.marketId, blockNumber: { gte: fromBlock, lte: toBlock } }
+  const fromLog    = { ...inRange, sourceTxHash: { not: null } }
+
+  await queueRollupHours(fromLog)
+
+  const [, liquidations, badDebt, interest, lenderFlows, marketSnapshots, positions, job] = await prisma.$transaction([
+    prisma.reindexJob.updateMany({
+      where: { id: { in: superseded } },
+      data:  { status: "failed", error: "Superseded by a newer reindex request", finishedAt: new Date() },
+    }),
+    prisma.liquidationEvent.deleteMany({ where: inRange }),
+    prisma.badDebtEvent.deleteMany({ where: inRange }),
+    prisma.interestEvent.deleteMany({ where: inRange }),
+    prisma.lenderFlow.deleteMany({ where: inRange }),
+    prisma.marketSnapshot.deleteMany({ where: fromLog }),
+    prisma.userPositionSnapshot.deleteMany({ where: fromLog }),
+    prisma.reindexJob.create({ data: { marketId: market.marketId, fromBlock, toBlock } }),
+  ])
+
+  logger.info(
+    {
+      jobId: job.id,
+      marketId: market.marketId,
+      from: fromBlock,
+      to: toBlock,
+      deleted: {
+        liquidations:    liquidations.count,
+        badDebtEvents:   badDebt.count,
+        interestEvents:  interest.count,
+        lenderFlows:     lenderFlows.count,
+        marketSnapshots: marketSnapshots.count,
+        positions:       positions.count,
+      },
+    },
+    "[reindex] Market range cleared"
+  )
+
+  // Rows after the range keep totals that counted the deleted ones
+  await refreshBadDebtTotals(market.marketId)
+  await refreshRevenueDays({
+    marketId:   market.marketId,
+    firstBlock: { lte: toBlock },
+    lastBlock:  { gte: fromBlock },
+  })
+
+  return job
+}
+
+/**
+ * Replay the job's remaining range. Resolves with the finished job; on error
+ * the job is marked failed (keeping its checkpoint) and the error rethrown.
+ */
+export async function runMarketReindex(job: ReindexJob, market: MarketConfig): Promise<ReindexJob> {
+  if (running.has(job.id)) throw new ReindexRunningError(job)
+  running.add(job.id)
+
+  const chain = getChain(market.chainId)
+  const start = job.lastBlock === null ? job.fromBlock : job.lastBlock + 1
+
+  try {
+    await backfillMarkets(chain, BigInt(start), BigInt(job.toBlock), [market], async (lastBlock) => {
+      const updated = await prisma.reindexJob.update({
+        where: { id: job.id },
+        data:  { lastBlock: Number(lastBlock) },
+      })
+      logger.info(
+        { jobId: job.id, block: updated.lastBlock, pct: reindexProgress(updated) },
+        "[reindex] Progress"
+      )
+    })
+
+    const done = await prisma.reindexJob.update({
+      where: { id: job.id },
+      data:  { status: "done", lastBlock: job.toBlock, finishedAt: new Date() },
+    })
+    logger.info({ jobId: job.id, marketId: market.marketId }, "[reindex] Market reindex complete")
+    return done
+  } catch (err) {
+    await prisma.reindexJob.update({
+      where: { id: job.id },
+      data: {
+        status:     "failed",
+        error:      err instanceof Error ? err.message : String(err),
+        finishedAt: new Date(),
+      },
+    })
+    logger.error({ jobId: job.id, marketId: market.marketId, err }, "[reindex] Market reindex failed")
+    throw err
+  } finally {
+    running.delete(job.id)
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Indexer Record & Replay
+ * -----------------------
+ * Reproduces an indexing run without RPC access (scripts/rpc-fixture.ts):
+ *
+ *   - record: processBlockRange over a block range with the chain's client
+ *     behind a recording transport (lib/rpc-fixture.ts). The fixture holds
+ *     every RPC call, the markets and chain settings of the run, and the rows
+ *     the run wrote.
+ *   - replay: the same processBlockRange against a replay transport serving
+ *     the recorded responses, then a row-by-row comparison with the recording.
+ *
+ * Both sides need a database with no indexer state for the chain — the rows
+ * compared are everything the run leaves behind for the chain and its
+ * markets, and processBlockRange moves SyncState. Point DATABASE_URL at a
+ * scratch database, never at the live one.
+ *
+ * Fixtures are plain JSON and can be committed as regression cases for the
+ * event handlers, snapshots and position reads (see test/replay.test.ts).
+ */
+
+import { readFileSync, writeFileSync } from "fs"
+import { Prisma } from "../generated/prisma/client"
+import { getChain, type ChainConfig } from "../lib/chains"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { createRecordingTransport, createReplayTransport, useTransport, type RecordedCall } from "../lib/rpc-fixture"
+import { processBlockRange } from "./block-processor"
+import { toMarketConfig, type MarketConfig } from "./listener"
+
+export const FIXTURE_VERSION = 1
+
+export interface FixtureMarket {
+  id: string
+  chainId: number
+  vaultAddress: string
+  marketAddress: string
+  irmAddress: string
+  oracleRouterAddress: string
+  loanAsset: string
+  loanAssetDecimals: number
+  label: string
+  symbol: string
+}
+
+/** Rows per table, volatile columns dropped, in a stable order. */
+export type IndexedRows = Record<string, Array<Record<string, unknown>>>
+
+export interface IndexerFixture {
+  version: number
+  chainId: number
+  fromBlock: string
+  toBlock: string
+  recordedAt: string
+  /** Chain settings the range was processed with — they shape the RPC calls */
+  settings: {
+    confirmations: number
+    reorgBuffer: number
+    logChunkSize: number
+    deploymentBlock: string
+  }
+  markets: FixtureMarket[]
+  calls: RecordedCall[]
+  rows: IndexedRows
+}
+
+export interface ReplayResult {
+  rows: IndexedRows
+  /** "- table {row}" missing from the replay, "+ table {row}" not in the recording */
+  diff: string[]
+  misses: number
+}
+
+/** The database already holds indexer state for the chain. */
+export class FixtureDatabaseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "FixtureDatabaseError"
+  }
+}
+
+// ─── Rows ─────────────────────────────────────────────────────────────────────
+
+// Differ between runs without the indexed data differing
+const VOLATILE_COLUMNS = new Set([
+  "id", "createdAt", "updatedAt", "updated_at", "processedAt", "firstFailedAt", "lastAttemptAt", "nextRetryAt",
+])
+
+function normalizeRow(row: object): Record<string, unknown> {
+  const out: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(row)) {
+    if (VOLATILE_COLUMNS.has(key)) continue
+    if (Prisma.Decimal.isDecimal(value)) out[key] = value.toString()
+    else if (value instanceof Date)      out[key] = value.toISOString()
+    else if (typeof value === "bigint")  out[key] = value.toString()
+    else                                 out[key] = value
+  }
+  return out
+}
+
+function sortedRows(rows: object[]): Array<Record<string, unknown>> {
+  return rows
+    .map(normalizeRow)
+    .map((row) => ({ row, key: JSON.stringify(row) }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+    .map(({ row }) => row)
+}
+
+/**
+ * MarketParams has snake_case columns created outside Prisma
+ * (scripts/create-market-params.mjs) — read raw like the routes do. A
+ * database set up by `prisma db push` alone has no such table; then there are
+ * no parameter rows to compare.
+ */
+async function marketParamsRows(marketIds: string[]): Promise<object[]> {
+  if (marketIds.length === 0) return []
+  try {
+    return await prisma.$queryRaw<object[]>`
+      SELECT * FROM "MarketParams" WHERE market_id IN (${Prisma.join(marketIds)})
+    `
+  } catch {
+    return []
+  }
+}
+
+/** Every row the indexer writes for the chain and its markets. */
+export async function captureRows(chainId: number, marketIds: string[]): Promise<IndexedRows> {
+  const onMarkets = { marketId: { in: marketIds } }
+
+  const [
+    syncState, indexedBlocks, failedBlocks, protocolEvents, oracleEvents, liquidationEvents,
+    badDebtEvents, interestEvents, revenueDays, lenderFlows, marketSnapshots, userPositionSnapshots,
+    userPositions, userCollateralBalances, marketCollateral,
+  ] = await prisma.$transaction([
+    prisma.syncState.findMany({ where: { chainId } }),
+    prisma.indexedBlock.findMany({ where: { chainId } }),
+    prisma.failedBlock.findMany({ where: { chainId } }),
+    prisma.protocolEvent.findMany({ where: { chainId } }),
+    prisma.oracleEvent.findMany({ where: { chainId } }),
+    prisma.liquidationEvent.findMany({ where: onMarkets }),
+    prisma.badDebtEvent.findMany({ where: onMarkets }),
+    prisma.interestEvent.findMany({ where: onMarkets }),
+    prisma.revenueDaily.findMany({ where: onMarkets }),
+    prisma.lenderFlow.findMany({ where: onMarkets }),
+    prisma.marketSnapshot.findMany({ where: onMarkets }),
+    prisma.userPositionSnapshot.findMany({ where: onMarkets }),
+    prisma.userPosition.findMany({ where: onMarkets }),
+    prisma.userCollateralBalance.findMany({ where: onMarkets }),
+    prisma.marketCollateral.findMany({ where: onMarkets }),
+  ])
+
+  return {
+    syncState:              sortedRows(syncState),
+    indexedBlocks:          sortedRows(indexedBlocks),
+    failedBlocks:           sortedRows(failedBlocks),
+    protocolEvents:         sortedRows(protocolEvents),
+    oracleEvents:           sortedRows(oracleEvents),
+    liquidationEvents:      sortedRows(liquidationEvents),
+    badDebtEvents:          sortedRows(badDebtEvents),
+    interestEvents:         sortedRows(interestEvents),
+    revenueDays:            sortedRows(revenueDays),
+    lenderFlows:            sortedRows(lenderFlows),
+    marketSnapshots:        sortedRows(marketSnapshots),
+    userPositionSnapshots:  sortedRows(userPositionSnapshots),
+    userPositions:          sortedRows(userPositions),
+    userCollateralBalances: sortedRows(userCollateralBalances),
+    marketParams:           sortedRows(await marketParamsRows(marketIds)),
+    marketCollateral:       sortedRows(marketCollateral),
+  }
+}
+
+export function diffRows(expected: IndexedRows, actual: IndexedRows): string[] {
+  const diff: string[] = []
+  for (const table of new Set([...Object.keys(expected), ...Object.keys(actual)])) {
+    const want = new Set((expected[table] ?? []).map((r) => JSON.stringify(r)))
+    const got  = new Set((actual[table] ?? []).map((r) => JSON.stringify(r)))
+    for (const row of want) if (!got.has(row)) diff.push(`- ${table} ${row}`)
+    for (const row of got) if (!want.has(row)) diff.push(`+ ${table} ${row}`)
+  }
+  return diff
+}
+
+async function assertNoIndexerState(chainId: number): Promise<void> {
+  const [synced, indexed] = await prisma.$transaction([
+    prisma.syncState.count({ where: { chainId } }),
+    prisma.protocolEvent.count({ where: { chainId } }),
+  ])
+  if (synced > 0 || indexed > 0) {
+    throw new FixtureDatabaseError(
+      `Database already has indexer state for chain ${chainId} — point DATABASE_URL at an empty scratch database`
+    )
+  }
+}
+
+// ─── Record ───────────────────────────────────────────────────────────────────
+
+/** Run processBlockRange over [fromBlock, toBlock] and record it as a fixture. */
+export async function recordFixture(
+  chain: ChainConfig,
+  fromBlock: bigint,
+  toBlock: bigint,
+  markets: MarketConfig[]
+): Promise<IndexerFixture> {
+  await assertNoIndexerState(chain.chainId)
+
+  const previous = chain.client
+  const recorder = createRecordingTransport((args) => previous.request(args as never))
+  const restore  = useTransport(chain, recorder.transport)
+  try {
+    await processBlockRange(chain, fromBlock, toBlock, markets)
+  } finally {
+    restore()
+  }
+
+  const marketIds  = markets.map((m) => m.marketId)
+  const marketRows = await prisma.market.findMany({ where: { id: { in: marketIds } }, orderBy: { id: "asc" } })
+  const calls      = recorder.calls()
+
+  logger.info({ chainId: chain.chainId, calls: calls.length }, "[replay] Recorded block range")
+
+  return {
+    version:    FIXTURE_VERSION,
+    chainId:    chain.chainId,
+    fromBlock:  fromBlock.toString(),
+    toBlock:    toBlock.toString(),
+    recordedAt: new Date().toISOString(),
+    settings: {
+      confirmations:   chain.confirmations,
+      reorgBuffer:     chain.reorgBuffer,
+      logChunkSize:    chain.logChunkSize,
+      deploymentBlock: chain.deploymentBlock.toString(),
+    },
+    markets: marketRows.map((m) => ({
+      id:                  m.id,
+      chainId:             m.chainId,
+      vaultAddress:        m.vaultAddress,
+      marketAddress:       m.marketAddress,
+      irmAddress:          m.irmAddress,
+      oracleRouterAddress: m.oracleRouterAddress,
+      loanAsset:           m.loanAsset,
+      loanAssetDecimals:   m.loanAssetDecimals,
+      label:               m.label,
+      symbol:              m.symbol,
+    })),
+    calls,
+    rows: await captureRows(chain.chainId, marketIds),
+  }
+}
+
+// ─── Replay ───────────────────────────────────────────────────────────────────
+
+/**
+ * Re-run a fixture's block range offline and compare the rows it writes with
+ * the recorded ones. Creates the fixture's markets (same ids) if missing.
+ * The fixture's chain must be configured; its RPC is never contacted.
+ */
+export async function replayFixture(fixture: IndexerFixture): Promise<ReplayResult> {
+  const chain = getChain(fixture.chainId)
+  await assertNoIndexerState(chain.chainId)
+
+  for (const market of fixture.markets) {
+    await prisma.market.upsert({ where: { id: market.id }, create: market, update: {} })
+  }
+
+  const settings = {
+    confirmations:   chain.confirmations,
+    reorgBuffer:     chain.reorgBuffer,
+    logChunkSize:    chain.logChunkSize,
+    deploymentBlock: chain.deploymentBlock,
+  }
+  Object.assign(chain, { ...fixture.settings, deploymentBlock: BigInt(fixture.settings.deploymentBlock) })
+
+  const replay  = createReplayTransport(fixture.calls)
+  const restore = useTransport(chain, replay.transport)
+  try {
+    await processBlockRange(chain, BigInt(fixture.fromBlock), BigInt(fixture.toBlock), fixture.markets.map(toMarketConfig))
+  } finally {
+    restore()
+    Object.assign(chain, settings)
+  }
+
+  const rows   = await captureRows(chain.chainId, fixture.markets.map((m) => m.id))
+  const misses = replay.misses().length
+  if (misses > 0) {
+    logger.warn({ misses, first: replay.misses()[0] }, "[replay] Requests without a recorded response")
+  }
+
+  return { rows, diff: diffRows(fixture.rows, rows), misses }
+}
+
+// ─── Files ────────────────────────────────────────────────────────────────────
+
+export function saveFixture(path: string, fixture: IndexerFixture): void {
+  writeFileSync(path, JSON.stringify(fixture, null, 2) + "\n")
+}
+
+export function loadFixture(path: string): IndexerFixture {
+  const fixture = JSON.parse(readFileSync(path, "utf8")) as IndexerFixture
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`[replay] ${path} is fixture version ${fixture.version}, expected ${FIXTURE_VERSION}`)
+  }
+  return fixture
+}
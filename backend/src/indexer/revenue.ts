@@ -0,0 +1,141 @@
+/**
+ * Interest & Revenue Recorder
+ * ---------------------------
+ * Stores an InterestEvent for each MarketV1 Repaid event, splitting the
+ * interest paid the way repay() does: protocolFee = interest × protocolFeeRate
+ * (sent to the treasury), the rest repaid to the vault as lender yield.
+ *
+ * The fee rate is the one in force at the repayment — the latest
+ * MarketParametersUpdated in the ledger before the log, falling back to the
+ * current MarketParams row when the ledger has none (history not indexed).
+ *
+ * RevenueDaily sums each market's InterestEvents per UTC day. A day is
+ * recomputed from its events whenever one is added or removed, so replays,
+ * backfills and rollbacks all converge on the same totals.
+ *
+ * Liquidations also settle interest, but Liquidated does not break it out —
+ * only repayments are counted as realised revenue.
+ */
+
+import { Prisma } from "../generated/prisma/client"
+import { normalize, WAD } from "../lib/rpc"
+import { prisma } from "../lib/db"
+import type { MarketConfig } from "./listener"
+
+const PRECISION = 10n ** 18n
+
+interface RepaidLog {
+  user: `0x${string}`
+  amount: bigint        // loan-asset decimals
+  interestPaid: bigint  // 18-decimal
+  principalPaid: bigint // 18-decimal
+  txHash: `0x${string}`
+  blockNumber: bigint
+  blockTimestamp: bigint
+  logIndex: number
+}
+
+export async function storeInterestEvent(market: MarketConfig, log: RepaidLog) {
+  const key = { txHash_logIndex: { txHash: log.txHash, logIndex: log.logIndex } }
+
+  const existing = await prisma.interestEvent.findUnique({ where: key })
+  if (existing) return existing
+
+  const rate        = await protocolFeeRateAt(market, { blockNumber: Number(log.blockNumber), logIndex: log.logIndex })
+  // Same rounding as MarketV1.repay (mulDiv rounds down)
+  const protocolFee = (log.interestPaid * rate) / PRECISION
+  const timestamp   = new Date(Number(log.blockTimestamp) * 1000)
+
+  const event = await prisma.interestEvent.create({
+    data: {
+      marketId:        market.marketId,
+      timestamp,
+      txHash:          log.txHash,
+      blockNumber:     Number(log.blockNumber),
+      logIndex:        log.logIndex,
+      user:            log.user.toLowerCase(),
+      amount:          normalize(log.amount, market.loanAssetDecimals).toFixed(6),
+      interestPaid:    normalize(log.interestPaid, WAD).toFixed(6),
+      principalPaid:   normalize(log.principalPaid, WAD).toFixed(6),
+      protocolFeeRate: normalize(rate, WAD).toFixed(6),
+      protocolFee:     normalize(protocolFee, WAD).toFixed(6),
+      lenderYield:     normalize(log.interestPaid - protocolFee, WAD).toFixed(6),
+    },
+  })
+
+  await refreshRevenueDay(market.marketId, utcDay(timestamp))
+  return event
+}
+
+/** MarketV1 protocolFeeRate (18-decimal) in force just before a log. */
+export async function protocolFeeRateAt(
+  market: MarketConfig,
+  point: { blockNumber: number; logIndex: number }
+): Promise<bigint> {
+  const row = await prisma.protocolEvent.findFirst({
+    where: {
+      chainId:         market.chainId,
+      contractAddress: market.marketAddress.toLowerCase(),
+      eventName:       "MarketParametersUpdated",
+      OR: [
+        { blockNumber: { lt: point.blockNumber } },
+        { blockNumber: point.blockNumber, logIndex: { lt: point.logIndex } },
+      ],
+    },
+    orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }],
+    select:  { args: true },
+  })
+  if (row) return BigInt((row.args as Record<string, unknown>).protocolFeeRate as string)
+
+  const rows = await prisma.$queryRaw<Array<{ protocol_fee: string }>>`
+    SELECT protocol_fee FROM "MarketParams" WHERE market_id = ${market.marketId} LIMIT 1
+  `
+  return rows[0] ? BigInt(new Prisma.Decimal(rows[0].protocol_fee).mul(PRECISION.toString()).toFixed(0)) : 0n
+}
+
+// ─── Daily Aggregates ────────────────────────────────────────────────────────
+
+/** Midnight UTC of the day a timestamp falls on. */
+export function utcDay(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()))
+}
+
+/** Recompute one market-day from its InterestEvents, dropping it when none are left. */
+async function refreshRevenueDay(marketId: string, day: Date): Promise<void> {
+  const next = new Date(day.getTime() + 24 * 60 * 60 * 1000)
+  const agg = await prisma.interestEvent.aggregate({
+    where:  { marketId, timestamp: { gte: day, lt: next } },
+    _count: true,
+    _sum:   { interestPaid: true, principalPaid: true, protocolFee: true, lenderYield: true },
+    _min:   { blockNumber: true },
+    _max:   { blockNumber: true },
+  })
+
+  const key = { marketId_day: { marketId, day } }
+  if (agg._count === 0) {
+    await prisma.revenueDaily.deleteMany({ where: { marketId, day } })
+    return
+  }
+
+  const data = {
+    repayments:    agg._count,
+    interestPaid:  agg._sum.interestPaid  ?? 0,
+    principalPaid: agg._sum.principalPaid ?? 0,
+    protocolFee:   agg._sum.protocolFee   ?? 0,
+    lenderYield:   agg._sum.lenderYield   ?? 0,
+    firstBlock:    agg._min.blockNumber   ?? 0,
+    lastBlock:     agg._max.blockNumber   ?? 0,
+  }
+  await prisma.revenueDaily.upsert({ where: key, update: data, create: { marketId, day, ...data } })
+}
+
+/**
+ * Recompute the days matching `where` after InterestEvents were deleted —
+ * e.g. `lastBlock >= from` after a rollback. Days the replay adds back are
+ * refreshed by storeInterestEvent.
+ */
+export async function refreshRevenueDays(where: Prisma.RevenueDailyWhereInput): Promise<number> {
+  const days = await prisma.revenueDaily.findMany({ where, select: { marketId: true, day: true } })
+  for (const { marketId, day } of days) await refreshRevenueDay(marketId, day)
+  return days.length
+}
@@ -0,0 +1,340 @@
+/**
+ * Snapshot Rollups & Retention
+ * ----------------------------
+ * Folds MarketSnapshot rows into MarketSnapshotHourly and MarketSnapshotDaily
+ * — min, max, average and last of every numeric field, the worst and latest
+ * severity, and the number of stale oracle readings — then drops minute-level
+ * rows older than SNAPSHOT_RETENTION_DAYS. Long /history ranges read the
+ * rollups instead of every snapshot.
+ *
+ * Snapshot ids only grow, so SnapshotRollupState.lastSnapshotId marks what is
+ * folded: an hour is recomputed from its snapshots whenever a row with a
+ * higher id lands in it — a live snapshot, a backfilled or reindexed event,
+ * or a replay after a reorg rollback. A day is then refolded from its hours,
+ * averages weighted by each hour's sample count. Deleting snapshots leaves no
+ * new row behind, so a rollback or reindex queues their hours in
+ * SnapshotRollupPending first; a bucket left with no rows is dropped.
+ *
+ * Rollups also keep the block and routerPrices of their last snapshot, which
+ * position pricing falls back to once the minute rows are pruned.
+ *
+ * Only rolled-up rows are pruned, from whole UTC days before the window. An
+ * hour before the window that already has a rollup is not recomputed again:
+ * its other minute rows are gone, so a late row would replace the bucket with
+ * a partial one.
+ */
+
+import { Prisma } from "../generated/prisma/client"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { utcDay } from "./revenue"
+
+export const SNAPSHOT_RETENTION_DAYS = Number(process.env.SNAPSHOT_RETENTION_DAYS ?? 30)
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS  = 24 * HOUR_MS
+
+// Non-null numeric MarketSnapshot fields; globalBorrowIndex is folded apart
+const MEASURES = [
+  "totalSupply",
+  "totalBorrows",
+  "availableLiquidity",
+  "utilizationRate",
+  "borrowRate",
+  "lendingRate",
+  "optimalUtilization",
+  "liquidityDepthRatio",
+  "distanceToKink",
+  "oraclePrice",
+  "oracleConfidence",
+  "oracleRiskScore",
+] as const
+
+// Int columns — min, max and last stay integers, the average doesn't
+const INT_MEASURES = new Set<Measure>(["oracleConfidence", "oracleRiskScore"])
+
+const SEVERITIES = ["liquiditySeverity", "aprConvexitySeverity", "oracleSeverity", "overallSeverity"] as const
+
+type Measure  = (typeof MEASURES)[number]
+type Severity = (typeof SEVERITIES)[number]
+type Snapshot = Awaited<ReturnType<typeof prisma.marketSnapshot.findMany>>[number]
+type Hourly   = Awaited<ReturnType<typeof prisma.marketSnapshotHourly.findMany>>[number]
+
+interface Stats {
+  min: Prisma.Decimal
+  max: Prisma.Decimal
+  avg: Prisma.Decimal
+  last: Prisma.Decimal
+}
+
+/** A bucket's figures — one snapshot is a bucket of one sample. */
+interface Fold {
+  sampleCount: number
+  lastTimestamp: Date
+  measures: Record<Measure, Stats>
+  /** Samples that carried globalBorrowIndex, the weight of its average */
+  indexCount: number
+  index: Stats | null
+  staleCount: number
+  severities: Record<Severity, { max: number; last: number }>
+  /** Block and routerPrices of the last snapshot */
+  blockNumber: number | null
+  routerPrices: Prisma.JsonValue | null
+}
+
+/** Start of the minute-level window: rows before it are pruned once rolled up. */
+export function retentionCutoff(now = new Date()): Date | null {
+  if (SNAPSHOT_RETENTION_DAYS <= 0) return null
+  return utcDay(new Date(now.getTime() - SNAPSHOT_RETENTION_DAYS * DAY_MS))
+}
+
+// ─── Folding ─────────────────────────────────────────────────────────────────
+
+const point = (value: Prisma.Decimal.Value): Stats => {
+  const d = new Prisma.Decimal(value)
+  return { min: d, max: d, avg: d, last: d }
+}
+
+function fromSnapshot(row: Snapshot): Fold {
+  return {
+    sampleCount:   1,
+    lastTimestamp: row.timestamp,
+    measures:      Object.fromEntries(MEASURES.map((m) => [m, point(row[m])])) as Record<Measure, Stats>,
+    indexCount:    row.globalBorrowIndex !== null ? 1 : 0,
+    index:         row.globalBorrowIndex !== null ? point(row.globalBorrowIndex) : null,
+    staleCount:    row.oracleIsStale ? 1 : 0,
+    severities:    Object.fromEntries(
+      SEVERITIES.map((s) => [s, { max: row[s], last: row[s] }])
+    ) as Record<Severity, { max: number; last: number }>,
+    blockNumber:   row.blockNumber,
+    routerPrices:  row.routerPrices,
+  }
+}
+
+function fromRollup(row: Hourly): Fold {
+  const stats = (name: Measure | "globalBorrowIndex"): Stats => ({
+    min:  new Prisma.Decimal(row[`${name}Min`]!),
+    max:  new Prisma.Decimal(row[`${name}Max`]!),
+    avg:  new Prisma.Decimal(row[`${name}Avg`]!),
+    last: new Prisma.Decimal(row[`${name}Last`]!),
+  })
+  const hasIndex = row.globalBorrowIndexLast !== null
+  return {
+    sampleCount:   row.sampleCount,
+    lastTimestamp: row.lastTimestamp,
+    measures:      Object.fromEntries(MEASURES.map((m) => [m, stats(m)])) as Record<Measure, Stats>,
+    indexCount:    hasIndex ? row.sampleCount : 0,
+    index:         hasIndex ? stats("globalBorrowIndex") : null,
+    staleCount:    row.oracleStaleCount,
+    severities:    Object.fromEntries(
+      SEVERITIES.map((s) => [s, { max: row[`${s}Max`], last: row[`${s}Last`] }])
+    ) as Record<Severity, { max: number; last: number }>,
+    blockNumber:   row.blockNumberLast,
+    routerPrices:  row.routerPricesLast,
+  }
+}
+
+/** Combine stats in time order, averages weighted by `weights`. */
+function mergeStats(parts: Stats[], weights: number[]): Stats {
+  let total = new Prisma.Decimal(0)
+  let count = 0
+  for (const [i, s] of parts.entries()) {
+    total = total.plus(s.avg.times(weights[i]))
+    count += weights[i]
+  }
+  return {
+    min:  Prisma.Decimal.min(...parts.map((s) => s.min)),
+    max:  Prisma.Decimal.max(...parts.map((s) => s.max)),
+    avg:  total.div(count),
+    last: parts[parts.length - 1].last,
+  }
+}
+
+/** Fold buckets sorted by time into one. */
+function merge(parts: Fold[]): Fold {
+  const withIndex = parts.filter((p) => p.index !== null)
+  const last      = parts[parts.length - 1]
+  return {
+    sampleCount:   parts.reduce((n, p) => n + p.sampleCount, 0),
+    lastTimestamp: last.lastTimestamp,
+    measures:      Object.fromEntries(
+      MEASURES.map((m) => [m, mergeStats(parts.map((p) => p.measures[m]), parts.map((p) => p.sampleCount))])
+    ) as Record<Measure, Stats>,
+    indexCount:    withIndex.reduce((n, p) => n + p.indexCount, 0),
+    index:         withIndex.length > 0
+      ? mergeStats(withIndex.map((p) => p.index!), withIndex.map((p) => p.indexCount))
+      : null,
+    staleCount:    parts.reduce((n, p) => n + p.staleCount, 0),
+    severities:    Object.fromEntries(
+      SEVERITIES.map((s) => [s, { max: Math.max(...parts.map((p) => p.severities[s].max)), last: last.severities[s].last }])
+    ) as Record<Severity, { max: number; last: number }>,
+    blockNumber:   last.blockNumber,
+    routerPrices:  last.routerPrices,
+  }
+}
+
+/** Rollup columns shared by MarketSnapshotHourly and MarketSnapshotDaily. */
+function columns(fold: Fold) {
+  const data: Record<string, unknown> = {
+    sampleCount:      fold.sampleCount,
+    lastTimestamp:    fold.lastTimestamp,
+    oracleStaleCount: fold.staleCount,
+    blockNumberLast:  fold.blockNumber,
+    routerPricesLast: fold.routerPrices ?? Prisma.DbNull,
+  }
+  for (const m of MEASURES) {
+    const s = fold.measures[m]
+    const value = (d: Prisma.Decimal) => (INT_MEASURES.has(m) ? d.toNumber() : d)
+    data[`${m}Min`]  = value(s.min)
+    data[`${m}Max`]  = value(s.max)
+    data[`${m}Avg`]  = s.avg
+    data[`${m}Last`] = value(s.last)
+  }
+  for (const suffix of ["Min", "Max", "Avg", "Last"] as const) {
+    data[`globalBorrowIndex${suffix}`] = fold.index?.[suffix.toLowerCase() as keyof Stats] ?? null
+  }
+  for (const s of SEVERITIES) {
+    data[`${s}Max`]  = fold.severities[s].max
+    data[`${s}Last`] = fold.severities[s].last
+  }
+  return data as Omit<Prisma.MarketSnapshotHourlyUncheckedCreateInput, "marketId" | "bucketStart">
+}
+
+// ─── Rollup ──────────────────────────────────────────────────────────────────
+
+/**
+ * Recompute one market's hour from its snapshots, or drop its bucket when it
+ * has none left. False when there was nothing to change.
+ */
+async function rollupHour(marketId: string, hour: Date): Promise<boolean> {
+  const rows = await prisma.marketSnapshot.findMany({
+    where:   { marketId, timestamp: { gte: hour, lt: new Date(hour.getTime() + HOUR_MS) } },
+    orderBy: [{ timestamp: "asc" }, { id: "asc" }],
+  })
+  if (rows.length === 0) {
+    const { count } = await prisma.marketSnapshotHourly.deleteMany({ where: { marketId, bucketStart: hour } })
+    return count > 0
+  }
+
+  const data = columns(merge(rows.map(fromSnapshot)))
+  await prisma.marketSnapshotHourly.upsert({
+    where:  { marketId_bucketStart: { marketId, bucketStart: hour } },
+    create: { marketId, bucketStart: hour, ...data },
+    update: data,
+  })
+  return true
+}
+
+/** Refold one market's UTC day from its hourly rollups, dropping it when none are left. */
+async function rollupDay(marketId: string, day: Date): Promise<void> {
+  const hours = await prisma.marketSnapshotHourly.findMany({
+    where:   { marketId, bucketStart: { gte: day, lt: new Date(day.getTime() + DAY_MS) } },
+    orderBy: { bucketStart: "asc" },
+  })
+  if (hours.length === 0) {
+    await prisma.marketSnapshotDaily.deleteMany({ where: { marketId, bucketStart: day } })
+    return
+  }
+
+  const data = columns(merge(hours.map(fromRollup)))
+  await prisma.marketSnapshotDaily.upsert({
+    where:  { marketId_bucketStart: { marketId, bucketStart: day } },
+    create: { marketId, bucketStart: day, ...data },
+    update: data,
+  })
+}
+
+/**
+ * Queue the hours of the snapshots matching `where` for recompute — call it
+ * before deleting them, e.g. `blockNumber >= from` on a rollback.
+ */
+export async function queueRollupHours(where: Prisma.MarketSnapshotWhereInput): Promise<number> {
+  const rows = await prisma.marketSnapshot.findMany({
+    where,
+    select:   { marketId: true, timestamp: true },
+    distinct: ["marketId", "timestamp"],
+  })
+  const hours = new Map<string, { marketId: string; bucketStart: Date }>()
+  for (const { marketId, timestamp } of rows) {
+    const bucketStart = new Date(Math.floor(timestamp.getTime() / HOUR_MS) * HOUR_MS)
+    hours.set(`${marketId}:${bucketStart.getTime()}`, { marketId, bucketStart })
+  }
+  // Re-queueing bumps queuedAt so a run already under way doesn't clear it
+  for (const key of hours.values()) {
+    await prisma.snapshotRollupPending.upsert({
+      where:  { marketId_bucketStart: key },
+      create: { ...key, queuedAt: new Date() },
+      update: { queuedAt: new Date() },
+    })
+  }
+  return hours.size
+}
+
+/**
+ * Fold every snapshot written since the last run into its hour and day, and
+ * recompute the hours queued by queueRollupHours. The first run rolls up the
+ * whole table.
+ */
+export async function rollupSnapshots(): Promise<{ hours: number; days: number }> {
+  const startedAt = new Date()
+  const state = await prisma.snapshotRollupState.findUnique({ where: { id: 1 } })
+  const after = state?.lastSnapshotId ?? 0
+  const { _max } = await prisma.marketSnapshot.aggregate({ _max: { id: true } })
+  const upTo = _max.id ?? 0
+  const pending = await prisma.snapshotRollupPending.findMany({ where: { queuedAt: { lte: startedAt } } })
+  if (upTo <= after && pending.length === 0) return { hours: 0, days: 0 }
+
+  const touched = new Map<string, { marketId: string; hour: Date }>()
+  const touch = (marketId: string, hour: Date) => touched.set(`${marketId}:${hour.getTime()}`, { marketId, hour })
+  if (upTo > after) {
+    const rows = await prisma.$queryRaw<Array<{ marketId: string; hour: Date }>>`
+      SELECT DISTINCT "marketId", date_trunc('hour', "timestamp") AS hour
+      FROM "MarketSnapshot"
+      WHERE id > ${after} AND id <= ${upTo}
+    `
+    for (const { marketId, hour } of rows) touch(marketId, hour)
+  }
+  for (const { marketId, bucketStart } of pending) touch(marketId, bucketStart)
+
+  const cutoff = retentionCutoff()
+  const days   = new Map<string, { marketId: string; day: Date }>()
+  let hours = 0
+
+  for (const { marketId, hour } of touched.values()) {
+    if (cutoff && hour < cutoff) {
+      const rolled = await prisma.marketSnapshotHourly.count({ where: { marketId, bucketStart: hour } })
+      if (rolled > 0) continue
+    }
+    if (!(await rollupHour(marketId, hour))) continue
+    hours++
+    const day = utcDay(hour)
+    days.set(`${marketId}:${day.getTime()}`, { marketId, day })
+  }
+  for (const { marketId, day } of days.values()) await rollupDay(marketId, day)
+
+  if (upTo > after) {
+    await prisma.snapshotRollupState.upsert({
+      where:  { id: 1 },
+      create: { id: 1, lastSnapshotId: upTo },
+      update: { lastSnapshotId: upTo },
+    })
+  }
+  await prisma.snapshotRollupPending.deleteMany({
+    where: { id: { in: pending.map((p) => p.id) }, queuedAt: { lte: startedAt } },
+  })
+  return { hours, days: days.size }
+}
+
+/** Delete rolled-up minute-level snapshots before the retention window. */
+export async function pruneSnapshots(): Promise<number> {
+  const cutoff = retentionCutoff()
+  if (!cutoff) return 0
+  const state = await prisma.snapshotRollupState.findUnique({ where: { id: 1 } })
+  if (!state) return 0
+
+  const { count } = await prisma.marketSnapshot.deleteMany({
+    where: { timestamp: { lt: cutoff }, id: { lte: state.lastSnapshotId } },
+  })
+  if (count > 0) logger.info({ count, before: cutoff.toISOString() }, "[rollups] Pruned minute snapshots")
+  return count
+}
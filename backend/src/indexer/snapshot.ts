@@ -2,9 +2,17 @@
  * Market Snapshot Generator
  * -------------------------
  * Reads on-chain market state via multicall and persists a MarketSnapshot.
+ * Router prices of the loan asset and every collateral token are recorded
+ * with it — position-state.ts prices positions with them.
+ *
+ * Every snapshot is anchored to a block: all reads are pinned to that block
+ * and the row records its number/hash, so a reorg rollback can delete it and
+ * a replay reproduces it exactly. Event-driven snapshots also carry the
+ * source log and are upserted on it, making re-processing a no-op.
  */
 
-import { client, normalize, WAD } from "../lib/rpc"
+import { normalize, WAD } from "../lib/rpc"
+import { getChain } from "../lib/chains"
 import { VAULT_ABI, MARKET_ABI, IRM_ABI, ORACLE_ROUTER_ABI } from "../lib/contracts"
 import { prisma } from "../lib/db"
 import {
@@ -16,6 +24,7 @@ import {
 
 export interface MarketAddresses {
   marketId: string
+  chainId: number
   vaultAddress: `0x${string}`
   marketAddress: `0x${string}`
   irmAddress: `0x${string}`
@@ -24,10 +33,42 @@ export interface MarketAddresses {
   loanAssetDecimals: number
 }
 
-export async function computeAndSaveMarketSnapshot(market: MarketAddresses) {
+/** Block a snapshot is read at, plus the log that triggered it (if any). */
+export interface SnapshotAnchor {
+  blockNumber: bigint
+  blockHash: string
+  blockTimestamp: bigint
+  txHash?: `0x${string}`
+  logIndex?: number
+}
+
+/** Anchor for snapshots not driven by a log (cron, admin, internal). */
+export async function latestAnchor(chainId: number): Promise<SnapshotAnchor> {
+  const block = await getChain(chainId).client.getBlock()
+  return { blockNumber: block.number, blockHash: block.hash, blockTimestamp: block.timestamp }
+}
+
+/** Columns shared by MarketSnapshot and UserPositionSnapshot. */
+export function anchorColumns(anchor: SnapshotAnchor) {
+  return {
+    timestamp:      new Date(Number(anchor.blockTimestamp) * 1000),
+    blockNumber:    Number(anchor.blockNumber),
+    blockHash:      anchor.blockHash,
+    sourceTxHash:   anchor.txHash ?? null,
+    sourceLogIndex: anchor.logIndex ?? null,
+  }
+}
+
+export async function computeAndSaveMarketSnapshot(market: MarketAddresses, anchor?: SnapshotAnchor) {
   const d = market.loanAssetDecimals
+  const at = anchor ?? (await latestAnchor(market.chainId))
+
+  const collaterals = await prisma.marketCollateral.findMany({ where: { marketId: market.marketId }, select: { token: true } })
+  const priced = [...new Set([market.loanAsset, ...collaterals.map((c) => c.token)].map((t) => t.toLowerCase()))]
 
+  const { client } = getChain(market.chainId)
   const results = await client.multicall({
+    blockNumber: at.blockNumber,
     contracts: [
       { address: market.vaultAddress, abi: VAULT_ABI, functionName: "availableLiquidity" },
       { address: market.vaultAddress, abi: VAULT_ABI, functionName: "totalAssets" },
@@ -40,6 +81,15 @@ export async function computeAndSaveMarketSnapshot(market: MarketAddresses) {
       { address: market.oracleRouterAddress, abi: ORACLE_ROUTER_ABI, functionName: "evaluate", args: [market.loanAsset] },
     ],
   })
+  const prices = await client.multicall({
+    blockNumber: at.blockNumber,
+    contracts: priced.map((token) => ({
+      address: market.oracleRouterAddress,
+      abi: ORACLE_ROUTER_ABI,
+      functionName: "getLatestPrice" as const,
+      args: [token as `0x${string}`] as const,
+    })),
+  })
 
   const availableLiquidity = normalize(results[0].status === "success" ? (results[0].result as bigint) : 0n, d)
   const totalAssets = normalize(results[1].status === "success" ? (results[1].result as bigint) : 0n, d)
@@ -75,6 +125,13 @@ export async function computeAndSaveMarketSnapshot(market: MarketAddresses) {
     oracleRiskScore = oracleEval.oracleRiskScore
   }
 
+  // A token whose price reverts (stale feed, none configured) is left out
+  const routerPrices: Record<string, string> = {}
+  for (const [i, token] of priced.entries()) {
+    const result = prices[i]
+    if (result.status === "success") routerPrices[token] = normalize(result.result, WAD).toFixed(6)
+  }
+
   const depthRatio = totalBorrows === 0 ? 10.0 : Math.min(availableLiquidity / totalBorrows, 10.0)
   const distanceToKink = optimalUtilization - utilizationRate
 
@@ -87,27 +144,43 @@ export async function computeAndSaveMarketSnapshot(market: MarketAddresses) {
     : 0
   const overallSeverity = computeOverallSeverity(liquiditySeverity, aprConvexitySeverity, oracleSeverity, null)
 
-  return prisma.marketSnapshot.create({
-    data: {
-      marketId: market.marketId,
-      totalSupply: totalAssets.toFixed(6),
-      totalBorrows: totalBorrows.toFixed(6),
-      availableLiquidity: availableLiquidity.toFixed(6),
-      utilizationRate: utilizationRate.toFixed(6),
-      borrowRate: borrowRate.toFixed(6),
-      lendingRate: lendingRate.toFixed(6),
-      optimalUtilization: optimalUtilization.toFixed(6),
-      liquidityDepthRatio: depthRatio.toFixed(6),
-      distanceToKink: distanceToKink.toFixed(6),
-      oraclePrice: oraclePrice.toFixed(6),
-      oracleConfidence,
-      oracleRiskScore,
-      oracleIsStale,
-      globalBorrowIndex: globalBorrowIndex !== null ? globalBorrowIndex.toFixed(18) : null,
-      liquiditySeverity,
-      aprConvexitySeverity,
-      oracleSeverity,
-      overallSeverity,
+  const data = {
+    ...anchorColumns(at),
+    marketId: market.marketId,
+    totalSupply: totalAssets.toFixed(6),
+    totalBorrows: totalBorrows.toFixed(6),
+    availableLiquidity: availableLiquidity.toFixed(6),
+    utilizationRate: utilizationRate.toFixed(6),
+    borrowRate: borrowRate.toFixed(6),
+    lendingRate: lendingRate.toFixed(6),
+    optimalUtilization: optimalUtilization.toFixed(6),
+    liquidityDepthRatio: depthRatio.toFixed(6),
+    distanceToKink: distanceToKink.toFixed(6),
+    oraclePrice: oraclePrice.toFixed(6),
+    oracleConfidence,
+    oracleRiskScore,
+    oracleIsStale,
+    globalBorrowIndex: globalBorrowIndex !== null ? globalBorrowIndex.toFixed(18) : null,
+    routerPrices,
+    liquiditySeverity,
+    aprConvexitySeverity,
+    oracleSeverity,
+    overallSeverity,
+  }
+
+  if (at.txHash === undefined || at.logIndex === undefined) {
+    return prisma.marketSnapshot.create({ data })
+  }
+
+  return prisma.marketSnapshot.upsert({
+    where: {
+      marketId_sourceTxHash_sourceLogIndex: {
+        marketId: market.marketId,
+        sourceTxHash: at.txHash,
+        sourceLogIndex: at.logIndex,
+      },
     },
+    create: data,
+    update: data,
   })
 }
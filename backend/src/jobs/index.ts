@@ -6,16 +6,45 @@
  *
  * Jobs:
  *   - Snapshot job: every minute — computes MarketSnapshot for all active markets
- *   - Health factor job: every 10 minutes — recomputes positions for recently active users
+ *   - Health sweep: checked every minute — re-reads every open borrower every 10 minutes,
+ *     sooner after a sharp oracle price move
+ *   - Liquidation bot: every minute when LIQUIDATOR_ENABLED — liquidates profitable unhealthy borrowers
+ *   - Keepers: every minute when KEEPER_ENABLED — sends borrow-index and LKG updates once they are due
+ *   - Failed block retrier: every minute — re-processes dead-lettered blocks whose backoff elapsed
+ *   - Position reconciler: every 30 minutes — checks event-sourced positions against getUserPosition
+ *   - Snapshot rollups: every 5 minutes — hourly/daily rollups of new snapshots, then retention pruning
  *   - Daily analytics job: midnight UTC — aggregates 24h volume, unique users, peak utilization
  */
 
 import cron from "node-cron"
 import { activeMarkets } from "../indexer/index"
-import { computeAndSaveMarketSnapshot } from "../indexer/snapshot"
-import { updateUserPosition } from "../indexer/position"
+import { computeAndSaveMarketSnapshot, latestAnchor, type SnapshotAnchor } from "../indexer/snapshot"
+import { sweepBorrowers, sweepDue } from "../indexer/health-sweep"
+import { retryFailedBlocks } from "../indexer/failed-blocks"
+import { LIQUIDATOR_ENABLED, runLiquidator } from "./liquidator"
+import { KEEPER_ENABLED, runKeepers } from "./keeper"
+import { reconcilePositions } from "../indexer/position-reconciler"
+import { pruneSnapshots, rollupSnapshots } from "../indexer/snapshot-rollups"
 import { prisma } from "../lib/db"
 import { logger } from "../lib/logger"
+import { snapshotJobDuration, snapshotJobFailures } from "../lib/metrics"
+import { getChain } from "../lib/chains"
+
+/**
+ * Latest block per chain, so every market on a chain is read at the same
+ * height within a tick. Chains whose head can't be read are left out.
+ */
+async function latestAnchors(chainIds: number[]): Promise<Map<number, SnapshotAnchor>> {
+  const anchors = new Map<number, SnapshotAnchor>()
+  for (const chainId of new Set(chainIds)) {
+    try {
+      anchors.set(chainId, await latestAnchor(chainId))
+    } catch (err) {
+      logger.error({ chainId, err }, "[cron] Failed to read latest block")
+    }
+  }
+  return anchors
+}
 
 export function startCronJobs() {
   // --- Snapshot job: every minute ---
@@ -23,50 +52,160 @@ export function startCronJobs() {
     if (activeMarkets.length === 0) return
 
     logger.info({ markets: activeMarkets.length }, "[cron] Snapshot tick")
+
+    const anchors = await latestAnchors(activeMarkets.map((m) => m.chainId))
+
     for (const market of activeMarkets) {
+      const labels = { chain: getChain(market.chainId).name, market: market.marketAddress.toLowerCase() }
+
+      // No head for this chain this tick — the snapshot is missed all the same
+      const anchor = anchors.get(market.chainId)
+      if (!anchor) {
+        snapshotJobFailures.inc(labels)
+        continue
+      }
+
+      const endTimer = snapshotJobDuration.startTimer(labels)
       try {
-        await computeAndSaveMarketSnapshot(market)
+        await computeAndSaveMarketSnapshot(market, anchor)
       } catch (err) {
+        snapshotJobFailures.inc(labels)
         logger.error({ market: market.marketAddress.slice(0, 8), err }, "[cron] Snapshot failed")
+      } finally {
+        endTimer()
       }
     }
   })
 
-  // --- Health factor job: every 10 minutes ---
-  // Re-reads on-chain position for users active in the last 10 minutes.
-  // This catches interest accrual between events.
-  cron.schedule("*/10 * * * *", async () => {
-    if (activeMarkets.length === 0) return
-
-    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000)
+  // --- Health sweep: checked every minute ---
+  // Re-reads getUserPosition for every open borrower, idle ones included, so
+  // interest accrual and price moves between events are caught.
+  let sweeping = false
+  cron.schedule("* * * * *", async () => {
+    if (sweeping || activeMarkets.length === 0) return
+    sweeping = true
 
     try {
-      const recentPositions = await prisma.userPositionSnapshot.findMany({
-        where: { timestamp: { gte: tenMinutesAgo } },
-        distinct: ["userAddress", "marketId"],
-        select: { userAddress: true, marketId: true },
-      })
+      for (const chainId of new Set(activeMarkets.map((m) => m.chainId))) {
+        try {
+          const reason = await sweepDue(chainId, activeMarkets)
+          if (!reason) continue
+          const { checked, flagged } = await sweepBorrowers(chainId, activeMarkets)
+          logger.info({ chainId, reason, checked, flagged }, "[cron] Health sweep")
+        } catch (err) {
+          logger.error({ chainId, err }, "[cron] Health sweep failed")
+        }
+      }
+    } finally {
+      sweeping = false
+    }
+  })
 
-      if (recentPositions.length === 0) return
+  // --- Liquidation bot: every minute, opt-in ---
+  // Acts on the bands the health sweep leaves behind, re-checked at the head.
+  if (LIQUIDATOR_ENABLED) {
+    let liquidating = false
+    cron.schedule("* * * * *", async () => {
+      if (liquidating || activeMarkets.length === 0) return
+      liquidating = true
 
-      logger.info({ positions: recentPositions.length }, "[cron] Health factor recheck")
+      try {
+        for (const chainId of new Set(activeMarkets.map((m) => m.chainId))) {
+          try {
+            const summary = await runLiquidator(chainId)
+            if (summary.evaluated > 0) logger.info({ chainId, ...summary }, "[cron] Liquidator run")
+          } catch (err) {
+            logger.error({ chainId, err }, "[cron] Liquidator run failed")
+          }
+        }
+      } finally {
+        liquidating = false
+      }
+    })
+  }
+
+  // --- Keepers: every minute, opt-in ---
+  // Each call is only sent once its max age has passed, so most ticks are reads.
+  if (KEEPER_ENABLED) {
+    let keeping = false
+    cron.schedule("* * * * *", async () => {
+      if (keeping || activeMarkets.length === 0) return
+      keeping = true
 
-      for (const pos of recentPositions) {
-        const market = activeMarkets.find((m) => m.marketId === pos.marketId)
-        if (!market) continue
+      try {
+        for (const chainId of new Set(activeMarkets.map((m) => m.chainId))) {
+          try {
+            const summary = await runKeepers(chainId, activeMarkets)
+            if (summary.due > 0) logger.info({ chainId, ...summary }, "[cron] Keeper run")
+          } catch (err) {
+            logger.error({ chainId, err }, "[cron] Keeper run failed")
+          }
+        }
+      } finally {
+        keeping = false
+      }
+    })
+  }
 
+  // --- Failed block retrier: every minute ---
+  // Each row carries its own nextRetryAt, so most ticks are a single indexed query.
+  let retrying = false
+  cron.schedule("* * * * *", async () => {
+    if (retrying || activeMarkets.length === 0) return
+    retrying = true
+
+    try {
+      const results = await retryFailedBlocks(activeMarkets)
+      if (results.length > 0) {
+        logger.info(
+          { retried: results.length, recovered: results.filter((r) => r.ok).length },
+          "[cron] Failed block retry tick"
+        )
+      }
+    } catch (err) {
+      logger.error({ err }, "[cron] Failed block retrier error")
+    } finally {
+      retrying = false
+    }
+  })
+
+  // --- Position reconciler: every 30 minutes ---
+  // One multicall per 100 positions at each chain's last indexed block.
+  let reconciling = false
+  cron.schedule("*/30 * * * *", async () => {
+    if (reconciling || activeMarkets.length === 0) return
+    reconciling = true
+
+    try {
+      for (const chainId of new Set(activeMarkets.map((m) => m.chainId))) {
         try {
-          await updateUserPosition(
-            pos.userAddress as `0x${string}`,
-            pos.marketId,
-            market.marketAddress
-          )
+          const { checked, drifted } = await reconcilePositions(chainId, activeMarkets)
+          logger.info({ chainId, checked, drifted }, "[cron] Position reconciliation")
         } catch (err) {
-          logger.error({ user: pos.userAddress.slice(0, 8), err }, "[cron] Health factor recheck failed")
+          logger.error({ chainId, err }, "[cron] Position reconciliation failed")
         }
       }
+    } finally {
+      reconciling = false
+    }
+  })
+
+  // --- Snapshot rollups: every 5 minutes ---
+  // Keeps the current hour and day rollups close behind the minute snapshots;
+  // pruning only removes rows already folded in.
+  let rollingUp = false
+  cron.schedule("*/5 * * * *", async () => {
+    if (rollingUp) return
+    rollingUp = true
+
+    try {
+      const { hours, days } = await rollupSnapshots()
+      const pruned = await pruneSnapshots()
+      if (hours > 0 || pruned > 0) logger.debug({ hours, days, pruned }, "[cron] Snapshot rollup")
     } catch (err) {
-      logger.error({ err }, "[cron] Health factor job error")
+      logger.error({ err }, "[cron] Snapshot rollup failed")
+    } finally {
+      rollingUp = false
     }
   })
 
@@ -119,5 +258,5 @@ export function startCronJobs() {
     }
   })
 
-  logger.info("[cron] Jobs started: snapshot (1m), health factor (10m), analytics (daily midnight UTC)")
+  logger.info(`[cron] Jobs started: snapshot (1m), health sweep (10m / price move), ${LIQUIDATOR_ENABLED ? "liquidator (1m), " : ""}${KEEPER_ENABLED ? "keepers (1m), " : ""}failed block retry (1m), reconciler (30m), rollups (5m), analytics (daily midnight UTC)`)
 }
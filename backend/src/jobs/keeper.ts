@@ -0,0 +1,382 @@
+/**
+ * Keepers
+ * -------
+ * Optional worker that sends the protocol's permissionless maintenance
+ * transactions from a local signer. Off unless KEEPER_ENABLED=true.
+ *
+ *   - "borrow-index" calls MarketV1.updateGlobalBorrowIndex() on a market with
+ *     open borrows once lastAccrualTimestamp is KEEPER_INDEX_MAX_AGE_MINUTES
+ *     old, so GlobalBorrowIndexUpdated keeps a steady cadence on quiet markets.
+ *   - "lkg" calls OracleRouter.updateLKG(asset) for every loan asset and
+ *     supported collateral once the router's last-known-good price is
+ *     KEEPER_LKG_MAX_AGE_MINUTES old, before its confidence decays. A stale
+ *     Chainlink feed makes updateLKG revert; that is logged as a skip.
+ *
+ * A max age is both the condition and the schedule: nothing is sent while
+ * users keep the index or price fresh, and an idle market is maintained every
+ * max age. Ages are taken from the head block's timestamp.
+ *
+ * Every call is estimated against the head first (a revert is a skip), sent
+ * only while the base gas price is within KEEPER_MAX_GAS_GWEI — which also caps
+ * maxFeePerGas — and while the chain's keeper gas spend over the last 24h
+ * stays within KEEPER_DAILY_GAS_BUDGET (native token). Nonces are assigned
+ * locally from the signer's pending count so a run's transactions go out
+ * back to back; a failed send re-reads the count. Each keeper can be paused
+ * (POST /admin/keepers/:keeper/pause) and every decision lands in the
+ * KeeperRun log.
+ */
+
+import { BaseError, encodeFunctionData, formatEther, parseEther, type Address, type Hex } from "viem"
+import { getChain } from "../lib/chains"
+import { MARKET_ABI, ORACLE_ROUTER_ABI } from "../lib/contracts"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { keeperRuns } from "../lib/metrics"
+import { getSigner, type Signer } from "../lib/signer"
+import { latestAnchor, type SnapshotAnchor } from "../indexer/snapshot"
+import type { MarketConfig } from "../indexer/listener"
+
+export const KEEPER_ENABLED = process.env.KEEPER_ENABLED === "true"
+
+const INDEX_MAX_AGE    = Number(process.env.KEEPER_INDEX_MAX_AGE_MINUTES ?? 60) * 60
+const LKG_MAX_AGE      = Number(process.env.KEEPER_LKG_MAX_AGE_MINUTES ?? 30) * 60
+const MAX_GAS_PRICE    = BigInt(Math.round(Number(process.env.KEEPER_MAX_GAS_GWEI ?? 50) * 1e9))
+const DAILY_GAS_BUDGET = parseEther(process.env.KEEPER_DAILY_GAS_BUDGET ?? "0.05")
+
+const SIGNER_KEY = "KEEPER_PRIVATE_KEY"
+
+// A submitted call without a receipt blocks a resend of the same call for this long
+const PENDING_WINDOW_MS  = 10 * 60 * 1000
+const RECEIPT_TIMEOUT_MS = 2 * 60 * 1000
+
+export const KEEPERS = ["borrow-index", "lkg"] as const
+export type KeeperName = (typeof KEEPERS)[number]
+
+export type KeeperStatus = "skipped" | "submitted" | "confirmed" | "reverted" | "failed"
+
+export interface KeeperSummary {
+  due: number
+  submitted: number
+  skipped: number
+  failed: number
+}
+
+/** One maintenance call found due at `anchor`. */
+interface Task {
+  keeper: KeeperName
+  chainId: number
+  target: Address
+  asset?: Address
+  ageSeconds: number
+  data: Hex
+}
+
+/** Signer state carried through one run. */
+interface Sender {
+  signer: Signer
+  nonce: number
+  /** Wei still spendable under KEEPER_DAILY_GAS_BUDGET */
+  budget: bigint
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+}
+
+interface Outcome {
+  status: KeeperStatus
+  reason?: string
+  txHash?: string
+  nonce?: number
+}
+
+export function isKeeper(value: unknown): value is KeeperName {
+  return typeof value === "string" && (KEEPERS as readonly string[]).includes(value)
+}
+
+function describe(err: unknown): string {
+  return err instanceof BaseError ? err.shortMessage : err instanceof Error ? err.message : String(err)
+}
+
+// ─── Pause state ─────────────────────────────────────────────────────────────
+
+export async function pausedKeepers(): Promise<Set<KeeperName>> {
+  const rows = await prisma.keeperState.findMany({ where: { paused: true }, select: { keeper: true } })
+  return new Set(rows.map((r) => r.keeper).filter(isKeeper))
+}
+
+/** Pause or resume one keeper. Takes effect from the next run. */
+export async function setKeeperPaused(keeper: KeeperName, paused: boolean): Promise<void> {
+  await prisma.keeperState.upsert({
+    where:  { keeper },
+    create: { keeper, paused },
+    update: { paused },
+  })
+  logger.info({ keeper }, paused ? "[keeper] Paused" : "[keeper] Resumed")
+}
+
+// ─── Due calls ───────────────────────────────────────────────────────────────
+
+/** Markets with open borrows whose index was last accrued INDEX_MAX_AGE ago or more. */
+async function dueIndexUpdates(markets: MarketConfig[], anchor: SnapshotAnchor): Promise<Task[]> {
+  const tasks: Task[] = []
+  for (const market of markets) {
+    const { client } = getChain(market.chainId)
+    const read = { address: market.marketAddress, abi: MARKET_ABI, blockNumber: anchor.blockNumber } as const
+    const [lastAccrual, totalBorrows] = await Promise.all([
+      client.readContract({ ...read, functionName: "lastAccrualTimestamp" }),
+      client.readContract({ ...read, functionName: "totalBorrows" }),
+    ])
+
+    // Without borrows the index doesn't move; an update would only bump the timestamp
+    const ageSeconds = Number(anchor.blockTimestamp - lastAccrual)
+    if (totalBorrows === 0n || ageSeconds < INDEX_MAX_AGE) continue
+
+    tasks.push({
+      keeper:  "borrow-index",
+      chainId: market.chainId,
+      target:  market.marketAddress,
+      ageSeconds,
+      data:    encodeFunctionData({ abi: MARKET_ABI, functionName: "updateGlobalBorrowIndex" }),
+    })
+  }
+  return tasks
+}
+
+/** Router assets (loan assets and supported collateral) whose LKG price is LKG_MAX_AGE old or more. */
+async function dueLkgUpdates(markets: MarketConfig[], anchor: SnapshotAnchor): Promise<Task[]> {
+  const collaterals = await prisma.marketCollateral.findMany({
+    where:  { marketId: { in: markets.map((m) => m.marketId) }, isSupported: true },
+    select: { marketId: true, token: true },
+  })
+
+  // router → assets, deduplicated across markets sharing a router
+  const routers = new Map<Address, Set<Address>>()
+  for (const market of markets) {
+    const router = market.oracleRouterAddress.toLowerCase() as Address
+    const assets = routers.get(router) ?? new Set<Address>()
+    assets.add(market.loanAsset.toLowerCase() as Address)
+    for (const c of collaterals) {
+      if (c.marketId === market.marketId) assets.add(c.token.toLowerCase() as Address)
+    }
+    routers.set(router, assets)
+  }
+
+  const { client } = getChain(markets[0].chainId)
+  const tasks: Task[] = []
+  for (const [router, assets] of routers) {
+    const lastUpdates = await Promise.all(
+      [...assets].map((asset) =>
+        client.readContract({
+          address:      router,
+          abi:          ORACLE_ROUTER_ABI,
+          functionName: "lastUpdate",
+          args:         [asset],
+          blockNumber:  anchor.blockNumber,
+        })
+      )
+    )
+    for (const [i, asset] of [...assets].entries()) {
+      // Never updated (0) counts as the chain's whole lifetime old
+      const ageSeconds = Number(anchor.blockTimestamp - lastUpdates[i])
+      if (ageSeconds < LKG_MAX_AGE) continue
+      tasks.push({
+        keeper:  "lkg",
+        chainId: markets[0].chainId,
+        target:  router,
+        asset,
+        ageSeconds,
+        data:    encodeFunctionData({ abi: ORACLE_ROUTER_ABI, functionName: "updateLKG", args: [asset] }),
+      })
+    }
+  }
+  return tasks
+}
+
+// ─── Run log ─────────────────────────────────────────────────────────────────
+
+function callKey(task: Task) {
+  return {
+    keeper:  task.keeper,
+    chainId: task.chainId,
+    target:  task.target.toLowerCase(),
+    asset:   task.asset?.toLowerCase() ?? null,
+  }
+}
+
+/**
+ * Append a decision to the KeeperRun log. A skip repeating the call's
+ * previous skip reason is not logged again. Returns the row id, or null when
+ * deduplicated.
+ */
+async function recordRun(task: Task, anchor: SnapshotAnchor, outcome: Outcome): Promise<number | null> {
+  if (outcome.status === "skipped") {
+    const previous = await prisma.keeperRun.findFirst({
+      where:   callKey(task),
+      orderBy: { id: "desc" },
+      select:  { status: true, reason: true },
+    })
+    if (previous?.status === outcome.status && previous.reason === (outcome.reason ?? null)) return null
+  }
+
+  keeperRuns.inc({ chain: getChain(task.chainId).name, keeper: task.keeper, status: outcome.status })
+
+  const row = await prisma.keeperRun.create({
+    data: {
+      ...callKey(task),
+      ageSeconds:  task.ageSeconds,
+      blockNumber: Number(anchor.blockNumber),
+      status:      outcome.status,
+      reason:      outcome.reason ?? null,
+      txHash:      outcome.txHash ?? null,
+      nonce:       outcome.nonce ?? null,
+    },
+  })
+  return row.id
+}
+
+/** Whether the same call was submitted recently and has no receipt yet. */
+async function inFlight(task: Task): Promise<boolean> {
+  const pending = await prisma.keeperRun.count({
+    where: { ...callKey(task), status: "submitted", createdAt: { gte: new Date(Date.now() - PENDING_WINDOW_MS) } },
+  })
+  return pending > 0
+}
+
+/** Wei the chain's keeper transactions were charged over the last 24h. */
+async function gasSpentLastDay(chainId: number): Promise<bigint> {
+  const { _sum } = await prisma.keeperRun.aggregate({
+    where: { chainId, gasCost: { not: null }, createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) } },
+    _sum:  { gasCost: true },
+  })
+  return _sum.gasCost ? parseEther(_sum.gasCost.toFixed(18)) : 0n
+}
+
+// ─── Run ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Find the due maintenance calls of the chain's markets for every keeper not
+ * paused, and send them.
+ */
+export async function runKeepers(chainId: number, markets: MarketConfig[]): Promise<KeeperSummary> {
+  const summary = { due: 0, submitted: 0, skipped: 0, failed: 0 }
+  const onChain = markets.filter((m) => m.chainId === chainId)
+  if (onChain.length === 0) return summary
+
+  const paused = await pausedKeepers()
+  if (KEEPERS.every((k) => paused.has(k))) return summary
+
+  const anchor = await latestAnchor(chainId)
+  const found  = [
+    ...(paused.has("borrow-index") ? [] : await dueIndexUpdates(onChain, anchor)),
+    ...(paused.has("lkg") ? [] : await dueLkgUpdates(onChain, anchor)),
+  ]
+  const tasks: Task[] = []
+  for (const task of found) {
+    if (!(await inFlight(task))) tasks.push(task)
+  }
+  if (tasks.length === 0) return summary
+  summary.due = tasks.length
+
+  const { client } = getChain(chainId)
+  const signer     = getSigner(chainId, SIGNER_KEY)
+
+  const [gasPrice, fees, spent, nonce] = await Promise.all([
+    client.getGasPrice(),
+    client.estimateFeesPerGas(),
+    gasSpentLastDay(chainId),
+    client.getTransactionCount({ address: signer.account.address, blockTag: "pending" }),
+  ])
+  const maxFeePerGas = fees.maxFeePerGas < MAX_GAS_PRICE ? fees.maxFeePerGas : MAX_GAS_PRICE
+  const sender: Sender = {
+    signer,
+    nonce,
+    budget: DAILY_GAS_BUDGET - spent,
+    maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas < maxFeePerGas ? fees.maxPriorityFeePerGas : maxFeePerGas,
+  }
+  const sent: { task: Task; runId: number; hash: Hex }[] = []
+
+  for (const task of tasks) {
+    const outcome: Outcome = gasPrice > MAX_GAS_PRICE
+      ? { status: "skipped", reason: "gas price above KEEPER_MAX_GAS_GWEI" }
+      : await send(task, anchor, sender)
+
+    const runId = await recordRun(task, anchor, outcome)
+    if (outcome.status === "skipped") summary.skipped++
+    if (outcome.status === "failed") {
+      summary.failed++
+      logger.warn({ keeper: task.keeper, target: task.target, asset: task.asset, reason: outcome.reason }, "[keeper] Call not sent")
+    }
+    if (outcome.status === "submitted") {
+      summary.submitted++
+      sent.push({ task, runId: runId!, hash: outcome.txHash as Hex })
+      logger.info(
+        { keeper: task.keeper, target: task.target, asset: task.asset, ageSeconds: task.ageSeconds, txHash: outcome.txHash },
+        "[keeper] Call submitted"
+      )
+    }
+  }
+
+  // Receipts after the whole batch is out, so the calls share blocks
+  await Promise.all(
+    sent.map(async ({ task, runId, hash }) => {
+      try {
+        const receipt = await client.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS })
+        const status  = receipt.status === "success" ? "confirmed" : "reverted"
+        await prisma.keeperRun.update({
+          where: { id: runId },
+          data:  {
+            status,
+            gasUsed: Number(receipt.gasUsed),
+            gasCost: formatEther(receipt.gasUsed * receipt.effectiveGasPrice),
+          },
+        })
+        keeperRuns.inc({ chain: getChain(chainId).name, keeper: task.keeper, status })
+        if (status === "reverted") logger.warn({ keeper: task.keeper, txHash: hash }, "[keeper] Call reverted")
+      } catch (err) {
+        logger.error({ keeper: task.keeper, txHash: hash, err }, "[keeper] No receipt")
+      }
+    })
+  )
+
+  return summary
+}
+
+/**
+ * Estimate one call against the anchor block and send it with the next local
+ * nonce. Sending advances `sender.nonce` and draws on `sender.budget`.
+ */
+async function send(task: Task, anchor: SnapshotAnchor, sender: Sender): Promise<Outcome> {
+  const { client } = getChain(task.chainId)
+  const account    = sender.signer.account.address
+
+  let gas: bigint
+  try {
+    gas = await client.estimateGas({ account, to: task.target, data: task.data, blockNumber: anchor.blockNumber })
+  } catch (err) {
+    return { status: "skipped", reason: `simulation reverted: ${describe(err)}` }
+  }
+
+  const cost = gas * sender.maxFeePerGas
+  if (cost > sender.budget) {
+    return { status: "skipped", reason: "KEEPER_DAILY_GAS_BUDGET reached" }
+  }
+
+  const nonce = sender.nonce
+  try {
+    const txHash = await sender.signer.sendTransaction({
+      to:                   task.target,
+      data:                 task.data,
+      gas,
+      nonce,
+      maxFeePerGas:         sender.maxFeePerGas,
+      maxPriorityFeePerGas: sender.maxPriorityFeePerGas,
+    })
+    sender.nonce++
+    sender.budget -= cost
+    return { status: "submitted", txHash, nonce }
+  } catch (err) {
+    // The node may or may not have taken the nonce
+    sender.nonce = await client.getTransactionCount({ address: account, blockTag: "pending" })
+    return { status: "failed", reason: describe(err) }
+  }
+}
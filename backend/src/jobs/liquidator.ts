@@ -0,0 +1,419 @@
+/**
+ * Liquidation Bot
+ * ---------------
+ * Optional worker that liquidates unhealthy borrowers from a local signer
+ * instead of by hand with `forge script`. Off unless LIQUIDATOR_ENABLED=true,
+ * and only for markets with `liquidatorEnabled` set (PATCH /admin/markets/:id).
+ *
+ * Candidates are open borrowers the health sweep (indexer/health-sweep.ts)
+ * last banded liquidatable or critical. Each is re-read with getUserPosition
+ * at the chain head and only acted on with a health factor below 1. MarketV1
+ * liquidates in full: the liquidator repays the whole debt's USD value (in
+ * loan-asset units) and receives collateral worth debt × (1 + liquidationPenalty),
+ * capped at the borrower's collateral value. The profit estimate is that
+ * collateral minus the repayment valued at the OracleRouter loan price, minus
+ * gas valued at the router price of LIQUIDATOR_GAS_TOKEN_<chainId> (the
+ * wrapped native token).
+ *
+ * A liquidation is submitted only when, in order:
+ *   - the seized collateral is worth more than the repayment (no bad debt)
+ *   - the repayment is within LIQUIDATOR_MAX_REPAY and the market's repayments
+ *     over the last 24h stay within LIQUIDATOR_DAILY_CAP (loan-asset units)
+ *   - the signer holds the repayment and the gas price is within LIQUIDATOR_MAX_GAS_GWEI
+ *   - simulateContract(liquidate) succeeds against the current block
+ *   - the estimated profit is at least LIQUIDATOR_MIN_PROFIT (USD)
+ *
+ * In dry-run mode (LIQUIDATOR_DRY_RUN, on by default) everything up to the
+ * submission runs and is logged; nothing is sent. In live mode a missing
+ * loan-asset allowance is approved first. Every decision lands in the
+ * LiquidationRun log.
+ */
+
+import { BaseError, type Address } from "viem"
+import { getChain } from "../lib/chains"
+import { ERC20_ABI, MARKET_ABI, ORACLE_ROUTER_ABI } from "../lib/contracts"
+import { prisma } from "../lib/db"
+import { logger } from "../lib/logger"
+import { liquidatorRuns } from "../lib/metrics"
+import { normalize, WAD } from "../lib/rpc"
+import { getSigner, type Signer } from "../lib/signer"
+import { toMarketConfig, type MarketConfig } from "../indexer/listener"
+
+export const LIQUIDATOR_ENABLED = process.env.LIQUIDATOR_ENABLED === "true"
+
+const DRY_RUN        = process.env.LIQUIDATOR_DRY_RUN !== "false"
+const MIN_PROFIT     = Number(process.env.LIQUIDATOR_MIN_PROFIT ?? 10)
+const MAX_REPAY      = Number(process.env.LIQUIDATOR_MAX_REPAY ?? 10_000)
+const DAILY_CAP      = Number(process.env.LIQUIDATOR_DAILY_CAP ?? 50_000)
+const MAX_GAS_PRICE  = BigInt(Math.round(Number(process.env.LIQUIDATOR_MAX_GAS_GWEI ?? 50) * 1e9))
+const MAX_CANDIDATES = Number(process.env.LIQUIDATOR_MAX_CANDIDATES ?? 50)
+
+const SIGNER_KEY      = "LIQUIDATOR_PRIVATE_KEY"
+const CANDIDATE_BANDS = ["liquidatable", "critical"]
+const E18             = 10n ** 18n
+
+// Interest accrues between approval and liquidation — approve 1% over the repayment
+const APPROVAL_HEADROOM_BPS = 10_100n
+
+export type LiquidationStatus = "skipped" | "dry-run" | "submitted" | "confirmed" | "reverted" | "failed"
+
+export interface LiquidatorSummary {
+  evaluated: number
+  submitted: number
+  dryRun: number
+  skipped: number
+}
+
+/** What the signer may still spend in this run, per market. */
+interface Budget {
+  /** Loan-asset units repaid over the last 24h */
+  repaid: number
+  available: bigint
+  approved: bigint
+}
+
+/** Figures of one liquidatable borrower at the head, 18-decimal unless noted. */
+interface Estimate {
+  borrower: Address
+  blockNumber: bigint
+  healthFactor: bigint
+  /** Loan-asset amount the liquidator transfers, in the asset's decimals */
+  repayRaw: bigint
+  /** USD value of the repayment at the router loan price */
+  repayValue: bigint
+  /** USD value of the collateral seized, penalty included */
+  seizedValue: bigint
+}
+
+interface Outcome {
+  status: LiquidationStatus
+  reason?: string
+  gasEstimate?: bigint
+  gasCost?: bigint
+  expectedProfit?: bigint
+  txHash?: string
+}
+
+function gasTokenOf(chainId: number): Address | undefined {
+  return process.env[`LIQUIDATOR_GAS_TOKEN_${chainId}`] as Address | undefined
+}
+
+function describe(err: unknown): string {
+  return err instanceof BaseError ? err.shortMessage : err instanceof Error ? err.message : String(err)
+}
+
+// ─── Run log ─────────────────────────────────────────────────────────────────
+
+/**
+ * Append a decision to the LiquidationRun log. A skip or dry run repeating
+ * the borrower's previous outcome and reason is not logged again, so a
+ * borrower stuck in bad debt doesn't add a row every minute. Returns the row
+ * id, or null when deduplicated.
+ */
+async function recordRun(market: MarketConfig, estimate: Estimate, outcome: Outcome): Promise<number | null> {
+  if (outcome.status === "skipped" || outcome.status === "dry-run") {
+    const previous = await prisma.liquidationRun.findFirst({
+      where:   { marketId: market.marketId, borrower: estimate.borrower.toLowerCase() },
+      orderBy: { id: "desc" },
+      select:  { status: true, reason: true },
+    })
+    if (previous?.status === outcome.status && previous.reason === (outcome.reason ?? null)) return null
+  }
+
+  liquidatorRuns.inc({
+    chain:  getChain(market.chainId).name,
+    market: market.marketAddress.toLowerCase(),
+    status: outcome.status,
+  })
+
+  const row = await prisma.liquidationRun.create({
+    data: {
+      marketId:       market.marketId,
+      borrower:       estimate.borrower.toLowerCase(),
+      blockNumber:    Number(estimate.blockNumber),
+      status:         outcome.status,
+      reason:         outcome.reason ?? null,
+      healthFactor:   normalize(estimate.healthFactor, WAD).toFixed(6),
+      repayAmount:    normalize(estimate.repayRaw, market.loanAssetDecimals).toFixed(6),
+      seizedValue:    normalize(estimate.seizedValue, WAD).toFixed(6),
+      gasEstimate:    outcome.gasEstimate !== undefined ? Number(outcome.gasEstimate) : null,
+      gasCost:        outcome.gasCost !== undefined ? normalize(outcome.gasCost, WAD).toFixed(6) : null,
+      expectedProfit: outcome.expectedProfit !== undefined ? normalize(outcome.expectedProfit, WAD).toFixed(6) : null,
+      txHash:         outcome.txHash ?? null,
+    },
+  })
+  return row.id
+}
+
+/** Loan-asset units repaid by submitted liquidations over the last 24h. */
+async function repaidLastDay(marketId: string): Promise<number> {
+  const { _sum } = await prisma.liquidationRun.aggregate({
+    where: {
+      marketId,
+      status:    { in: ["submitted", "confirmed"] },
+      createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+    },
+    _sum: { repayAmount: true },
+  })
+  return Number(_sum.repayAmount ?? 0)
+}
+
+// ─── Run ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Evaluate every liquidatable borrower of the chain's enabled markets and
+ * liquidate the profitable ones (or only log them, in dry-run mode).
+ * `dryRun` overrides LIQUIDATOR_DRY_RUN.
+ */
+export async function runLiquidator(
+  chainId: number,
+  options: { dryRun?: boolean } = {}
+): Promise<LiquidatorSummary> {
+  const dryRun  = options.dryRun ?? DRY_RUN
+  const summary = { evaluated: 0, submitted: 0, dryRun: 0, skipped: 0 }
+
+  const rows = await prisma.market.findMany({
+    where:   { chainId, isActive: true, liquidatorEnabled: true },
+    orderBy: { createdAt: "asc" },
+  })
+  if (rows.length === 0) return summary
+
+  const signer = getSigner(chainId, SIGNER_KEY)
+  for (const row of rows) {
+    const market = toMarketConfig(row)
+    try {
+      await liquidateMarket(market, signer, dryRun, summary)
+    } catch (err) {
+      logger.error({ market: market.marketAddress.slice(0, 8), err }, "[liquidator] Market run failed")
+    }
+  }
+  return summary
+}
+
+async function liquidateMarket(
+  market: MarketConfig,
+  signer: Signer,
+  dryRun: boolean,
+  summary: LiquidatorSummary
+): Promise<void> {
+  const positions = await prisma.userPosition.findMany({
+    where:   { marketId: market.marketId, principal: { gt: 0 }, healthBand: { in: CANDIDATE_BANDS } },
+    orderBy: { onChainHealthFactor: "asc" },
+    take:    MAX_CANDIDATES,
+  })
+  if (positions.length === 0) return
+
+  const { client } = getChain(market.chainId)
+  const account    = signer.account.address
+  const gasToken   = gasTokenOf(market.chainId)
+  const head       = await client.getBlockNumber()
+
+  // Plain reads rather than multicall: a bare local node (anvil) has no Multicall3
+  const routerPrice = (asset: Address) =>
+    client.readContract({
+      address:      market.oracleRouterAddress,
+      abi:          ORACLE_ROUTER_ABI,
+      functionName: "getLatestPrice",
+      args:         [asset],
+      blockNumber:  head,
+    })
+  const [params, loanPrice, balance, allowance, gasTokenPrice, gasPrice] = await Promise.all([
+    client.readContract({
+      address:      market.marketAddress,
+      abi:          MARKET_ABI,
+      functionName: "getMarketParameters",
+      blockNumber:  head,
+    }),
+    routerPrice(market.loanAsset),
+    client.readContract({
+      address:      market.loanAsset,
+      abi:          ERC20_ABI,
+      functionName: "balanceOf",
+      args:         [account],
+      blockNumber:  head,
+    }),
+    client.readContract({
+      address:      market.loanAsset,
+      abi:          ERC20_ABI,
+      functionName: "allowance",
+      args:         [account, market.marketAddress],
+      blockNumber:  head,
+    }),
+    // Without a priced gas token nothing is liquidated — see evaluate()
+    gasToken ? routerPrice(gasToken).catch(() => 0n) : 0n,
+    client.getGasPrice(),
+  ])
+  const liquidationPenalty = params[1]
+
+  const onChain = await Promise.all(
+    positions.map((p) =>
+      client
+        .readContract({
+          address:      market.marketAddress,
+          abi:          MARKET_ABI,
+          functionName: "getUserPosition",
+          args:         [p.userAddress as Address],
+          blockNumber:  head,
+        })
+        .catch((err) => {
+          logger.warn({ user: p.userAddress.slice(0, 10), err }, "[liquidator] getUserPosition failed")
+          return null
+        })
+    )
+  )
+
+  const decimalScale = 10n ** BigInt(WAD - market.loanAssetDecimals)
+  const budget: Budget = {
+    repaid:    await repaidLastDay(market.marketId),
+    available: balance,
+    approved:  allowance,
+  }
+
+  for (const [i, row] of positions.entries()) {
+    const pos = onChain[i]
+    if (!pos || pos.totalDebt === 0n || pos.healthFactor >= E18) continue
+
+    // As MarketV1 computes it: the debt's USD value is transferred in loan-asset units
+    const debtValue   = (pos.totalDebt * loanPrice) / E18
+    const withPenalty = (debtValue * (E18 + liquidationPenalty)) / E18
+    const estimate: Estimate = {
+      borrower:     row.userAddress as Address,
+      blockNumber:  head,
+      healthFactor: pos.healthFactor,
+      repayRaw:     debtValue / decimalScale,
+      repayValue:   (debtValue * loanPrice) / E18,
+      seizedValue:  withPenalty < pos.collateralValue ? withPenalty : pos.collateralValue,
+    }
+    summary.evaluated++
+
+    const outcome = await evaluate(market, signer, estimate, budget, { dryRun, gasPrice, gasTokenPrice })
+
+    if (outcome.status !== "submitted") {
+      if (outcome.status === "skipped") summary.skipped++
+      if (outcome.status === "dry-run") {
+        summary.dryRun++
+        logger.info(
+          { borrower: row.userAddress, marketId: market.marketId, profit: normalize(outcome.expectedProfit!, WAD) },
+          "[liquidator] Dry run — would liquidate"
+        )
+      }
+      if (outcome.status === "failed") {
+        logger.warn({ borrower: row.userAddress, reason: outcome.reason }, "[liquidator] Liquidation not sent")
+      }
+      await recordRun(market, estimate, outcome)
+      continue
+    }
+
+    summary.submitted++
+    budget.repaid    += normalize(estimate.repayRaw, market.loanAssetDecimals)
+    budget.available -= estimate.repayRaw
+    budget.approved  -= estimate.repayRaw
+    const runId = (await recordRun(market, estimate, outcome))!
+    logger.info(
+      { borrower: row.userAddress, marketId: market.marketId, txHash: outcome.txHash },
+      "[liquidator] Liquidation submitted"
+    )
+
+    // Wait before the next borrower, so balance and allowance are settled
+    try {
+      const receipt = await client.waitForTransactionReceipt({ hash: outcome.txHash as `0x${string}` })
+      const status  = receipt.status === "success" ? "confirmed" : "reverted"
+      await prisma.liquidationRun.update({
+        where: { id: runId },
+        data:  { status, gasUsed: Number(receipt.gasUsed) },
+      })
+      liquidatorRuns.inc({ chain: getChain(market.chainId).name, market: market.marketAddress.toLowerCase(), status })
+      if (status === "reverted") {
+        logger.warn({ borrower: row.userAddress, txHash: outcome.txHash }, "[liquidator] Liquidation reverted")
+      }
+    } catch (err) {
+      logger.error({ borrower: row.userAddress, txHash: outcome.txHash, err }, "[liquidator] No receipt")
+    }
+  }
+}
+
+/**
+ * Decide one borrower: skip, dry-run, or sign and send the liquidation.
+ * Approving the market updates `budget.approved`.
+ */
+async function evaluate(
+  market: MarketConfig,
+  signer: Signer,
+  estimate: Estimate,
+  budget: Budget,
+  options: { dryRun: boolean; gasPrice: bigint; gasTokenPrice: bigint }
+): Promise<Outcome> {
+  const { client }  = getChain(market.chainId)
+  const repayAmount = normalize(estimate.repayRaw, market.loanAssetDecimals)
+
+  if (estimate.seizedValue <= estimate.repayValue) {
+    return { status: "skipped", reason: "collateral does not cover the repayment (bad debt)" }
+  }
+  if (repayAmount > MAX_REPAY) {
+    return { status: "skipped", reason: "repayment above LIQUIDATOR_MAX_REPAY" }
+  }
+  if (budget.repaid + repayAmount > DAILY_CAP) {
+    return { status: "skipped", reason: "LIQUIDATOR_DAILY_CAP reached" }
+  }
+  if (budget.available < estimate.repayRaw) {
+    return { status: "skipped", reason: "signer balance below the repayment" }
+  }
+  if (options.gasTokenPrice === 0n) {
+    return { status: "skipped", reason: `LIQUIDATOR_GAS_TOKEN_${market.chainId} unset or unpriced — gas cannot be valued` }
+  }
+  if (options.gasPrice > MAX_GAS_PRICE) {
+    return { status: "skipped", reason: "gas price above LIQUIDATOR_MAX_GAS_GWEI" }
+  }
+
+  if (budget.approved < estimate.repayRaw) {
+    if (options.dryRun) {
+      return { status: "skipped", reason: "allowance below the repayment — approve the market to simulate" }
+    }
+    const amount = (estimate.repayRaw * APPROVAL_HEADROOM_BPS) / 10_000n
+    try {
+      const hash = await signer.writeContract({
+        address:      market.loanAsset,
+        abi:          ERC20_ABI,
+        functionName: "approve",
+        args:         [market.marketAddress, amount],
+      })
+      await client.waitForTransactionReceipt({ hash })
+      budget.approved = amount
+    } catch (err) {
+      return { status: "failed", reason: `approval failed: ${describe(err)}` }
+    }
+  }
+
+  const call = {
+    account:      signer.account,
+    address:      market.marketAddress,
+    abi:          MARKET_ABI,
+    functionName: "liquidate",
+    args:         [estimate.borrower],
+  } as const
+
+  let request
+  let gasEstimate: bigint
+  try {
+    ;({ request } = await client.simulateContract(call))
+    gasEstimate = await client.estimateContractGas(call)
+  } catch (err) {
+    return { status: "skipped", reason: `simulation reverted: ${describe(err)}` }
+  }
+
+  const gasCost        = (gasEstimate * options.gasPrice * options.gasTokenPrice) / E18
+  const expectedProfit = estimate.seizedValue - estimate.repayValue - gasCost
+  const figures        = { gasEstimate, gasCost, expectedProfit }
+
+  if (normalize(expectedProfit, WAD) < MIN_PROFIT) {
+    return { status: "skipped", reason: "expected profit below LIQUIDATOR_MIN_PROFIT", ...figures }
+  }
+  if (options.dryRun) return { status: "dry-run", ...figures }
+
+  try {
+    const txHash = await signer.writeContract(request)
+    return { status: "submitted", txHash, ...figures }
+  } catch (err) {
+    return { status: "failed", reason: describe(err), ...figures }
+  }
+}
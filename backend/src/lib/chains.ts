@@ -0,0 +1,158 @@
+/**
+ * Chain Registry
+ * --------------
+ * One entry per indexed network: RPC providers, finality settings and the viem
+ * client every on-chain read for that network's markets goes through.
+ *
+ * Configuration (env):
+ *   CHAINS=11155111,1,8453   chain ids to index (default: CHAIN_ID)
+ *   RPC_URLS_<id>            ordered provider list, comma separated (failover order)
+ *   RPC_URL_<id>             single provider — used when RPC_URLS_<id> is unset
+ *   RPC_RPS_<id>             requests/second per provider: one value, or one per URL
+ *   RPC_QUORUM_<id>          providers that must agree on a block hash (default 1)
+ *   DEPLOYMENT_BLOCK_<id>    first block to index — required per chain
+ *   CONFIRMATIONS_<id>, REORG_BUFFER_<id>, LOG_CHUNK_SIZE_<id>
+ *
+ * Unsuffixed CONFIRMATIONS / REORG_BUFFER / LOG_CHUNK_SIZE / RPC_RPS /
+ * RPC_QUORUM are shared defaults for every chain, as are RPC_TIMEOUT_MS and
+ * RPC_COOLDOWN_MS. Unsuffixed RPC_URLS / RPC_URL / DEPLOYMENT_BLOCK only apply
+ * to CHAIN_ID, so a single-chain .env from before the registry keeps working
+ * unchanged. With no URL configured the chain's public RPC is used.
+ */
+
+import { createPublicClient, type Chain, type PublicClient, type Transport } from "viem"
+import * as viemChains from "viem/chains"
+import { createRpcTransport, type ProviderStats } from "./transport"
+import { rpcRequests, rpcDuration } from "./metrics"
+
+export interface ChainConfig {
+  chainId: number
+  /** Slug accepted by the API `chain` filter, e.g. "sepolia", "base" */
+  name: string
+  /** Providers in failover order */
+  rpcUrls: string[]
+  rpcQuorum: number
+  confirmations: number
+  reorgBuffer: number
+  deploymentBlock: bigint
+  /** Max blocks per getLogs window in chunked mode (1 = block-by-block) */
+  logChunkSize: number
+  client: PublicClient<Transport, Chain>
+  /** Per-provider request/error counts and latency */
+  rpcStats(): ProviderStats[]
+}
+
+/** Chain the service indexed before multi-chain support. */
+export const PRIMARY_CHAIN_ID = Number(process.env.CHAIN_ID ?? 11155111)
+
+const DEFAULT_CONFIRMATIONS    = Number(process.env.CONFIRMATIONS  ?? 12)
+const DEFAULT_REORG_BUFFER     = Number(process.env.REORG_BUFFER   ?? 20)
+const DEFAULT_LOG_CHUNK_SIZE   = Number(process.env.LOG_CHUNK_SIZE ?? 2000)
+const DEFAULT_RPC_RPS          = process.env.RPC_RPS    ?? "0"
+const DEFAULT_RPC_QUORUM       = process.env.RPC_QUORUM ?? "1"
+const RPC_TIMEOUT_MS           = Number(process.env.RPC_TIMEOUT_MS  ?? 10_000)
+const RPC_COOLDOWN_MS          = Number(process.env.RPC_COOLDOWN_MS ?? 30_000)
+const PRIMARY_DEPLOYMENT_BLOCK = process.env.DEPLOYMENT_BLOCK ?? "7800000"
+
+function chainEnv(key: string, chainId: number): string | undefined {
+  return process.env[`${key}_${chainId}`]
+}
+
+function list(value: string): string[] {
+  return value.split(",").map((s) => s.trim()).filter(Boolean)
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-")
+}
+
+function buildChain(chainId: number): ChainConfig {
+  const chain = (Object.values(viemChains) as Chain[]).find((c) => c.id === chainId)
+  if (!chain) {
+    throw new Error(`[chains] Unsupported chain id ${chainId} — not known to viem`)
+  }
+
+  const isPrimary = chainId === PRIMARY_CHAIN_ID
+  const rpcList   =
+    chainEnv("RPC_URLS", chainId) ?? chainEnv("RPC_URL", chainId) ??
+    (isPrimary ? process.env.RPC_URLS ?? process.env.RPC_URL : undefined)
+  const rpcUrls   = rpcList ? list(rpcList) : [chain.rpcUrls.default.http[0]]
+  const deploymentBlock =
+    chainEnv("DEPLOYMENT_BLOCK", chainId) ?? (isPrimary ? PRIMARY_DEPLOYMENT_BLOCK : undefined)
+
+  if (deploymentBlock === undefined) {
+    throw new Error(`[chains] DEPLOYMENT_BLOCK_${chainId} is required for chain ${chain.name}`)
+  }
+
+  // One RPS value applies to every provider; a list lines up with rpcUrls
+  const rps = list(chainEnv("RPC_RPS", chainId) ?? DEFAULT_RPC_RPS).map(Number)
+  if (rps.length !== 1 && rps.length !== rpcUrls.length) {
+    throw new Error(`[chains] RPC_RPS_${chainId} has ${rps.length} values for ${rpcUrls.length} RPC URL(s)`)
+  }
+
+  const rpcQuorum = Number(chainEnv("RPC_QUORUM", chainId) ?? DEFAULT_RPC_QUORUM)
+  const name = slug(chain.name)
+  const rpc  = createRpcTransport({
+    chain:      name,
+    providers:  rpcUrls.map((url, i) => ({ url, rps: rps.length === 1 ? rps[0] : rps[i] })),
+    quorum:     rpcQuorum,
+    timeoutMs:  RPC_TIMEOUT_MS,
+    cooldownMs: RPC_COOLDOWN_MS,
+    onRequest:  ({ chain, method, outcome, seconds }) => {
+      rpcRequests.inc({ chain, method, outcome })
+      rpcDuration.observe({ chain, method }, seconds)
+    },
+  })
+
+  return {
+    chainId,
+    name,
+    rpcUrls,
+    rpcQuorum,
+    confirmations:   Number(chainEnv("CONFIRMATIONS", chainId)  ?? DEFAULT_CONFIRMATIONS),
+    reorgBuffer:     Number(chainEnv("REORG_BUFFER", chainId)   ?? DEFAULT_REORG_BUFFER),
+    deploymentBlock: BigInt(deploymentBlock),
+    logChunkSize:    Number(chainEnv("LOG_CHUNK_SIZE", chainId) ?? DEFAULT_LOG_CHUNK_SIZE),
+    client:          createPublicClient({ chain, transport: rpc.transport }),
+    rpcStats:        rpc.stats,
+  }
+}
+
+function configuredChainIds(): number[] {
+  const raw = process.env.CHAINS
+  if (!raw) return [PRIMARY_CHAIN_ID]
+  const ids = raw.split(",").map((s) => Number(s.trim())).filter((n) => Number.isInteger(n) && n > 0)
+  return [...new Set(ids)]
+}
+
+/** Every chain this process indexes, in CHAINS order. */
+export const CHAINS: ChainConfig[] = configuredChainIds().map(buildChain)
+
+const byId = new Map(CHAINS.map((c) => [c.chainId, c]))
+
+export function isConfiguredChain(chainId: number): boolean {
+  return byId.has(chainId)
+}
+
+/** Registry entry for chainId — throws if the chain isn't configured. */
+export function getChain(chainId: number): ChainConfig {
+  const chain = byId.get(chainId)
+  if (!chain) {
+    throw new Error(`[chains] Chain ${chainId} is not configured (CHAINS=${CHAINS.map((c) => c.chainId).join(",")})`)
+  }
+  return chain
+}
+
+/**
+ * Parse an API `chain` filter — a chain id or a registry name.
+ * Returns undefined when absent and null when it doesn't name a chain.
+ */
+export function parseChainParam(value: unknown): number | undefined | null {
+  if (value === undefined || value === "") return undefined
+  if (typeof value !== "string") return null
+
+  if (/^\d+$/.test(value)) return Number(value)
+
+  const match = CHAINS.find((c) => c.name === value.toLowerCase())
+  return match ? match.chainId : null
+}
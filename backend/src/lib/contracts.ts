@@ -130,6 +130,13 @@ export const MARKET_ABI = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [{ name: "borrower", type: "address" }],
+    name: "liquidate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   // Position view functions
   {
     inputs: [{ name: "user", type: "address" }],
@@ -176,6 +183,20 @@ export const MARKET_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "lastAccrualTimestamp",
+    outputs: [{ type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "updateGlobalBorrowIndex",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [{ name: "user", type: "address" }],
     name: "getUserTotalDebt",
@@ -205,6 +226,75 @@ export const MARKET_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  // Governance state (used to restore MarketParams after a reorg)
+  {
+    inputs: [],
+    name: "guardian",
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "token", type: "address" }],
+    name: "supportedCollateralTokens",
+    outputs: [{ type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "token", type: "address" }],
+    name: "depositsPaused",
+    outputs: [{ type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  // Wiring (validated when a market is registered via /admin/markets)
+  {
+    inputs: [],
+    name: "vaultContract",
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "oracleRouter",
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "interestRateModel",
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "loanAsset",
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getLoanAssetDecimals",
+    outputs: [{ type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMarketParameters",
+    outputs: [
+      { name: "lltv", type: "uint256" },
+      { name: "liquidationPenalty", type: "uint256" },
+      { name: "protocolFeeRate", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
 // ==================== VAULT ABI (ERC4626) ====================
@@ -324,6 +414,13 @@ export const VAULT_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "market",
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
 // ==================== INTEREST RATE MODEL ABI ====================
@@ -383,6 +480,21 @@ export const IRM_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  // Wiring (validated when a market is registered via /admin/markets)
+  {
+    inputs: [],
+    name: "vaultContract",
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "marketContract",
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
 // OracleEvaluation struct from DataTypes.sol
@@ -395,6 +507,13 @@ export const IRM_ABI = [
 //     uint256 deviation;
 // }
 export const ORACLE_ROUTER_ABI = [
+  {
+    inputs: [],
+    name: "priceOracle",
+    outputs: [{ type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [{ name: "asset", type: "address" }],
     name: "evaluate",
@@ -431,6 +550,20 @@ export const ORACLE_ROUTER_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [{ name: "asset", type: "address" }],
+    name: "lastUpdate",
+    outputs: [{ name: "timestamp", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "asset", type: "address" }],
+    name: "updateLKG",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 // RiskAssessment struct from DataTypes.sol
@@ -25,9 +25,20 @@ type MktSnapshot = Awaited<
   ReturnType<typeof prisma.marketSnapshot.findMany>
 >[number]
 
-export async function getLatestMarketSnapshot(vaultAddress: string) {
+/**
+ * Market by vault address. Without chainId the first match wins — vault
+ * addresses only repeat across chains for deterministic deployments.
+ */
+function findMarketByVault(vaultAddress: string, chainId?: number) {
+  return prisma.market.findFirst({
+    where:   { vaultAddress, ...(chainId !== undefined && { chainId }) },
+    orderBy: { createdAt: "asc" },
+  })
+}
+
+export async function getLatestMarketSnapshot(vaultAddress: string, chainId?: number) {
   try {
-    const market = await prisma.market.findUnique({ where: { vaultAddress } })
+    const market = await findMarketByVault(vaultAddress, chainId)
     if (!market) return null
     return await prisma.marketSnapshot.findFirst({
       where: { marketId: market.id },
@@ -42,10 +53,11 @@ export async function getLatestMarketSnapshot(vaultAddress: string) {
 export async function getMarketSnapshotsInRange(
   vaultAddress: string,
   startTime: Date,
-  endTime: Date = new Date()
+  endTime: Date = new Date(),
+  chainId?: number
 ): Promise<MktSnapshot[]> {
   try {
-    const market = await prisma.market.findUnique({ where: { vaultAddress } })
+    const market = await findMarketByVault(vaultAddress, chainId)
     if (!market) return []
     return await prisma.marketSnapshot.findMany({
       where: {
@@ -60,9 +72,45 @@ export async function getMarketSnapshotsInRange(
   }
 }
 
-export async function getLatestSnapshotsForAllMarkets() {
+type MktRollup = Awaited<
+  ReturnType<typeof prisma.marketSnapshotHourly.findMany>
+>[number]
+
+const BUCKET_MS = { hour: 60 * 60 * 1000, day: 24 * 60 * 60 * 1000 }
+
+/**
+ * Hourly or daily MarketSnapshot rollups covering [startTime, endTime] — the
+ * bucket holding startTime included — oldest first.
+ */
+export async function getMarketRollupsInRange(
+  vaultAddress: string,
+  resolution: "hour" | "day",
+  startTime: Date,
+  endTime: Date = new Date(),
+  chainId?: number
+): Promise<MktRollup[]> {
+  try {
+    const market = await findMarketByVault(vaultAddress, chainId)
+    if (!market) return []
+    const size  = BUCKET_MS[resolution]
+    const where = {
+      marketId: market.id,
+      bucketStart: { gte: new Date(Math.floor(startTime.getTime() / size) * size), lte: endTime },
+    }
+    return resolution === "day"
+      ? await prisma.marketSnapshotDaily.findMany({ where, orderBy: { bucketStart: "asc" } })
+      : await prisma.marketSnapshotHourly.findMany({ where, orderBy: { bucketStart: "asc" } })
+  } catch (err) {
+    console.error("[db] getMarketRollupsInRange error:", err)
+    return []
+  }
+}
+
+export async function getLatestSnapshotsForAllMarkets(chainId?: number) {
   try {
-    const markets = await prisma.market.findMany({ where: { isActive: true } })
+    const markets = await prisma.market.findMany({
+      where: { isActive: true, ...(chainId !== undefined && { chainId }) },
+    })
     const results = await Promise.all(
       markets.map(async (m) => {
         const snapshot = await prisma.marketSnapshot.findFirst({
@@ -94,3 +142,11 @@ export function getTimeRangeStart(range: string): Date {
       return new Date(now.getTime() - 24 * 60 * 60 * 1000)
   }
 }
+
+/** A `from` / `to` query value: ISO date or unix seconds. Null when unparseable. */
+export function parseTimeParam(value: unknown): Date | null | undefined {
+  if (value === undefined || value === "") return undefined
+  const text = String(value)
+  const date = /^\d+$/.test(text) ? new Date(Number(text) * 1000) : new Date(text)
+  return Number.isNaN(date.getTime()) ? null : date
+}
@@ -0,0 +1,164 @@
+/**
+ * Prometheus Metrics
+ * ------------------
+ * One registry for the whole process, exposed at GET /metrics/prometheus.
+ *
+ *   Indexer: head lag, blocks processed, reorgs, rollback depth, decode failures
+ *   Cron:    snapshot duration and failures per market
+ *   Positions: event-sourced positions that drifted from getUserPosition
+ *   Liquidator: decisions of the liquidation bot per outcome
+ *   RPC:     requests and latency per method (lib/transport, via lib/chains)
+ *   HTTP:    request duration per route
+ *
+ * Chains are labelled by registry name ("sepolia", "base"), matching the API
+ * `chain` filter. Head lag is computed at scrape time from the last tip each
+ * chain loop saw and the SyncState cursor in the DB.
+ */
+
+import { Registry, Counter, Gauge, Histogram, collectDefaultMetrics } from "prom-client"
+import { prisma } from "./db"
+
+export const registry = new Registry()
+collectDefaultMetrics({ register: registry })
+
+// ─── Indexer ─────────────────────────────────────────────────────────────────
+
+// chainId → registry name and last tip seen by that chain's loop
+const chainHeads = new Map<number, { chain: string; tip: number }>()
+
+/** Record the latest tip a chain loop observed — feeds the lag gauges. */
+export function observeChainHead(chain: { chainId: number; name: string }, tip: bigint): void {
+  chainHeads.set(chain.chainId, { chain: chain.name, tip: Number(tip) })
+}
+
+export const indexerHeadBlock = new Gauge({
+  name:       "indexer_chain_head_block",
+  help:       "Latest chain tip seen by the indexer",
+  labelNames: ["chain"] as const,
+  registers:  [registry],
+  collect() {
+    for (const { chain, tip } of chainHeads.values()) this.set({ chain }, tip)
+  },
+})
+
+export const indexerHeadLag = new Gauge({
+  name:       "indexer_head_lag_blocks",
+  help:       "Chain tip minus SyncState.lastProcessedBlock",
+  labelNames: ["chain"] as const,
+  registers:  [registry],
+  async collect() {
+    const states = await prisma.syncState.findMany()
+    for (const state of states) {
+      const head = chainHeads.get(state.chainId)
+      if (!head) continue
+      this.set({ chain: head.chain }, Math.max(head.tip - state.lastProcessedBlock, 0))
+    }
+  },
+})
+
+export const indexerBlocksProcessed = new Counter({
+  name:       "indexer_blocks_processed_total",
+  help:       "Blocks whose logs were processed and cursor recorded",
+  labelNames: ["chain"] as const,
+  registers:  [registry],
+})
+
+export const indexerReorgs = new Counter({
+  name:       "indexer_reorgs_total",
+  help:       "Reorgs detected via parent hash mismatch",
+  labelNames: ["chain"] as const,
+  registers:  [registry],
+})
+
+export const indexerRollbackDepth = new Histogram({
+  name:       "indexer_rollback_depth_blocks",
+  help:       "Blocks rolled back per detected reorg (including REORG_BUFFER)",
+  labelNames: ["chain"] as const,
+  buckets:    [1, 2, 5, 10, 20, 50, 100, 250],
+  registers:  [registry],
+})
+
+export const indexerDecodeFailures = new Counter({
+  name:       "indexer_decode_failures_total",
+  help:       "Logs from watched contracts with a known event signature that failed to decode",
+  labelNames: ["chain", "contract"] as const,
+  registers:  [registry],
+})
+
+// ─── Cron ────────────────────────────────────────────────────────────────────
+
+export const snapshotJobDuration = new Histogram({
+  name:       "cron_snapshot_duration_seconds",
+  help:       "Time to compute and store one market snapshot",
+  labelNames: ["chain", "market"] as const,
+  buckets:    [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers:  [registry],
+})
+
+export const snapshotJobFailures = new Counter({
+  name:       "cron_snapshot_failures_total",
+  help:       "Market snapshots that threw",
+  labelNames: ["chain", "market"] as const,
+  registers:  [registry],
+})
+
+// ─── Positions ───────────────────────────────────────────────────────────────
+
+export const positionsWithDrift = new Gauge({
+  name:       "positions_drift_count",
+  help:       "Event-sourced positions that disagreed with getUserPosition at the last reconciliation",
+  labelNames: ["chain", "market"] as const,
+  registers:  [registry],
+})
+
+export const borrowersByHealthBand = new Gauge({
+  name:       "positions_borrowers_by_health_band",
+  help:       "Open borrowers per health-factor band at the last health sweep",
+  labelNames: ["chain", "market", "band"] as const,
+  registers:  [registry],
+})
+
+// ─── Liquidator ──────────────────────────────────────────────────────────────
+
+export const liquidatorRuns = new Counter({
+  name:       "liquidator_runs_total",
+  help:       "Liquidatable borrowers evaluated by the liquidation bot, per outcome",
+  labelNames: ["chain", "market", "status"] as const,
+  registers:  [registry],
+})
+
+// ─── Keepers ─────────────────────────────────────────────────────────────────
+
+export const keeperRuns = new Counter({
+  name:       "keeper_runs_total",
+  help:       "Maintenance transactions found due by the keepers, per outcome",
+  labelNames: ["chain", "keeper", "status"] as const,
+  registers:  [registry],
+})
+
+// ─── RPC ─────────────────────────────────────────────────────────────────────
+
+export const rpcRequests = new Counter({
+  name:       "rpc_requests_total",
+  help:       "JSON-RPC requests sent, per provider attempt",
+  labelNames: ["chain", "method", "outcome"] as const,
+  registers:  [registry],
+})
+
+export const rpcDuration = new Histogram({
+  name:       "rpc_request_duration_seconds",
+  help:       "JSON-RPC request latency, excluding rate-limit queueing",
+  labelNames: ["chain", "method"] as const,
+  buckets:    [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers:  [registry],
+})
+
+// ─── HTTP ────────────────────────────────────────────────────────────────────
+
+export const httpDuration = new Histogram({
+  name:       "http_request_duration_seconds",
+  help:       "API request duration by matched route",
+  labelNames: ["method", "route", "status"] as const,
+  buckets:    [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers:  [registry],
+})
@@ -0,0 +1,171 @@
+/**
+ * RPC Fixtures
+ * ------------
+ * Record-and-replay transports for reproducing indexer runs offline:
+ *
+ *   - Recording wraps an existing client's request function and keeps every
+ *     JSON-RPC request with its response (or error) in call order.
+ *   - Replay serves those responses without any network. Requests are matched
+ *     on method + params; a request made several times (eth_blockNumber,
+ *     "latest" block reads) gets its recorded responses in order, and the last
+ *     one once they run out. A request that was never recorded fails with
+ *     ReplayMissError.
+ *
+ * Calls are stored as raw JSON-RPC payloads (hex quantities), so a fixture is
+ * plain JSON and replays through the same viem decoding as the original run.
+ * The indexer-level runner and the fixture file format live in
+ * indexer/replay.ts.
+ */
+
+import {
+  createPublicClient,
+  createTransport,
+  BaseError,
+  RpcRequestError,
+  type Transport,
+} from "viem"
+import type { ChainConfig } from "./chains"
+
+export interface RecordedCall {
+  method: string
+  params: unknown
+  result?: unknown
+  /** Set instead of result when the request failed */
+  error?: { code: number | null; message: string }
+}
+
+export interface RecordingTransport {
+  transport: Transport<"recording">
+  /** Calls recorded so far, in the order they completed */
+  calls(): RecordedCall[]
+}
+
+export interface ReplayTransport {
+  transport: Transport<"replay">
+  /** Requests that had no recorded response */
+  misses(): Array<{ method: string; params: unknown }>
+}
+
+type RequestFn = (args: { method: string; params?: unknown }) => Promise<unknown>
+
+/** Extends viem's BaseError so the client surfaces it as-is */
+export class ReplayMissError extends BaseError {
+  override name = "ReplayMissError"
+
+  constructor(method: string, params: unknown) {
+    super(`[rpc-fixture] No recorded response for ${method} ${JSON.stringify(params)}`)
+  }
+}
+
+/** JSON with object keys sorted — the same request always maps to the same key. */
+function requestKey(method: string, params: unknown): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical)
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.keys(value).sort().map((k) => [k, canonical((value as Record<string, unknown>)[k])])
+      )
+    }
+    return value
+  }
+  return `${method}:${JSON.stringify(canonical(params ?? []))}`
+}
+
+/** JSON-RPC error code of a viem error, if any layer of it carries one. */
+function errorCode(err: unknown): number | null {
+  if (err instanceof BaseError) {
+    const coded = err.walk((e) => typeof (e as { code?: unknown }).code === "number") as { code: number } | null
+    return coded?.code ?? null
+  }
+  return null
+}
+
+// ─── Factories ────────────────────────────────────────────────────────────────
+
+/**
+ * Transport that forwards to `request` and records each call. Pass the
+ * request function of the chain's current client so failover, quorum and
+ * retries stay in place and only their final outcome is recorded.
+ */
+export function createRecordingTransport(request: RequestFn): RecordingTransport {
+  const calls: RecordedCall[] = []
+
+  const record = async ({ method, params }: { method: string; params?: unknown }) => {
+    try {
+      const result = await request({ method, params })
+      calls.push({ method, params: params ?? [], result })
+      return result
+    } catch (err) {
+      calls.push({
+        method,
+        params: params ?? [],
+        error:  { code: errorCode(err), message: err instanceof BaseError ? err.shortMessage : String(err) },
+      })
+      throw err
+    }
+  }
+
+  const transport: Transport<"recording"> = () =>
+    createTransport({
+      key:        "recording",
+      name:       "Recording RPC",
+      type:       "recording",
+      request:    record as never,
+      // The wrapped client already retried
+      retryCount: 0,
+    })
+
+  return { transport, calls: () => calls }
+}
+
+export function createReplayTransport(calls: RecordedCall[]): ReplayTransport {
+  const queues = new Map<string, RecordedCall[]>()
+  for (const call of calls) {
+    const key = requestKey(call.method, call.params)
+    queues.set(key, [...(queues.get(key) ?? []), call])
+  }
+  const misses: Array<{ method: string; params: unknown }> = []
+
+  const replay = async ({ method, params }: { method: string; params?: unknown }) => {
+    const queue = queues.get(requestKey(method, params))
+    if (!queue) {
+      misses.push({ method, params: params ?? [] })
+      throw new ReplayMissError(method, params ?? [])
+    }
+
+    const call = queue.length > 1 ? queue.shift()! : queue[0]
+    if (call.error) {
+      throw new RpcRequestError({
+        body:  { method, params },
+        error: { code: call.error.code ?? -1, message: call.error.message },
+        url:   "replay",
+      })
+    }
+    return call.result
+  }
+
+  const transport: Transport<"replay"> = () =>
+    createTransport({
+      key:        "replay",
+      name:       "Replay RPC",
+      type:       "replay",
+      request:    replay as never,
+      // A recorded failure replays once, as it was seen after retries
+      retryCount: 0,
+    })
+
+  return { transport, misses: () => misses }
+}
+
+/**
+ * Point a chain's client at `transport`. Every indexer module reads
+ * getChain(id).client at call time, so the swap applies immediately.
+ * Returns a function that restores the previous client.
+ */
+export function useTransport(chain: ChainConfig, transport: Transport): () => void {
+  const previous = chain.client
+  chain.client = createPublicClient({ chain: previous.chain, transport })
+  return () => {
+    chain.client = previous
+  }
+}
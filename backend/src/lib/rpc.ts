@@ -1,18 +1,8 @@
-import { createPublicClient, http } from "viem"
-import { sepolia, mainnet } from "viem/chains"
+// Per-chain RPC clients and finality settings live in ./chains
 
-// --- Indexer configuration ---
-export const CONFIRMATIONS    = Number(process.env.CONFIRMATIONS    ?? 12)
-export const REORG_BUFFER     = Number(process.env.REORG_BUFFER     ?? 20)
-export const CHAIN_ID         = Number(process.env.CHAIN_ID         ?? 11155111)
-export const DEPLOYMENT_BLOCK = BigInt(process.env.DEPLOYMENT_BLOCK ?? "7800000")
-
-const chain = CHAIN_ID === 1 ? mainnet : sepolia
-
-export const client = createPublicClient({
-  chain,
-  transport: http(process.env.RPC_URL),
-})
+// Dead-letter retry backoff: base * 2^(attempts - 2), capped
+export const FAILED_BLOCK_RETRY_BASE_MS = Number(process.env.FAILED_BLOCK_RETRY_BASE_MS ?? 60_000)
+export const FAILED_BLOCK_RETRY_MAX_MS  = Number(process.env.FAILED_BLOCK_RETRY_MAX_MS  ?? 3_600_000)
 
 export const WAD = 18
 
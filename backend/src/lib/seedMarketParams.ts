@@ -4,24 +4,57 @@
  * On indexer startup, reads IRM and risk parameters from each active market's
  * on-chain contracts and upserts them into the MarketParams table.
  *
+ * Reads are pinned to one block and stored as updated_at_block, so parameter
+ * events replayed from older blocks (src/indexer/params.ts) never overwrite
+ * newer seeded state. After a reorg rollback the seed is re-run with `force`
+ * at the last surviving block.
+ *
  * Uses raw SQL to avoid the need for a regenerated Prisma client after the
  * MarketParams model was added to the schema.
  */
 
-import { client, normalize, WAD } from "./rpc"
+import { normalize, WAD } from "./rpc"
+import { getChain } from "./chains"
 import { IRM_ABI, MARKET_ABI } from "./contracts"
 import { prisma } from "./db"
 import { logger } from "./logger"
 import type { MarketConfig } from "../indexer/listener"
 
-export async function seedMarketParams(markets: MarketConfig[]): Promise<void> {
+export interface SeedOptions {
+  /**
+   * Block to read at — defaults to each chain's current head.
+   * Only meaningful when all markets are on one chain (reorg restore).
+   */
+  blockNumber?: bigint
+  /** Overwrite rows updated at a later block (reorg restore) */
+  force?: boolean
+}
+
+export async function seedMarketParams(
+  markets: MarketConfig[],
+  options: SeedOptions = {}
+): Promise<void> {
   if (markets.length === 0) return
 
-  logger.info({ count: markets.length }, "[seedMarketParams] Seeding market params from chain")
+  const force = options.force ?? false
+  const heads = new Map<number, bigint>()
+
+  logger.info(
+    { count: markets.length, block: options.blockNumber !== undefined ? Number(options.blockNumber) : "head" },
+    "[seedMarketParams] Seeding market params from chain"
+  )
 
   for (const market of markets) {
     try {
+      const { client } = getChain(market.chainId)
+      let blockNumber = options.blockNumber ?? heads.get(market.chainId)
+      if (blockNumber === undefined) {
+        blockNumber = await client.getBlockNumber()
+        heads.set(market.chainId, blockNumber)
+      }
+
       const results = await client.multicall({
+        blockNumber,
         contracts: [
           {
             address: market.irmAddress,
@@ -43,14 +76,26 @@ export async function seedMarketParams(markets: MarketConfig[]): Promise<void> {
             abi: MARKET_ABI,
             functionName: "protocolFee",
           },
+          {
+            address: market.marketAddress,
+            abi: MARKET_ABI,
+            functionName: "paused",
+          },
+          {
+            address: market.marketAddress,
+            abi: MARKET_ABI,
+            functionName: "guardian",
+          },
         ],
         allowFailure: true,
       })
 
-      const irmResult     = results[0]
-      const lltvResult    = results[1]
-      const penaltyResult = results[2]
-      const feeResult     = results[3]
+      const irmResult      = results[0]
+      const lltvResult     = results[1]
+      const penaltyResult  = results[2]
+      const feeResult      = results[3]
+      const pausedResult   = results[4]
+      const guardianResult = results[5]
 
       if (irmResult.status !== "success") {
         logger.warn(
@@ -74,18 +119,25 @@ export async function seedMarketParams(markets: MarketConfig[]): Promise<void> {
         ? normalize(penaltyResult.result as bigint, WAD) : 0.05
       const protocolFee        = feeResult.status     === "success"
         ? normalize(feeResult.result as bigint, WAD) : 0.10
+      const borrowingPaused    = pausedResult.status  === "success"
+        ? (pausedResult.result as boolean) : false
+      const guardian           = guardianResult.status === "success"
+        ? (guardianResult.result as string).toLowerCase() : null
 
-      // Raw SQL upsert — works before/after prisma generate
+      // Raw SQL upsert — works before/after prisma generate.
+      // Skipped when a parameter event from a later block already landed.
       await prisma.$executeRaw`
         INSERT INTO "MarketParams" (
           id, market_id, base_rate, slope1, slope2, optimal_utilization,
-          lltv, liquidation_penalty, protocol_fee, updated_at, updated_by
+          lltv, liquidation_penalty, protocol_fee, borrowing_paused, guardian,
+          updated_at, updated_by, updated_at_block
         ) VALUES (
           gen_random_uuid(), ${market.marketId},
           ${baseRate.toFixed(6)}, ${slope1.toFixed(6)}, ${slope2.toFixed(6)},
           ${optimalUtilization.toFixed(6)}, ${lltv.toFixed(6)},
           ${liquidationPenalty.toFixed(6)}, ${protocolFee.toFixed(6)},
-          NOW(), 'chain'
+          ${borrowingPaused}, ${guardian},
+          NOW(), 'chain', ${Number(blockNumber)}
         )
         ON CONFLICT (market_id) DO UPDATE SET
           base_rate           = EXCLUDED.base_rate,
@@ -95,8 +147,14 @@ export async function seedMarketParams(markets: MarketConfig[]): Promise<void> {
           lltv                = EXCLUDED.lltv,
           liquidation_penalty = EXCLUDED.liquidation_penalty,
           protocol_fee        = EXCLUDED.protocol_fee,
+          borrowing_paused    = EXCLUDED.borrowing_paused,
+          guardian            = EXCLUDED.guardian,
           updated_at          = NOW(),
-          updated_by          = 'chain'
+          updated_by          = 'chain',
+          updated_at_block    = EXCLUDED.updated_at_block
+        WHERE ${force}
+           OR "MarketParams".updated_at_block IS NULL
+           OR "MarketParams".updated_at_block <= EXCLUDED.updated_at_block
       `
 
       logger.info(
@@ -0,0 +1,49 @@
+/**
+ * Local Signers
+ * -------------
+ * Wallet clients for the backend workers that send transactions (the
+ * liquidation bot). Keys come from the environment and never leave the
+ * process: transactions are signed locally and sent as raw transactions
+ * through the chain's own RPC transport, so they get the same failover and
+ * rate limiting as every read.
+ */
+
+import { createWalletClient, custom, type Account, type Chain, type Transport, type WalletClient } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { getChain } from "./chains"
+
+export type Signer = WalletClient<Transport, Chain, Account>
+
+export class SignerConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SignerConfigError"
+  }
+}
+
+const signers = new Map<string, Signer>()
+
+/**
+ * Wallet client for `envKey`'s private key on one chain. Throws
+ * SignerConfigError when the key is unset or not a 32-byte hex string.
+ */
+export function getSigner(chainId: number, envKey: string): Signer {
+  const cacheKey = `${envKey}:${chainId}`
+  const cached   = signers.get(cacheKey)
+  if (cached) return cached
+
+  const privateKey = process.env[envKey]
+  if (!privateKey) throw new SignerConfigError(`[signer] ${envKey} is not set`)
+  if (!/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new SignerConfigError(`[signer] ${envKey} must be a 0x-prefixed 32-byte hex key`)
+  }
+
+  const { client } = getChain(chainId)
+  const signer = createWalletClient({
+    account:   privateKeyToAccount(privateKey as `0x${string}`),
+    chain:     client.chain,
+    transport: custom({ request: client.request }),
+  })
+  signers.set(cacheKey, signer)
+  return signer
+}
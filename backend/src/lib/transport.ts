@@ -0,0 +1,322 @@
+/**
+ * RPC Transport
+ * -------------
+ * viem transport over an ordered list of JSON-RPC providers:
+ *
+ *   - Failover: requests go to the first healthy provider; network errors,
+ *     timeouts, HTTP errors and provider-side limits move on to the next one.
+ *     A provider that fails COOLDOWN_AFTER times in a row is skipped for
+ *     cooldownMs (unless every provider is cooling down).
+ *   - Rate limiting: each provider has a requests-per-second budget. Requests
+ *     over budget wait in a FIFO queue instead of being sent and rejected.
+ *   - Quorum: with quorum > 1, eth_getBlockByNumber for a concrete height is
+ *     asked of several providers and only returned once `quorum` of them
+ *     agree on the block hash — so the reorg detector never rolls back on the
+ *     word of one lagging node.
+ *
+ * Providers are plain URLs, so local HTTP stand-ins work the same as hosted
+ * endpoints. Per-provider request/error counts and latency are exposed via
+ * stats() for /health; per-method counts and latency go to onRequest (the
+ * chain registry records them in lib/metrics).
+ */
+
+import {
+  createTransport,
+  http,
+  shouldThrow,
+  BaseError,
+  HttpRequestError,
+  TimeoutError,
+  RpcRequestError,
+  type EIP1193RequestFn,
+  type Transport,
+} from "viem"
+
+export interface RpcProvider {
+  url: string
+  /** Requests per second; 0 = unlimited */
+  rps: number
+}
+
+export interface RpcTransportOptions {
+  /** Chain name used as the metrics label */
+  chain: string
+  providers: RpcProvider[]
+  /** Providers that must agree on a block hash (1 = no quorum) */
+  quorum: number
+  timeoutMs: number
+  cooldownMs: number
+  /** Called once per provider request with its method, outcome and duration */
+  onRequest?: (request: { chain: string; method: string; outcome: "ok" | "error"; seconds: number }) => void
+}
+
+export interface ProviderStats {
+  /** URL origin only — API keys usually live in the path */
+  provider: string
+  rps: number | null
+  requests: number
+  errors: number
+  consecutiveErrors: number
+  /** Exponentially weighted moving average over successful requests */
+  avgLatencyMs: number | null
+  queued: number
+  coolingDown: boolean
+  lastError: string | null
+  lastErrorAt: string | null
+}
+
+export interface RpcTransport {
+  transport: Transport<"failover">
+  stats(): ProviderStats[]
+}
+
+/** Extends viem's BaseError so the client surfaces it as-is (and retries it) */
+export class RpcQuorumError extends BaseError {
+  override name = "RpcQuorumError"
+
+  constructor(blockNumber: string, hashes: Record<string, number>, quorum: number) {
+    const seen = Object.entries(hashes).map(([h, n]) => `${h}×${n}`).join(", ") || "no responses"
+    super(`[transport] No quorum of ${quorum} for block ${BigInt(blockNumber)}: ${seen}`)
+  }
+}
+
+type RequestArgs = { method: string; params?: unknown }
+
+interface ProviderState {
+  chain: string
+  onRequest: RpcTransportOptions["onRequest"]
+  url: string
+  origin: string
+  rps: number
+  request: EIP1193RequestFn
+  cooldownMs: number
+  nextSlot: number
+  queued: number
+  requests: number
+  errors: number
+  consecutiveErrors: number
+  avgLatencyMs: number | null
+  coolingUntil: number
+  lastError: string | null
+  lastErrorAt: Date | null
+}
+
+const COOLDOWN_AFTER = 3
+const LATENCY_ALPHA  = 0.2
+
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin
+  } catch {
+    return "invalid-url"
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Provider phrasings for "this getLogs query returns too much": result counts
+// and response sizes only. Invalid ranges and request/quota limits (often the
+// same -32005 code) must not shrink the window.
+const RANGE_TOO_LARGE_PATTERN =
+  /too many (results|logs)|(returned|return|with) more than [\d,]+ (results|logs)|response size|response (is )?too (large|big)/i
+
+/** The provider refused a getLogs range as too large — the caller should narrow it. */
+export function isRangeTooLarge(err: unknown): boolean {
+  if (!(err instanceof Error)) return false
+  // viem's own message for LimitExceededRpcError is generic — test the provider's
+  const text = err instanceof BaseError ? err.details || err.message : err.message
+  return RANGE_TOO_LARGE_PATTERN.test(text)
+}
+
+/**
+ * Errors another provider might not return. Anything else (reverts, invalid
+ * params, unsupported method) would fail the same way everywhere, and so would
+ * a range too large — every provider caps results.
+ */
+function isProviderFault(err: unknown): boolean {
+  if (isRangeTooLarge(err)) return false
+  if (!(err instanceof BaseError)) return true
+  if (shouldThrow(err)) return false
+  if (err instanceof HttpRequestError || err instanceof TimeoutError) return true
+  const code = err.walk((e) => e instanceof RpcRequestError) as RpcRequestError | null
+  if (!code) return true
+  // -32005 limit exceeded / rate limited, -32603 internal, -1 unknown
+  return code.code === -32005 || code.code === -32603 || code.code === -1
+}
+
+// ─── Per-provider plumbing ────────────────────────────────────────────────────
+
+async function acquireSlot(p: ProviderState): Promise<void> {
+  if (p.rps <= 0) return
+  const now  = Date.now()
+  const slot = Math.max(now, p.nextSlot)
+  p.nextSlot = slot + 1000 / p.rps
+  if (slot > now) {
+    p.queued++
+    try {
+      await sleep(slot - now)
+    } finally {
+      p.queued--
+    }
+  }
+}
+
+async function send<T>(p: ProviderState, args: RequestArgs): Promise<T> {
+  await acquireSlot(p)
+  const started = Date.now()
+  const labels  = { chain: p.chain, method: args.method }
+  p.requests++
+  try {
+    const result = await p.request<undefined, RequestArgs, T>(args)
+    const latency = Date.now() - started
+    p.onRequest?.({ ...labels, outcome: "ok", seconds: latency / 1000 })
+    p.avgLatencyMs = p.avgLatencyMs === null ? latency : p.avgLatencyMs + LATENCY_ALPHA * (latency - p.avgLatencyMs)
+    p.consecutiveErrors = 0
+    return result
+  } catch (err) {
+    p.onRequest?.({ ...labels, outcome: "error", seconds: (Date.now() - started) / 1000 })
+    if (isProviderFault(err)) {
+      p.errors++
+      p.consecutiveErrors++
+      p.lastError   = err instanceof BaseError ? err.shortMessage : String(err)
+      p.lastErrorAt = new Date()
+      if (p.consecutiveErrors >= COOLDOWN_AFTER) p.coolingUntil = Date.now() + p.cooldownMs
+    }
+    throw err
+  }
+}
+
+/** Healthy providers first (in configured order), then those cooling down. */
+function candidates(providers: ProviderState[]): ProviderState[] {
+  const now = Date.now()
+  const healthy = providers.filter((p) => p.coolingUntil <= now)
+  const cooling = providers.filter((p) => p.coolingUntil > now)
+  return [...healthy, ...cooling]
+}
+
+// ─── Request strategies ───────────────────────────────────────────────────────
+
+async function failover<T>(providers: ProviderState[], args: RequestArgs): Promise<T> {
+  let lastErr: unknown
+  for (const p of candidates(providers)) {
+    try {
+      return await send<T>(p, args)
+    } catch (err) {
+      if (!isProviderFault(err)) throw err
+      lastErr = err
+    }
+  }
+  throw lastErr
+}
+
+/**
+ * Ask `quorum` providers first; only if they disagree (or fail) fan out to
+ * the rest. Returns the block the first hash to reach quorum belongs to.
+ */
+async function quorumRead<T>(
+  providers: ProviderState[],
+  quorum: number,
+  args: RequestArgs,
+  blockNumber: string
+): Promise<T> {
+  const ordered = candidates(providers)
+  const votes   = new Map<string, { count: number; result: T }>()
+
+  const ask = async (batch: ProviderState[]) => {
+    const results = await Promise.allSettled(batch.map((p) => send<T>(p, args)))
+    for (const r of results) {
+      if (r.status !== "fulfilled") continue
+      const block = r.value as { hash?: string } | null
+      const key   = block?.hash ?? "null"
+      const vote  = votes.get(key) ?? { count: 0, result: r.value }
+      vote.count++
+      votes.set(key, vote)
+    }
+    for (const vote of votes.values()) {
+      if (vote.count >= quorum) return vote
+    }
+    return null
+  }
+
+  const agreed = (await ask(ordered.slice(0, quorum))) ?? (await ask(ordered.slice(quorum)))
+  if (agreed) return agreed.result
+
+  const hashes = Object.fromEntries([...votes].map(([h, v]) => [h, v.count]))
+  throw new RpcQuorumError(blockNumber, hashes, quorum)
+}
+
+function quorumBlockParam(method: string, params: unknown): string | null {
+  if (method !== "eth_getBlockByNumber" || !Array.isArray(params)) return null
+  const tag = params[0]
+  // "latest", "safe", … legitimately differ between nodes — only pin heights
+  return typeof tag === "string" && tag.startsWith("0x") ? tag : null
+}
+
+// ─── Factory ──────────────────────────────────────────────────────────────────
+
+export function createRpcTransport(options: RpcTransportOptions): RpcTransport {
+  if (options.providers.length === 0) {
+    throw new Error("[transport] At least one RPC provider is required")
+  }
+  if (options.quorum > options.providers.length) {
+    throw new Error(
+      `[transport] Quorum ${options.quorum} exceeds the ${options.providers.length} configured provider(s)`
+    )
+  }
+
+  const providers: ProviderState[] = options.providers.map(({ url, rps }) => ({
+    chain:             options.chain,
+    onRequest:         options.onRequest,
+    url,
+    origin:            originOf(url),
+    rps,
+    // Retries are ours to make (on another provider) — not the inner transport's
+    request:           http(url, { retryCount: 0, timeout: options.timeoutMs })({ retryCount: 0 }).request,
+    cooldownMs:        options.cooldownMs,
+    nextSlot:          0,
+    queued:            0,
+    requests:          0,
+    errors:            0,
+    consecutiveErrors: 0,
+    avgLatencyMs:      null,
+    coolingUntil:      0,
+    lastError:         null,
+    lastErrorAt:       null,
+  }))
+
+  async function request<T>({ method, params }: RequestArgs): Promise<T> {
+    const blockNumber = options.quorum > 1 ? quorumBlockParam(method, params) : null
+    if (blockNumber) return quorumRead<T>(providers, options.quorum, { method, params }, blockNumber)
+    return failover<T>(providers, { method, params })
+  }
+
+  const transport: Transport<"failover"> = ({ retryCount, timeout }) =>
+    createTransport({
+      key:     "failover",
+      name:    "Failover RPC",
+      type:    "failover",
+      request,
+      retryCount,
+      timeout: timeout ?? options.timeoutMs,
+    })
+
+  const stats = (): ProviderStats[] => {
+    const now = Date.now()
+    return providers.map((p) => ({
+      provider:          p.origin,
+      rps:               p.rps > 0 ? p.rps : null,
+      requests:          p.requests,
+      errors:            p.errors,
+      consecutiveErrors: p.consecutiveErrors,
+      avgLatencyMs:      p.avgLatencyMs === null ? null : Math.round(p.avgLatencyMs),
+      queued:            p.queued,
+      coolingDown:       p.coolingUntil > now,
+      lastError:         p.lastError,
+      lastErrorAt:       p.lastErrorAt?.toISOString() ?? null,
+    }))
+  }
+
+  return { transport, stats }
+}
@@ -4,17 +4,40 @@
  * Secured endpoints for updating market parameters in the DB.
  * All routes require: Authorization: Bearer <ADMIN_SECRET>
  *
- * GET  /admin/market-params     — list all markets with their current params
- * POST /admin/market-params     — update params for one market (by marketAddress)
- * POST /admin/trigger-snapshot  — force a snapshot recompute
+ * GET    /admin/market-params   — list all markets with their current params
+ * POST   /admin/market-params   — update params for one market (by marketAddress)
+ * POST   /admin/trigger-snapshot — force a snapshot recompute
+ * GET    /admin/markets         — every registered market, active or not
+ * POST   /admin/markets         — register a market (validated on chain)
+ * PATCH  /admin/markets/:id     — reactivate / relabel / backfill a market, or toggle
+ *                                 the liquidation bot for it (liquidatorEnabled)
+ * DELETE /admin/markets/:id     — deactivate a market
+ * GET    /admin/keepers         — each keeper, paused or not, with its latest run
+ * POST   /admin/keepers/:keeper/pause  — stop a keeper ("borrow-index" | "lkg")
+ * POST   /admin/keepers/:keeper/resume — start it again
+ *
+ * Market registry changes reach the running indexer, cron jobs and
+ * MarketParams seeding without a restart, and so does pausing a keeper.
  *
  * Uses raw SQL for MarketParams to work before/after prisma generate.
  */
 
 import { Router, Request, Response } from "express"
+import { getAddress, isAddress } from "viem"
 import { prisma } from "../lib/db"
 import { computeAndSaveMarketSnapshot } from "../indexer/snapshot"
-import { activeMarkets } from "../indexer/index"
+import { activeMarkets, reloadMarkets } from "../indexer/index"
+import { toMarketConfig } from "../indexer/listener"
+import {
+  inspectMarket,
+  startMarketBackfill,
+  getBackfillStatus,
+  BackfillRunningError,
+  type BackfillStatus,
+} from "../indexer/registry"
+import { seedMarketParams } from "../lib/seedMarketParams"
+import { isConfiguredChain } from "../lib/chains"
+import { KEEPER_ENABLED, KEEPERS, isKeeper, pausedKeepers, setKeeperPaused } from "../jobs/keeper"
 import { logger } from "../lib/logger"
 
 const router = Router()
@@ -69,6 +92,7 @@ router.get("/market-params", requireAdmin, async (_req: Request, res: Response)
       const p = paramsByMarketId[m.id] ?? null
       return {
         marketId:      m.id,
+        chainId:       m.chainId,
         marketAddress: m.marketAddress,
         vaultAddress:  m.vaultAddress,
         label:         m.label,
@@ -260,4 +284,323 @@ router.post("/trigger-snapshot", requireAdmin, async (req: Request, res: Respons
   res.json({ ok: true, recomputed: results.length, results })
 })
 
+// ─── Market registry ─────────────────────────────────────────────────────────
+
+type MarketRow = Awaited<ReturnType<typeof prisma.market.findMany>>[number]
+
+function serializeMarket(m: MarketRow) {
+  return {
+    marketId:            m.id,
+    chainId:             m.chainId,
+    vaultAddress:        m.vaultAddress,
+    marketAddress:       m.marketAddress,
+    irmAddress:          m.irmAddress,
+    oracleRouterAddress: m.oracleRouterAddress,
+    loanAsset:           m.loanAsset,
+    loanAssetDecimals:   m.loanAssetDecimals,
+    label:               m.label,
+    symbol:              m.symbol,
+    isActive:            m.isActive,
+    liquidatorEnabled:   m.liquidatorEnabled,
+    createdAt:           m.createdAt.toISOString(),
+    backfill:            getBackfillStatus(m.id),
+  }
+}
+
+/** Block number from a JSON body — undefined when absent, null when invalid. */
+function parseStartBlock(value: unknown): bigint | undefined | null {
+  if (value === undefined || value === null) return undefined
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value)
+  if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value)
+  return null
+}
+
+/**
+ * Push a registry change to the running indexer: reload the market list,
+ * seed params for a newly active market and start its backfill, if asked.
+ */
+async function applyMarketChange(
+  market: MarketRow,
+  startBlock: bigint | undefined
+): Promise<BackfillStatus | null> {
+  await reloadMarkets()
+  if (!market.isActive) return null
+
+  const config = toMarketConfig(market)
+  seedMarketParams([config]).catch((err) =>
+    logger.error({ marketId: market.id, err }, "[admin/markets] seedMarketParams failed")
+  )
+
+  return startBlock === undefined ? null : startMarketBackfill(config, startBlock)
+}
+
+// ─── GET /admin/markets ───────────────────────────────────────────────────────
+
+router.get("/markets", requireAdmin, async (_req: Request, res: Response) => {
+  try {
+    const markets = await prisma.market.findMany({ orderBy: { createdAt: "asc" } })
+    res.json({ markets: markets.map(serializeMarket), timestamp: new Date().toISOString() })
+  } catch (err) {
+    logger.error({ err }, "[admin/markets GET] Error")
+    res.status(500).json({ error: "Failed to fetch markets" })
+  }
+})
+
+// ─── POST /admin/markets ──────────────────────────────────────────────────────
+
+/**
+ * Body:
+ * {
+ *   chainId: number,
+ *   vaultAddress: string,
+ *   marketAddress: string,
+ *   irmAddress: string,
+ *   oracleRouterAddress: string,
+ *   label?: string,        // default "<symbol> Market"
+ *   symbol?: string,       // default: loan asset ERC20 symbol
+ *   startBlock?: number,   // backfill from here (e.g. the deployment block)
+ * }
+ *
+ * The four contracts must point at each other on chain; loanAsset and
+ * loanAssetDecimals are read from the market. 422 lists every failed check.
+ */
+router.post("/markets", requireAdmin, async (req: Request, res: Response) => {
+  const { chainId, label, symbol, startBlock } = req.body as Record<string, unknown>
+
+  if (typeof chainId !== "number" || !isConfiguredChain(chainId)) {
+    res.status(400).json({ error: `chainId must be a configured chain, got ${chainId}` })
+    return
+  }
+
+  const addressFields = ["vaultAddress", "marketAddress", "irmAddress", "oracleRouterAddress"] as const
+  for (const field of addressFields) {
+    const value = req.body[field]
+    if (typeof value !== "string" || !isAddress(value)) {
+      res.status(400).json({ error: `${field} must be an address` })
+      return
+    }
+  }
+
+  const from = parseStartBlock(startBlock)
+  if (from === null) {
+    res.status(400).json({ error: "startBlock must be a non-negative integer" })
+    return
+  }
+
+  const addresses = {
+    vaultAddress:        getAddress(req.body.vaultAddress),
+    marketAddress:       getAddress(req.body.marketAddress),
+    irmAddress:          getAddress(req.body.irmAddress),
+    oracleRouterAddress: getAddress(req.body.oracleRouterAddress),
+  }
+
+  try {
+    const existing = await prisma.market.findFirst({
+      where: { chainId, vaultAddress: { equals: addresses.vaultAddress, mode: "insensitive" } },
+    })
+    if (existing) {
+      res.status(409).json({
+        error:    "Market already registered for this vault — PATCH it to reactivate",
+        marketId: existing.id,
+      })
+      return
+    }
+
+    const inspection = await inspectMarket(chainId, addresses)
+    if (inspection.mismatches.length > 0 || !inspection.loanAsset || inspection.loanAssetDecimals === null) {
+      res.status(422).json({ error: "Contracts are not wired together", mismatches: inspection.mismatches })
+      return
+    }
+
+    const marketSymbol = typeof symbol === "string" && symbol ? symbol : inspection.symbol
+    if (!marketSymbol) {
+      res.status(400).json({ error: "symbol is required — the loan asset has no readable symbol()" })
+      return
+    }
+
+    const market = await prisma.market.create({
+      data: {
+        chainId,
+        ...addresses,
+        loanAsset:         inspection.loanAsset,
+        loanAssetDecimals: inspection.loanAssetDecimals,
+        label:             typeof label === "string" && label ? label : `${marketSymbol} Market`,
+        symbol:            marketSymbol,
+        isActive:          true,
+      },
+    })
+
+    const backfill = await applyMarketChange(market, from)
+
+    logger.info(
+      { marketId: market.id, chainId, symbol: market.symbol, backfillFrom: from !== undefined ? Number(from) : null },
+      "[admin/markets POST] Registered"
+    )
+
+    res.status(201).json({ ok: true, market: serializeMarket(market), backfill })
+  } catch (err) {
+    logger.error({ err }, "[admin/markets POST] Error")
+    res.status(500).json({ error: "Failed to register market" })
+  }
+})
+
+// ─── PATCH /admin/markets/:id ─────────────────────────────────────────────────
+
+/**
+ * Body (all optional):
+ * {
+ *   isActive?: boolean,    // true reactivates a deactivated market
+ *   label?: string,
+ *   symbol?: string,
+ *   startBlock?: number,   // backfill an active market from here, e.g. the
+ *                          // block it was deactivated at
+ * }
+ */
+router.patch("/markets/:id", requireAdmin, async (req: Request, res: Response) => {
+  const id = req.params.id as string
+  const { isActive, label, symbol, startBlock, liquidatorEnabled } = req.body as Record<string, unknown>
+
+  const from = parseStartBlock(startBlock)
+  if (from === null) {
+    res.status(400).json({ error: "startBlock must be a non-negative integer" })
+    return
+  }
+  if (isActive !== undefined && typeof isActive !== "boolean") {
+    res.status(400).json({ error: "isActive must be a boolean" })
+    return
+  }
+  if (liquidatorEnabled !== undefined && typeof liquidatorEnabled !== "boolean") {
+    res.status(400).json({ error: "liquidatorEnabled must be a boolean" })
+    return
+  }
+
+  try {
+    const existing = await prisma.market.findUnique({ where: { id } })
+    if (!existing) {
+      res.status(404).json({ error: `Market not found: ${id}` })
+      return
+    }
+
+    const willBeActive = isActive ?? existing.isActive
+    if (from !== undefined && !willBeActive) {
+      res.status(400).json({ error: "startBlock requires an active market" })
+      return
+    }
+    if (willBeActive && !isConfiguredChain(existing.chainId)) {
+      res.status(400).json({ error: `Chain ${existing.chainId} is not configured on this server` })
+      return
+    }
+
+    const market = await prisma.market.update({
+      where: { id },
+      data: {
+        ...(isActive !== undefined && { isActive }),
+        ...(typeof label === "string" && label && { label }),
+        ...(typeof symbol === "string" && symbol && { symbol }),
+        ...(liquidatorEnabled !== undefined && { liquidatorEnabled }),
+      },
+    })
+
+    // Label/symbol/liquidator edits alone don't concern the indexer
+    const backfill =
+      market.isActive !== existing.isActive || from !== undefined
+        ? await applyMarketChange(market, from)
+        : null
+
+    logger.info(
+      { marketId: id, isActive: market.isActive, liquidatorEnabled: market.liquidatorEnabled, backfillFrom: from !== undefined ? Number(from) : null },
+      "[admin/markets PATCH] Updated"
+    )
+
+    res.json({ ok: true, market: serializeMarket(market), backfill })
+  } catch (err) {
+    if (err instanceof BackfillRunningError) {
+      res.status(409).json({ error: err.message })
+      return
+    }
+    logger.error({ err }, "[admin/markets PATCH] Error")
+    res.status(500).json({ error: "Failed to update market" })
+  }
+})
+
+// ─── DELETE /admin/markets/:id ────────────────────────────────────────────────
+
+/**
+ * Deactivates rather than deletes — indexed history stays queryable and the
+ * market can be reactivated with PATCH { isActive: true }.
+ */
+router.delete("/markets/:id", requireAdmin, async (req: Request, res: Response) => {
+  const id = req.params.id as string
+
+  try {
+    const existing = await prisma.market.findUnique({ where: { id } })
+    if (!existing) {
+      res.status(404).json({ error: `Market not found: ${id}` })
+      return
+    }
+
+    const market = await prisma.market.update({ where: { id }, data: { isActive: false } })
+    if (existing.isActive) await reloadMarkets()
+
+    logger.info({ marketId: id }, "[admin/markets DELETE] Deactivated")
+    res.json({ ok: true, market: serializeMarket(market) })
+  } catch (err) {
+    logger.error({ err }, "[admin/markets DELETE] Error")
+    res.status(500).json({ error: "Failed to deactivate market" })
+  }
+})
+
+// ─── Keepers ─────────────────────────────────────────────────────────────────
+
+router.get("/keepers", requireAdmin, async (_req: Request, res: Response) => {
+  try {
+    const [paused, latest] = await Promise.all([
+      pausedKeepers(),
+      Promise.all(
+        KEEPERS.map((keeper) => prisma.keeperRun.findFirst({ where: { keeper }, orderBy: { id: "desc" } }))
+      ),
+    ])
+    res.json({
+      enabled: KEEPER_ENABLED,
+      keepers: KEEPERS.map((keeper, i) => {
+        const run = latest[i]
+        return {
+          keeper,
+          paused:  paused.has(keeper),
+          lastRun: run && {
+            chainId:   run.chainId,
+            target:    run.target,
+            asset:     run.asset,
+            status:    run.status,
+            reason:    run.reason,
+            txHash:    run.txHash,
+            createdAt: run.createdAt.toISOString(),
+          },
+        }
+      }),
+    })
+  } catch (err) {
+    logger.error({ err }, "[admin/keepers GET] Error")
+    res.status(500).json({ error: "Failed to list keepers" })
+  }
+})
+
+for (const action of ["pause", "resume"] as const) {
+  router.post(`/keepers/:keeper/${action}`, requireAdmin, async (req: Request, res: Response) => {
+    const keeper = req.params.keeper
+    if (!isKeeper(keeper)) {
+      res.status(404).json({ error: `Unknown keeper: ${keeper} (expected ${KEEPERS.join(" | ")})` })
+      return
+    }
+
+    try {
+      await setKeeperPaused(keeper, action === "pause")
+      res.json({ ok: true, keeper, paused: action === "pause" })
+    } catch (err) {
+      logger.error({ err }, `[admin/keepers ${action}] Error`)
+      res.status(500).json({ error: `Failed to ${action} keeper` })
+    }
+  })
+}
+
 export default router
@@ -0,0 +1,151 @@
+import { Router, Request, Response } from "express"
+import { prisma, getTimeRangeStart, parseTimeParam } from "../lib/db"
+import { parseChainParam } from "../lib/chains"
+
+const router = Router()
+
+/**
+ * GET /bad-debt?range=24h|7d|30d|90d|all&from=<time>&to=<time>&vault=<addr>&marketId=<id>&borrower=<addr>&limit=<n>&chain=<id|name>
+ * Bad-debt ledger (BadDebtRecorded / CollateralSeized) over a time window —
+ * `from`/`to` (ISO or unix seconds) override `range`, which defaults to all
+ * time. Per market: bad debt in the window, the running total at the end of
+ * it, and that total as a share of the vault's latest totalAssets in USD —
+ * the loss socialised to lenders. Per borrower: the same two figures.
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const range = (req.query.range as string) || "all"
+    const limit = Math.min(Number(req.query.limit || "100"), 500)
+    const vault = req.query.vault as string | undefined
+    const marketId = req.query.marketId as string | undefined
+    const borrower = (req.query.borrower as string | undefined)?.toLowerCase()
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+
+    const fromParam = parseTimeParam(req.query.from)
+    const toParam = parseTimeParam(req.query.to)
+    if (fromParam === null || toParam === null) {
+      res.status(400).json({ error: "from and to must be ISO dates or unix seconds" })
+      return
+    }
+    const from = fromParam ?? (range === "all" ? new Date(0) : getTimeRangeStart(range))
+    const to = toParam ?? new Date()
+
+    const markets = await prisma.market.findMany({
+      where: {
+        isActive: true,
+        ...(vault && { vaultAddress: { equals: vault, mode: "insensitive" } }),
+        ...(marketId && { id: marketId }),
+        ...(chainId !== undefined && { chainId }),
+      },
+      orderBy: { createdAt: "asc" },
+    })
+    const marketIds = markets.map((m) => m.id)
+
+    const inWindow = {
+      marketId:  { in: marketIds },
+      timestamp: { gte: from, lte: to },
+      ...(borrower && { borrower }),
+    }
+    const upToEnd = { marketId: { in: marketIds }, timestamp: { lte: to } }
+    const ledgerOrder = [{ blockNumber: "desc" as const }, { logIndex: "desc" as const }]
+
+    const [events, windowByMarket, windowByBorrower, marketTotals, borrowerTotals, snapshots] = await Promise.all([
+      prisma.badDebtEvent.findMany({ where: inWindow, orderBy: ledgerOrder, take: limit }),
+      prisma.badDebtEvent.groupBy({
+        by:    ["marketId"],
+        where: { ...inWindow, eventName: "BadDebtRecorded" },
+        _sum:  { amount: true },
+      }),
+      prisma.badDebtEvent.groupBy({
+        by:    ["marketId", "borrower"],
+        where: { ...inWindow, eventName: "BadDebtRecorded" },
+        _sum:  { amount: true },
+      }),
+      // Latest row per market / borrower carries the running total
+      prisma.badDebtEvent.findMany({
+        where:    upToEnd,
+        orderBy:  ledgerOrder,
+        distinct: ["marketId"],
+        select:   { marketId: true, marketBadDebt: true },
+      }),
+      prisma.badDebtEvent.findMany({
+        where:    { ...upToEnd, ...(borrower && { borrower }) },
+        orderBy:  ledgerOrder,
+        distinct: ["marketId", "borrower"],
+        select:   { marketId: true, borrower: true, borrowerBadDebt: true },
+      }),
+      prisma.marketSnapshot.findMany({
+        where:    { marketId: { in: marketIds } },
+        orderBy:  { timestamp: "desc" },
+        distinct: ["marketId"],
+        select:   { marketId: true, totalSupply: true, oraclePrice: true },
+      }),
+    ])
+
+    const windowSum = (id: string, who?: string) =>
+      Number(
+        (who === undefined
+          ? windowByMarket.find((w) => w.marketId === id)?._sum.amount
+          : windowByBorrower.find((w) => w.marketId === id && w.borrower === who)?._sum.amount) ?? 0
+      )
+
+    res.json({
+      range,
+      from: from.toISOString(),
+      to:   to.toISOString(),
+      markets: markets.map((m) => {
+        const cumulative  = Number(marketTotals.find((t) => t.marketId === m.id)?.marketBadDebt ?? 0)
+        const snapshot    = snapshots.find((s) => s.marketId === m.id)
+        const totalAssets = snapshot ? Number(snapshot.totalSupply) : null
+        const assetsUsd   = snapshot ? Number(snapshot.totalSupply) * Number(snapshot.oraclePrice) : null
+        return {
+          marketId:          m.id,
+          chainId:           m.chainId,
+          label:             m.label,
+          symbol:            m.symbol,
+          vaultAddress:      m.vaultAddress,
+          badDebt:           windowSum(m.id),
+          cumulativeBadDebt: cumulative,
+          totalAssets,
+          totalAssetsUsd:    assetsUsd,
+          // Cumulative loss against current vault size
+          badDebtShare:      assetsUsd ? cumulative / assetsUsd : null,
+        }
+      }),
+      borrowers: borrowerTotals
+        .map((t) => ({
+          borrower:          t.borrower,
+          marketId:          t.marketId,
+          badDebt:           windowSum(t.marketId, t.borrower),
+          cumulativeBadDebt: Number(t.borrowerBadDebt),
+        }))
+        .filter((b) => b.cumulativeBadDebt > 0)
+        .sort((a, b) => b.cumulativeBadDebt - a.cumulativeBadDebt)
+        .slice(0, limit),
+      events: events.map((e) => ({
+        eventName:       e.eventName,
+        marketId:        e.marketId,
+        borrower:        e.borrower,
+        liquidator:      e.liquidator,
+        token:           e.token,
+        amount:          Number(e.amount),
+        marketBadDebt:   Number(e.marketBadDebt),
+        borrowerBadDebt: Number(e.borrowerBadDebt),
+        txHash:          e.txHash,
+        blockNumber:     e.blockNumber,
+        logIndex:        e.logIndex,
+        timestamp:       e.timestamp.toISOString(),
+      })),
+      count: events.length,
+    })
+  } catch (error) {
+    console.error("[routes/bad-debt] Error:", error)
+    res.status(500).json({ error: "Failed to fetch bad debt" })
+  }
+})
+
+export default router
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from "express"
-import { getMarketSnapshotsInRange, getTimeRangeStart } from "../lib/db"
+import { getMarketRollupsInRange, getMarketSnapshotsInRange, getTimeRangeStart, parseTimeParam } from "../lib/db"
+import { parseChainParam } from "../lib/chains"
+import { retentionCutoff } from "../indexer/snapshot-rollups"
 import type { SeverityLevel } from "../lib/severity"
 
 const DEFAULT_VAULT = process.env.DEFAULT_VAULT_ADDRESS ?? ""
@@ -7,13 +9,52 @@ const DEFAULT_VAULT = process.env.DEFAULT_VAULT_ADDRESS ?? ""
 type SignalType = "liquidity" | "utilization" | "borrowRate" | "oracle" | "velocity"
 const VALID_SIGNALS: SignalType[] = ["liquidity", "utilization", "borrowRate", "oracle", "velocity"]
 
+type Resolution = "raw" | "hour" | "day"
+const VALID_RESOLUTIONS: Resolution[] = ["raw", "hour", "day"]
+
+// Longest window served at each resolution when none is asked for
+const RAW_MAX_SPAN_MS  = 2 * 24 * 60 * 60 * 1000
+const HOUR_MAX_SPAN_MS = 31 * 24 * 60 * 60 * 1000
+
+// Per signal: the snapshot field charted, its scale, and the severity dimension
+const SIGNAL_FIELDS = {
+  liquidity:   { field: "liquidityDepthRatio", scale: 1, severity: "liquiditySeverity" },
+  utilization: { field: "utilizationRate", scale: 100, severity: "aprConvexitySeverity" },
+  borrowRate:  { field: "borrowRate", scale: 100, severity: "aprConvexitySeverity" },
+  oracle:      { field: "oracleConfidence", scale: 1, severity: "oracleSeverity" },
+} as const
+
+/**
+ * Raw snapshots for windows of up to 2 days still inside the minute-level
+ * retention window, hourly rollups up to 31 days, daily rollups beyond.
+ */
+function autoResolution(from: Date, to: Date): Resolution {
+  const span   = to.getTime() - from.getTime()
+  const cutoff = retentionCutoff()
+  if (span <= RAW_MAX_SPAN_MS && (!cutoff || from >= cutoff)) return "raw"
+  return span <= HOUR_MAX_SPAN_MS ? "hour" : "day"
+}
+
 const router = Router()
 
+/**
+ * GET /history?signal=<signal>&range=24h|7d|30d|90d&from=<time>&to=<time>&resolution=raw|hour|day&vault=<addr>&chain=<id|name>
+ * One signal's time series. `from`/`to` (ISO or unix seconds) override
+ * `range`, which defaults to 24h. Without `resolution` the series comes from
+ * raw snapshots or hourly/daily rollups depending on the window; rollup
+ * points carry the bucket's average as `value`, its min and max, and its
+ * worst severity.
+ */
 router.get("/", async (req: Request, res: Response) => {
   try {
     const signal = req.query.signal as SignalType | undefined
     const range = (req.query.range as string) || "24h"
     const vaultAddress = (req.query.vault as string) || DEFAULT_VAULT
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
 
     if (!signal) {
       res.status(400).json({
@@ -32,47 +73,55 @@ router.get("/", async (req: Request, res: Response) => {
       return
     }
 
-    const startTime = getTimeRangeStart(range)
-    const snapshots = await getMarketSnapshotsInRange(vaultAddress, startTime)
-
-    const data = snapshots.map((snapshot) => {
-      let value: number
-      let severity: SeverityLevel
-
-      switch (signal) {
-        case "liquidity":
-          value = Number(snapshot.liquidityDepthRatio)
-          severity = snapshot.liquiditySeverity as SeverityLevel
-          break
-        case "utilization":
-          value = Number(snapshot.utilizationRate) * 100
-          severity = snapshot.aprConvexitySeverity as SeverityLevel
-          break
-        case "borrowRate":
-          value = Number(snapshot.borrowRate) * 100
-          severity = snapshot.aprConvexitySeverity as SeverityLevel
-          break
-        case "oracle":
-          value = snapshot.oracleConfidence
-          severity = snapshot.oracleSeverity as SeverityLevel
-          break
-        case "velocity":
-          value = 0
-          severity = 0
-          break
-        default:
-          value = 0
-          severity = 0
-      }
-
-      return {
-        timestamp: snapshot.timestamp.toISOString(),
-        value,
-        severity,
-      }
-    })
-
-    res.json({ signal, range, data })
+    const resolutionParam = req.query.resolution as Resolution | undefined
+    if (resolutionParam !== undefined && !VALID_RESOLUTIONS.includes(resolutionParam)) {
+      res.status(400).json({ error: `Invalid resolution. Options: ${VALID_RESOLUTIONS.join(", ")}` })
+      return
+    }
+
+    const fromParam = parseTimeParam(req.query.from)
+    const toParam = parseTimeParam(req.query.to)
+    if (fromParam === null || toParam === null) {
+      res.status(400).json({ error: "from and to must be ISO dates or unix seconds" })
+      return
+    }
+    const from = fromParam ?? getTimeRangeStart(range)
+    const to = toParam ?? new Date()
+    if (from >= to) {
+      res.status(400).json({ error: "from must be before to" })
+      return
+    }
+
+    const resolution = resolutionParam ?? autoResolution(from, to)
+    let data: Array<{ timestamp: string; value: number; min: number; max: number; severity: SeverityLevel }>
+
+    // Velocity has no stored series yet — zeros on the same timeline
+    const spec = signal === "velocity" ? null : SIGNAL_FIELDS[signal]
+
+    if (resolution === "raw") {
+      const snapshots = await getMarketSnapshotsInRange(vaultAddress, from, to, chainId)
+      data = snapshots.map((snapshot) => {
+        const value = spec ? Number(snapshot[spec.field]) * spec.scale : 0
+        return {
+          timestamp: snapshot.timestamp.toISOString(),
+          value,
+          min: value,
+          max: value,
+          severity: (spec ? snapshot[spec.severity] : 0) as SeverityLevel,
+        }
+      })
+    } else {
+      const rollups = await getMarketRollupsInRange(vaultAddress, resolution, from, to, chainId)
+      data = rollups.map((bucket) => ({
+        timestamp: bucket.bucketStart.toISOString(),
+        value: spec ? Number(bucket[`${spec.field}Avg`]) * spec.scale : 0,
+        min: spec ? Number(bucket[`${spec.field}Min`]) * spec.scale : 0,
+        max: spec ? Number(bucket[`${spec.field}Max`]) * spec.scale : 0,
+        severity: (spec ? bucket[`${spec.severity}Max`] : 0) as SeverityLevel,
+      }))
+    }
+
+    res.json({ signal, range, resolution, from: from.toISOString(), to: to.toISOString(), data })
   } catch (error) {
     console.error("[routes/history] Error:", error)
     res.status(500).json({ error: "Failed to fetch history" })
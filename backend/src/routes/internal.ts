@@ -4,8 +4,9 @@
  * Secured endpoints for operational recovery and scheduled aggregation.
  * Never expose these publicly — always require Authorization: Bearer <SECRET>.
  *
- * POST /internal/resync
- *   Replays from lastProcessedBlock - REORG_BUFFER to current safeHead.
+ * POST /internal/resync?chain=<id|name>
+ *   Replays from lastProcessedBlock - REORG_BUFFER to current safeHead, per
+ *   chain (all configured chains unless `chain` is given).
  *   Use when you suspect missed blocks or after a manual DB repair.
  *   Secured with ADMIN_SECRET.
  *
@@ -13,13 +14,75 @@
  *   Recomputes MarketSnapshot for all active markets via on-chain multicall.
  *   Called by GitHub Actions cron every 5 minutes.
  *   Secured with CRON_SECRET.
+ *
+ * GET /internal/failed-blocks?chain=<id|name>
+ *   Lists the dead-letter queue of blocks that failed processing.
+ *   Secured with ADMIN_SECRET.
+ *
+ * POST /internal/failed-blocks/retry   { chainId?: number, blockNumber?: number }
+ *   Re-processes one queued block (chainId + blockNumber), or every queued
+ *   block (of chainId, if given), ignoring the backoff schedule.
+ *   Secured with ADMIN_SECRET.
+ *
+ * POST /internal/reindex   { marketId: string, fromBlock: number, toBlock: number }
+ *   Deletes and rebuilds one market's liquidations, lender flows and
+ *   event-sourced snapshots/positions over the range, in the background.
+ *   Repeating the request for an interrupted job resumes it from its
+ *   checkpoint. SyncState is left alone. Secured with ADMIN_SECRET.
+ *
+ * GET /internal/reindex?marketId=<id>   GET /internal/reindex/:id
+ *   Reindex jobs with progress. Secured with ADMIN_SECRET.
+ *
+ * GET /internal/positions/drift?marketId=<id>
+ *   Event-sourced positions that disagreed with getUserPosition at their last
+ *   reconciliation, with the differing fields. Secured with ADMIN_SECRET.
+ *
+ * POST /internal/positions/rebuild   { marketId: string }
+ *   Drops and refolds one market's positions and collateral balances from the
+ *   event ledger. Secured with ADMIN_SECRET.
+ *
+ * POST /internal/positions/sweep?chain=<id|name>
+ *   Runs the open-borrower health sweep now, on one chain or all of them.
+ *   Secured with ADMIN_SECRET.
+ *
+ * POST /internal/liquidator/run?chain=<id|name>&dryRun=<true|false>
+ *   Runs the liquidation bot once, on one chain or all of them, whether or not
+ *   LIQUIDATOR_ENABLED is set. dryRun overrides LIQUIDATOR_DRY_RUN.
+ *   Secured with ADMIN_SECRET.
+ *
+ * GET /internal/liquidator/runs?marketId=<id>&status=<status>&limit=<n>
+ *   The liquidation bot's run log, newest first. Secured with ADMIN_SECRET.
+ *
+ * POST /internal/keepers/run?chain=<id|name>
+ *   Runs the keepers once, on one chain or all of them, whether or not
+ *   KEEPER_ENABLED is set. Paused keepers stay paused. Secured with ADMIN_SECRET.
+ *
+ * GET /internal/keepers/runs?keeper=<name>&chain=<id|name>&status=<status>&limit=<n>
+ *   The keepers' run log, newest first. Secured with ADMIN_SECRET.
  */
 
 import { Router, Request, Response } from "express"
-import { client, CONFIRMATIONS, REORG_BUFFER, DEPLOYMENT_BLOCK, CHAIN_ID } from "../lib/rpc"
+import { CHAINS, getChain, isConfiguredChain, parseChainParam } from "../lib/chains"
 import { processBlockRange, getSyncState } from "../indexer/block-processor"
 import { computeAndSaveMarketSnapshot } from "../indexer/snapshot"
-import { activeMarkets } from "../indexer/index"
+import { activeMarkets, marketsOnChain } from "../indexer/index"
+import { listFailedBlocks, retryFailedBlock, retryFailedBlocks } from "../indexer/failed-blocks"
+import {
+  getReindexJob,
+  listReindexJobs,
+  prepareMarketReindex,
+  reindexProgress,
+  runMarketReindex,
+  ReindexRangeError,
+  ReindexRunningError,
+} from "../indexer/reindex"
+import { toMarketConfig } from "../indexer/listener"
+import { rebuildMarketPositions } from "../indexer/position-state"
+import { sweepBorrowers } from "../indexer/health-sweep"
+import { runLiquidator } from "../jobs/liquidator"
+import { KEEPERS, isKeeper, runKeepers } from "../jobs/keeper"
+import { prisma } from "../lib/db"
+import { Prisma, type ReindexJob } from "../generated/prisma/client"
 import { logger } from "../lib/logger"
 
 const router = Router()
@@ -46,39 +109,54 @@ function requireBearer(secret: string | undefined) {
 router.post(
   "/resync",
   requireBearer(process.env.ADMIN_SECRET),
-  async (_req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
     const started = Date.now()
-    logger.info("[internal/resync] Starting resync")
+
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null || (chainId !== undefined && !isConfiguredChain(chainId))) {
+      res.status(400).json({ error: `Unknown or unconfigured chain: ${req.query.chain}` })
+      return
+    }
+
+    if (activeMarkets.length === 0) {
+      res.status(503).json({ error: "No active markets loaded — start the indexer first" })
+      return
+    }
+
+    const chains = chainId !== undefined ? [getChain(chainId)] : CHAINS
+    logger.info({ chains: chains.map((c) => c.chainId) }, "[internal/resync] Starting resync")
 
     try {
-      const syncState    = await getSyncState()
-      const currentBlock = await client.getBlockNumber()
-      const safeHead     = currentBlock - BigInt(CONFIRMATIONS)
+      const replayed: Array<{ chainId: number; from: number; to: number }> = []
 
-      // Replay from lastProcessedBlock - REORG_BUFFER (or DEPLOYMENT_BLOCK, whichever is later)
-      const replayFrom = syncState
-        ? BigInt(Math.max(syncState.lastProcessedBlock - REORG_BUFFER, Number(DEPLOYMENT_BLOCK)))
-        : DEPLOYMENT_BLOCK
+      for (const chain of chains) {
+        const markets = marketsOnChain(chain.chainId)
+        if (markets.length === 0) continue
 
-      if (activeMarkets.length === 0) {
-        res.status(503).json({ error: "No active markets loaded — start the indexer first" })
-        return
-      }
+        const syncState    = await getSyncState(chain.chainId)
+        const currentBlock = await chain.client.getBlockNumber()
+        const safeHead     = currentBlock - BigInt(chain.confirmations)
 
-      logger.info(
-        { from: Number(replayFrom), to: Number(safeHead) },
-        "[internal/resync] Replaying blocks"
-      )
+        // Replay from lastProcessedBlock - REORG_BUFFER (or DEPLOYMENT_BLOCK, whichever is later)
+        const replayFrom = syncState
+          ? BigInt(Math.max(syncState.lastProcessedBlock - chain.reorgBuffer, Number(chain.deploymentBlock)))
+          : chain.deploymentBlock
+
+        logger.info(
+          { chainId: chain.chainId, from: Number(replayFrom), to: Number(safeHead) },
+          "[internal/resync] Replaying blocks"
+        )
 
-      await processBlockRange(replayFrom, safeHead, activeMarkets)
+        await processBlockRange(chain, replayFrom, safeHead, markets)
+        replayed.push({ chainId: chain.chainId, from: Number(replayFrom), to: Number(safeHead) })
+      }
 
       const durationMs = Date.now() - started
       logger.info({ durationMs }, "[internal/resync] Complete")
 
       res.json({
         ok: true,
-        from: Number(replayFrom),
-        to: Number(safeHead),
+        chains: replayed,
         durationMs,
       })
     } catch (err) {
@@ -125,4 +203,458 @@ router.post(
   }
 )
 
+// ─── GET /internal/failed-blocks ──────────────────────────────────────────────
+
+router.get(
+  "/failed-blocks",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+
+    try {
+      const rows = await listFailedBlocks(chainId)
+      res.json({
+        count: rows.length,
+        blocks: rows.map((r) => ({
+          chainId:       r.chainId,
+          blockNumber:   r.blockNumber,
+          error:         r.error,
+          attempts:      r.attempts,
+          firstFailedAt: r.firstFailedAt.toISOString(),
+          lastAttemptAt: r.lastAttemptAt.toISOString(),
+          nextRetryAt:   r.nextRetryAt.toISOString(),
+        })),
+      })
+    } catch (err) {
+      logger.error({ err }, "[internal/failed-blocks] Error")
+      res.status(500).json({ error: "Failed to list failed blocks" })
+    }
+  }
+)
+
+// ─── POST /internal/failed-blocks/retry ───────────────────────────────────────
+
+router.post(
+  "/failed-blocks/retry",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const { chainId, blockNumber } = (req.body ?? {}) as { chainId?: unknown; blockNumber?: unknown }
+
+    if (blockNumber !== undefined && (!Number.isInteger(blockNumber) || (blockNumber as number) < 0)) {
+      res.status(400).json({ error: "blockNumber must be a non-negative integer" })
+      return
+    }
+
+    if (chainId !== undefined && (!Number.isInteger(chainId) || !isConfiguredChain(chainId as number))) {
+      res.status(400).json({ error: `chainId is not a configured chain: ${chainId}` })
+      return
+    }
+
+    if (blockNumber !== undefined && chainId === undefined) {
+      res.status(400).json({ error: "chainId is required with blockNumber" })
+      return
+    }
+
+    if (activeMarkets.length === 0) {
+      res.status(503).json({ error: "No active markets loaded — start the indexer first" })
+      return
+    }
+
+    try {
+      if (blockNumber !== undefined) {
+        const result = await retryFailedBlock(chainId as number, blockNumber as number, activeMarkets)
+        if (!result) {
+          res.status(404).json({ error: `Block ${blockNumber} on chain ${chainId} is not in the failed block queue` })
+          return
+        }
+        res.json({ ok: result.ok, results: [result] })
+        return
+      }
+
+      const results = await retryFailedBlocks(activeMarkets, { force: true, chainId: chainId as number | undefined })
+      logger.info(
+        { retried: results.length, recovered: results.filter((r) => r.ok).length },
+        "[internal/failed-blocks] Retry complete"
+      )
+      res.json({ ok: results.every((r) => r.ok), results })
+    } catch (err) {
+      logger.error({ err }, "[internal/failed-blocks/retry] Error")
+      res.status(500).json({
+        error: "Retry failed",
+        details: err instanceof Error ? err.message : "Unknown",
+      })
+    }
+  }
+)
+
+// ─── /internal/reindex ────────────────────────────────────────────────────────
+
+function serializeReindexJob(job: ReindexJob) {
+  return {
+    id:         job.id,
+    marketId:   job.marketId,
+    fromBlock:  job.fromBlock,
+    toBlock:    job.toBlock,
+    lastBlock:  job.lastBlock,
+    progress:   reindexProgress(job),
+    status:     job.status,
+    error:      job.error,
+    startedAt:  job.startedAt.toISOString(),
+    updatedAt:  job.updatedAt.toISOString(),
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+  }
+}
+
+router.post(
+  "/reindex",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const { marketId, fromBlock, toBlock } = (req.body ?? {}) as Record<string, unknown>
+
+    if (typeof marketId !== "string" || marketId === "") {
+      res.status(400).json({ error: "marketId is required" })
+      return
+    }
+    for (const [field, value] of [["fromBlock", fromBlock], ["toBlock", toBlock]] as const) {
+      if (!Number.isInteger(value) || (value as number) < 0) {
+        res.status(400).json({ error: `${field} must be a non-negative integer` })
+        return
+      }
+    }
+
+    try {
+      const row = await prisma.market.findUnique({ where: { id: marketId } })
+      if (!row) {
+        res.status(404).json({ error: `Market not found: ${marketId}` })
+        return
+      }
+      if (!isConfiguredChain(row.chainId)) {
+        res.status(400).json({ error: `Chain ${row.chainId} is not configured on this server` })
+        return
+      }
+
+      const market = toMarketConfig(row)
+      const job    = await prepareMarketReindex(market, fromBlock as number, toBlock as number)
+
+      // Failures are recorded on the job and logged by runMarketReindex
+      runMarketReindex(job, market).catch(() => {})
+
+      res.status(202).json(serializeReindexJob(job))
+    } catch (err) {
+      if (err instanceof ReindexRangeError) {
+        res.status(400).json({ error: err.message })
+        return
+      }
+      if (err instanceof ReindexRunningError) {
+        res.status(409).json({ error: err.message, job: serializeReindexJob(err.job) })
+        return
+      }
+      logger.error({ err }, "[internal/reindex] Error")
+      res.status(500).json({
+        error: "Reindex failed to start",
+        details: err instanceof Error ? err.message : "Unknown",
+      })
+    }
+  }
+)
+
+router.get(
+  "/reindex",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const marketId = typeof req.query.marketId === "string" ? req.query.marketId : undefined
+
+    try {
+      const jobs = await listReindexJobs(marketId)
+      res.json({ count: jobs.length, jobs: jobs.map(serializeReindexJob) })
+    } catch (err) {
+      logger.error({ err }, "[internal/reindex] Error")
+      res.status(500).json({ error: "Failed to list reindex jobs" })
+    }
+  }
+)
+
+router.get(
+  "/reindex/:id",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const id = Number(req.params.id as string)
+    if (!Number.isInteger(id)) {
+      res.status(400).json({ error: "id must be an integer" })
+      return
+    }
+
+    try {
+      const job = await getReindexJob(id)
+      if (!job) {
+        res.status(404).json({ error: `Reindex job not found: ${id}` })
+        return
+      }
+      res.json(serializeReindexJob(job))
+    } catch (err) {
+      logger.error({ err }, "[internal/reindex/:id] Error")
+      res.status(500).json({ error: "Failed to load reindex job" })
+    }
+  }
+)
+
+// ─── /internal/positions ──────────────────────────────────────────────────────
+
+router.get(
+  "/positions/drift",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const marketId = typeof req.query.marketId === "string" ? req.query.marketId : undefined
+
+    try {
+      const rows = await prisma.userPosition.findMany({
+        where:   { drift: { not: Prisma.DbNull }, ...(marketId && { marketId }) },
+        orderBy: { driftCheckedAt: "desc" },
+      })
+      res.json({
+        count: rows.length,
+        positions: rows.map((p) => ({
+          userAddress:    p.userAddress,
+          marketId:       p.marketId,
+          blockNumber:    p.blockNumber,
+          driftBlock:     p.driftBlock,
+          driftCheckedAt: p.driftCheckedAt?.toISOString() ?? null,
+          drift:          p.drift,
+        })),
+      })
+    } catch (err) {
+      logger.error({ err }, "[internal/positions/drift] Error")
+      res.status(500).json({ error: "Failed to list position drift" })
+    }
+  }
+)
+
+router.post(
+  "/positions/rebuild",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const { marketId } = (req.body ?? {}) as Record<string, unknown>
+
+    if (typeof marketId !== "string" || marketId === "") {
+      res.status(400).json({ error: "marketId is required" })
+      return
+    }
+
+    try {
+      const row = await prisma.market.findUnique({ where: { id: marketId } })
+      if (!row) {
+        res.status(404).json({ error: `Market not found: ${marketId}` })
+        return
+      }
+
+      const started   = Date.now()
+      const positions = await rebuildMarketPositions(toMarketConfig(row))
+      res.json({ ok: true, marketId, positions, durationMs: Date.now() - started })
+    } catch (err) {
+      logger.error({ err }, "[internal/positions/rebuild] Error")
+      res.status(500).json({
+        error: "Position rebuild failed",
+        details: err instanceof Error ? err.message : "Unknown",
+      })
+    }
+  }
+)
+
+router.post(
+  "/positions/sweep",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null || (chainId !== undefined && !isConfiguredChain(chainId))) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+
+    try {
+      const chainIds = chainId !== undefined ? [chainId] : [...new Set(activeMarkets.map((m) => m.chainId))]
+      const results = []
+      for (const id of chainIds) {
+        results.push({ chainId: id, ...(await sweepBorrowers(id, activeMarkets)) })
+      }
+      res.json({ ok: true, results })
+    } catch (err) {
+      logger.error({ err }, "[internal/positions/sweep] Error")
+      res.status(500).json({
+        error: "Health sweep failed",
+        details: err instanceof Error ? err.message : "Unknown",
+      })
+    }
+  }
+)
+
+// ─── /internal/liquidator ─────────────────────────────────────────────────────
+
+router.post(
+  "/liquidator/run",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null || (chainId !== undefined && !isConfiguredChain(chainId))) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+    const dryRun = req.query.dryRun
+    if (dryRun !== undefined && dryRun !== "true" && dryRun !== "false") {
+      res.status(400).json({ error: "dryRun must be true or false" })
+      return
+    }
+
+    try {
+      const chainIds = chainId !== undefined ? [chainId] : [...new Set(activeMarkets.map((m) => m.chainId))]
+      const results = []
+      for (const id of chainIds) {
+        results.push({
+          chainId: id,
+          ...(await runLiquidator(id, dryRun !== undefined ? { dryRun: dryRun === "true" } : {})),
+        })
+      }
+      res.json({ ok: true, results })
+    } catch (err) {
+      logger.error({ err }, "[internal/liquidator/run] Error")
+      res.status(500).json({
+        error: "Liquidator run failed",
+        details: err instanceof Error ? err.message : "Unknown",
+      })
+    }
+  }
+)
+
+router.get(
+  "/liquidator/runs",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const marketId = typeof req.query.marketId === "string" ? req.query.marketId : undefined
+    const status   = typeof req.query.status === "string" ? req.query.status : undefined
+    const limit    = Number(req.query.limit || "100")
+    if (!Number.isInteger(limit) || limit < 1) {
+      res.status(400).json({ error: "limit must be a positive integer" })
+      return
+    }
+
+    try {
+      const rows = await prisma.liquidationRun.findMany({
+        where:   { ...(marketId && { marketId }), ...(status && { status }) },
+        orderBy: { id: "desc" },
+        take:    Math.min(limit, 500),
+      })
+      res.json({
+        count: rows.length,
+        runs: rows.map((r) => ({
+          id:             r.id,
+          marketId:       r.marketId,
+          borrower:       r.borrower,
+          blockNumber:    r.blockNumber,
+          status:         r.status,
+          reason:         r.reason,
+          healthFactor:   Number(r.healthFactor),
+          repayAmount:    Number(r.repayAmount),
+          seizedValue:    Number(r.seizedValue),
+          gasEstimate:    r.gasEstimate,
+          gasCost:        r.gasCost !== null ? Number(r.gasCost) : null,
+          expectedProfit: r.expectedProfit !== null ? Number(r.expectedProfit) : null,
+          txHash:         r.txHash,
+          gasUsed:        r.gasUsed,
+          createdAt:      r.createdAt.toISOString(),
+          updatedAt:      r.updatedAt.toISOString(),
+        })),
+      })
+    } catch (err) {
+      logger.error({ err }, "[internal/liquidator/runs] Error")
+      res.status(500).json({ error: "Failed to list liquidator runs" })
+    }
+  }
+)
+
+// ─── /internal/keepers ────────────────────────────────────────────────────────
+
+router.post(
+  "/keepers/run",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null || (chainId !== undefined && !isConfiguredChain(chainId))) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+
+    try {
+      const chainIds = chainId !== undefined ? [chainId] : [...new Set(activeMarkets.map((m) => m.chainId))]
+      const results = []
+      for (const id of chainIds) {
+        results.push({ chainId: id, ...(await runKeepers(id, activeMarkets)) })
+      }
+      res.json({ ok: true, results })
+    } catch (err) {
+      logger.error({ err }, "[internal/keepers/run] Error")
+      res.status(500).json({
+        error: "Keeper run failed",
+        details: err instanceof Error ? err.message : "Unknown",
+      })
+    }
+  }
+)
+
+router.get(
+  "/keepers/runs",
+  requireBearer(process.env.ADMIN_SECRET),
+  async (req: Request, res: Response) => {
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+    const keeper = req.query.keeper
+    if (keeper !== undefined && !isKeeper(keeper)) {
+      res.status(400).json({ error: `keeper must be one of ${KEEPERS.join(", ")}` })
+      return
+    }
+    const status = typeof req.query.status === "string" ? req.query.status : undefined
+    const limit  = Number(req.query.limit || "100")
+    if (!Number.isInteger(limit) || limit < 1) {
+      res.status(400).json({ error: "limit must be a positive integer" })
+      return
+    }
+
+    try {
+      const rows = await prisma.keeperRun.findMany({
+        where:   { ...(keeper && { keeper }), ...(chainId !== undefined && { chainId }), ...(status && { status }) },
+        orderBy: { id: "desc" },
+        take:    Math.min(limit, 500),
+      })
+      res.json({
+        count: rows.length,
+        runs: rows.map((r) => ({
+          id:          r.id,
+          keeper:      r.keeper,
+          chainId:     r.chainId,
+          target:      r.target,
+          asset:       r.asset,
+          ageSeconds:  r.ageSeconds,
+          blockNumber: r.blockNumber,
+          status:      r.status,
+          reason:      r.reason,
+          txHash:      r.txHash,
+          nonce:       r.nonce,
+          gasUsed:     r.gasUsed,
+          gasCost:     r.gasCost !== null ? Number(r.gasCost) : null,
+          createdAt:   r.createdAt.toISOString(),
+          updatedAt:   r.updatedAt.toISOString(),
+        })),
+      })
+    } catch (err) {
+      logger.error({ err }, "[internal/keepers/runs] Error")
+      res.status(500).json({ error: "Failed to list keeper runs" })
+    }
+  }
+)
+
 export default router
@@ -1,23 +1,31 @@
 import { Router, Request, Response } from "express"
 import { prisma } from "../lib/db"
+import { parseChainParam } from "../lib/chains"
 
 const router = Router()
 
 router.get("/", async (req: Request, res: Response) => {
   try {
     const limit = Math.min(Number(req.query.limit || "20"), 100)
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
 
     const liquidations = await prisma.liquidationEvent.findMany({
+      where: chainId !== undefined ? { market: { chainId } } : {},
       orderBy: { timestamp: "desc" },
       take: limit,
       include: {
-        market: { select: { label: true, symbol: true, vaultAddress: true } },
+        market: { select: { label: true, symbol: true, vaultAddress: true, chainId: true } },
       },
     })
 
     res.json({
       liquidations: liquidations.map((l) => ({
         id: l.id,
+        chainId: l.market.chainId,
         market: l.market.label,
         symbol: l.market.symbol,
         borrower: l.borrower,
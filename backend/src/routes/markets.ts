@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express"
 import { prisma } from "../lib/db"
+import { parseChainParam } from "../lib/chains"
 import { computeProtocolSeverity, type SeverityLevel } from "../lib/severity"
 
 const router = Router()
@@ -24,9 +25,17 @@ async function getMarketParams(marketId: string) {
   }
 }
 
-router.get("/", async (_req: Request, res: Response) => {
+router.get("/", async (req: Request, res: Response) => {
   try {
-    const markets = await prisma.market.findMany({ where: { isActive: true } })
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+
+    const markets = await prisma.market.findMany({
+      where: { isActive: true, ...(chainId !== undefined && { chainId }) },
+    })
 
     const vaults = await Promise.all(
       markets.map(async (market) => {
@@ -39,6 +48,7 @@ router.get("/", async (_req: Request, res: Response) => {
         ])
 
         const base = {
+          chainId:       market.chainId,
           vaultAddress:  market.vaultAddress,
           marketAddress: market.marketAddress,
           label:         market.label,
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express"
 import { getLatestMarketSnapshot } from "../lib/db"
+import { parseChainParam } from "../lib/chains"
 import type { SeverityLevel } from "../lib/severity"
 
 const DEFAULT_VAULT = process.env.DEFAULT_VAULT_ADDRESS ?? ""
@@ -9,13 +10,18 @@ const router = Router()
 router.get("/", async (req: Request, res: Response) => {
   try {
     const vaultAddress = (req.query.vault as string) || DEFAULT_VAULT
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
 
     if (!vaultAddress) {
       res.status(400).json({ error: "Missing 'vault' query parameter and no DEFAULT_VAULT_ADDRESS set" })
       return
     }
 
-    const snapshot = await getLatestMarketSnapshot(vaultAddress)
+    const snapshot = await getLatestMarketSnapshot(vaultAddress, chainId)
 
     if (!snapshot) {
       res.status(404).json({ error: "No metrics available. Start the indexer first." })
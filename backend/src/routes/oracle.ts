@@ -0,0 +1,56 @@
+import { Router, Request, Response } from "express"
+import { prisma, getTimeRangeStart } from "../lib/db"
+import { parseChainParam } from "../lib/chains"
+
+const router = Router()
+
+/**
+ * GET /oracle/:asset/events?range=24h|7d|30d|90d&limit=<n>&chain=<id|name>
+ * Oracle event timeline for one asset — LKG updates, feed and TWAP changes
+ * — plus global events (MaxPriceAgeUpdated) that affect it.
+ */
+router.get("/:asset/events", async (req: Request, res: Response) => {
+  try {
+    const asset = (req.params.asset as string).toLowerCase()
+    const range = (req.query.range as string) || "30d"
+    const limit = Math.min(Number(req.query.limit || "100"), 500)
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+
+    const events = await prisma.oracleEvent.findMany({
+      where: {
+        OR:        [{ asset }, { asset: null }],
+        ...(chainId !== undefined && { chainId }),
+        timestamp: { gte: getTimeRangeStart(range) },
+      },
+      orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }],
+      take: limit,
+    })
+
+    res.json({
+      asset,
+      range,
+      events: events.map((e) => ({
+        chainId:       e.chainId,
+        eventName:     e.eventName,
+        asset:         e.asset,
+        oracleAddress: e.oracleAddress,
+        price:         e.price !== null ? Number(e.price) : null,
+        details:       e.details,
+        txHash:        e.txHash,
+        blockNumber:   e.blockNumber,
+        logIndex:      e.logIndex,
+        timestamp:     e.timestamp.toISOString(),
+      })),
+      count: events.length,
+    })
+  } catch (error) {
+    console.error("[routes/oracle] Error:", error)
+    res.status(500).json({ error: "Failed to fetch oracle events" })
+  }
+})
+
+export default router
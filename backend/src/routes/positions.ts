@@ -1,11 +1,36 @@
 import { Router, Request, Response } from "express"
+import { Prisma } from "../generated/prisma/client"
 import { prisma } from "../lib/db"
+import { parseChainParam } from "../lib/chains"
+import { normalize, WAD } from "../lib/rpc"
+import { toMarketConfig } from "../indexer/listener"
+import { storedPrice } from "../indexer/position-state"
 
 const router = Router()
 
+// Health-factor histogram bucket edges — the last bucket is open-ended
+const HISTOGRAM_EDGES = [0, 1, 1.05, 1.1, 1.25, 1.5, 2, 3]
+
+interface LatestPositionRow {
+  userAddress: string
+  marketId: string
+  collateralValue: Prisma.Decimal
+  totalDebt: Prisma.Decimal
+  healthFactor: Prisma.Decimal
+  borrowingPower: Prisma.Decimal
+  blockNumber: number | null
+  timestamp: Date
+  healthBand: string | null
+}
+
 router.get("/", async (req: Request, res: Response) => {
   try {
     const user = req.query.user as string | undefined
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
 
     if (!user) {
       res.status(400).json({ error: "Missing 'user' query parameter" })
@@ -13,11 +38,14 @@ router.get("/", async (req: Request, res: Response) => {
     }
 
     const positions = await prisma.userPositionSnapshot.findMany({
-      where: { userAddress: user.toLowerCase() },
+      where: {
+        userAddress: user.toLowerCase(),
+        ...(chainId !== undefined && { market: { chainId } }),
+      },
       orderBy: { timestamp: "desc" },
       distinct: ["marketId"],
       include: {
-        market: { select: { label: true, symbol: true, vaultAddress: true } },
+        market: { select: { label: true, symbol: true, vaultAddress: true, chainId: true } },
       },
     })
 
@@ -25,6 +53,7 @@ router.get("/", async (req: Request, res: Response) => {
       user,
       positions: positions.map((p) => ({
         marketId: p.marketId,
+        chainId: p.market.chainId,
         label: p.market.label,
         symbol: p.market.symbol,
         vaultAddress: p.market.vaultAddress,
@@ -41,4 +70,211 @@ router.get("/", async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /positions/at-risk?market=<id|vault|market address>&maxHealthFactor=<n>&limit=<n>&chain=<id|name>
+ * Open borrowers (UserPosition with non-zero principal) by their latest
+ * anchored UserPositionSnapshot — written on each of their events and by the
+ * health sweep, so every open borrower has a recent one — lowest health
+ * factor first. distanceToLiquidation is the share of
+ * collateral value that can be lost before the health factor reaches 1
+ * (1 − 1/HF). Per market, a histogram of every open borrower's health factor,
+ * regardless of maxHealthFactor and limit.
+ */
+router.get("/at-risk", async (req: Request, res: Response) => {
+  try {
+    const market = req.query.market as string | undefined
+    const limit = Number(req.query.limit || "100")
+    const maxHealthFactor = req.query.maxHealthFactor !== undefined ? Number(req.query.maxHealthFactor) : undefined
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      res.status(400).json({ error: "limit must be a positive integer" })
+      return
+    }
+    if (maxHealthFactor !== undefined && Number.isNaN(maxHealthFactor)) {
+      res.status(400).json({ error: "maxHealthFactor must be a number" })
+      return
+    }
+
+    const markets = await prisma.market.findMany({
+      where: {
+        isActive: true,
+        ...(market && {
+          OR: [
+            { id: market },
+            { vaultAddress: { equals: market, mode: "insensitive" } },
+            { marketAddress: { equals: market, mode: "insensitive" } },
+          ],
+        }),
+        ...(chainId !== undefined && { chainId }),
+      },
+      orderBy: { createdAt: "asc" },
+    })
+    if (markets.length === 0) {
+      res.json({ markets: [], positions: [], count: 0 })
+      return
+    }
+
+    // One index probe per open borrower — (marketId, userAddress, blockNumber DESC)
+    const rows = await prisma.$queryRaw<LatestPositionRow[]>`
+      SELECT p."userAddress", p."marketId", s."collateralValue", s."totalDebt", s."healthFactor",
+        s."borrowingPower", s."blockNumber", s."timestamp", p."healthBand"
+      FROM "UserPosition" p
+      CROSS JOIN LATERAL (
+        SELECT * FROM "UserPositionSnapshot" s
+        WHERE s."marketId" = p."marketId" AND s."userAddress" = p."userAddress" AND s."blockNumber" IS NOT NULL
+        ORDER BY s."blockNumber" DESC, s.id DESC
+        LIMIT 1
+      ) s
+      WHERE p."marketId" IN (${Prisma.join(markets.map((m) => m.id))}) AND p.principal > 0
+    `
+
+    const latest = rows
+      .map((r) => ({ ...r, hf: Number(r.healthFactor) }))
+      .sort((a, b) => a.hf - b.hf)
+
+    const positions = latest
+      .filter((r) => maxHealthFactor === undefined || r.hf <= maxHealthFactor)
+      .slice(0, Math.min(limit, 500))
+      .map((r) => {
+        const m = markets.find((m) => m.id === r.marketId)!
+        return {
+          userAddress:           r.userAddress,
+          marketId:              r.marketId,
+          label:                 m.label,
+          symbol:                m.symbol,
+          collateralValue:       Number(r.collateralValue),
+          totalDebt:             Number(r.totalDebt),
+          healthFactor:          r.hf,
+          borrowingPower:        Number(r.borrowingPower),
+          distanceToLiquidation: r.hf > 0 ? Math.max(1 - 1 / r.hf, 0) : 0,
+          healthBand:            r.healthBand,
+          blockNumber:           r.blockNumber,
+          lastUpdated:           r.timestamp.toISOString(),
+        }
+      })
+
+    res.json({
+      markets: markets.map((m) => {
+        const factors = latest.filter((r) => r.marketId === m.id).map((r) => r.hf)
+        return {
+          marketId:     m.id,
+          chainId:      m.chainId,
+          label:        m.label,
+          symbol:       m.symbol,
+          vaultAddress: m.vaultAddress,
+          borrowers:    factors.length,
+          histogram:    HISTOGRAM_EDGES.map((from, i) => {
+            const to = HISTOGRAM_EDGES[i + 1] ?? null
+            return { from, to, count: factors.filter((hf) => hf >= from && (to === null || hf < to)).length }
+          }),
+        }
+      }),
+      positions,
+      count: positions.length,
+    })
+  } catch (error) {
+    console.error("[routes/positions] Error:", error)
+    res.status(500).json({ error: "Failed to fetch at-risk positions" })
+  }
+})
+
+/**
+ * GET /positions/:user/collateral?chain=<id|name>&marketId=<id>&token=<addr>
+ * Collateral backing each of the user's loans, per token, from the
+ * event-sourced UserCollateralBalance table. Tokens are valued at their latest
+ * stored oracle price; paused tokens are listed but excluded from collateral
+ * value on chain. `token` narrows to one asset — e.g. to size a price shock.
+ */
+router.get("/:user/collateral", async (req: Request, res: Response) => {
+  try {
+    const user = (req.params.user as string).toLowerCase()
+    const marketId = req.query.marketId as string | undefined
+    const token = (req.query.token as string | undefined)?.toLowerCase()
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+
+    const balances = await prisma.userCollateralBalance.findMany({
+      where: {
+        userAddress: user,
+        balance: { gt: 0 },
+        ...(marketId && { marketId }),
+        ...(token && { token }),
+        ...(chainId !== undefined && { market: { chainId } }),
+      },
+      orderBy: [{ marketId: "asc" }, { token: "asc" }],
+      include: {
+        market: {
+          select: {
+            chainId: true, label: true, symbol: true, vaultAddress: true,
+            marketAddress: true, irmAddress: true, oracleRouterAddress: true, loanAsset: true, loanAssetDecimals: true,
+            collaterals: { select: { token: true, decimals: true, depositsPaused: true } },
+          },
+        },
+      },
+    })
+
+    const positions = await prisma.userPosition.findMany({
+      where: { userAddress: user, marketId: { in: [...new Set(balances.map((b) => b.marketId))] } },
+    })
+
+    const markets = new Map<string, {
+      marketId: string
+      chainId: number
+      label: string
+      symbol: string
+      vaultAddress: string
+      totalDebt: number
+      healthFactor: number | null
+      collateral: Array<Record<string, unknown>>
+    }>()
+
+    for (const b of balances) {
+      const position = positions.find((p) => p.marketId === b.marketId)
+      const entry = markets.get(b.marketId) ?? {
+        marketId:     b.marketId,
+        chainId:      b.market.chainId,
+        label:        b.market.label,
+        symbol:       b.market.symbol,
+        vaultAddress: b.market.vaultAddress,
+        totalDebt:    position ? Number(position.totalDebt) : 0,
+        healthFactor: position?.healthFactor != null ? Number(position.healthFactor) : null,
+        collateral:   [],
+      }
+      markets.set(b.marketId, entry)
+
+      const config = b.market.collaterals.find((c) => c.token.toLowerCase() === b.token)
+      const amount = normalize(BigInt(b.balance.toFixed(0)), WAD)
+      // Priced as the position's health factor is, at its last applied event
+      const price  = await storedPrice(
+        toMarketConfig({ id: b.marketId, ...b.market }),
+        b.token,
+        position?.blockNumber ?? b.blockNumber
+      )
+
+      entry.collateral.push({
+        token:          b.token,
+        decimals:       config?.decimals ?? null,
+        amount,
+        priceUsd:       price,
+        valueUsd:       price !== null ? amount * price : null,
+        depositsPaused: config?.depositsPaused ?? false,
+        blockNumber:    b.blockNumber,
+        lastUpdated:    b.updatedAt.toISOString(),
+      })
+    }
+
+    res.json({ user, markets: [...markets.values()] })
+  } catch (error) {
+    console.error("[routes/positions] Error:", error)
+    res.status(500).json({ error: "Failed to fetch collateral balances" })
+  }
+})
+
 export default router
@@ -0,0 +1,198 @@
+import { Router, Request, Response } from "express"
+import { prisma, getTimeRangeStart, parseTimeParam } from "../lib/db"
+import { parseChainParam } from "../lib/chains"
+import { utcDay } from "../indexer/revenue"
+
+const router = Router()
+
+const dayKey = (at: Date) => utcDay(at).toISOString().slice(0, 10)
+
+/**
+ * GET /revenue?range=24h|7d|30d|90d&from=<time>&to=<time>&vault=<addr>&marketId=<id>&chain=<id|name>
+ * Interest revenue per market over a time window — `from`/`to` (ISO or unix
+ * seconds) override `range`, which defaults to 30d. Amounts are in loan-asset
+ * units.
+ *
+ *   realised — interest paid by Repaid events in the window, split into
+ *              protocol fee and lender yield (InterestEvent)
+ *   accrued  — interest that built up on outstanding borrows: totalBorrows ×
+ *              globalBorrowIndex growth between consecutive MarketSnapshots
+ *
+ * `daily` covers whole UTC days overlapping the window, realised figures from
+ * RevenueDaily and accrued from the same snapshot walk.
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const range = (req.query.range as string) || "30d"
+    const vault = req.query.vault as string | undefined
+    const marketId = req.query.marketId as string | undefined
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+
+    const fromParam = parseTimeParam(req.query.from)
+    const toParam = parseTimeParam(req.query.to)
+    if (fromParam === null || toParam === null) {
+      res.status(400).json({ error: "from and to must be ISO dates or unix seconds" })
+      return
+    }
+    const from = fromParam ?? getTimeRangeStart(range)
+    const to = toParam ?? new Date()
+    if (from >= to) {
+      res.status(400).json({ error: "from must be before to" })
+      return
+    }
+
+    const markets = await prisma.market.findMany({
+      where: {
+        isActive: true,
+        ...(vault && { vaultAddress: { equals: vault, mode: "insensitive" } }),
+        ...(marketId && { id: marketId }),
+        ...(chainId !== undefined && { chainId }),
+      },
+      orderBy: { createdAt: "asc" },
+    })
+    const marketIds = markets.map((m) => m.id)
+
+    const [realised, days] = await Promise.all([
+      prisma.interestEvent.groupBy({
+        by:     ["marketId"],
+        where:  { marketId: { in: marketIds }, timestamp: { gte: from, lte: to } },
+        _count: true,
+        _sum:   { interestPaid: true, principalPaid: true, protocolFee: true, lenderYield: true },
+      }),
+      prisma.revenueDaily.findMany({
+        where:   { marketId: { in: marketIds }, day: { gte: utcDay(from), lte: to } },
+        orderBy: { day: "asc" },
+      }),
+    ])
+
+    const results = await Promise.all(
+      markets.map(async (m) => {
+        const accrued = await accruedInterest(m.id, from, to)
+        const sums    = realised.find((r) => r.marketId === m.id)
+
+        const daily = new Map<string, { interestPaid: number; protocolFee: number; lenderYield: number; repayments: number; accruedInterest: number }>()
+        const dayOf = (key: string) => {
+          let entry = daily.get(key)
+          if (!entry) {
+            entry = { interestPaid: 0, protocolFee: 0, lenderYield: 0, repayments: 0, accruedInterest: 0 }
+            daily.set(key, entry)
+          }
+          return entry
+        }
+        for (const d of days.filter((d) => d.marketId === m.id)) {
+          Object.assign(dayOf(dayKey(d.day)), {
+            interestPaid: Number(d.interestPaid),
+            protocolFee:  Number(d.protocolFee),
+            lenderYield:  Number(d.lenderYield),
+            repayments:   d.repayments,
+          })
+        }
+        for (const [key, amount] of accrued.byDay) dayOf(key).accruedInterest = amount
+
+        return {
+          marketId:     m.id,
+          chainId:      m.chainId,
+          label:        m.label,
+          symbol:       m.symbol,
+          vaultAddress: m.vaultAddress,
+          realised: {
+            repayments:    sums?._count ?? 0,
+            interestPaid:  Number(sums?._sum.interestPaid  ?? 0),
+            principalPaid: Number(sums?._sum.principalPaid ?? 0),
+            protocolFee:   Number(sums?._sum.protocolFee   ?? 0),
+            lenderYield:   Number(sums?._sum.lenderYield   ?? 0),
+          },
+          accruedInterest: accrued.total,
+          daily: [...daily.entries()]
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([day, figures]) => ({ day, ...figures })),
+        }
+      })
+    )
+
+    res.json({
+      range,
+      from: from.toISOString(),
+      to:   to.toISOString(),
+      markets: results,
+    })
+  } catch (error) {
+    console.error("[routes/revenue] Error:", error)
+    res.status(500).json({ error: "Failed to fetch revenue" })
+  }
+})
+
+/**
+ * Interest accrued on a market's borrows in [from, to]: each snapshot step
+ * adds principal × index growth, as MarketV1 accrues it per borrower. The
+ * walk starts at the last snapshot before the window's first UTC day, so that
+ * day's first step is counted too. Steps are booked to the UTC day of the
+ * later snapshot; the total only counts steps ending inside the window.
+ * Where minute snapshots are already pruned (SNAPSHOT_RETENTION_DAYS), the
+ * walk steps through the hourly rollups' last figures instead.
+ */
+async function accruedInterest(marketId: string, from: Date, to: Date) {
+  const select = { timestamp: true, totalBorrows: true, globalBorrowIndex: true }
+  const indexed = { marketId, globalBorrowIndex: { not: null } }
+  const firstDay = utcDay(from)
+
+  const [before, snapshots] = await Promise.all([
+    prisma.marketSnapshot.findFirst({
+      where:   { ...indexed, timestamp: { lt: firstDay } },
+      orderBy: { timestamp: "desc" },
+      select,
+    }),
+    prisma.marketSnapshot.findMany({
+      where:   { ...indexed, timestamp: { gte: firstDay, lte: to } },
+      orderBy: { timestamp: "asc" },
+      select,
+    }),
+  ])
+
+  // No snapshot before the window: walk the hours before the first one left
+  const hours = before
+    ? []
+    : await prisma.marketSnapshotHourly.findMany({
+        where: {
+          marketId,
+          globalBorrowIndexLast: { not: null },
+          bucketStart:           { gte: new Date(firstDay.getTime() - 60 * 60 * 1000) },
+          lastTimestamp:         { lt: snapshots[0]?.timestamp ?? new Date(to.getTime() + 1) },
+        },
+        orderBy: { bucketStart: "asc" },
+        select:  { lastTimestamp: true, totalBorrowsLast: true, globalBorrowIndexLast: true },
+      })
+
+  const steps = [
+    ...(before ? [before] : []),
+    ...hours.map((h) => ({
+      timestamp:         h.lastTimestamp,
+      totalBorrows:      h.totalBorrowsLast,
+      globalBorrowIndex: h.globalBorrowIndexLast,
+    })),
+    ...snapshots,
+  ]
+  const byDay = new Map<string, number>()
+  let total = 0
+
+  for (let i = 1; i < steps.length; i++) {
+    const prev = steps[i - 1]
+    const next = steps[i]
+    const growth = Number(next.globalBorrowIndex) - Number(prev.globalBorrowIndex)
+    // The index only moves up; a drop means a gap in the snapshot history
+    if (growth <= 0) continue
+
+    const amount = Number(prev.totalBorrows) * growth
+    const key = dayKey(next.timestamp)
+    byDay.set(key, (byDay.get(key) ?? 0) + amount)
+    if (next.timestamp >= from) total += amount
+  }
+
+  return { total, byDay }
+}
+
+export default router
@@ -0,0 +1,95 @@
+import { Router, Request, Response } from "express"
+import { prisma, getTimeRangeStart } from "../lib/db"
+import { parseChainParam } from "../lib/chains"
+
+const router = Router()
+
+/**
+ * GET /vaults/:address/flows?range=24h|7d|30d|90d&limit=<n>&chain=<id|name>
+ * Lender deposits/withdrawals and vault↔market transfers for one vault,
+ * plus net lender inflow/outflow totals over the range.
+ */
+router.get("/:address/flows", async (req: Request, res: Response) => {
+  try {
+    const range = (req.query.range as string) || "24h"
+    const limit = Math.min(Number(req.query.limit || "100"), 500)
+    const address = req.params.address as string
+    const chainId = parseChainParam(req.query.chain)
+    if (chainId === null) {
+      res.status(400).json({ error: `Unknown chain: ${req.query.chain}` })
+      return
+    }
+
+    const market = await prisma.market.findFirst({
+      where: {
+        vaultAddress: { equals: address, mode: "insensitive" },
+        ...(chainId !== undefined && { chainId }),
+      },
+      orderBy: { createdAt: "asc" },
+    })
+
+    if (!market) {
+      res.status(404).json({ error: `Vault not found: ${address}` })
+      return
+    }
+
+    const where = {
+      marketId:  market.id,
+      timestamp: { gte: getTimeRangeStart(range) },
+    }
+
+    const [flows, totals] = await Promise.all([
+      prisma.lenderFlow.findMany({
+        where,
+        orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }],
+        take: limit,
+      }),
+      prisma.lenderFlow.groupBy({
+        by: ["eventName"],
+        where,
+        _sum:   { assets: true },
+        _count: { _all: true },
+      }),
+    ])
+
+    const sumOf = (eventName: string) =>
+      Number(totals.find((t) => t.eventName === eventName)?._sum.assets ?? 0)
+
+    const deposits  = sumOf("Deposit")
+    const withdrawn = sumOf("Withdraw")
+
+    res.json({
+      chainId:       market.chainId,
+      vaultAddress:  market.vaultAddress,
+      marketAddress: market.marketAddress,
+      symbol:        market.symbol,
+      range,
+      summary: {
+        lenderInflow:     deposits,
+        lenderOutflow:    withdrawn,
+        netLenderFlow:    deposits - withdrawn,
+        borrowedByMarket: sumOf("BorrowedByMarket"),
+        repaidToVault:    sumOf("RepaidToVault"),
+        eventCount:       totals.reduce((sum, t) => sum + t._count._all, 0),
+      },
+      flows: flows.map((f) => ({
+        eventName:   f.eventName,
+        sender:      f.sender,
+        owner:       f.owner,
+        receiver:    f.receiver,
+        assets:      Number(f.assets),
+        shares:      f.shares !== null ? Number(f.shares) : null,
+        txHash:      f.txHash,
+        blockNumber: f.blockNumber,
+        logIndex:    f.logIndex,
+        timestamp:   f.timestamp.toISOString(),
+      })),
+      count: flows.length,
+    })
+  } catch (error) {
+    console.error("[routes/vaults] Error:", error)
+    res.status(500).json({ error: "Failed to fetch vault flows" })
+  }
+})
+
+export default router
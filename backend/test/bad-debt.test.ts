@@ -0,0 +1,91 @@
+/**
+ * Bad-debt ledger running totals (indexer/bad-debt.ts).
+ *
+ * DB scenarios are skipped unless TEST_DATABASE_URL is set (see harness/db.ts).
+ */
+
+import assert from "node:assert/strict"
+import { after, before, beforeEach, describe, it } from "node:test"
+import type { Address } from "viem"
+import { TEST_CHAIN_ID, TEST_DATABASE_URL, configureTestEnv, pushSchema, truncateAll } from "./harness/db"
+
+const ALICE = "0x2000000000000000000000000000000000000001" as Address
+const BOB   = "0x2000000000000000000000000000000000000002" as Address
+const TOKEN = "0x1000000000000000000000000000000000000007" as Address
+
+const E18 = 10n ** 18n
+
+describe("bad-debt ledger", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL not set" }, () => {
+  let db: typeof import("../src/lib/db")
+  let badDebt: typeof import("../src/indexer/bad-debt")
+  let marketId: string
+
+  before(async () => {
+    configureTestEnv()
+    pushSchema()
+    db      = await import("../src/lib/db")
+    badDebt = await import("../src/indexer/bad-debt")
+  })
+
+  after(async () => {
+    await db?.prisma.$disconnect()
+  })
+
+  beforeEach(async () => {
+    await truncateAll(db.prisma)
+    const market = await db.prisma.market.create({
+      data: {
+        chainId:             TEST_CHAIN_ID,
+        vaultAddress:        "0x1000000000000000000000000000000000000001",
+        marketAddress:       "0x1000000000000000000000000000000000000002",
+        irmAddress:          "0x1000000000000000000000000000000000000003",
+        oracleRouterAddress: "0x1000000000000000000000000000000000000004",
+        loanAsset:           "0x1000000000000000000000000000000000000006",
+        loanAssetDecimals:   6,
+        label:               "Test Market",
+        symbol:              "TST",
+      },
+    })
+    marketId = market.id
+  })
+
+  function record(block: number, borrower: Address, amount: bigint, eventName: "BadDebtRecorded" | "CollateralSeized" = "BadDebtRecorded") {
+    return badDebt.storeBadDebtEvent(marketId, {
+      eventName,
+      borrower,
+      ...(eventName === "CollateralSeized" && { liquidator: BOB, token: TOKEN }),
+      amount,
+      txHash:         `0x${block.toString(16).padStart(64, "0")}`,
+      blockNumber:    BigInt(block),
+      blockTimestamp: BigInt(block * 12),
+      logIndex:       eventName === "BadDebtRecorded" ? 1 : 2,
+    })
+  }
+
+  async function totals() {
+    const rows = await db.prisma.badDebtEvent.findMany({ orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }] })
+    return rows.map((r) => [r.blockNumber, Number(r.marketBadDebt), Number(r.borrowerBadDebt)])
+  }
+
+  it("keeps running totals per market and borrower in ledger order", async () => {
+    await record(10, ALICE, 5n * E18)
+    await record(10, ALICE, 40n * E18, "CollateralSeized")
+    await record(30, BOB, 2n * E18)
+    // Backfilled behind the rows above
+    await record(20, ALICE, 3n * E18)
+
+    assert.deepEqual(await totals(), [
+      [10, 5, 5],
+      [10, 5, 5],
+      [20, 8, 8],
+      [30, 10, 2],
+    ])
+  })
+
+  it("ignores a replayed event", async () => {
+    await record(10, ALICE, 5n * E18)
+    await record(10, ALICE, 5n * E18)
+
+    assert.deepEqual(await totals(), [[10, 5, 5]])
+  })
+})
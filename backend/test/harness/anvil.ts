@@ -0,0 +1,47 @@
+/**
+ * Local Node
+ * ----------
+ * Scenarios that send real transactions run against a local anvil node
+ * (ANVIL_RPC_URL, e.g. `anvil` in another shell and http://127.0.0.1:8545)
+ * with a market deployed fresh by script/scenarios/Scenario_LocalLiquidation.s.sol.
+ * Needs `forge` on PATH.
+ */
+
+import { execFileSync } from "child_process"
+import { resolve } from "path"
+import type { Address } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+
+export const ANVIL_RPC_URL = process.env.ANVIL_RPC_URL
+
+// anvil's default accounts 0–3
+export const DEPLOYER_KEY   = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80"
+export const BORROWER_KEY   = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+export const LIQUIDATOR_KEY = "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a8928f0cc0e8"
+export const KEEPER_KEY     = "0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6"
+
+/**
+ * Deploy the scenario — one borrower left liquidatable, the liquidator
+ * account funded to repay — and return the addresses it prints (NAME= 0x…).
+ */
+export function deployScenario(): Record<string, Address> {
+  const output = execFileSync(
+    "forge",
+    ["script", "script/scenarios/Scenario_LocalLiquidation.s.sol", "--rpc-url", ANVIL_RPC_URL!, "--broadcast"],
+    {
+      cwd:      resolve(__dirname, "../../.."),
+      env:      {
+        ...process.env,
+        PRIVATE_KEY:          DEPLOYER_KEY,
+        BORROWER_PRIVATE_KEY: BORROWER_KEY,
+        LIQUIDATOR_ADDRESS:   privateKeyToAccount(LIQUIDATOR_KEY).address,
+      },
+      encoding: "utf8",
+    }
+  )
+  const addresses: Record<string, Address> = {}
+  for (const [, name, address] of output.matchAll(/([A-Z_]+)=\s*(0x[0-9a-fA-F]{40})/g)) {
+    addresses[name] = address as Address
+  }
+  return addresses
+}
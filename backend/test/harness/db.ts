@@ -0,0 +1,56 @@
+/**
+ * Test Database
+ * -------------
+ * Points the indexer at TEST_DATABASE_URL — a local or throwaway Postgres,
+ * e.g. `docker run -p 5432:5432 -e POSTGRES_PASSWORD=postgres postgres:16`
+ * with `?sslmode=disable` on the URL. The schema is force-pushed on setup and
+ * every table truncated between scenarios, so never point it at real data.
+ *
+ * src modules read their env at import time: call configureTestEnv() before
+ * importing anything from src, and import src dynamically after it.
+ */
+
+import { execFileSync } from "child_process"
+import { resolve } from "path"
+
+export const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL
+
+/** Chain id the harness registers; the fake client replaces its transport. */
+export const TEST_CHAIN_ID = 31337
+
+/**
+ * `extraChainIds` are registered next to TEST_CHAIN_ID — e.g. the chains of
+ * recorded fixtures, which replay without ever contacting their RPC.
+ */
+export function configureTestEnv(extraChainIds: number[] = []): void {
+  if (!TEST_DATABASE_URL) throw new Error("TEST_DATABASE_URL is not set")
+
+  process.env.DATABASE_URL = TEST_DATABASE_URL
+  delete process.env.PG_URL
+  process.env.CHAINS           = [TEST_CHAIN_ID, ...extraChainIds].join(",")
+  process.env.CHAIN_ID         = String(TEST_CHAIN_ID)
+  process.env.DEPLOYMENT_BLOCK = "0"
+  for (const chainId of extraChainIds) process.env[`DEPLOYMENT_BLOCK_${chainId}`] = "0"
+  // Never contacted — every call goes through the fake client
+  process.env.RPC_URL          = "http://127.0.0.1:1"
+  process.env.LOG_LEVEL        ??= "silent"
+}
+
+/** Create the schema from prisma/schema.prisma, dropping whatever was there. */
+export function pushSchema(): void {
+  execFileSync("npx", ["prisma", "db", "push", "--force-reset", "--skip-generate"], {
+    cwd:   resolve(__dirname, "../.."),
+    env:   { ...process.env, DATABASE_URL: TEST_DATABASE_URL },
+    stdio: "ignore",
+  })
+}
+
+/** Empty every table (restarting id sequences) between scenarios. */
+export async function truncateAll(prisma: typeof import("../../src/lib/db").prisma): Promise<void> {
+  const tables = await prisma.$queryRaw<Array<{ tablename: string }>>`
+    SELECT tablename FROM pg_tables WHERE schemaname = 'public'
+  `
+  if (tables.length === 0) return
+  const list = tables.map((t) => `"${t.tablename}"`).join(", ")
+  await prisma.$executeRawUnsafe(`TRUNCATE ${list} RESTART IDENTITY CASCADE`)
+}
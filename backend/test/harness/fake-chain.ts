@@ -0,0 +1,307 @@
+/**
+ * Fake Chain
+ * ----------
+ * In-memory chain behind the subset of the viem public client the indexer
+ * uses: getBlock, getLogs, getBlockNumber, multicall and readContract.
+ *
+ * Blocks are mined with encoded event logs. fork(n) drops block n and
+ * everything after it and starts a new branch, so the blocks mined next get
+ * different hashes (and whatever logs the test gives them). Hashes are
+ * derived from (number, branch, parentHash) — deterministic across runs.
+ *
+ * Contract reads are answered by a test-supplied reader; without one every
+ * read fails, which the indexer treats like a reverted call (snapshots are
+ * skipped, logs are still recorded).
+ *
+ * `request` serves the same blocks over EIP-1193 for tests that need a real
+ * viem transport in between (custom({ request })), e.g. to record it.
+ */
+
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  keccak256,
+  type Abi,
+  type Address,
+  type Hex,
+  hexToBigInt,
+  toHex,
+  type Log,
+} from "viem"
+
+export interface FakeEvent {
+  address: Address
+  abi: Abi
+  eventName: string
+  args: Record<string, unknown>
+}
+
+export interface FakeBlock {
+  number: bigint
+  hash: Hex
+  parentHash: Hex
+  timestamp: bigint
+  logs: Log[]
+}
+
+export interface ContractCall {
+  address: Address
+  functionName: string
+  args: readonly unknown[]
+  blockNumber: bigint | undefined
+}
+
+export type ContractReader = (call: ContractCall) => unknown
+
+const BLOCK_TIME = 12n
+const GENESIS_TIMESTAMP = 1_700_000_000n
+
+export class FakeChain {
+  private blocks: FakeBlock[] = []
+  private branch = 0
+  private reader: ContractReader | null = null
+  private getBlockHooks: Array<(blockNumber: bigint) => void> = []
+
+  /** Calls made through the client, by method — for asserting RPC usage. */
+  readonly calls = new Map<string, number>()
+
+  /** The chain starts with one empty block at `genesis`. */
+  constructor(private readonly genesis: bigint) {
+    this.pushBlock([])
+  }
+
+  get head(): bigint {
+    return this.blocks[this.blocks.length - 1].number
+  }
+
+  blockAt(blockNumber: bigint): FakeBlock {
+    const block = this.blocks[Number(blockNumber - this.genesis)]
+    if (!block) throw new Error(`[fake-chain] Block ${blockNumber} does not exist (head ${this.head})`)
+    return block
+  }
+
+  /** Mine one block carrying `events`, in order. */
+  mine(events: FakeEvent[] = []): FakeBlock {
+    return this.pushBlock(events)
+  }
+
+  /** Mine `count` empty blocks. */
+  mineEmpty(count: number): void {
+    for (let i = 0; i < count; i++) this.pushBlock([])
+  }
+
+  /**
+   * Drop block `atBlock` and its descendants and switch to a new branch.
+   * Mine afterwards to build the replacement blocks.
+   */
+  fork(atBlock: bigint): void {
+    if (atBlock <= this.genesis || atBlock > this.head) {
+      throw new Error(`[fake-chain] Cannot fork at ${atBlock} (genesis ${this.genesis}, head ${this.head})`)
+    }
+    this.blocks = this.blocks.slice(0, Number(atBlock - this.genesis))
+    this.branch++
+  }
+
+  /** Answer multicall/readContract with `reader`; null makes every read fail. */
+  setContractReader(reader: ContractReader | null): void {
+    this.reader = reader
+  }
+
+  /**
+   * Run `hook` before every getBlock — lets a test change the chain while
+   * the indexer is in the middle of a range.
+   */
+  onGetBlock(hook: (blockNumber: bigint) => void): void {
+    this.getBlockHooks.push(hook)
+  }
+
+  // ─── Client ──────────────────────────────────────────────────────────────────
+
+  readonly client = {
+    getBlockNumber: async (): Promise<bigint> => {
+      this.count("getBlockNumber")
+      return this.head
+    },
+
+    getBlock: async (params: { blockNumber?: bigint } = {}) => {
+      this.count("getBlock")
+      const blockNumber = params.blockNumber ?? this.head
+      for (const hook of this.getBlockHooks) hook(blockNumber)
+      const block = this.blockAt(blockNumber)
+      return {
+        number:     block.number,
+        hash:       block.hash,
+        parentHash: block.parentHash,
+        timestamp:  block.timestamp,
+      }
+    },
+
+    getLogs: async (params: { address?: Address | Address[]; fromBlock: bigint; toBlock: bigint }): Promise<Log[]> => {
+      this.count("getLogs")
+      return this.logsIn(params.address, params.fromBlock, params.toBlock)
+    },
+
+    readContract: async (params: {
+      address: Address
+      functionName: string
+      args?: readonly unknown[]
+      blockNumber?: bigint
+    }): Promise<unknown> => {
+      this.count("readContract")
+      return this.read(params)
+    },
+
+    multicall: async (params: {
+      contracts: Array<{ address: Address; functionName: string; args?: readonly unknown[] }>
+      allowFailure?: boolean
+      blockNumber?: bigint
+    }): Promise<unknown[]> => {
+      this.count("multicall")
+      return params.contracts.map((c) => {
+        try {
+          const result = this.read({ ...c, blockNumber: params.blockNumber })
+          return params.allowFailure === false ? result : { status: "success", result }
+        } catch (error) {
+          if (params.allowFailure === false) throw error
+          return { status: "failure", error, result: undefined }
+        }
+      })
+    },
+  }
+
+  // ─── JSON-RPC ────────────────────────────────────────────────────────────────
+
+  /**
+   * EIP-1193 request: eth_blockNumber, eth_getBlockByNumber and eth_getLogs.
+   * Everything else, contract calls included, fails with -32601.
+   */
+  readonly request = async ({ method, params }: { method: string; params?: unknown }): Promise<unknown> => {
+    this.count(method)
+    const args = (params ?? []) as unknown[]
+
+    switch (method) {
+      case "eth_blockNumber":
+        return toHex(this.head)
+
+      case "eth_getBlockByNumber": {
+        const tag = args[0] as string
+        const blockNumber = tag.startsWith("0x") ? hexToBigInt(tag as Hex) : this.head
+        for (const hook of this.getBlockHooks) hook(blockNumber)
+        if (blockNumber > this.head) return null
+        const block = this.blockAt(blockNumber)
+        return {
+          number:       toHex(block.number),
+          hash:         block.hash,
+          parentHash:   block.parentHash,
+          timestamp:    toHex(block.timestamp),
+          transactions: [],
+        }
+      }
+
+      case "eth_getLogs": {
+        const filter = args[0] as { address?: Address | Address[]; fromBlock: Hex; toBlock: Hex }
+        const logs = this.logsIn(filter.address, hexToBigInt(filter.fromBlock), hexToBigInt(filter.toBlock))
+        return logs.map((log) => ({
+          ...log,
+          blockNumber:      toHex(log.blockNumber!),
+          logIndex:         toHex(log.logIndex!),
+          transactionIndex: toHex(log.transactionIndex!),
+        }))
+      }
+
+      default:
+        throw Object.assign(new Error(`[fake-chain] ${method} is not served over JSON-RPC`), { code: -32601 })
+    }
+  }
+
+  // ─── Internal ────────────────────────────────────────────────────────────────
+
+  private count(method: string): void {
+    this.calls.set(method, (this.calls.get(method) ?? 0) + 1)
+  }
+
+  private logsIn(address: Address | Address[] | undefined, fromBlock: bigint, toBlock: bigint): Log[] {
+    const wanted = address === undefined
+      ? null
+      : new Set([address].flat().map((a) => a.toLowerCase()))
+
+    const to = toBlock < this.head ? toBlock : this.head
+    const logs: Log[] = []
+    for (let n = fromBlock; n <= to; n++) {
+      for (const log of this.blockAt(n).logs) {
+        if (!wanted || wanted.has(log.address.toLowerCase())) logs.push(log)
+      }
+    }
+    return logs
+  }
+
+  private read(params: { address: Address; functionName: string; args?: readonly unknown[]; blockNumber?: bigint }) {
+    if (!this.reader) {
+      throw new Error(`[fake-chain] No contract reader for ${params.functionName}()`)
+    }
+    return this.reader({
+      address:      params.address,
+      functionName: params.functionName,
+      args:         params.args ?? [],
+      blockNumber:  params.blockNumber,
+    })
+  }
+
+  private pushBlock(events: FakeEvent[]): FakeBlock {
+    const parent     = this.blocks[this.blocks.length - 1]
+    const number     = parent ? parent.number + 1n : this.genesis
+    const parentHash = parent?.hash ?? (`0x${"0".repeat(64)}` as Hex)
+    const hash       = keccak256(encodeAbiParameters(
+      [{ type: "uint256" }, { type: "uint256" }, { type: "bytes32" }],
+      [number, BigInt(this.branch), parentHash]
+    ))
+
+    const logs = events.map((event, logIndex) => {
+      const transactionHash = keccak256(encodeAbiParameters(
+        [{ type: "bytes32" }, { type: "uint256" }],
+        [hash, BigInt(logIndex)]
+      ))
+      return {
+        ...encodeEvent(event),
+        address:          event.address,
+        blockNumber:      number,
+        blockHash:        hash,
+        logIndex,
+        transactionHash,
+        transactionIndex: logIndex,
+        removed:          false,
+      } as Log
+    })
+
+    const block: FakeBlock = {
+      number,
+      hash,
+      parentHash,
+      timestamp: GENESIS_TIMESTAMP + (number - this.genesis) * BLOCK_TIME,
+      logs,
+    }
+    this.blocks.push(block)
+    return block
+  }
+}
+
+/** topics + data for an event, split into indexed and non-indexed inputs. */
+function encodeEvent(event: FakeEvent): { topics: [Hex, ...Hex[]]; data: Hex } {
+  const item = event.abi.find((i) => i.type === "event" && i.name === event.eventName)
+  if (!item || item.type !== "event") {
+    throw new Error(`[fake-chain] Event ${event.eventName} is not in the given ABI`)
+  }
+
+  const topics = encodeEventTopics({
+    abi:       [item],
+    eventName: event.eventName,
+    args:      event.args,
+  } as never) as [Hex, ...Hex[]]
+
+  const dataInputs = item.inputs.filter((i) => !i.indexed)
+  const data = dataInputs.length === 0
+    ? "0x"
+    : encodeAbiParameters(dataInputs, dataInputs.map((i) => event.args[i.name!]))
+
+  return { topics, data }
+}
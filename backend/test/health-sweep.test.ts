@@ -0,0 +1,126 @@
+/**
+ * Open-borrower health sweep (indexer/health-sweep.ts).
+ *
+ * getUserPosition and router prices are answered by a FakeChain reader;
+ * open borrowers are UserPosition rows written directly.
+ *
+ * DB scenarios are skipped unless TEST_DATABASE_URL is set (see harness/db.ts).
+ */
+
+import assert from "node:assert/strict"
+import { after, before, beforeEach, describe, it } from "node:test"
+import type { Address } from "viem"
+import { TEST_CHAIN_ID, TEST_DATABASE_URL, configureTestEnv, pushSchema, truncateAll } from "./harness/db"
+import { FakeChain } from "./harness/fake-chain"
+
+const MARKET     = "0x1000000000000000000000000000000000000002" as Address
+const ROUTER     = "0x1000000000000000000000000000000000000004" as Address
+const LOAN_ASSET = "0x1000000000000000000000000000000000000006" as Address
+const ALICE      = "0x2000000000000000000000000000000000000001"
+const BOB        = "0x2000000000000000000000000000000000000002"
+const CAROL      = "0x2000000000000000000000000000000000000003"
+
+const E18 = 10n ** 18n
+
+describe("health sweep", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL not set" }, () => {
+  let db: typeof import("../src/lib/db")
+  let chains: typeof import("../src/lib/chains")
+  let sweep: typeof import("../src/indexer/health-sweep")
+  let market: import("../src/indexer/listener").MarketConfig
+  let fake: FakeChain
+
+  // Health factor per borrower (18-decimal) and the loan asset's router price
+  let healthFactors: Record<string, bigint>
+  let price: bigint
+
+  before(async () => {
+    configureTestEnv()
+    pushSchema()
+    // One borrower per multicall, so paging is exercised
+    process.env.HEALTH_SWEEP_BATCH_SIZE = "1"
+    db     = await import("../src/lib/db")
+    chains = await import("../src/lib/chains")
+    sweep  = await import("../src/indexer/health-sweep")
+  })
+
+  after(async () => {
+    await db?.prisma.$disconnect()
+  })
+
+  beforeEach(async () => {
+    await truncateAll(db.prisma)
+    const row = await db.prisma.market.create({
+      data: {
+        chainId:             TEST_CHAIN_ID,
+        vaultAddress:        "0x1000000000000000000000000000000000000001",
+        marketAddress:       MARKET,
+        irmAddress:          "0x1000000000000000000000000000000000000003",
+        oracleRouterAddress: ROUTER,
+        loanAsset:           LOAN_ASSET,
+        loanAssetDecimals:   18,
+        label:               "Test Market",
+        symbol:              "TST",
+      },
+    })
+    const { toMarketConfig } = await import("../src/indexer/listener")
+    market = toMarketConfig(row)
+
+    for (const [userAddress, principal] of [[ALICE, 10n], [BOB, 10n], [CAROL, 0n]] as const) {
+      await db.prisma.userPosition.create({
+        data: {
+          userAddress,
+          marketId:    market.marketId,
+          principal:   (principal * E18).toString(),
+          borrowIndex: E18.toString(),
+          totalDebt:   Number(principal).toFixed(6),
+          blockNumber: 1,
+          txHash:      `0x${"01".repeat(32)}`,
+          logIndex:    0,
+        },
+      })
+    }
+
+    healthFactors = { [ALICE]: 2n * E18, [BOB]: 12n * E18 / 10n }
+    price = E18
+
+    fake = new FakeChain(100n)
+    fake.setContractReader((call) => {
+      if (call.functionName === "getLatestPrice") return price
+      if (call.functionName === "getUserPosition") {
+        const user = (call.args![0] as string).toLowerCase()
+        const healthFactor = healthFactors[user]
+        if (healthFactor === undefined) throw new Error(`not a borrower: ${user}`)
+        return { collateralValue: 20n * E18, totalDebt: 10n * E18, healthFactor, borrowingPower: 17n * E18 }
+      }
+      throw new Error(`unexpected read ${call.functionName}`)
+    })
+    const chain = chains.getChain(TEST_CHAIN_ID)
+    chain.client = fake.client as unknown as typeof chain.client
+  })
+
+  async function bands() {
+    const rows = await db.prisma.userPosition.findMany({ orderBy: { userAddress: "asc" } })
+    return rows.map((r) => [r.userAddress, r.healthBand])
+  }
+
+  it("bands every open borrower and flags moves into a worse band", async () => {
+    assert.deepEqual(await sweep.sweepBorrowers(TEST_CHAIN_ID, [market]), { checked: 2, flagged: 1 })
+    assert.deepEqual(await bands(), [[ALICE, "healthy"], [BOB, "warning"], [CAROL, null]])
+    assert.equal(await db.prisma.userPositionSnapshot.count(), 2)
+
+    healthFactors[ALICE] = 99n * E18 / 100n
+    healthFactors[BOB]   = 13n * E18 / 10n
+    assert.deepEqual(await sweep.sweepBorrowers(TEST_CHAIN_ID, [market]), { checked: 2, flagged: 1 })
+    assert.deepEqual(await bands(), [[ALICE, "liquidatable"], [BOB, "healthy"], [CAROL, null]])
+  })
+
+  it("is due again after a sharp price move", async () => {
+    await sweep.sweepBorrowers(TEST_CHAIN_ID, [market])
+
+    price = E18 * 101n / 100n
+    assert.equal(await sweep.sweepDue(TEST_CHAIN_ID, [market]), null)
+
+    price = E18 * 95n / 100n
+    assert.equal(await sweep.sweepDue(TEST_CHAIN_ID, [market]), "price move")
+  })
+})
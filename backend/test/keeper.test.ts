@@ -0,0 +1,123 @@
+/**
+ * Keepers (jobs/keeper.ts) against a local anvil node.
+ *
+ * Deploys a fresh market with script/scenarios/Scenario_LocalLiquidation.s.sol
+ * — open borrows, LKG prices never set — and runs the keepers with anvil's
+ * fourth account as the signer, moving the node's clock to age the index.
+ *
+ * Skipped unless TEST_DATABASE_URL (see harness/db.ts) and ANVIL_RPC_URL
+ * (see harness/anvil.ts) are set.
+ */
+
+import assert from "node:assert/strict"
+import { after, before, describe, it } from "node:test"
+import { createTestClient, http, type Address } from "viem"
+import { ANVIL_RPC_URL, KEEPER_KEY, deployScenario } from "./harness/anvil"
+import { TEST_CHAIN_ID, TEST_DATABASE_URL, configureTestEnv, pushSchema, truncateAll } from "./harness/db"
+
+describe(
+  "keepers",
+  { skip: !(TEST_DATABASE_URL && ANVIL_RPC_URL) && "TEST_DATABASE_URL or ANVIL_RPC_URL not set" },
+  () => {
+    let db: typeof import("../src/lib/db")
+    let chains: typeof import("../src/lib/chains")
+    let contracts: typeof import("../src/lib/contracts")
+    let keeper: typeof import("../src/jobs/keeper")
+    let deployed: Record<string, Address>
+    let markets: import("../src/indexer/listener").MarketConfig[]
+
+    before(async () => {
+      configureTestEnv()
+      process.env.RPC_URL                      = ANVIL_RPC_URL
+      process.env.KEEPER_PRIVATE_KEY           = KEEPER_KEY
+      process.env.KEEPER_INDEX_MAX_AGE_MINUTES = "60"
+      process.env.KEEPER_LKG_MAX_AGE_MINUTES   = "30"
+      pushSchema()
+      deployed = deployScenario()
+
+      db        = await import("../src/lib/db")
+      chains    = await import("../src/lib/chains")
+      contracts = await import("../src/lib/contracts")
+      keeper    = await import("../src/jobs/keeper")
+      const { toMarketConfig } = await import("../src/indexer/listener")
+
+      await truncateAll(db.prisma)
+      const market = await db.prisma.market.create({
+        data: {
+          chainId:             TEST_CHAIN_ID,
+          vaultAddress:        deployed.VAULT_ADDRESS,
+          marketAddress:       deployed.MARKET_PROXY,
+          irmAddress:          deployed.IRM_ADDRESS,
+          oracleRouterAddress: deployed.ORACLE_ROUTER,
+          loanAsset:           deployed.LOAN_ASSET_ADDRESS,
+          loanAssetDecimals:   6,
+          label:               "Local Market",
+          symbol:              "USDC",
+        },
+      })
+      // As the indexer would leave it after CollateralTokenAdded
+      await db.prisma.marketCollateral.create({
+        data: { marketId: market.id, token: deployed.WETH_ADDRESS.toLowerCase(), updatedAtBlock: 1 },
+      })
+      markets = [toMarketConfig(market)]
+    })
+
+    after(async () => {
+      await db?.prisma.$disconnect()
+    })
+
+    const lastUpdate = (asset: Address) =>
+      chains.getChain(TEST_CHAIN_ID).client.readContract({
+        address:      deployed.ORACLE_ROUTER,
+        abi:          contracts.ORACLE_ROUTER_ABI,
+        functionName: "lastUpdate",
+        args:         [asset],
+      })
+
+    it("seeds never-set LKG prices back to back and leaves a fresh index alone", async () => {
+      const summary = await keeper.runKeepers(TEST_CHAIN_ID, markets)
+      assert.deepEqual(summary, { due: 2, submitted: 2, skipped: 0, failed: 0 })
+
+      const runs = await db.prisma.keeperRun.findMany({ orderBy: { id: "asc" } })
+      assert.deepEqual(runs.map((r) => [r.keeper, r.status]), [["lkg", "confirmed"], ["lkg", "confirmed"]])
+      assert.deepEqual(
+        runs.map((r) => r.asset).sort(),
+        [deployed.LOAN_ASSET_ADDRESS.toLowerCase(), deployed.WETH_ADDRESS.toLowerCase()].sort()
+      )
+      // Local nonces: the second call didn't wait for the first
+      assert.equal(runs[1].nonce, runs[0].nonce! + 1)
+      assert.ok(runs.every((r) => r.gasUsed! > 0 && Number(r.gasCost) > 0))
+
+      assert.ok((await lastUpdate(deployed.LOAN_ASSET_ADDRESS)) > 0n)
+      assert.ok((await lastUpdate(deployed.WETH_ADDRESS)) > 0n)
+    })
+
+    it("sends nothing while everything is fresh", async () => {
+      const summary = await keeper.runKeepers(TEST_CHAIN_ID, markets)
+      assert.deepEqual(summary, { due: 0, submitted: 0, skipped: 0, failed: 0 })
+    })
+
+    it("updates a stale borrow index and leaves a paused keeper alone", async () => {
+      await keeper.setKeeperPaused("lkg", true)
+      const testClient = createTestClient({ mode: "anvil", transport: http(ANVIL_RPC_URL) })
+      await testClient.increaseTime({ seconds: 61 * 60 })
+      await testClient.mine({ blocks: 1 })
+
+      const { client } = chains.getChain(TEST_CHAIN_ID)
+      const read = { address: deployed.MARKET_PROXY, abi: contracts.MARKET_ABI } as const
+      const indexBefore = await client.readContract({ ...read, functionName: "globalBorrowIndex" })
+
+      const summary = await keeper.runKeepers(TEST_CHAIN_ID, markets)
+      assert.deepEqual(summary, { due: 1, submitted: 1, skipped: 0, failed: 0 })
+
+      const run = await db.prisma.keeperRun.findFirstOrThrow({ orderBy: { id: "desc" } })
+      assert.equal(run.keeper, "borrow-index")
+      assert.equal(run.status, "confirmed")
+      assert.ok(run.ageSeconds >= 61 * 60)
+      assert.ok((await client.readContract({ ...read, functionName: "globalBorrowIndex" })) > indexBefore)
+
+      await keeper.setKeeperPaused("lkg", false)
+      assert.equal((await keeper.pausedKeepers()).size, 0)
+    })
+  }
+)
@@ -0,0 +1,133 @@
+/**
+ * Liquidation bot (jobs/liquidator.ts) against a local anvil node.
+ *
+ * Deploys a fresh market with script/scenarios/Scenario_LocalLiquidation.s.sol,
+ * which leaves one borrower liquidatable at a profit, then runs the bot in
+ * dry-run and live mode with anvil's third account as the signer.
+ *
+ * Skipped unless TEST_DATABASE_URL (see harness/db.ts) and ANVIL_RPC_URL
+ * (see harness/anvil.ts) are set.
+ */
+
+import assert from "node:assert/strict"
+import { after, before, describe, it } from "node:test"
+import type { Address } from "viem"
+import { ANVIL_RPC_URL, LIQUIDATOR_KEY, deployScenario } from "./harness/anvil"
+import { TEST_CHAIN_ID, TEST_DATABASE_URL, configureTestEnv, pushSchema, truncateAll } from "./harness/db"
+
+describe(
+  "liquidation bot",
+  { skip: !(TEST_DATABASE_URL && ANVIL_RPC_URL) && "TEST_DATABASE_URL or ANVIL_RPC_URL not set" },
+  () => {
+    let db: typeof import("../src/lib/db")
+    let chains: typeof import("../src/lib/chains")
+    let liquidator: typeof import("../src/jobs/liquidator")
+    let deployed: Record<string, Address>
+    let marketId: string
+
+    before(async () => {
+      configureTestEnv()
+      process.env.RPC_URL                = ANVIL_RPC_URL
+      process.env.LIQUIDATOR_PRIVATE_KEY = LIQUIDATOR_KEY
+      process.env.LIQUIDATOR_MAX_REPAY   = "20000"
+      process.env.LIQUIDATOR_MIN_PROFIT  = "1"
+      pushSchema()
+      deployed = deployScenario()
+      process.env[`LIQUIDATOR_GAS_TOKEN_${TEST_CHAIN_ID}`] = deployed.WETH_ADDRESS
+
+      db         = await import("../src/lib/db")
+      chains     = await import("../src/lib/chains")
+      liquidator = await import("../src/jobs/liquidator")
+
+      // The signer approves the market once, as an operator would before a dry run
+      const { getSigner } = await import("../src/lib/signer")
+      const { ERC20_ABI } = await import("../src/lib/contracts")
+      const signer = getSigner(TEST_CHAIN_ID, "LIQUIDATOR_PRIVATE_KEY")
+      const hash = await signer.writeContract({
+        address:      deployed.LOAN_ASSET_ADDRESS,
+        abi:          ERC20_ABI,
+        functionName: "approve",
+        args:         [deployed.MARKET_PROXY, 20_000n * 10n ** 6n],
+      })
+      await chains.getChain(TEST_CHAIN_ID).client.waitForTransactionReceipt({ hash })
+
+      await truncateAll(db.prisma)
+      const market = await db.prisma.market.create({
+        data: {
+          chainId:             TEST_CHAIN_ID,
+          vaultAddress:        deployed.VAULT_ADDRESS,
+          marketAddress:       deployed.MARKET_PROXY,
+          irmAddress:          deployed.IRM_ADDRESS,
+          oracleRouterAddress: deployed.ORACLE_ROUTER,
+          loanAsset:           deployed.LOAN_ASSET_ADDRESS,
+          loanAssetDecimals:   6,
+          label:               "Local Market",
+          symbol:              "USDC",
+          liquidatorEnabled:   true,
+        },
+      })
+      marketId = market.id
+
+      // As the health sweep would leave it
+      await db.prisma.userPosition.create({
+        data: {
+          userAddress: deployed.BORROWER.toLowerCase(),
+          marketId,
+          principal:   (15_000n * 10n ** 18n).toString(),
+          borrowIndex: (10n ** 18n).toString(),
+          totalDebt:   "15000",
+          blockNumber: 1,
+          txHash:      `0x${"01".repeat(32)}`,
+          logIndex:    0,
+          healthBand:  "liquidatable",
+        },
+      })
+    })
+
+    after(async () => {
+      await db?.prisma.$disconnect()
+    })
+
+    it("simulates and logs a profitable liquidation without sending it in dry-run mode", async () => {
+      const summary = await liquidator.runLiquidator(TEST_CHAIN_ID, { dryRun: true })
+      assert.deepEqual(summary, { evaluated: 1, submitted: 0, dryRun: 1, skipped: 0 })
+
+      const runs = await db.prisma.liquidationRun.findMany({ where: { marketId } })
+      assert.equal(runs.length, 1)
+      assert.equal(runs[0].status, "dry-run")
+      assert.equal(runs[0].txHash, null)
+      assert.ok(runs[0].gasEstimate! > 0)
+      // $15,750 of WETH seized for 15,000 USDC, minus gas
+      assert.ok(Number(runs[0].expectedProfit) > 700 && Number(runs[0].expectedProfit) < 760)
+
+      // The same outcome on the next run is not logged again
+      await liquidator.runLiquidator(TEST_CHAIN_ID, { dryRun: true })
+      assert.equal(await db.prisma.liquidationRun.count({ where: { marketId } }), 1)
+    })
+
+    it("liquidates and records the receipt in live mode", async () => {
+      const summary = await liquidator.runLiquidator(TEST_CHAIN_ID, { dryRun: false })
+      assert.deepEqual(summary, { evaluated: 1, submitted: 1, dryRun: 0, skipped: 0 })
+
+      const run = await db.prisma.liquidationRun.findFirstOrThrow({ where: { marketId }, orderBy: { id: "desc" } })
+      assert.equal(run.status, "confirmed")
+      assert.ok(run.txHash)
+      assert.ok(run.gasUsed! > 0)
+
+      const { client } = chains.getChain(TEST_CHAIN_ID)
+      const { MARKET_ABI } = await import("../src/lib/contracts")
+      const debt = await client.readContract({
+        address:      deployed.MARKET_PROXY,
+        abi:          MARKET_ABI,
+        functionName: "getUserTotalDebt",
+        args:         [deployed.BORROWER],
+      })
+      assert.equal(debt, 0n)
+    })
+
+    it("does not liquidate a healthy borrower again", async () => {
+      const summary = await liquidator.runLiquidator(TEST_CHAIN_ID, { dryRun: false })
+      assert.deepEqual(summary, { evaluated: 0, submitted: 0, dryRun: 0, skipped: 0 })
+    })
+  }
+)
@@ -0,0 +1,236 @@
+/**
+ * Event-sourced positions (indexer/position-state.ts).
+ *
+ * Scenarios write MarketV1 events to the ledger the way the block processor
+ * does and apply them with applyPositionEvent — no contract reads involved.
+ * Expected figures follow MarketV1's accounting by hand.
+ *
+ * DB scenarios are skipped unless TEST_DATABASE_URL is set (see harness/db.ts).
+ */
+
+import assert from "node:assert/strict"
+import { after, before, beforeEach, describe, it } from "node:test"
+import type { Address } from "viem"
+import { TEST_CHAIN_ID, TEST_DATABASE_URL, configureTestEnv, pushSchema, truncateAll } from "./harness/db"
+
+const VAULT      = "0x1000000000000000000000000000000000000001" as Address
+const MARKET     = "0x1000000000000000000000000000000000000002" as Address
+const IRM        = "0x1000000000000000000000000000000000000003" as Address
+const ROUTER     = "0x1000000000000000000000000000000000000004" as Address
+const LOAN_ASSET = "0x1000000000000000000000000000000000000006" as Address
+const TOKEN      = "0x1000000000000000000000000000000000000007" as Address
+const USER       = "0x2000000000000000000000000000000000000001" as Address
+const LIQUIDATOR = "0x2000000000000000000000000000000000000002" as Address
+
+const E18 = 10n ** 18n
+
+interface Step {
+  block: number
+  logIndex: number
+  eventName: string
+  args: Record<string, unknown>
+}
+
+// Index 1.1 → 1.2 → 1.32: 50 borrowed at 1.2 owes 6 interest at 1.32
+const BORROW_AND_REPAY: Step[] = [
+  { block: 10, logIndex: 0, eventName: "GlobalBorrowIndexUpdated", args: { oldIndex: E18, newIndex: 11n * E18 / 10n, timestamp: 1n } },
+  { block: 10, logIndex: 1, eventName: "CollateralDeposited", args: { user: USER, token: TOKEN, amount: 100n * E18 } },
+  { block: 11, logIndex: 0, eventName: "GlobalBorrowIndexUpdated", args: { oldIndex: 11n * E18 / 10n, newIndex: 12n * E18 / 10n, timestamp: 2n } },
+  { block: 11, logIndex: 1, eventName: "Borrowed", args: { user: USER, amount: 50n * E18, newTotalDebt: 50n * E18 } },
+  { block: 12, logIndex: 0, eventName: "GlobalBorrowIndexUpdated", args: { oldIndex: 12n * E18 / 10n, newIndex: 132n * E18 / 100n, timestamp: 3n } },
+  { block: 12, logIndex: 1, eventName: "Repaid", args: { user: USER, amount: 16n * E18, interestPaid: 6n * E18, principalPaid: 10n * E18 } },
+]
+
+// 40 principal, 10 of it written off, 3.96 interest at 1.452 — debtCovered clears the rest
+const LIQUIDATION: Step[] = [
+  { block: 13, logIndex: 0, eventName: "GlobalBorrowIndexUpdated", args: { oldIndex: 132n * E18 / 100n, newIndex: 1452n * E18 / 1000n, timestamp: 4n } },
+  { block: 13, logIndex: 1, eventName: "BadDebtRecorded", args: { borrower: USER, amount: 10n * E18 } },
+  { block: 13, logIndex: 2, eventName: "CollateralSeized", args: { borrower: USER, liquidator: LIQUIDATOR, token: TOKEN, amount: 100n * E18 } },
+  { block: 13, logIndex: 3, eventName: "Liquidated", args: { borrower: USER, liquidator: LIQUIDATOR, debtCovered: 3396n * E18 / 100n, collateralSeized: 40n * E18, badDebt: 10n * E18 } },
+]
+
+describe("event-sourced positions", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL not set" }, () => {
+  let db: typeof import("../src/lib/db")
+  let positions: typeof import("../src/indexer/position-state")
+  let ledger: typeof import("../src/indexer/ledger")
+  let market: import("../src/indexer/listener").MarketConfig
+
+  before(async () => {
+    configureTestEnv()
+    pushSchema()
+    db        = await import("../src/lib/db")
+    positions = await import("../src/indexer/position-state")
+    ledger    = await import("../src/indexer/ledger")
+  })
+
+  after(async () => {
+    await db?.prisma.$disconnect()
+  })
+
+  async function createMarket(): Promise<void> {
+    const row = await db.prisma.market.create({
+      data: {
+        chainId:             TEST_CHAIN_ID,
+        vaultAddress:        VAULT,
+        marketAddress:       MARKET,
+        irmAddress:          IRM,
+        oracleRouterAddress: ROUTER,
+        loanAsset:           LOAN_ASSET,
+        loanAssetDecimals:   18,
+        label:               "Test Market",
+        symbol:              "TST",
+      },
+    })
+    const { toMarketConfig } = await import("../src/indexer/listener")
+    market = toMarketConfig(row)
+  }
+
+  beforeEach(async () => {
+    await truncateAll(db.prisma)
+    await createMarket()
+  })
+
+  /** Ledger first, then position state — the block processor's order. */
+  async function index(steps: Step[]): Promise<void> {
+    for (const step of steps) {
+      const log = {
+        chainId:         TEST_CHAIN_ID,
+        eventName:       step.eventName,
+        args:            step.args,
+        transactionHash: `0x${step.block.toString(16).padStart(64, "0")}` as `0x${string}`,
+        blockNumber:     BigInt(step.block),
+        blockHash:       `0x${"ab".repeat(32)}` as `0x${string}`,
+        blockTimestamp:  BigInt(step.block * 12),
+        logIndex:        step.logIndex,
+      }
+      await ledger.recordProtocolEvent({
+        chainId:         TEST_CHAIN_ID,
+        contractAddress: MARKET,
+        eventName:       step.eventName,
+        args:            step.args,
+        blockNumber:     log.blockNumber,
+        blockHash:       log.blockHash,
+        txHash:          log.transactionHash,
+        logIndex:        step.logIndex,
+      })
+      if (positions.isPositionEvent(step.eventName)) await positions.applyPositionEvent(log, market, false)
+    }
+  }
+
+  async function stored() {
+    const row = await db.prisma.userPosition.findUniqueOrThrow({
+      where: { userAddress_marketId: { userAddress: USER.toLowerCase(), marketId: market.marketId } },
+    })
+    const balances = await db.prisma.userCollateralBalance.findMany({ where: { marketId: market.marketId } })
+    return {
+      principal:   row.principal.toFixed(0),
+      borrowIndex: row.borrowIndex.toFixed(0),
+      blockNumber: row.blockNumber,
+      balances:    balances.map((b) => [b.token, b.balance.toFixed(0)]),
+    }
+  }
+
+  it("accrues interest from the ledger's global index", async () => {
+    await index(BORROW_AND_REPAY)
+
+    const position = await stored()
+    assert.equal(position.principal, (40n * E18).toString())
+    assert.equal(position.borrowIndex, (132n * E18 / 100n).toString())
+    assert.deepEqual(position.balances, [[TOKEN.toLowerCase(), (100n * E18).toString()]])
+
+    const state = await positions.loadPositionState(
+      await db.prisma.userPosition.findFirstOrThrow({ where: { marketId: market.marketId } })
+    )
+    // At index 1.452: 40 × (1.452 − 1.32) = 5.28 interest
+    assert.equal(positions.totalDebtOf(state, 1452n * E18 / 1000n), 4528n * E18 / 100n)
+  })
+
+  it("applies a liquidation's bad debt, seizure and repayment", async () => {
+    await index([...BORROW_AND_REPAY, ...LIQUIDATION])
+
+    const position = await stored()
+    assert.equal(position.principal, "0")
+    assert.equal(position.blockNumber, 13)
+    assert.deepEqual(position.balances, [[TOKEN.toLowerCase(), "0"]])
+  })
+
+  it("refolds from the ledger when an event arrives behind the position", async () => {
+    const [b10a, b10b, b11a, b11b, b12a, b12b] = BORROW_AND_REPAY
+    await index([b10a, b10b, b12a, b12b])
+    await index([b11a, b11b])
+    const outOfOrder = await stored()
+
+    await truncateAll(db.prisma)
+    await createMarket()
+    await index(BORROW_AND_REPAY)
+
+    assert.deepEqual(outOfOrder, await stored())
+  })
+
+  it("rebuilds a market's positions from the ledger alone", async () => {
+    await index([...BORROW_AND_REPAY, ...LIQUIDATION])
+    const live = await stored()
+
+    await db.prisma.userCollateralBalance.deleteMany()
+    await db.prisma.userPosition.deleteMany()
+    assert.equal(await positions.rebuildMarketPositions(market), 1)
+
+    assert.deepEqual(await stored(), live)
+  })
+
+  it("prices positions with recorded router prices and the LLTV in force at the block", async () => {
+    await db.prisma.marketSnapshot.create({
+      data: {
+        marketId:           market.marketId,
+        blockNumber:        9,
+        totalSupply:        "0",
+        totalBorrows:       "0",
+        availableLiquidity: "0",
+        utilizationRate:    "0",
+        borrowRate:         "0",
+        lendingRate:        "0",
+        oraclePrice:        "1",
+        oracleConfidence:   100,
+        oracleIsStale:      false,
+        overallSeverity:    0,
+        routerPrices:       { [TOKEN.toLowerCase()]: "2", [LOAN_ASSET.toLowerCase()]: "1" },
+      },
+    })
+    const params = (block: number, lltv: bigint): Step => ({
+      block,
+      logIndex:  9,
+      eventName: "MarketParametersUpdated",
+      args:      { lltv, liquidationPenalty: 5n * E18 / 100n, protocolFeeRate: E18 / 10n },
+    })
+    await index([params(5, 8n * E18 / 10n), ...BORROW_AND_REPAY, params(20, E18 / 2n)])
+
+    // 100 tokens at $2, LLTV 0.8, 40 owed at $1 plus the 5% penalty
+    const expectFigures = async () => {
+      const row = await db.prisma.userPosition.findFirstOrThrow({ where: { marketId: market.marketId } })
+      assert.equal(Number(row.collateralValue), 200)
+      assert.equal(Number(row.borrowingPower), 160)
+      assert.equal(Number(row.healthFactor).toFixed(4), (160 / 42).toFixed(4))
+    }
+    await expectFigures()
+
+    // Rebuilt after the LLTV dropped, block 12 keeps the LLTV of its time
+    await positions.rebuildMarketPositions(market)
+    await expectFigures()
+
+    // Minute snapshots pruned — the hourly rollup still holds the prices
+    const rollups = await import("../src/indexer/snapshot-rollups")
+    await rollups.rollupSnapshots()
+    await db.prisma.marketSnapshot.deleteMany({})
+    await positions.rebuildMarketPositions(market)
+    await expectFigures()
+  })
+
+  it("drops positions whose events were rolled back", async () => {
+    await index(BORROW_AND_REPAY)
+    await db.prisma.protocolEvent.deleteMany({ where: { blockNumber: { gte: 10 } } })
+
+    await positions.rebuildPositionsFrom(TEST_CHAIN_ID, 10)
+    assert.equal(await db.prisma.userPosition.count(), 0)
+    assert.equal(await db.prisma.userCollateralBalance.count(), 0)
+  })
+})
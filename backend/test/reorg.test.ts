@@ -0,0 +1,221 @@
+/**
+ * Reorg scenarios for the block processor (checkReorg / rollbackFrom).
+ *
+ * Each scenario indexes a FakeChain into the test database, rewrites part of
+ * the chain and checks that what the DB holds matches the canonical branch.
+ * Vault BorrowedByMarket / RepaidToVault logs are used because they land in
+ * ProtocolEvent and LenderFlow without any contract reads.
+ *
+ * DB scenarios are skipped unless TEST_DATABASE_URL is set (see harness/db.ts).
+ */
+
+import assert from "node:assert/strict"
+import { after, before, beforeEach, describe, it } from "node:test"
+import type { Address } from "viem"
+import { VAULT_EVENTS_ABI } from "../src/indexer/events"
+import { FakeChain, type FakeEvent } from "./harness/fake-chain"
+import { TEST_CHAIN_ID, TEST_DATABASE_URL, configureTestEnv, pushSchema, truncateAll } from "./harness/db"
+
+const GENESIS      = 100n
+const DEPLOYMENT   = 101n
+const REORG_BUFFER = 5
+
+const VAULT        = "0x1000000000000000000000000000000000000001" as Address
+const MARKET       = "0x1000000000000000000000000000000000000002" as Address
+const IRM          = "0x1000000000000000000000000000000000000003" as Address
+const ROUTER       = "0x1000000000000000000000000000000000000004" as Address
+const PRICE_ORACLE = "0x1000000000000000000000000000000000000005" as Address
+const LOAN_ASSET   = "0x1000000000000000000000000000000000000006" as Address
+
+// ─── FakeChain ────────────────────────────────────────────────────────────────
+
+describe("FakeChain", () => {
+  it("gives replacement blocks new hashes and links them to the fork point", () => {
+    const chain = new FakeChain(GENESIS)
+    chain.mineEmpty(5)
+    const before = chain.blockAt(103n).hash
+
+    chain.fork(103n)
+    chain.mineEmpty(3)
+
+    assert.notEqual(chain.blockAt(103n).hash, before)
+    assert.equal(chain.blockAt(103n).parentHash, chain.blockAt(102n).hash)
+    assert.equal(chain.head, 105n)
+  })
+
+  it("serves logs filtered by address and block range", async () => {
+    const chain = new FakeChain(GENESIS)
+    const other = "0x2000000000000000000000000000000000000000" as Address
+    chain.mine([{ address: VAULT, abi: VAULT_EVENTS_ABI, eventName: "BorrowedByMarket", args: { market: MARKET, amount: 1n } }])
+    chain.mine([{ address: other, abi: VAULT_EVENTS_ABI, eventName: "BorrowedByMarket", args: { market: MARKET, amount: 2n } }])
+
+    const logs = await chain.client.getLogs({ address: [VAULT], fromBlock: GENESIS, toBlock: chain.head })
+    assert.equal(logs.length, 1)
+    assert.equal(logs[0].blockNumber, 101n)
+  })
+})
+
+// ─── Block processor ──────────────────────────────────────────────────────────
+
+describe("block processor reorgs", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL not set" }, () => {
+  let indexer: typeof import("../src/indexer/block-processor")
+  let db: typeof import("../src/lib/db")
+  let chains: typeof import("../src/lib/chains")
+  let market: import("../src/indexer/listener").MarketConfig
+  let fake: FakeChain
+
+  before(async () => {
+    configureTestEnv()
+    pushSchema()
+    db      = await import("../src/lib/db")
+    chains  = await import("../src/lib/chains")
+    indexer = await import("../src/indexer/block-processor")
+  })
+
+  after(async () => {
+    await db?.prisma.$disconnect()
+  })
+
+  beforeEach(async () => {
+    await truncateAll(db.prisma)
+
+    const row = await db.prisma.market.create({
+      data: {
+        chainId:             TEST_CHAIN_ID,
+        vaultAddress:        VAULT,
+        marketAddress:       MARKET,
+        irmAddress:          IRM,
+        oracleRouterAddress: ROUTER,
+        loanAsset:           LOAN_ASSET,
+        loanAssetDecimals:   6,
+        label:               "Test Market",
+        symbol:              "TST",
+      },
+    })
+    const { toMarketConfig } = await import("../src/indexer/listener")
+    market = toMarketConfig(row)
+
+    fake = new FakeChain(GENESIS)
+    fake.setContractReader((call) => {
+      if (call.functionName === "priceOracle") return PRICE_ORACLE
+      throw new Error(`unexpected read ${call.functionName}`)
+    })
+
+    const chain = chains.getChain(TEST_CHAIN_ID)
+    chain.client          = fake.client as unknown as typeof chain.client
+    chain.confirmations   = 0
+    chain.reorgBuffer     = REORG_BUFFER
+    chain.deploymentBlock = DEPLOYMENT
+    chain.logChunkSize    = 1
+  })
+
+  /** One vault log per block; `branch` makes the amounts differ between branches. */
+  function flow(blockNumber: bigint, branch = 0): FakeEvent {
+    return {
+      address:   VAULT,
+      abi:       VAULT_EVENTS_ABI,
+      eventName: branch === 0 ? "BorrowedByMarket" : "RepaidToVault",
+      args:      { market: MARKET, amount: blockNumber * 1_000_000n + BigInt(branch) },
+    }
+  }
+
+  function mineUntil(head: bigint, branch = 0): void {
+    while (fake.head < head) fake.mine([flow(fake.head + 1n, branch)])
+  }
+
+  function indexRange(from: bigint, to: bigint) {
+    return indexer.processBlockRange(chains.getChain(TEST_CHAIN_ID), from, to, [market])
+  }
+
+  /** Every indexed row belongs to the canonical chain, up to and including `upTo`. */
+  async function assertCanonical(upTo: bigint, from: bigint = DEPLOYMENT): Promise<void> {
+    const sync = await db.prisma.syncState.findUnique({ where: { chainId: TEST_CHAIN_ID } })
+    assert.equal(sync?.lastProcessedBlock, Number(upTo))
+    assert.equal(sync?.lastProcessedHash, fake.blockAt(upTo).hash)
+
+    const indexed = await db.prisma.indexedBlock.findMany({ where: { chainId: TEST_CHAIN_ID } })
+    assert.ok(indexed.length > 0)
+    for (const row of indexed) {
+      assert.equal(row.blockHash, fake.blockAt(BigInt(row.blockNumber)).hash, `IndexedBlock ${row.blockNumber}`)
+    }
+
+    const expected = new Set<string>()
+    for (let n = from; n <= upTo; n++) {
+      for (const log of fake.blockAt(n).logs) expected.add(`${log.transactionHash}:${log.logIndex}`)
+    }
+
+    const ledger = await db.prisma.protocolEvent.findMany({
+      where: { chainId: TEST_CHAIN_ID, blockNumber: { gte: Number(from) } },
+    })
+    for (const row of ledger) {
+      assert.equal(row.blockHash, fake.blockAt(BigInt(row.blockNumber)).hash, `ProtocolEvent at ${row.blockNumber}`)
+    }
+    assert.deepEqual(new Set(ledger.map((r) => `${r.txHash}:${r.logIndex}`)), expected)
+
+    const flows = await db.prisma.lenderFlow.findMany({ where: { blockNumber: { gte: Number(from) } } })
+    assert.deepEqual(new Set(flows.map((r) => `${r.txHash}:${r.logIndex}`)), expected)
+  }
+
+  it("rolls back and replays a reorg shallower than REORG_BUFFER", async () => {
+    mineUntil(120n)
+    await indexRange(DEPLOYMENT, 120n)
+    await assertCanonical(120n)
+
+    // Three blocks replaced, one more on top
+    fake.fork(118n)
+    mineUntil(121n, 1)
+
+    await indexRange(121n, 121n)
+    await assertCanonical(121n)
+
+    const replaced = await db.prisma.lenderFlow.count({ where: { eventName: "RepaidToVault" } })
+    assert.equal(replaced, 4)
+  })
+
+  it("leaves rows below the rollback window after a reorg deeper than REORG_BUFFER", async () => {
+    mineUntil(120n)
+    await indexRange(DEPLOYMENT, 120n)
+
+    // Eleven blocks replaced — rollback only reaches back REORG_BUFFER blocks
+    fake.fork(110n)
+    mineUntil(122n, 1)
+
+    await indexRange(121n, 122n)
+
+    // Everything from the rollback point on is canonical again…
+    const rollbackStart = 120n - BigInt(REORG_BUFFER)
+    await assertCanonical(122n, rollbackStart)
+
+    // …but blocks 110..114 still hold the orphaned branch: IndexedBlock no
+    // longer has their hashes, so nothing can tell they were replaced. This is
+    // why REORG_BUFFER must exceed the deepest reorg the chain can produce.
+    const stale = await db.prisma.protocolEvent.findMany({
+      where: { chainId: TEST_CHAIN_ID, blockNumber: { gte: 110, lt: Number(rollbackStart) } },
+    })
+    assert.equal(stale.length, 5)
+    for (const row of stale) {
+      assert.notEqual(row.blockHash, fake.blockAt(BigInt(row.blockNumber)).hash)
+    }
+  })
+
+  for (const logChunkSize of [1, 8]) {
+    it(`recovers from a reorg in the middle of catch-up (LOG_CHUNK_SIZE=${logChunkSize})`, async () => {
+      chains.getChain(TEST_CHAIN_ID).logChunkSize = logChunkSize
+      mineUntil(140n)
+
+      // The chain reorgs from 125 while the processor is working through 130
+      let forked = false
+      fake.onGetBlock((blockNumber) => {
+        if (forked || blockNumber !== 130n) return
+        forked = true
+        fake.fork(125n)
+        mineUntil(140n, 1)
+      })
+
+      await indexRange(DEPLOYMENT, 140n)
+
+      assert.ok(forked)
+      await assertCanonical(140n)
+    })
+  }
+})
@@ -0,0 +1,173 @@
+/**
+ * Record and replay of indexer RPC traffic (lib/rpc-fixture.ts, indexer/replay.ts).
+ *
+ * The transport tests run anywhere. The DB scenarios record processBlockRange
+ * over a FakeChain served through JSON-RPC, then replay the fixture with the
+ * chain unreachable and expect the same rows. Every fixture committed under
+ * test/fixtures/ is replayed the same way as a regression case.
+ *
+ * DB scenarios are skipped unless TEST_DATABASE_URL is set (see harness/db.ts).
+ */
+
+import assert from "node:assert/strict"
+import { existsSync, readFileSync, readdirSync } from "node:fs"
+import { resolve } from "node:path"
+import { after, before, beforeEach, describe, it } from "node:test"
+import { createPublicClient, custom, type Address } from "viem"
+import { VAULT_EVENTS_ABI } from "../src/indexer/events"
+import { ORACLE_ROUTER_ABI } from "../src/lib/contracts"
+import { createRecordingTransport, createReplayTransport, ReplayMissError, type RecordedCall } from "../src/lib/rpc-fixture"
+import { FakeChain } from "./harness/fake-chain"
+import { TEST_CHAIN_ID, TEST_DATABASE_URL, configureTestEnv, pushSchema, truncateAll } from "./harness/db"
+
+const GENESIS    = 100n
+const DEPLOYMENT = 101n
+
+const VAULT      = "0x1000000000000000000000000000000000000001" as Address
+const MARKET     = "0x1000000000000000000000000000000000000002" as Address
+const IRM        = "0x1000000000000000000000000000000000000003" as Address
+const ROUTER     = "0x1000000000000000000000000000000000000004" as Address
+const LOAN_ASSET = "0x1000000000000000000000000000000000000006" as Address
+
+const FIXTURES_DIR = resolve(__dirname, "fixtures")
+const FIXTURES     = existsSync(FIXTURES_DIR) ? readdirSync(FIXTURES_DIR).filter((f) => f.endsWith(".json")).sort() : []
+
+function mineFlows(fake: FakeChain, head: bigint): void {
+  while (fake.head < head) {
+    const amount = (fake.head + 1n) * 1_000_000n
+    fake.mine([{ address: VAULT, abi: VAULT_EVENTS_ABI, eventName: "BorrowedByMarket", args: { market: MARKET, amount } }])
+  }
+}
+
+/** Recorded calls as they come back from a fixture file. */
+function roundTrip(calls: RecordedCall[]): RecordedCall[] {
+  return JSON.parse(JSON.stringify(calls)) as RecordedCall[]
+}
+
+// ─── Transports ───────────────────────────────────────────────────────────────
+
+describe("RPC fixtures", () => {
+  it("replays recorded responses in call order", async () => {
+    const fake = new FakeChain(GENESIS)
+    mineFlows(fake, 102n)
+
+    const source   = createPublicClient({ transport: custom({ request: fake.request }) })
+    const recorder = createRecordingTransport((args) => source.request(args as never))
+    const recorded = createPublicClient({ transport: recorder.transport })
+
+    const heads  = [await recorded.getBlockNumber({ cacheTime: 0 })]
+    mineFlows(fake, 103n)
+    heads.push(await recorded.getBlockNumber({ cacheTime: 0 }))
+    const block = await recorded.getBlock({ blockNumber: 101n })
+    const logs  = await recorded.getLogs({ address: VAULT, fromBlock: 101n, toBlock: 103n })
+
+    const replay   = createReplayTransport(roundTrip(recorder.calls()))
+    const replayed = createPublicClient({ transport: replay.transport })
+
+    assert.deepEqual(heads, [102n, 103n])
+    assert.equal(await replayed.getBlockNumber({ cacheTime: 0 }), 102n)
+    assert.equal(await replayed.getBlockNumber({ cacheTime: 0 }), 103n)
+    // Out of recorded responses — the last one repeats
+    assert.equal(await replayed.getBlockNumber({ cacheTime: 0 }), 103n)
+    assert.equal((await replayed.getBlock({ blockNumber: 101n })).hash, block.hash)
+    assert.deepEqual(await replayed.getLogs({ address: VAULT, fromBlock: 101n, toBlock: 103n }), logs)
+    assert.equal(replay.misses().length, 0)
+  })
+
+  it("replays recorded failures and rejects unrecorded requests", async () => {
+    const fake     = new FakeChain(GENESIS)
+    const source   = createPublicClient({ transport: custom({ request: fake.request }) })
+    const recorder = createRecordingTransport((args) => source.request(args as never))
+    const recorded = createPublicClient({ transport: recorder.transport })
+
+    const read = { address: ROUTER, abi: ORACLE_ROUTER_ABI, functionName: "priceOracle" } as const
+    await assert.rejects(recorded.readContract(read))
+    assert.equal(recorder.calls()[0].error?.code, -32601)
+
+    const replay   = createReplayTransport(roundTrip(recorder.calls()))
+    const replayed = createPublicClient({ transport: replay.transport })
+
+    await assert.rejects(replayed.readContract(read))
+    await assert.rejects(replayed.getBlock({ blockNumber: 100n }), ReplayMissError)
+    assert.equal(replay.misses().length, 1)
+  })
+})
+
+// ─── Indexer ──────────────────────────────────────────────────────────────────
+
+describe("indexer replay", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL not set" }, () => {
+  let db: typeof import("../src/lib/db")
+  let chains: typeof import("../src/lib/chains")
+  let replay: typeof import("../src/indexer/replay")
+
+  before(async () => {
+    // The registry is built from env on import — register the fixtures' chains first
+    const fixtureChains = FIXTURES.map((file) =>
+      (JSON.parse(readFileSync(resolve(FIXTURES_DIR, file), "utf8")) as { chainId: number }).chainId
+    )
+    configureTestEnv([...new Set(fixtureChains)].filter((id) => id !== TEST_CHAIN_ID))
+    pushSchema()
+    db     = await import("../src/lib/db")
+    chains = await import("../src/lib/chains")
+    replay = await import("../src/indexer/replay")
+  })
+
+  after(async () => {
+    await db?.prisma.$disconnect()
+  })
+
+  beforeEach(async () => {
+    await truncateAll(db.prisma)
+  })
+
+  it("rebuilds the rows of a recorded processBlockRange run without the chain", async () => {
+    const row = await db.prisma.market.create({
+      data: {
+        chainId:             TEST_CHAIN_ID,
+        vaultAddress:        VAULT,
+        marketAddress:       MARKET,
+        irmAddress:          IRM,
+        oracleRouterAddress: ROUTER,
+        loanAsset:           LOAN_ASSET,
+        loanAssetDecimals:   6,
+        label:               "Test Market",
+        symbol:              "TST",
+      },
+    })
+    const { toMarketConfig } = await import("../src/indexer/listener")
+
+    const fake = new FakeChain(GENESIS)
+    mineFlows(fake, 120n)
+
+    const chain = chains.getChain(TEST_CHAIN_ID)
+    const viemChain = chain.client.chain
+    chain.client          = createPublicClient({ chain: viemChain, transport: custom({ request: fake.request }) })
+    chain.confirmations   = 0
+    chain.reorgBuffer     = 5
+    chain.deploymentBlock = DEPLOYMENT
+    chain.logChunkSize    = 8
+
+    const fixture = await replay.recordFixture(chain, DEPLOYMENT, 120n, [toMarketConfig(row)])
+    assert.equal(fixture.rows.lenderFlows.length, 20)
+    assert.ok(fixture.calls.some((c) => c.error), "priceOracle() lookup failure is recorded")
+
+    // Nothing answers any more: replay has to serve every call
+    chain.client = createPublicClient({
+      chain:     viemChain,
+      transport: custom({ request: async () => { throw new Error("chain unreachable") } }),
+    })
+    await truncateAll(db.prisma)
+
+    const result = await replay.replayFixture(JSON.parse(JSON.stringify(fixture)))
+    assert.equal(result.misses, 0)
+    assert.deepEqual(result.diff, [])
+  })
+
+  for (const file of FIXTURES) {
+    it(`replays fixtures/${file}`, async () => {
+      const result = await replay.replayFixture(replay.loadFixture(resolve(FIXTURES_DIR, file)))
+      assert.equal(result.misses, 0)
+      assert.deepEqual(result.diff, [])
+    })
+  }
+})
@@ -0,0 +1,115 @@
+/**
+ * Interest ledger and daily revenue (indexer/revenue.ts).
+ *
+ * DB scenarios are skipped unless TEST_DATABASE_URL is set (see harness/db.ts).
+ */
+
+import assert from "node:assert/strict"
+import { after, before, beforeEach, describe, it } from "node:test"
+import type { Address } from "viem"
+import { TEST_CHAIN_ID, TEST_DATABASE_URL, configureTestEnv, pushSchema, truncateAll } from "./harness/db"
+
+const MARKET = "0x1000000000000000000000000000000000000002" as Address
+const USER   = "0x2000000000000000000000000000000000000001" as Address
+
+const E18 = 10n ** 18n
+const DAY = 24 * 60 * 60
+
+describe("interest ledger", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL not set" }, () => {
+  let db: typeof import("../src/lib/db")
+  let revenue: typeof import("../src/indexer/revenue")
+  let ledger: typeof import("../src/indexer/ledger")
+  let market: import("../src/indexer/listener").MarketConfig
+
+  before(async () => {
+    configureTestEnv()
+    pushSchema()
+    db      = await import("../src/lib/db")
+    revenue = await import("../src/indexer/revenue")
+    ledger  = await import("../src/indexer/ledger")
+  })
+
+  after(async () => {
+    await db?.prisma.$disconnect()
+  })
+
+  beforeEach(async () => {
+    await truncateAll(db.prisma)
+    const row = await db.prisma.market.create({
+      data: {
+        chainId:             TEST_CHAIN_ID,
+        vaultAddress:        "0x1000000000000000000000000000000000000001",
+        marketAddress:       MARKET,
+        irmAddress:          "0x1000000000000000000000000000000000000003",
+        oracleRouterAddress: "0x1000000000000000000000000000000000000004",
+        loanAsset:           "0x1000000000000000000000000000000000000006",
+        loanAssetDecimals:   6,
+        label:               "Test Market",
+        symbol:              "TST",
+      },
+    })
+    const { toMarketConfig } = await import("../src/indexer/listener")
+    market = toMarketConfig(row)
+  })
+
+  function setFeeRate(block: number, rate: bigint) {
+    return ledger.recordProtocolEvent({
+      chainId:         TEST_CHAIN_ID,
+      contractAddress: MARKET,
+      eventName:       "MarketParametersUpdated",
+      args:            { lltv: 85n * E18 / 100n, liquidationPenalty: 5n * E18 / 100n, protocolFeeRate: rate },
+      blockNumber:     BigInt(block),
+      blockHash:       `0x${"ab".repeat(32)}`,
+      txHash:          `0x${block.toString(16).padStart(64, "f")}`,
+      logIndex:        0,
+    })
+  }
+
+  /** A repayment of `interest` + 10 principal at `block`, `day` days after the epoch. */
+  function repay(block: number, day: number, interest: bigint) {
+    return revenue.storeInterestEvent(market, {
+      user:           USER,
+      amount:         (interest + 10n * E18) / 10n ** 12n,
+      interestPaid:   interest,
+      principalPaid:  10n * E18,
+      txHash:         `0x${block.toString(16).padStart(64, "0")}`,
+      blockNumber:    BigInt(block),
+      blockTimestamp: BigInt(day * DAY + block),
+      logIndex:       1,
+    })
+  }
+
+  it("splits interest at the fee rate in force at the repayment", async () => {
+    await setFeeRate(1, 10n * E18 / 100n)
+    await setFeeRate(20, 25n * E18 / 100n)
+
+    const early = await repay(10, 0, 4n * E18)
+    const late  = await repay(30, 0, 4n * E18)
+
+    assert.deepEqual([Number(early.protocolFee), Number(early.lenderYield)], [0.4, 3.6])
+    assert.deepEqual([Number(late.protocolFee), Number(late.lenderYield)], [1, 3])
+    assert.equal(Number(late.amount), 14)
+  })
+
+  it("sums repayments per UTC day and drops days whose events were removed", async () => {
+    await setFeeRate(1, 10n * E18 / 100n)
+    await repay(10, 0, 2n * E18)
+    await repay(11, 0, 3n * E18)
+    await repay(40, 1, 5n * E18)
+    // Replayed
+    await repay(40, 1, 5n * E18)
+
+    const days = async () =>
+      (await db.prisma.revenueDaily.findMany({ orderBy: { day: "asc" } }))
+        .map((d) => [d.day.toISOString().slice(0, 10), d.repayments, Number(d.interestPaid), Number(d.protocolFee)])
+
+    assert.deepEqual(await days(), [
+      ["1970-01-01", 2, 5, 0.5],
+      ["1970-01-02", 1, 5, 0.5],
+    ])
+
+    await db.prisma.interestEvent.deleteMany({ where: { blockNumber: { gte: 11 } } })
+    assert.equal(await revenue.refreshRevenueDays({ lastBlock: { gte: 11 } }), 2)
+    assert.deepEqual(await days(), [["1970-01-01", 1, 2, 0.2]])
+  })
+})
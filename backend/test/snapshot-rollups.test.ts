@@ -0,0 +1,181 @@
+/**
+ * Snapshot rollups and retention (indexer/snapshot-rollups.ts).
+ *
+ * DB scenarios are skipped unless TEST_DATABASE_URL is set (see harness/db.ts).
+ */
+
+import assert from "node:assert/strict"
+import { after, before, beforeEach, describe, it } from "node:test"
+import { TEST_CHAIN_ID, TEST_DATABASE_URL, configureTestEnv, pushSchema, truncateAll } from "./harness/db"
+
+const HOUR = 60 * 60 * 1000
+const DAY  = 24 * HOUR
+
+describe("snapshot rollups", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL not set" }, () => {
+  let db: typeof import("../src/lib/db")
+  let rollups: typeof import("../src/indexer/snapshot-rollups")
+  let marketId: string
+
+  before(async () => {
+    configureTestEnv()
+    process.env.SNAPSHOT_RETENTION_DAYS = "30"
+    pushSchema()
+    db      = await import("../src/lib/db")
+    rollups = await import("../src/indexer/snapshot-rollups")
+  })
+
+  after(async () => {
+    await db?.prisma.$disconnect()
+  })
+
+  beforeEach(async () => {
+    await truncateAll(db.prisma)
+    const market = await db.prisma.market.create({
+      data: {
+        chainId:             TEST_CHAIN_ID,
+        vaultAddress:        "0x1000000000000000000000000000000000000001",
+        marketAddress:       "0x1000000000000000000000000000000000000002",
+        irmAddress:          "0x1000000000000000000000000000000000000003",
+        oracleRouterAddress: "0x1000000000000000000000000000000000000004",
+        loanAsset:           "0x1000000000000000000000000000000000000006",
+        loanAssetDecimals:   6,
+        label:               "Test Market",
+        symbol:              "TST",
+      },
+    })
+    marketId = market.id
+  })
+
+  /** Start of the UTC day `daysAgo` days back, plus `hours`. */
+  function at(daysAgo: number, hours: number, minutes = 0): Date {
+    const day = Math.floor((Date.now() - daysAgo * DAY) / DAY) * DAY
+    return new Date(day + hours * HOUR + minutes * 60_000)
+  }
+
+  function snapshot(timestamp: Date, utilization: number, severity: number, stale = false) {
+    return db.prisma.marketSnapshot.create({
+      data: {
+        marketId,
+        timestamp,
+        totalSupply:        "1000",
+        totalBorrows:       (1000 * utilization).toFixed(6),
+        availableLiquidity: (1000 * (1 - utilization)).toFixed(6),
+        utilizationRate:    utilization.toFixed(6),
+        borrowRate:         "0.05",
+        lendingRate:        "0.03",
+        oraclePrice:        "1",
+        oracleConfidence:   100,
+        oracleIsStale:      stale,
+        oracleSeverity:     severity,
+        overallSeverity:    severity,
+      },
+    })
+  }
+
+  const hourly = (bucketStart: Date) =>
+    db.prisma.marketSnapshotHourly.findUniqueOrThrow({ where: { marketId_bucketStart: { marketId, bucketStart } } })
+  const daily = (bucketStart: Date) =>
+    db.prisma.marketSnapshotDaily.findUniqueOrThrow({ where: { marketId_bucketStart: { marketId, bucketStart } } })
+
+  it("folds snapshots into hourly and daily rollups", async () => {
+    await snapshot(at(2, 10, 0), 0.5, 1)
+    await snapshot(at(2, 10, 20), 0.7, 3, true)
+    await snapshot(at(2, 10, 40), 0.6, 0)
+    await snapshot(at(2, 11, 0), 0.2, 0)
+    await snapshot(at(2, 11, 30), 0.4, 2)
+
+    assert.deepEqual(await rollups.rollupSnapshots(), { hours: 2, days: 1 })
+
+    const hour = await hourly(at(2, 10))
+    assert.equal(hour.sampleCount, 3)
+    assert.equal(Number(hour.utilizationRateMin), 0.5)
+    assert.equal(Number(hour.utilizationRateMax), 0.7)
+    assert.equal(Number(hour.utilizationRateAvg), 0.6)
+    assert.equal(Number(hour.utilizationRateLast), 0.6)
+    assert.equal(hour.overallSeverityMax, 3)
+    assert.equal(hour.overallSeverityLast, 0)
+    assert.equal(hour.oracleStaleCount, 1)
+    assert.equal(hour.oracleConfidenceAvg.toString(), "100")
+    assert.equal(hour.globalBorrowIndexLast, null)
+    assert.deepEqual(hour.lastTimestamp, at(2, 10, 40))
+
+    // Averages weighted by sample count, not by hour
+    const day = await daily(at(2, 0))
+    assert.equal(day.sampleCount, 5)
+    assert.equal(Number(day.utilizationRateMin), 0.2)
+    assert.equal(Number(day.utilizationRateMax), 0.7)
+    assert.equal(Number(day.utilizationRateAvg), 0.48)
+    assert.equal(Number(day.utilizationRateLast), 0.4)
+    assert.equal(day.overallSeverityMax, 3)
+    assert.equal(day.overallSeverityLast, 2)
+  })
+
+  it("recomputes only the hour and day a late snapshot lands in", async () => {
+    await snapshot(at(2, 10, 0), 0.5, 1)
+    await snapshot(at(2, 11, 0), 0.2, 0)
+    await rollups.rollupSnapshots()
+
+    // e.g. an event-sourced snapshot written by a backfill
+    await snapshot(at(2, 10, 30), 0.9, 2)
+    assert.deepEqual(await rollups.rollupSnapshots(), { hours: 1, days: 1 })
+    assert.equal(Number((await hourly(at(2, 10))).utilizationRateMax), 0.9)
+    assert.equal(Number((await daily(at(2, 0))).utilizationRateMax), 0.9)
+
+    assert.deepEqual(await rollups.rollupSnapshots(), { hours: 0, days: 0 })
+  })
+
+  it("keeps the last snapshot's block and router prices", async () => {
+    const first = await snapshot(at(2, 10, 0), 0.5, 0)
+    const last  = await snapshot(at(2, 10, 30), 0.6, 0)
+    await db.prisma.marketSnapshot.update({ where: { id: first.id }, data: { blockNumber: 100, routerPrices: { "0xaa": "2.000000" } } })
+    await db.prisma.marketSnapshot.update({ where: { id: last.id }, data: { blockNumber: 120, routerPrices: { "0xaa": "2.500000" } } })
+    await rollups.rollupSnapshots()
+
+    for (const bucket of [await hourly(at(2, 10)), await daily(at(2, 0))]) {
+      assert.equal(bucket.blockNumberLast, 120)
+      assert.deepEqual(bucket.routerPricesLast, { "0xaa": "2.500000" })
+    }
+  })
+
+  it("recomputes queued hours and drops the buckets left empty", async () => {
+    const kept    = await snapshot(at(2, 10, 0), 0.5, 0)
+    const dropped = await snapshot(at(2, 10, 30), 0.9, 0)
+    const alone   = await snapshot(at(2, 11, 0), 0.2, 0)
+    await rollups.rollupSnapshots()
+
+    // As a rollback does: queue the hours, then delete their rows
+    const orphaned = { id: { in: [dropped.id, alone.id] } }
+    assert.equal(await rollups.queueRollupHours(orphaned), 2)
+    await db.prisma.marketSnapshot.deleteMany({ where: orphaned })
+
+    assert.deepEqual(await rollups.rollupSnapshots(), { hours: 2, days: 1 })
+    assert.equal(Number((await hourly(at(2, 10))).utilizationRateMax), 0.5)
+    assert.equal(await db.prisma.marketSnapshotHourly.count({ where: { marketId, bucketStart: at(2, 11) } }), 0)
+    assert.equal((await daily(at(2, 0))).sampleCount, 1)
+    assert.equal(await db.prisma.snapshotRollupPending.count(), 0)
+
+    // The day goes with its last hour
+    await rollups.queueRollupHours({ id: kept.id })
+    await db.prisma.marketSnapshot.delete({ where: { id: kept.id } })
+    assert.deepEqual(await rollups.rollupSnapshots(), { hours: 1, days: 1 })
+    assert.equal(await db.prisma.marketSnapshotDaily.count({ where: { marketId } }), 0)
+  })
+
+  it("prunes minute snapshots past the retention window only once rolled up", async () => {
+    await snapshot(at(40, 10, 0), 0.5, 0)
+    await snapshot(at(40, 10, 30), 0.7, 0)
+    await snapshot(at(1, 10, 0), 0.6, 0)
+
+    assert.equal(await rollups.pruneSnapshots(), 0)
+
+    await rollups.rollupSnapshots()
+    assert.equal(await rollups.pruneSnapshots(), 2)
+    assert.equal(await db.prisma.marketSnapshot.count({ where: { marketId } }), 1)
+    assert.equal(Number((await hourly(at(40, 10))).utilizationRateAvg), 0.6)
+
+    // A late row in a pruned hour doesn't replace its rollup with a partial one
+    await snapshot(at(40, 10, 45), 0.1, 0)
+    await rollups.rollupSnapshots()
+    assert.equal((await hourly(at(40, 10))).sampleCount, 2)
+  })
+})
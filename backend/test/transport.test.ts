@@ -0,0 +1,149 @@
+/**
+ * Failover, rate limiting and quorum of the RPC transport (lib/transport.ts)
+ * against local HTTP stand-ins. Runs anywhere.
+ */
+
+import assert from "node:assert/strict"
+import { createServer } from "node:http"
+import type { AddressInfo } from "node:net"
+import { after, describe, it } from "node:test"
+import { createRpcTransport, RpcQuorumError, type RpcProvider } from "../src/lib/transport"
+
+type Answer = { result: unknown } | { error: { code: number; message: string } } | { status: number }
+
+interface StandIn {
+  url: string
+  /** Methods received, in arrival order */
+  calls: string[]
+  arrivals: number[]
+  close(): Promise<void>
+}
+
+const standIns: StandIn[] = []
+
+/** A JSON-RPC endpoint on a free local port answering every request with `answer`. */
+async function standIn(answer: (method: string, params: unknown[]) => Answer): Promise<StandIn> {
+  const calls: string[] = []
+  const arrivals: number[] = []
+  const server = createServer((req, res) => {
+    let body = ""
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => {
+      const { id, method, params } = JSON.parse(body) as { id: number; method: string; params: unknown[] }
+      calls.push(method)
+      arrivals.push(Date.now())
+      const out = answer(method, params)
+      if ("status" in out) {
+        res.writeHead(out.status).end()
+        return
+      }
+      res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify({ jsonrpc: "2.0", id, ...out }))
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const { port } = server.address() as AddressInfo
+  const s: StandIn = {
+    url:   `http://127.0.0.1:${port}`,
+    calls,
+    arrivals,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+  standIns.push(s)
+  return s
+}
+
+function transportOver(providers: Array<StandIn | RpcProvider>, quorum = 1) {
+  const outcomes: string[] = []
+  const rpc = createRpcTransport({
+    chain:      "test",
+    providers:  providers.map((p) => ("rps" in p ? p : { url: p.url, rps: 0 })),
+    quorum,
+    timeoutMs:  2_000,
+    cooldownMs: 60_000,
+    onRequest:  ({ method, outcome }) => outcomes.push(`${method}:${outcome}`),
+  })
+  const { request } = rpc.transport({ retryCount: 0 })
+  return { rpc, outcomes, request: (method: string, params: unknown[] = []) => request({ method, params }) }
+}
+
+const chainId = (): Answer => ({ result: "0x7a69" })
+const block   = (hash: string) => (): Answer => ({ result: { number: "0x10", hash } })
+
+after(async () => {
+  await Promise.all(standIns.map((s) => s.close()))
+})
+
+describe("RPC transport", () => {
+  it("fails over to the next provider and counts the fault", async () => {
+    const down = await standIn(() => ({ status: 500 }))
+    const up   = await standIn(chainId)
+    const { rpc, outcomes, request } = transportOver([down, up])
+
+    assert.equal(await request("eth_chainId"), "0x7a69")
+    assert.deepEqual([down.calls.length, up.calls.length], [1, 1])
+    assert.deepEqual(outcomes, ["eth_chainId:error", "eth_chainId:ok"])
+
+    const [first, second] = rpc.stats()
+    assert.equal(first.errors, 1)
+    assert.equal(first.consecutiveErrors, 1)
+    assert.equal(second.errors, 0)
+  })
+
+  it("fails over on a request limit but throws a too-large range at once", async () => {
+    const limited = await standIn((method) =>
+      method === "eth_getLogs"
+        ? { error: { code: -32005, message: "query returned more than 10000 results" } }
+        : { error: { code: -32005, message: "daily request limit exceeded" } }
+    )
+    const up = await standIn(chainId)
+    const { rpc, request } = transportOver([limited, up])
+
+    assert.equal(await request("eth_chainId"), "0x7a69")
+    assert.equal(rpc.stats()[0].errors, 1)
+
+    await assert.rejects(request("eth_getLogs", [{ fromBlock: "0x1", toBlock: "0x100000" }]), /more than 10000 results/)
+    // Not the provider's fault — the other one would refuse it too
+    assert.deepEqual(up.calls, ["eth_chainId"])
+    assert.equal(rpc.stats()[0].errors, 1)
+  })
+
+  it("queues requests over a provider's rate instead of sending them early", async () => {
+    const slow = await standIn(chainId)
+    const { rpc, request } = transportOver([{ url: slow.url, rps: 5 }])
+
+    const pending = [request("eth_chainId"), request("eth_chainId"), request("eth_chainId")]
+    assert.equal(rpc.stats()[0].queued, 2)
+    await Promise.all(pending)
+
+    // One slot every 200ms
+    const [a, b, c] = slow.arrivals
+    assert.ok(b - a >= 180 && c - b >= 180, `arrivals ${slow.arrivals.map((t) => t - a).join(", ")}ms apart`)
+    assert.equal(rpc.stats()[0].queued, 0)
+  })
+
+  it("returns a block only once a quorum of providers agrees on its hash", async () => {
+    const hashA = `0x${"aa".repeat(32)}`
+    const hashB = `0x${"bb".repeat(32)}`
+    const one   = await standIn(block(hashA))
+    const other = await standIn(block(hashB))
+    const third = await standIn(block(hashA))
+    const { request } = transportOver([one, other, third], 2)
+
+    // The first two disagree — the third breaks the tie
+    const result = (await request("eth_getBlockByNumber", ["0x10", false])) as { hash: string }
+    assert.equal(result.hash, hashA)
+    assert.deepEqual([one.calls.length, other.calls.length, third.calls.length], [1, 1, 1])
+
+    // Tags aren't pinned to a height — no quorum, first provider answers
+    await request("eth_getBlockByNumber", ["latest", false])
+    assert.deepEqual([one.calls.length, other.calls.length, third.calls.length], [2, 1, 1])
+  })
+
+  it("rejects a block no quorum agrees on", async () => {
+    const providers = await Promise.all(
+      ["11", "22", "33"].map((b) => standIn(block(`0x${b.repeat(32)}`)))
+    )
+    const { request } = transportOver(providers, 2)
+    await assert.rejects(request("eth_getBlockByNumber", ["0x10", false]), RpcQuorumError)
+  })
+})
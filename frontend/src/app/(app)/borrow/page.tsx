@@ -8,6 +8,7 @@ import { useAccount } from "wagmi"
 import { useAppStore } from "@/store/useAppStore"
 import { usePositions } from "@/hooks/usePositions"
 import { TOKENS } from "@/lib/addresses"
+import { VAULT_REGISTRY } from "@/lib/vault-registry"
 import { TokenIcon } from "@/components/TokenIcon"
 import { TrendingDown, TrendingUp, Shield } from "lucide-react"
 
@@ -32,11 +33,13 @@ function HealthBar({ value }: { value: number }) {
   )
 }
 
-const VAULT_ID_TO_MARKET_ADDRESS: Record<string, string> = {
-  usdc: "0x12f8DA89619C40553d9eA50aAce593cEb2f3eFcE",
-  weth: "0x9ef4141b954947800A47F46D11a6B2f366d1673b",
-  wbtc: "0xD1928f50281c65fBC73c8a644D259F1A6633AC56"
-}
+const VAULT_ID_TO_MARKET_ADDRESS: Record<string, string> = Object.fromEntries(
+  VAULT_REGISTRY.map((v) => [v.symbol.toLowerCase(), v.marketAddress])
+)
+
+const VAULT_ID_TO_ADDRESS: Record<string, string> = Object.fromEntries(
+  VAULT_REGISTRY.map((v) => [v.symbol.toLowerCase(), v.vaultAddress])
+)
 
 export default function BorrowPage() {
   const { address, isConnected } = useAccount()
@@ -53,12 +56,6 @@ export default function BorrowPage() {
     { id: "wbtc" as const, ...TOKENS.WBTC }
   ]
 
-  const VAULT_ID_TO_ADDRESS: Record<string, string> = {
-    usdc: "0xE8323c3d293f81C71232023367Bada21137C055E",
-    weth: "0xbbc4c7FbCcF0faa27821c4F44C01D3F81C088070",
-    wbtc: "0xBCB5fcA37f87a97eB1C5d6c9a92749e0F41161f0"
-  }
-
   const activeMarketAddress =
     VAULT_ID_TO_MARKET_ADDRESS[selectedVault ?? "usdc"]
 
@@ -0,0 +1,192 @@
+"use client"
+
+import { Suspense, useMemo, useState } from "react"
+import { Header } from "@/components/Header"
+import { HealthFactorHistogram } from "@/components/HealthFactorHistogram"
+import { useAtRiskBorrowers } from "@/hooks/useAtRiskBorrowers"
+import { useSelectedVault } from "@/hooks/useSelectedVault"
+import { formatLargeNumber } from "@/lib/format"
+import type { AtRiskPosition, HealthBand } from "@/types/metrics"
+import { ArrowDown, ArrowUp, RefreshCw, ShieldAlert } from "lucide-react"
+
+type SortKey =
+  | "healthFactor"
+  | "totalDebt"
+  | "collateralValue"
+  | "distanceToLiquidation"
+  | "lastUpdated"
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "healthFactor", label: "Health Factor" },
+  { key: "totalDebt", label: "Debt" },
+  { key: "collateralValue", label: "Collateral" },
+  { key: "distanceToLiquidation", label: "To Liquidation" },
+  { key: "lastUpdated", label: "Updated" }
+]
+
+const BAND_STYLES: Record<HealthBand, string> = {
+  healthy: "text-emerald-400 bg-emerald-500/10",
+  warning: "text-amber-400 bg-amber-500/10",
+  critical: "text-orange-400 bg-orange-500/10",
+  liquidatable: "text-red-400 bg-red-500/10"
+}
+
+export default function BorrowersPage() {
+  return (
+    <Suspense
+      fallback={
+        <>
+          <Header title='Borrowers at Risk' />
+          <div className='p-6 flex items-center justify-center min-h-[400px]'>
+            <RefreshCw className='w-8 h-8 text-slate-400 animate-spin' />
+          </div>
+        </>
+      }
+    >
+      <BorrowersContent />
+    </Suspense>
+  )
+}
+
+function sortValue(position: AtRiskPosition, key: SortKey): number {
+  return key === "lastUpdated" ? new Date(position.lastUpdated).getTime() : position[key]
+}
+
+function BorrowersContent() {
+  const [sortKey, setSortKey] = useState<SortKey>("healthFactor")
+  const [ascending, setAscending] = useState(true)
+  const { vaultAddress, config } = useSelectedVault()
+  const { data, loading } = useAtRiskBorrowers(vaultAddress)
+
+  const positions = useMemo(() => {
+    const rows = [...(data?.positions ?? [])]
+    rows.sort((a, b) => sortValue(a, sortKey) - sortValue(b, sortKey))
+    return ascending ? rows : rows.reverse()
+  }, [data, sortKey, ascending])
+
+  if (loading && !data) {
+    return (
+      <>
+        <Header title='Borrowers at Risk' />
+        <div className='p-6 flex items-center justify-center min-h-[400px]'>
+          <RefreshCw className='w-8 h-8 text-slate-400 animate-spin' />
+        </div>
+      </>
+    )
+  }
+
+  const market = data?.markets[0]
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending)
+    } else {
+      setSortKey(key)
+      setAscending(true)
+    }
+  }
+
+  return (
+    <>
+      <Header title='Borrowers at Risk' />
+      <div className='p-6 sm:p-8 lg:p-10'>
+        {/* Distribution */}
+        <div className='mb-8 glass-panel rounded-2xl overflow-hidden shadow-2xl'>
+          <div className='px-8 py-6 border-b border-midnight-700/50 flex items-center justify-between bg-white/5'>
+            <div className='flex items-center gap-3'>
+              <ShieldAlert className='w-5 h-5 text-amber-400' />
+              <h3 className='text-lg font-semibold tracking-wide text-white'>
+                {config.label} Health Factor Distribution
+              </h3>
+            </div>
+            <span className='text-sm text-slate-400'>
+              <span className='text-white font-medium font-mono'>{market?.borrowers ?? 0}</span>{" "}
+              open borrowers
+            </span>
+          </div>
+          <div className='px-6 py-6'>
+            <HealthFactorHistogram buckets={market?.histogram ?? []} height={260} />
+          </div>
+        </div>
+
+        {/* Borrowers */}
+        <div className='glass-panel rounded-2xl overflow-hidden shadow-2xl'>
+          <div className='px-8 py-6 border-b border-midnight-700/50 bg-white/5'>
+            <h3 className='text-lg font-semibold tracking-wide text-white'>
+              Latest Position per Borrower
+            </h3>
+          </div>
+
+          {positions.length === 0 ? (
+            <div className='px-8 py-12 text-center text-sm text-slate-500'>No open borrowers</div>
+          ) : (
+            <div className='overflow-x-auto'>
+              <table className='w-full text-sm'>
+                <thead>
+                  <tr className='text-[10px] font-bold text-slate-500 uppercase tracking-[0.1em] border-b border-midnight-700/50'>
+                    <th className='px-8 py-3 text-left'>Borrower</th>
+                    {COLUMNS.map((column) => (
+                      <th key={column.key} className='px-4 py-3 text-right'>
+                        <button
+                          onClick={() => toggleSort(column.key)}
+                          className='inline-flex items-center gap-1 uppercase tracking-[0.1em] hover:text-slate-300 transition-colors'
+                        >
+                          {column.label}
+                          {sortKey === column.key &&
+                            (ascending ? (
+                              <ArrowUp className='w-3 h-3' />
+                            ) : (
+                              <ArrowDown className='w-3 h-3' />
+                            ))}
+                        </button>
+                      </th>
+                    ))}
+                    <th className='px-8 py-3 text-right'>Band</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {positions.map((position) => (
+                    <tr
+                      key={`${position.marketId}:${position.userAddress}`}
+                      className='border-b border-midnight-700/20 hover:bg-white/5 transition-colors'
+                    >
+                      <td className='px-8 py-3 font-mono text-slate-300'>
+                        {position.userAddress.slice(0, 6)}…{position.userAddress.slice(-4)}
+                      </td>
+                      <td className='px-4 py-3 text-right font-mono text-white'>
+                        {position.healthFactor.toFixed(3)}
+                      </td>
+                      <td className='px-4 py-3 text-right font-mono text-slate-300'>
+                        {formatLargeNumber(position.totalDebt)} {config.symbol}
+                      </td>
+                      <td className='px-4 py-3 text-right font-mono text-slate-300'>
+                        {formatLargeNumber(position.collateralValue)} {config.symbol}
+                      </td>
+                      <td className='px-4 py-3 text-right font-mono text-slate-300'>
+                        {(position.distanceToLiquidation * 100).toFixed(1)}%
+                      </td>
+                      <td className='px-4 py-3 text-right text-slate-500'>
+                        {new Date(position.lastUpdated).toLocaleString()}
+                      </td>
+                      <td className='px-8 py-3 text-right'>
+                        {position.healthBand ? (
+                          <span
+                            className={`px-2 py-0.5 rounded-md text-xs font-semibold ${BAND_STYLES[position.healthBand]}`}
+                          >
+                            {position.healthBand}
+                          </span>
+                        ) : (
+                          <span className='text-xs text-slate-500'>—</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
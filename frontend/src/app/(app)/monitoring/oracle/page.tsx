@@ -3,11 +3,13 @@
 import { Suspense, useState } from "react";
 import { Header } from "@/components/Header";
 import { TimeSeriesChart, TimeRangeSelector } from "@/components/TimeSeriesChart";
+import { OracleEventTimeline } from "@/components/OracleEventTimeline";
 import { useMetrics } from "@/hooks/useMetrics";
+import { useOracleEvents } from "@/hooks/useOracleEvents";
 import { useSelectedVault } from "@/hooks/useSelectedVault";
 import { formatPrice, getConfidenceLabel } from "@/lib/format";
 import type { TimeRange, SeverityLevel } from "@/types/metrics";
-import { RefreshCw, Radio, AlertTriangle, CheckCircle } from "lucide-react";
+import { RefreshCw, Radio, AlertTriangle, CheckCircle, History } from "lucide-react";
 
 const severityConfig: Record<SeverityLevel, { label: string; color: string; dotColor: string }> = {
   0: { label: "Normal", color: "#34d399", dotColor: "bg-emerald-500" },
@@ -35,12 +37,13 @@ export default function OraclePage() {
 
 function OracleContent() {
   const [timeRange, setTimeRange] = useState<TimeRange>("24h");
-  const { vaultAddress } = useSelectedVault();
+  const { vaultAddress, config } = useSelectedVault();
   const { metrics, history, loading } = useMetrics({
     vault: vaultAddress,
     signal: "oracle",
     range: timeRange,
   });
+  const { events: oracleEvents } = useOracleEvents(config.loanAsset, timeRange);
 
   if (loading) {
     return (
@@ -222,6 +225,19 @@ function OracleContent() {
             )}
           </div>
         </div>
+
+        {/* Event timeline */}
+        <div className="mt-8 glass-panel rounded-2xl overflow-hidden shadow-2xl">
+          <div className="px-8 py-6 border-b border-midnight-700/50 flex items-center gap-3 bg-white/5">
+            <History className="w-5 h-5 text-cyan-400" />
+            <h3 className="text-lg font-semibold tracking-wide text-white">
+              Oracle Event Timeline
+            </h3>
+          </div>
+          <div className="px-8 py-6">
+            <OracleEventTimeline events={oracleEvents} />
+          </div>
+        </div>
       </div>
     </>
   );
@@ -1,6 +1,7 @@
 "use client"
 
 import { Suspense, useCallback, useEffect, useState } from "react"
+import Link from "next/link"
 import { Header } from "@/components/Header"
 import { RiskMetricCard } from "@/components/RiskMetricCard"
 import type {
@@ -25,6 +26,8 @@ import { useVaults } from "@/hooks/useVaults"
 import { VaultSelector } from "@/components/VaultSelector"
 import { TokenIcon } from "@/components/TokenIcon"
 import { VAULT_REGISTRY } from "@/lib/vault-registry"
+import { BadDebtCard } from "@/components/BadDebtCard"
+import { useBadDebt } from "@/hooks/useBadDebt"
 
 export default function DashboardPage() {
   return (
@@ -46,6 +49,7 @@ export default function DashboardPage() {
 function DashboardContent() {
   const { vaultAddress, config, setVault } = useSelectedVault()
   const { data: vaultsData } = useVaults()
+  const { data: badDebt } = useBadDebt(vaultAddress)
   const [metrics, setMetrics] = useState<CurrentMetricsResponse | null>(null)
   const [protocol, setProtocol] = useState<ProtocolOverviewResponse | null>(
     null
@@ -228,6 +232,18 @@ function DashboardContent() {
                 severities={severities}
               />
               <div className='flex-1 h-px bg-midnight-700/50' />
+              <Link
+                href={`/monitoring/revenue?vault=${vaultAddress}`}
+                className='text-xs font-semibold text-indigo-300 hover:text-indigo-200 transition-colors'
+              >
+                Interest revenue →
+              </Link>
+              <Link
+                href={`/monitoring/borrowers?vault=${vaultAddress}`}
+                className='text-xs font-semibold text-indigo-300 hover:text-indigo-200 transition-colors'
+              >
+                Borrowers at risk →
+              </Link>
             </div>
 
             {metrics && (
@@ -330,6 +346,13 @@ function DashboardContent() {
               </div>
             )}
 
+            {badDebt && badDebt.markets[0] && (
+              <BadDebtCard
+                market={badDebt.markets[0]}
+                borrowers={badDebt.borrowers.length}
+              />
+            )}
+
             {/* Active Markets Table */}
             {(protocol || metrics) && (
               <div className='glass-panel rounded-2xl overflow-hidden shadow-2xl'>
@@ -0,0 +1,142 @@
+"use client"
+
+import { Suspense, useState } from "react"
+import { Header } from "@/components/Header"
+import { TimeRangeSelector } from "@/components/TimeSeriesChart"
+import { RevenueChart } from "@/components/RevenueChart"
+import { useRevenue } from "@/hooks/useRevenue"
+import { useSelectedVault } from "@/hooks/useSelectedVault"
+import { formatLargeNumber } from "@/lib/format"
+import type { TimeRange } from "@/types/metrics"
+import { Coins, RefreshCw } from "lucide-react"
+
+export default function RevenuePage() {
+  return (
+    <Suspense
+      fallback={
+        <>
+          <Header title='Interest Revenue' />
+          <div className='p-6 flex items-center justify-center min-h-[400px]'>
+            <RefreshCw className='w-8 h-8 text-slate-400 animate-spin' />
+          </div>
+        </>
+      }
+    >
+      <RevenueContent />
+    </Suspense>
+  )
+}
+
+function RevenueContent() {
+  const [timeRange, setTimeRange] = useState<TimeRange>("30d")
+  const { vaultAddress, config } = useSelectedVault()
+  const { data, loading } = useRevenue(vaultAddress, timeRange)
+
+  if (loading && !data) {
+    return (
+      <>
+        <Header title='Interest Revenue' />
+        <div className='p-6 flex items-center justify-center min-h-[400px]'>
+          <RefreshCw className='w-8 h-8 text-slate-400 animate-spin' />
+        </div>
+      </>
+    )
+  }
+
+  const market = data?.markets[0]
+  const realised = market?.realised
+  // Interest that accrued on borrows but has not been repaid yet
+  const unrealised = market ? Math.max(market.accruedInterest - market.realised.interestPaid, 0) : 0
+  const realisedShare =
+    market && market.accruedInterest > 0
+      ? market.realised.interestPaid / market.accruedInterest
+      : null
+
+  const stats = [
+    {
+      label: "Accrued Interest",
+      value: market?.accruedInterest ?? 0,
+      note: "Borrow index growth × borrows"
+    },
+    {
+      label: "Realised Interest",
+      value: realised?.interestPaid ?? 0,
+      note: `${realised?.repayments ?? 0} repayments`
+    },
+    {
+      label: "Protocol Fee",
+      value: realised?.protocolFee ?? 0,
+      note: "Sent to treasury"
+    },
+    {
+      label: "Lender Yield",
+      value: realised?.lenderYield ?? 0,
+      note: "Repaid to the vault"
+    }
+  ]
+
+  return (
+    <>
+      <Header title='Interest Revenue' />
+      <div className='p-6 sm:p-8 lg:p-10'>
+        {/* Summary */}
+        <div className='mb-8 glass-panel rounded-2xl overflow-hidden shadow-2xl'>
+          <div className='px-8 py-6 border-b border-midnight-700/50 flex items-center justify-between bg-white/5'>
+            <div className='flex items-center gap-3'>
+              <Coins className='w-5 h-5 text-emerald-400' />
+              <h3 className='text-lg font-semibold tracking-wide text-white'>
+                {config.label} Revenue
+              </h3>
+            </div>
+            <TimeRangeSelector selected={timeRange} onChange={setTimeRange} />
+          </div>
+
+          <div className='px-8 py-6'>
+            <div className='grid grid-cols-2 lg:grid-cols-4 gap-6'>
+              {stats.map((stat) => (
+                <div
+                  key={stat.label}
+                  className='p-5 rounded-xl bg-midnight-800/40 border border-midnight-700/30'
+                >
+                  <p className='text-[10px] font-bold text-slate-500 uppercase tracking-[0.1em] mb-1'>
+                    {stat.label}
+                  </p>
+                  <p className='text-2xl font-display font-black text-white tracking-tight mb-1'>
+                    {formatLargeNumber(stat.value)}
+                    <span className='text-sm text-slate-500 ml-1'>{config.symbol}</span>
+                  </p>
+                  <p className='text-xs text-slate-500'>{stat.note}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className='mt-6 p-3 rounded-lg bg-midnight-900/50 border border-midnight-700/20'>
+              <p className='text-sm text-slate-400'>
+                <span className='text-white font-medium font-mono'>
+                  {realisedShare !== null ? `${(realisedShare * 100).toFixed(1)}%` : "N/A"}
+                </span>{" "}
+                of accrued interest realised through repayments ·{" "}
+                <span className='text-white font-medium font-mono'>
+                  {formatLargeNumber(unrealised)} {config.symbol}
+                </span>{" "}
+                still carried as borrower debt
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Daily chart */}
+        <div className='glass-panel rounded-2xl overflow-hidden shadow-2xl'>
+          <div className='px-8 py-6 border-b border-midnight-700/50 bg-white/5'>
+            <h3 className='text-lg font-semibold tracking-wide text-white'>
+              Accrued vs. Realised Interest (daily, UTC)
+            </h3>
+          </div>
+          <div className='px-6 py-6'>
+            <RevenueChart data={market?.daily ?? []} symbol={config.symbol} height={350} />
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import type { MarketBadDebt } from "@/types/metrics";
+import { formatLargeNumber } from "@/lib/format";
+import { ShieldAlert } from "lucide-react";
+
+interface BadDebtCardProps {
+  market: MarketBadDebt;
+  /** Borrowers in this market with recorded bad debt */
+  borrowers: number;
+}
+
+// Share of vault assets lost to bad debt above which the card turns amber / red
+const ELEVATED_SHARE = 0.001;
+const CRITICAL_SHARE = 0.01;
+
+export function BadDebtCard({ market, borrowers }: BadDebtCardProps) {
+  const share = market.badDebtShare;
+  const tone =
+    share === null || share < ELEVATED_SHARE
+      ? { text: "text-emerald-400", bar: "bg-emerald-500", label: "Contained" }
+      : share < CRITICAL_SHARE
+        ? { text: "text-amber-400", bar: "bg-amber-500", label: "Elevated" }
+        : { text: "text-red-400", bar: "bg-red-500", label: "Critical" };
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 mb-10">
+      <div className="flex items-start justify-between mb-5">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-red-500/10 flex items-center justify-center border border-red-500/20">
+            <ShieldAlert className="w-5 h-5 text-red-400" />
+          </div>
+          <div>
+            <h3 className="text-base font-semibold text-white tracking-wide">Socialised Loss</h3>
+            <p className="text-xs text-slate-500">Cumulative bad debt vs. vault total assets</p>
+          </div>
+        </div>
+        <span className={`text-[10px] font-bold uppercase tracking-[0.1em] ${tone.text}`}>{tone.label}</span>
+      </div>
+
+      <div className="flex items-baseline gap-3 mb-3">
+        <span className={`text-3xl font-mono font-semibold tracking-tight ${tone.text}`}>
+          {share !== null ? `${(share * 100).toFixed(3)}%` : "N/A"}
+        </span>
+        <span className="text-xs text-slate-500">of ${formatLargeNumber(market.totalAssetsUsd ?? 0)} assets</span>
+      </div>
+
+      <div className="w-full h-1.5 rounded-full bg-midnight-950 overflow-hidden border border-white/10 mb-5">
+        <div
+          className={`h-full ${tone.bar}`}
+          style={{ width: `${Math.min((share ?? 0) / CRITICAL_SHARE, 1) * 100}%` }}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.1em] mb-1">All-time</p>
+          <p className="font-mono text-white">${formatLargeNumber(market.cumulativeBadDebt)}</p>
+        </div>
+        <div>
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.1em] mb-1">Last 30d</p>
+          <p className="font-mono text-white">${formatLargeNumber(market.badDebt)}</p>
+        </div>
+        <div>
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.1em] mb-1">Borrowers</p>
+          <p className="font-mono text-white">{borrowers}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
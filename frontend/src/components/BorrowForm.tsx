@@ -14,7 +14,7 @@ import { ERC20_ABI, MARKET_ABI } from "@/lib/contracts"
 import { useAppStore } from "@/store/useAppStore"
 import { usePositions } from "@/hooks/usePositions"
 import { useVaults } from "@/hooks/useVaults"
-import { getVaultConfig } from "@/lib/vault-registry"
+import { getVaultConfig, VAULT_REGISTRY } from "@/lib/vault-registry"
 import { TOKENS } from "@/lib/addresses"
 import { formatRate } from "@/lib/irm"
 import { Tooltip } from "@/components/Tooltip"
@@ -35,12 +35,10 @@ const publicClient = createPublicClient({
   )
 })
 
-// Map store VaultId to vault address
-const VAULT_ID_TO_ADDRESS: Record<string, string> = {
-  usdc: "0xE8323c3d293f81C71232023367Bada21137C055E",
-  weth: "0xbbc4c7FbCcF0faa27821c4F44C01D3F81C088070",
-  wbtc: "0xBCB5fcA37f87a97eB1C5d6c9a92749e0F41161f0"
-}
+// Map store VaultId (lowercase symbol) to vault address
+const VAULT_ID_TO_ADDRESS: Record<string, string> = Object.fromEntries(
+  VAULT_REGISTRY.map((v) => [v.symbol.toLowerCase(), v.vaultAddress])
+)
 
 type TabMode = "borrow" | "repay"
 
@@ -0,0 +1,99 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { HealthFactorBucket } from "@/types/metrics";
+
+interface HealthFactorHistogramProps {
+  buckets: HealthFactorBucket[];
+  height?: number;
+}
+
+/** Bucket colour by its lower edge — liquidatable, critical, warning, healthy. */
+function bucketColor(from: number): string {
+  if (from < 1) return "#f87171";
+  if (from < 1.05) return "#fb923c";
+  if (from < 1.25) return "#fbbf24";
+  return "#34d399";
+}
+
+function bucketLabel(bucket: HealthFactorBucket): string {
+  return bucket.to === null ? `≥ ${bucket.from}` : `${bucket.from}–${bucket.to}`;
+}
+
+/** Open borrowers per health-factor bucket. */
+export function HealthFactorHistogram({ buckets, height = 260 }: HealthFactorHistogramProps) {
+  const chartData = useMemo(
+    () => buckets.map((bucket) => ({ ...bucket, label: bucketLabel(bucket) })),
+    [buckets]
+  );
+
+  if (buckets.every((b) => b.count === 0)) {
+    return (
+      <div
+        className="flex items-center justify-center rounded-xl bg-midnight-800/30 border border-midnight-700/30"
+        style={{ height }}
+      >
+        <p className="text-slate-500 text-sm">No open borrowers</p>
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <BarChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="rgba(148,163,184,0.08)" vertical={false} />
+        <XAxis
+          dataKey="label"
+          stroke="transparent"
+          fontSize={11}
+          tickLine={false}
+          axisLine={false}
+          tick={{ fill: "#64748b", fontFamily: "monospace" }}
+          dy={8}
+        />
+        <YAxis
+          stroke="transparent"
+          fontSize={11}
+          tickLine={false}
+          axisLine={false}
+          allowDecimals={false}
+          tick={{ fill: "#64748b", fontFamily: "monospace" }}
+          width={40}
+        />
+        <Tooltip
+          cursor={{ fill: "rgba(148,163,184,0.06)" }}
+          content={({ active, payload }) => {
+            if (!active || !payload?.length) return null;
+            const bucket = payload[0].payload as HealthFactorBucket & { label: string };
+            return (
+              <div className="rounded-lg border border-midnight-700/50 bg-midnight-900/95 backdrop-blur-md px-4 py-3 shadow-xl">
+                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">
+                  Health factor {bucket.label}
+                </p>
+                <p className="text-lg font-semibold text-white font-mono">
+                  {bucket.count}
+                  <span className="text-slate-400 text-sm ml-1">borrowers</span>
+                </p>
+              </div>
+            );
+          }}
+        />
+        <Bar dataKey="count" radius={[3, 3, 0, 0]}>
+          {chartData.map((bucket) => (
+            <Cell key={bucket.label} fill={bucketColor(bucket.from)} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import type { OracleEvent, OracleEventName } from "@/types/metrics";
+import { formatPrice } from "@/lib/format";
+
+const eventConfig: Record<OracleEventName, { label: string; color: string }> = {
+  LKGPriceUpdated: { label: "LKG Price Updated", color: "#22d3ee" },
+  PriceFeedAdded: { label: "Price Feed Added", color: "#34d399" },
+  PriceFeedUpdated: { label: "Price Feed Swapped", color: "#fbbf24" },
+  PriceFeedRemoved: { label: "Price Feed Removed", color: "#f87171" },
+  TWAPOracleRegistered: { label: "TWAP Registered", color: "#a78bfa" },
+  TWAPOracleRemoved: { label: "TWAP Removed", color: "#f87171" },
+  MaxPriceAgeUpdated: { label: "Max Price Age Changed", color: "#fbbf24" },
+};
+
+const shortAddr = (addr: unknown) =>
+  typeof addr === "string" ? `${addr.slice(0, 6)}…${addr.slice(-4)}` : "—";
+
+function describe(event: OracleEvent): string {
+  const d = event.details;
+  switch (event.eventName) {
+    case "LKGPriceUpdated":
+      return `Last known good price recorded at $${formatPrice(event.price ?? 0)}`;
+    case "PriceFeedAdded":
+      return `Chainlink feed ${shortAddr(d.feed)} (${d.decimals} decimals)`;
+    case "PriceFeedUpdated":
+      return `Feed ${shortAddr(d.oldFeed)} → ${shortAddr(d.newFeed)}`;
+    case "PriceFeedRemoved":
+      return "Chainlink feed removed";
+    case "TWAPOracleRegistered":
+      return `TWAP oracle ${shortAddr(d.twapOracle)}`;
+    case "TWAPOracleRemoved":
+      return "TWAP oracle removed";
+    case "MaxPriceAgeUpdated":
+      return `Max price age ${d.oldMaxAge}s → ${d.newMaxAge}s (all assets)`;
+    default:
+      return "";
+  }
+}
+
+interface OracleEventTimelineProps {
+  events: OracleEvent[];
+}
+
+export function OracleEventTimeline({ events }: OracleEventTimelineProps) {
+  if (events.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <p className="text-slate-500 text-sm">No oracle events in this range</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-midnight-700/50 ml-2">
+      {events.map((event) => {
+        const cfg = eventConfig[event.eventName] ?? { label: event.eventName, color: "#94a3b8" };
+        return (
+          <li key={`${event.txHash}-${event.logIndex}`} className="mb-6 ml-5">
+            <span
+              className="absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: cfg.color }}
+            />
+            <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+              <span className="text-sm font-semibold" style={{ color: cfg.color }}>
+                {cfg.label}
+              </span>
+              <time className="text-[10px] font-mono text-slate-500">
+                {new Date(event.timestamp).toLocaleString()}
+              </time>
+            </div>
+            <p className="text-sm text-slate-400 mt-0.5">{describe(event)}</p>
+            <a
+              href={`https://sepolia.etherscan.io/tx/${event.txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-[10px] text-indigo-400 hover:text-indigo-300 mt-1 inline-block font-mono"
+            >
+              Block {event.blockNumber} · {event.txHash.slice(0, 10)}...{event.txHash.slice(-8)}
+            </a>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { RevenueDay } from "@/types/metrics";
+import { formatLargeNumber } from "@/lib/format";
+
+interface RevenueChartProps {
+  data: RevenueDay[];
+  symbol: string;
+  height?: number;
+}
+
+const ACCRUED_COLOR = "#818cf8";
+const REALISED_COLOR = "#34d399";
+
+/** Daily accrued vs. realised interest, side by side. */
+export function RevenueChart({ data, symbol, height = 300 }: RevenueChartProps) {
+  const chartData = useMemo(
+    () =>
+      data.map((day) => ({
+        ...day,
+        formattedDay: new Date(`${day.day}T00:00:00Z`).toLocaleDateString(undefined, {
+          month: "short",
+          day: "numeric",
+          timeZone: "UTC",
+        }),
+      })),
+    [data]
+  );
+
+  if (data.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center rounded-xl bg-midnight-800/30 border border-midnight-700/30"
+        style={{ height }}
+      >
+        <p className="text-slate-500 text-sm">No data available</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-5 mb-4 text-xs text-slate-400">
+        <span className="flex items-center gap-2">
+          <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: ACCRUED_COLOR }} />
+          Accrued
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: REALISED_COLOR }} />
+          Realised
+        </span>
+      </div>
+      <ResponsiveContainer width="100%" height={height}>
+        <BarChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(148,163,184,0.08)" vertical={false} />
+          <XAxis
+            dataKey="formattedDay"
+            stroke="transparent"
+            fontSize={11}
+            tickLine={false}
+            axisLine={false}
+            tick={{ fill: "#64748b", fontFamily: "monospace" }}
+            dy={8}
+          />
+          <YAxis
+            stroke="transparent"
+            fontSize={11}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(value) => formatLargeNumber(Number(value))}
+            tick={{ fill: "#64748b", fontFamily: "monospace" }}
+            width={60}
+          />
+          <Tooltip
+            cursor={{ fill: "rgba(148,163,184,0.06)" }}
+            content={({ active, payload }) => {
+              if (!active || !payload?.length) return null;
+              const day = payload[0].payload as RevenueDay & { formattedDay: string };
+              return (
+                <div className="rounded-lg border border-midnight-700/50 bg-midnight-900/95 backdrop-blur-md px-4 py-3 shadow-xl">
+                  <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">
+                    {day.formattedDay}
+                  </p>
+                  <p className="text-sm text-slate-300 font-mono">
+                    Accrued {day.accruedInterest.toFixed(4)} {symbol}
+                  </p>
+                  <p className="text-sm text-slate-300 font-mono">
+                    Realised {day.interestPaid.toFixed(4)} {symbol}
+                  </p>
+                  <p className="text-xs text-slate-500 font-mono mt-1">
+                    Fee {day.protocolFee.toFixed(4)} · Lenders {day.lenderYield.toFixed(4)} · {day.repayments} repayments
+                  </p>
+                </div>
+              );
+            }}
+          />
+          <Bar dataKey="accruedInterest" fill={ACCRUED_COLOR} radius={[3, 3, 0, 0]} />
+          <Bar dataKey="interestPaid" fill={REALISED_COLOR} radius={[3, 3, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { AtRiskResponse } from "@/types/metrics"
+import { apiBase } from "@/lib/apiUrl"
+
+export function useAtRiskBorrowers(vaultAddress: string | undefined, maxHealthFactor?: number) {
+  const [data, setData] = useState<AtRiskResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!vaultAddress) {
+      setData(null)
+      return
+    }
+
+    const fetchBorrowers = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const base = apiBase()
+        const max = maxHealthFactor !== undefined ? `&maxHealthFactor=${maxHealthFactor}` : ""
+        const url = `${base}/positions/at-risk?market=${vaultAddress}&limit=500${max}`
+        const res = await fetch(url)
+        if (!res.ok) throw new Error("Failed to fetch at-risk borrowers")
+        setData(await res.json())
+      } catch (err) {
+        setError(String(err))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBorrowers()
+  }, [vaultAddress, maxHealthFactor])
+
+  return { data, loading, error }
+}
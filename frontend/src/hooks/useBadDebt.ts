@@ -0,0 +1,38 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { BadDebtResponse } from "@/types/metrics"
+import { apiBase } from "@/lib/apiUrl"
+
+export function useBadDebt(vaultAddress: string | undefined) {
+  const [data, setData] = useState<BadDebtResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!vaultAddress) {
+      setData(null)
+      return
+    }
+
+    const fetchBadDebt = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const base = apiBase()
+        const url = `${base}/bad-debt?vault=${vaultAddress}&range=30d&limit=100`
+        const res = await fetch(url)
+        if (!res.ok) throw new Error("Failed to fetch bad debt")
+        setData(await res.json())
+      } catch (err) {
+        setError(String(err))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBadDebt()
+  }, [vaultAddress])
+
+  return { data, loading, error }
+}
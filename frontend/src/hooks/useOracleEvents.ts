@@ -0,0 +1,39 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { OracleEvent, TimeRange } from "@/types/metrics"
+import { apiBase } from "@/lib/apiUrl"
+
+export function useOracleEvents(asset: string | undefined, range: TimeRange) {
+  const [events, setEvents] = useState<OracleEvent[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!asset) {
+      setEvents([])
+      return
+    }
+
+    const fetchEvents = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const base = apiBase()
+        const url = `${base}/oracle/${asset.toLowerCase()}/events?range=${range}`
+        const res = await fetch(url)
+        if (!res.ok) throw new Error("Failed to fetch oracle events")
+        const data = await res.json()
+        setEvents(data.events ?? [])
+      } catch (err) {
+        setError(String(err))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchEvents()
+  }, [asset, range])
+
+  return { events, loading, error }
+}
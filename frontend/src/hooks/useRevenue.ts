@@ -0,0 +1,38 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { RevenueResponse, TimeRange } from "@/types/metrics"
+import { apiBase } from "@/lib/apiUrl"
+
+export function useRevenue(vaultAddress: string | undefined, range: TimeRange) {
+  const [data, setData] = useState<RevenueResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!vaultAddress) {
+      setData(null)
+      return
+    }
+
+    const fetchRevenue = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const base = apiBase()
+        const url = `${base}/revenue?vault=${vaultAddress}&range=${range}`
+        const res = await fetch(url)
+        if (!res.ok) throw new Error("Failed to fetch revenue")
+        setData(await res.json())
+      } catch (err) {
+        setError(String(err))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRevenue()
+  }, [vaultAddress, range])
+
+  return { data, loading, error }
+}
@@ -1,25 +1,38 @@
 // Sepolia Testnet Contract Addresses
-// USDC Market: DeployAll.s.sol (Jan 30, 2026)
-// WETH + WBTC Markets: DeployMarkets.s.sol (Feb 25, 2026)
+// Market, vault, IRM, oracle router and loan asset addresses come from the
+// generated market manifest (see vault-registry.ts); the rest are fixed.
+
+import type { VaultConfig } from "@/types/metrics";
+import { getVaultConfigBySymbol } from "./vault-registry";
+
+function marketFor(symbol: string): VaultConfig {
+  const config = getVaultConfigBySymbol(symbol);
+  if (!config) throw new Error(`${symbol} market missing from markets.manifest.json`);
+  return config;
+}
+
+const USDC_MARKET = marketFor("USDC");
+const WETH_MARKET = marketFor("WETH");
+const WBTC_MARKET = marketFor("WBTC");
 
 export const SEPOLIA_ADDRESSES = {
-  // ── USDC Market (Jan 30, 2026) ────────────────────────────────────────────
-  market: "0x12f8DA89619C40553d9eA50aAce593cEb2f3eFcE" as const,
+  // ── USDC Market ───────────────────────────────────────────────────────────
+  market: USDC_MARKET.marketAddress,
   marketImplementation: "0x217547Af931896123Df66354Ce285C13bCD379E5" as const,
-  vault: "0xE8323c3d293f81C71232023367Bada21137C055E" as const,
+  vault: USDC_MARKET.vaultAddress,
 
-  // ── WETH Market (Feb 25, 2026) ────────────────────────────────────────────
-  wethMarket: "0x9ef4141b954947800A47F46D11a6B2f366d1673b" as const,
-  wethVault:  "0xbbc4c7FbCcF0faa27821c4F44C01D3F81C088070" as const,
-  wethIrm:    "0xD886efbc840024A7758c8fefF115dBd5B1986A04" as const,
+  // ── WETH Market ───────────────────────────────────────────────────────────
+  wethMarket: WETH_MARKET.marketAddress,
+  wethVault:  WETH_MARKET.vaultAddress,
+  wethIrm:    WETH_MARKET.irmAddress,
 
-  // ── WBTC Market (Feb 25, 2026) ────────────────────────────────────────────
-  wbtcMarket: "0xD1928f50281c65fBC73c8a644D259F1A6633AC56" as const,
-  wbtcVault:  "0xBCB5fcA37f87a97eB1C5d6c9a92749e0F41161f0" as const,
-  wbtcIrm:    "0xaDEf01C0aD41b0e5e6AF74e885cD1805dC4FA8E9" as const,
+  // ── WBTC Market ───────────────────────────────────────────────────────────
+  wbtcMarket: WBTC_MARKET.marketAddress,
+  wbtcVault:  WBTC_MARKET.vaultAddress,
+  wbtcIrm:    WBTC_MARKET.irmAddress,
   oracle: "0x02dC7cA9865cDbE9D2930A9D50A79fe31BB4377E" as const,
-  oracleRouter: "0xf0a440147AAC2FF4349ca623f8bf9BD96EA43843" as const,
-  irm: "0x7Eca31bB8e6C9369b34cacf2dF32E815EbdcAdB2" as const,
+  oracleRouter: USDC_MARKET.oracleRouterAddress,
+  irm: USDC_MARKET.irmAddress,
   strategy: "0x7FC70540Ab332e9Fa74E6808352df88Ffd2Bfe36" as const,
   timelock: "0xE97D8FceEA76Bf5855F33e4aede175EEf79546DF" as const,
   riskEngine: "0x4866A7D31Db0F0eD1bE9e14D8d1E64D9F408359a" as const,
@@ -27,9 +40,9 @@ export const SEPOLIA_ADDRESSES = {
   riskProposer: "0x6c6d74e823F7072955fDdf7F53d5425D82fe6075" as const,
 
   // Mock Tokens (Sepolia)
-  usdc: "0xa23575D09B55c709590F7f5507b246043A8cF49b" as const,
-  weth: "0x655Af45748C1116B95339d189B1556c92d73ff77" as const,
-  wbtc: "0x3bCFE4F6f3b11c8dB62f8302dc53f5CCdb51F9c3" as const,
+  usdc: USDC_MARKET.loanAsset,
+  weth: WETH_MARKET.loanAsset,
+  wbtc: WBTC_MARKET.loanAsset,
 
   // Chainlink Price Feeds (Real Sepolia Feeds)
   usdcFeed: "0xA2F78ab2355fe2f984D808B5CeE7FD0A93D5270E" as const,
@@ -122,12 +122,18 @@ export interface CurrentMetricsResponse {
 export interface HistoryDataPoint {
   timestamp: string;
   value: number;
+  // Bucket extremes when the series comes from hourly/daily rollups
+  min?: number;
+  max?: number;
   severity: SeverityLevel;
 }
 
 export interface HistoryResponse {
   signal: string;
   range: string;
+  resolution?: "raw" | "hour" | "day";
+  from?: string;
+  to?: string;
   data: HistoryDataPoint[];
 }
 
@@ -174,3 +180,165 @@ export interface ProtocolOverviewResponse {
   totalBorrows: number;
   timestamp: string;
 }
+
+// Oracle event timeline (GET /oracle/:asset/events)
+export type OracleEventName =
+  | "LKGPriceUpdated"
+  | "PriceFeedAdded"
+  | "PriceFeedUpdated"
+  | "PriceFeedRemoved"
+  | "TWAPOracleRegistered"
+  | "TWAPOracleRemoved"
+  | "MaxPriceAgeUpdated";
+
+export interface OracleEvent {
+  eventName: OracleEventName;
+  asset: string | null;
+  oracleAddress: string;
+  price: number | null;
+  details: Record<string, string | number | boolean>;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: string;
+}
+
+export interface OracleEventsResponse {
+  asset: string;
+  range: string;
+  events: OracleEvent[];
+  count: number;
+}
+
+// Bad-debt ledger (GET /bad-debt)
+export interface MarketBadDebt {
+  marketId: string;
+  chainId: number;
+  label: string;
+  symbol: string;
+  vaultAddress: string;
+  /** Bad debt recorded within the requested window (USD) */
+  badDebt: number;
+  /** Running total at the end of the window (USD) */
+  cumulativeBadDebt: number;
+  totalAssets: number | null;
+  totalAssetsUsd: number | null;
+  /** cumulativeBadDebt / totalAssetsUsd — loss socialised to lenders */
+  badDebtShare: number | null;
+}
+
+export interface BorrowerBadDebt {
+  borrower: string;
+  marketId: string;
+  badDebt: number;
+  cumulativeBadDebt: number;
+}
+
+export interface BadDebtEvent {
+  eventName: "BadDebtRecorded" | "CollateralSeized";
+  marketId: string;
+  borrower: string;
+  liquidator: string | null;
+  token: string | null;
+  amount: number;
+  marketBadDebt: number;
+  borrowerBadDebt: number;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: string;
+}
+
+export interface BadDebtResponse {
+  range: string;
+  from: string;
+  to: string;
+  markets: MarketBadDebt[];
+  borrowers: BorrowerBadDebt[];
+  events: BadDebtEvent[];
+  count: number;
+}
+
+// Interest revenue (GET /revenue) — amounts in loan-asset units
+export interface RealisedRevenue {
+  repayments: number;
+  interestPaid: number;
+  principalPaid: number;
+  /** Share of interest sent to the protocol treasury */
+  protocolFee: number;
+  /** Share of interest repaid to the vault */
+  lenderYield: number;
+}
+
+export interface RevenueDay {
+  /** UTC day, YYYY-MM-DD */
+  day: string;
+  repayments: number;
+  interestPaid: number;
+  protocolFee: number;
+  lenderYield: number;
+  /** Interest accrued on borrows that day (globalBorrowIndex growth) */
+  accruedInterest: number;
+}
+
+export interface MarketRevenue {
+  marketId: string;
+  chainId: number;
+  label: string;
+  symbol: string;
+  vaultAddress: string;
+  realised: RealisedRevenue;
+  accruedInterest: number;
+  daily: RevenueDay[];
+}
+
+export interface RevenueResponse {
+  range: string;
+  from: string;
+  to: string;
+  markets: MarketRevenue[];
+}
+
+// At-risk borrowers (GET /positions/at-risk)
+export interface HealthFactorBucket {
+  from: number;
+  /** null for the open-ended last bucket */
+  to: number | null;
+  count: number;
+}
+
+export interface MarketBorrowerHealth {
+  marketId: string;
+  chainId: number;
+  label: string;
+  symbol: string;
+  vaultAddress: string;
+  /** Open borrowers in the market */
+  borrowers: number;
+  histogram: HealthFactorBucket[];
+}
+
+export type HealthBand = "healthy" | "warning" | "critical" | "liquidatable";
+
+export interface AtRiskPosition {
+  userAddress: string;
+  marketId: string;
+  label: string;
+  symbol: string;
+  collateralValue: number;
+  totalDebt: number;
+  healthFactor: number;
+  borrowingPower: number;
+  /** Share of collateral value that can be lost before HF reaches 1 */
+  distanceToLiquidation: number;
+  /** Band at the last health sweep; null before the first one */
+  healthBand: HealthBand | null;
+  blockNumber: number | null;
+  lastUpdated: string;
+}
+
+export interface AtRiskResponse {
+  markets: MarketBorrowerHealth[];
+  positions: AtRiskPosition[];
+  count: number;
+}
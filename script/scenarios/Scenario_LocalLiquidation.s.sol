@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "forge-std/Script.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+import "../../test/Mocks.sol";
+import "../../src/core/Vault.sol";
+import "../../src/core/PriceOracle.sol";
+import "../../src/core/InterestRateModel.sol";
+import "../../src/core/MarketV1.sol";
+import "../../src/core/OracleRouter.sol";
+
+/**
+ * @title Scenario_LocalLiquidation
+ * @notice Deploys a self-contained market on a local node and leaves one borrower
+ *         liquidatable at a profit — the fixture for the backend liquidation bot
+ * @dev Uses mock price feeds (no Chainlink), so it runs on a plain anvil node:
+ *      anvil
+ *      PRIVATE_KEY=<anvil key 0> BORROWER_PRIVATE_KEY=<anvil key 1> LIQUIDATOR_ADDRESS=<anvil account 2> \
+ *        forge script script/scenarios/Scenario_LocalLiquidation.s.sol --rpc-url http://127.0.0.1:8545 --broadcast
+ *
+ * After the script: WETH at $1800, borrower health factor ~0.97, and the liquidator
+ * holding enough USDC to repay the full debt. Liquidating seizes $15,750 of WETH for
+ * 15,000 USDC.
+ */
+contract Scenario_LocalLiquidation is Script {
+    uint256 constant LLTV = 0.85e18;
+    uint256 constant LIQUIDATION_PENALTY = 0.05e18;
+    uint256 constant PROTOCOL_FEE_RATE = 0.1e18;
+
+    uint256 constant LENDER_DEPOSIT = 100_000e6;
+    uint256 constant COLLATERAL_AMOUNT = 10e18;
+    uint256 constant BORROW_AMOUNT = 15_000e6;
+    uint256 constant LIQUIDATOR_FUNDS = 20_000e6;
+
+    // Prices (8 decimals)
+    int256 constant USDC_PRICE = 100_000_000; // $1
+    int256 constant INITIAL_PRICE = 200_000_000_000; // $2000
+    int256 constant DROPPED_PRICE = 180_000_000_000; // $1800
+
+    function run() external {
+        uint256 pk = vm.envUint("PRIVATE_KEY");
+        uint256 borrowerPk = vm.envUint("BORROWER_PRIVATE_KEY");
+        address liquidator = vm.envAddress("LIQUIDATOR_ADDRESS");
+        address deployer = vm.addr(pk);
+        address borrower = vm.addr(borrowerPk);
+
+        // 1. Deploy tokens, feeds and oracles
+        vm.startBroadcast(pk);
+
+        MockERC20 usdc = new MockERC20("USD Coin", "USDC", 6);
+        MockERC20 weth = new MockERC20("Wrapped Ether", "WETH", 18);
+        MockPriceFeed usdcFeed = new MockPriceFeed(USDC_PRICE);
+        MockPriceFeed wethFeed = new MockPriceFeed(INITIAL_PRICE);
+        MockStrategy strategy = new MockStrategy(usdc, "USDC Strategy", "sUSDC");
+
+        PriceOracle oracle = new PriceOracle(deployer);
+        oracle.addPriceFeed(address(usdc), address(usdcFeed));
+        oracle.addPriceFeed(address(weth), address(wethFeed));
+        OracleRouter oracleRouter = new OracleRouter(address(oracle), deployer);
+        oracle.transferOwnership(address(oracleRouter));
+
+        // 2. Deploy vault, IRM and market
+        Vault vault =
+            new Vault(IERC20(address(usdc)), address(0), address(strategy), deployer, "Lending Vault Token", "vToken");
+        InterestRateModel irm =
+            new InterestRateModel(0.02e18, 0.8e18, 0.04e18, 0.6e18, address(vault), address(0), deployer);
+        MarketV1 implementation = new MarketV1();
+        bytes memory initData = abi.encodeWithSelector(
+            MarketV1.initialize.selector,
+            deployer,
+            deployer,
+            address(vault),
+            address(oracleRouter),
+            address(irm),
+            address(usdc),
+            deployer
+        );
+        MarketV1 market = MarketV1(address(new ERC1967Proxy(address(implementation), initData)));
+
+        vault.setMarket(address(market));
+        irm.setMarketContract(address(market));
+        market.setMarketParameters(LLTV, LIQUIDATION_PENALTY, PROTOCOL_FEE_RATE);
+        market.addCollateralToken(address(weth), address(wethFeed));
+
+        // 3. Fund the vault, the borrower and the liquidator
+        usdc.mint(deployer, LENDER_DEPOSIT);
+        usdc.approve(address(vault), LENDER_DEPOSIT);
+        vault.deposit(LENDER_DEPOSIT, deployer);
+        weth.mint(borrower, COLLATERAL_AMOUNT);
+        usdc.mint(liquidator, LIQUIDATOR_FUNDS);
+
+        vm.stopBroadcast();
+
+        // 4. Borrow against WETH at $2000 (health factor ~1.08)
+        vm.startBroadcast(borrowerPk);
+        weth.approve(address(market), COLLATERAL_AMOUNT);
+        market.depositCollateral(address(weth), COLLATERAL_AMOUNT);
+        market.borrow(BORROW_AMOUNT);
+        vm.stopBroadcast();
+
+        // 5. Drop WETH to $1800 — liquidatable, with collateral to spare
+        vm.startBroadcast(pk);
+        wethFeed.setPrice(DROPPED_PRICE);
+        vm.stopBroadcast();
+
+        console.log("LOAN_ASSET_ADDRESS=", address(usdc));
+        console.log("WETH_ADDRESS=", address(weth));
+        console.log("WETH_FEED=", address(wethFeed));
+        console.log("VAULT_ADDRESS=", address(vault));
+        console.log("IRM_ADDRESS=", address(irm));
+        console.log("ORACLE_ROUTER=", address(oracleRouter));
+        console.log("MARKET_PROXY=", address(market));
+        console.log("BORROWER=", borrower);
+    }
+}